@@ -1,4 +1,25 @@
-import type { ExportFormatDefinition } from "./types";
+import type {
+  AddressMaskStrategy,
+  BufferOrigin,
+  BufferUnit,
+  ColumnFormatter,
+  CsvDelimiter,
+  CsvExportOptions,
+  CsvRowShape,
+  ExportFormatDefinition,
+  FieldMapping,
+  FieldMappingSource,
+  GeoJsonCrsMode,
+  MailingLabelLayout,
+  MailingLabelTemplateId,
+  MaskingPolicy,
+  NameMaskStrategy,
+  OrgNumberMaskStrategy,
+  OwnerMaskField,
+  SelectionPersistence,
+  SketchCreateOptions,
+  SketchTool,
+} from "./types";
 
 export const ESRI_MODULES_TO_LOAD = [
   "esri/symbols/SimpleFillSymbol",
@@ -16,13 +37,83 @@ export const GRID_COLUMN_KEYS = {
   ADDRESS: "ADDRESS",
 } as const;
 
+// Table columns: plain ids are built-in row columns, "source:FIELD" ids read
+// raw layer attributes
+export const DEFAULT_DISPLAY_COLUMNS = ["FASTIGHET", "BOSTADR"] as const;
+export const DISPLAY_COLUMN_SOURCE_SEPARATOR = ":";
+export const BUILT_IN_COLUMNS: {
+  readonly [id: string]: {
+    readonly columnId: string;
+    readonly rowKey: "FASTIGHET" | "ADDRESS" | "FNR" | "UUID_FASTIGHET";
+    readonly headerKey: string;
+  };
+} = {
+  FASTIGHET: {
+    columnId: GRID_COLUMN_KEYS.FASTIGHET,
+    rowKey: "FASTIGHET",
+    headerKey: "columnFastighet",
+  },
+  // BOSTADR is kept as an alias for the formatted owner column
+  BOSTADR: {
+    columnId: GRID_COLUMN_KEYS.ADDRESS,
+    rowKey: "ADDRESS",
+    headerKey: "columnAddress",
+  },
+  ADDRESS: {
+    columnId: GRID_COLUMN_KEYS.ADDRESS,
+    rowKey: "ADDRESS",
+    headerKey: "columnAddress",
+  },
+  FNR: { columnId: "FNR", rowKey: "FNR", headerKey: "columnFnr" },
+  UUID_FASTIGHET: {
+    columnId: "UUID_FASTIGHET",
+    rowKey: "UUID_FASTIGHET",
+    headerKey: "columnUuid",
+  },
+} as const;
+export const COLUMN_FORMATTERS: readonly ColumnFormatter[] = [
+  "text",
+  "fraction",
+  "orgNumber",
+] as const;
+// Largest denominator tried when turning a decimal share into a fraction
+export const FRACTION_MAX_DENOMINATOR = 1000;
+// Rounding slack when checking that a property's owner shares sum to 1
+export const SHARE_TOTAL_TOLERANCE = 1e-6;
+// Raw owner fields masked in table cells when PII masking is on
+export const PII_COLUMN_MASKS: {
+  readonly [field: string]: OwnerMaskField;
+} = {
+  NAMN: "name",
+  AGARLISTA: "ownerList",
+  BOSTADR: "address",
+  POSTNR: "postalCode",
+  POSTADR: "city",
+  ORGNR: "orgNumber",
+} as const;
+// Raw owner fields shown as they are when PII masking is on; any other owner
+// field is redacted, since the layer may hold more personal data
+export const OWNER_PUBLIC_COLUMNS: readonly string[] = [
+  "OBJECTID",
+  "FNR",
+  "UUID_FASTIGHET",
+  "FASTIGHET",
+  "ANDEL",
+];
+
 export const QUERY_DEFAULTS = {
   RETURN_GEOMETRY: true,
   OUT_FIELDS: ["*"],
   SPATIAL_RELATIONSHIP: "intersects" as const,
   MAX_RETRY_ATTEMPTS: 2,
   TIMEOUT_MS: 15_000,
+  RETRY_BASE_DELAY_MS: 500,
+  RETRY_MAX_DELAY_MS: 4_000,
 } as const;
+// HTTP statuses worth retrying: timeouts, throttling and server hiccups
+export const RETRYABLE_HTTP_STATUSES: readonly number[] = [
+  408, 429, 500, 502, 503, 504,
+];
 export const MIN_MASK_LENGTH = 3;
 export const MAX_MASK_ASTERISKS = 3;
 export const DEFAULT_MAX_RESULTS = 100;
@@ -55,36 +146,328 @@ export const WIDGET_STARTUP_DELAY_MS = 1500;
 // Minimum time to show spinner after it appears (prevents flash)
 export const MIN_SPINNER_DISPLAY_MS = 500;
 
+// Row flash: highlight visibility toggles (even count so it ends visible)
+export const ROW_FLASH_INTERVAL_MS = 250;
+export const ROW_FLASH_TOGGLE_COUNT = 6;
+
+// Row/map linking: emphasis drawn over the linked parcel's highlight
+export const ROW_EMPHASIS_OPACITY_BOOST = 0.35;
+export const ROW_EMPHASIS_OUTLINE_FACTOR = 2;
+export const ROW_EMPHASIS_MIN_OUTLINE_WIDTH = 3;
+
 export const EXPORT_FORMATS: ExportFormatDefinition[] = [
   {
     id: "json",
     label: "JSON",
-    description: "Property designations with owner information",
+    description: "Versioned document with properties, owners and geometry",
     extension: "json",
     mimeType: "application/json",
   },
   {
     id: "csv",
     label: "CSV",
-    description: "Spreadsheet format (attributes only)",
+    description: "Spreadsheet with chosen columns, separator and row shape",
     extension: "csv",
     mimeType: "text/csv",
   },
   {
     id: "geojson",
     label: "GeoJSON",
-    description: "Geographic data format",
+    description: "Map features with bbox, in WGS84 by default",
     extension: "geojson",
     mimeType: "application/geo+json",
   },
+  {
+    id: "xlsx",
+    label: "XLSX",
+    description: "Excel workbook with owners and a summary sheet",
+    extension: "xlsx",
+    mimeType:
+      "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  },
+  {
+    id: "report",
+    label: "Report",
+    description: "PDF report with a map of the selection and an owner table",
+    extension: "pdf",
+    mimeType: "application/pdf",
+  },
+  {
+    id: "labels",
+    label: "Labels",
+    description: "Mailing labels, one per owner address, as PDF",
+    extension: "pdf",
+    mimeType: "application/pdf",
+  },
+  {
+    id: "recipients",
+    label: "Recipients",
+    description: "Mailing list for mail merge, one row per owner address",
+    extension: "csv",
+    mimeType: "text/csv",
+  },
+];
+
+// Bump when the JSON export document changes shape
+export const JSON_EXPORT_VERSION = 1;
+
+// GeoJSON export: RFC 7946 readers expect WGS84 longitude/latitude
+export const GEOJSON_CRS_MODES: readonly GeoJsonCrsMode[] = ["wgs84", "native"];
+export const DEFAULT_GEOJSON_CRS_MODE: GeoJsonCrsMode = "wgs84";
+// Six decimals of a degree is about 10 cm on the ground
+export const DEFAULT_GEOJSON_PRECISION = 6;
+export const GEOJSON_MIN_PRECISION = 0;
+export const GEOJSON_MAX_PRECISION = 10;
+
+// Geographic systems whose coordinates are already WGS84 longitude/latitude
+export const WGS84_WKIDS: readonly number[] = [4326, 4258, 4619];
+
+// Excel export settings (widths in characters)
+export const XLSX_MIN_COLUMN_WIDTH = 8;
+export const XLSX_MAX_COLUMN_WIDTH = 60;
+export const XLSX_CELL_MAX_LENGTH = 32_767;
+export const XLSX_SHEET_NAME_MAX_LENGTH = 31;
+export const XLSX_SHEET_NAMES = {
+  OWNERS: "Owners",
+  SUMMARY: "Summary",
+} as const;
+export const XLSX_SUMMARY_LABELS = {
+  HEADER_ITEM: "Item",
+  HEADER_VALUE: "Value",
+  PROPERTIES: "Properties",
+  OWNER_ROWS: "Owner rows",
+  PII_MASKING: "PII masking",
+  EXPORTED_AT: "Exported at",
+} as const;
+// One row per owner share, in this column order
+export const XLSX_OWNER_COLUMNS = [
+  { header: "FNR", type: "number" },
+  { header: "UUID_FASTIGHET", type: "string" },
+  { header: "FASTIGHET", type: "string" },
+  { header: "NAMN", type: "string" },
+  { header: "BOSTADR", type: "string" },
+  { header: "POSTNR", type: "string" },
+  { header: "POSTADR", type: "string" },
+  { header: "ORGNR", type: "string" },
+  { header: "ANDEL", type: "string" },
+  { header: "ANDEL_DECIMAL", type: "number" },
+] as const;
+
+// PDF output (sizes in points)
+export const PDF_MM_TO_PT = 72 / 25.4;
+export const PDF_TEXT_COLOR = [0, 0, 0] as const;
+export const PDF_A4_WIDTH = 595.28;
+export const PDF_A4_HEIGHT = 841.89;
+
+// Property report layout (points) and map snapshot
+export const REPORT_PAGE_MARGIN = 40;
+export const REPORT_TITLE_FONT_SIZE = 16;
+export const REPORT_META_FONT_SIZE = 9;
+export const REPORT_TABLE_FONT_SIZE = 9;
+export const REPORT_TABLE_LINE_HEIGHT = 11;
+export const REPORT_TABLE_CELL_PADDING = 4;
+export const REPORT_MAP_MAX_HEIGHT = 340;
+export const REPORT_LEGEND_SWATCH_SIZE = 12;
+export const REPORT_MUTED_COLOR = [0.4, 0.4, 0.4] as const;
+export const REPORT_HEADER_FILL = [0.92, 0.92, 0.92] as const;
+export const REPORT_RULE_COLOR = [0.8, 0.8, 0.8] as const;
+// Share of the table width per column: designation, owner, share
+export const REPORT_COLUMN_WIDTHS = [0.28, 0.57, 0.15] as const;
+// Margin around the selection in the snapshot
+export const REPORT_EXTENT_EXPAND = 1.2;
+export const REPORT_SCREENSHOT_QUALITY = 85;
+
+// Mailing labels: Avery-style A4 sheets, measurements in millimetres
+export const MAILING_LABEL_TEMPLATES: {
+  readonly [K in MailingLabelTemplateId]: MailingLabelLayout;
+} = {
+  "3474": {
+    columns: 3,
+    rows: 8,
+    pageWidth: 210,
+    pageHeight: 297,
+    marginTop: 0.5,
+    marginLeft: 0,
+    labelWidth: 70,
+    labelHeight: 37,
+    gapX: 0,
+    gapY: 0,
+  },
+  L7160: {
+    columns: 3,
+    rows: 7,
+    pageWidth: 210,
+    pageHeight: 297,
+    marginTop: 15.15,
+    marginLeft: 7.2,
+    labelWidth: 63.5,
+    labelHeight: 38.1,
+    gapX: 2.5,
+    gapY: 0,
+  },
+  L7161: {
+    columns: 3,
+    rows: 6,
+    pageWidth: 210,
+    pageHeight: 297,
+    marginTop: 8.7,
+    marginLeft: 7.2,
+    labelWidth: 63.5,
+    labelHeight: 46.6,
+    gapX: 2.5,
+    gapY: 0,
+  },
+  L7163: {
+    columns: 2,
+    rows: 7,
+    pageWidth: 210,
+    pageHeight: 297,
+    marginTop: 15.15,
+    marginLeft: 4.65,
+    labelWidth: 99.1,
+    labelHeight: 38.1,
+    gapX: 2.5,
+    gapY: 0,
+  },
+};
+export const MAILING_LABEL_TEMPLATE_IDS: readonly MailingLabelTemplateId[] = [
+  "3474",
+  "L7160",
+  "L7161",
+  "L7163",
 ];
+export const DEFAULT_MAILING_LABEL_TEMPLATE: MailingLabelTemplateId = "3474";
+export const MAILING_LABEL_PADDING_MM = 5;
+export const MAILING_LABEL_FONT_SIZE = 10;
+export const MAILING_LABEL_LINE_HEIGHT = 12;
+export const MAILING_CSV_HEADERS = [
+  "TYPE",
+  "NAME",
+  "ORGNR",
+  "ADDRESS",
+  "POSTAL_CODE",
+  "CITY",
+  "PROPERTIES",
+  "FNR",
+] as const;
 
 // Hex color validation pattern
 export const HEX_COLOR_PATTERN = /^#?([0-9a-fA-F]{6})$/;
 
-// Query cache settings
-export const QUERY_CACHE_MAX_SIZE = 50;
+// Buffer search settings
+export const BUFFER_UNITS: readonly BufferUnit[] = [
+  "meters",
+  "kilometers",
+  "feet",
+  "miles",
+] as const;
+export const BUFFER_UNIT_TO_METERS: { readonly [K in BufferUnit]: number } = {
+  meters: 1,
+  kilometers: 1000,
+  feet: 0.3048,
+  miles: 1609.344,
+} as const;
+export const BUFFER_DEFAULT_DISTANCE = 50;
+export const BUFFER_DEFAULT_UNIT: BufferUnit = "meters";
+export const BUFFER_ORIGINS: readonly BufferOrigin[] = ["parcel", "point"];
+export const BUFFER_DEFAULT_ORIGIN: BufferOrigin = "parcel";
+export const BUFFER_MAX_DISTANCE_METERS = 5000;
+export const BUFFER_PREVIEW_FILL_OPACITY = 0.08;
+
+// Sketch selection tools (lasso is a freehand polygon)
+export const SKETCH_TOOLS: readonly SketchTool[] = [
+  "rectangle",
+  "polygon",
+  "lasso",
+  "polyline",
+] as const;
+export const SKETCH_CREATE_OPTIONS: {
+  readonly [K in SketchTool]: SketchCreateOptions;
+} = {
+  rectangle: { tool: "rectangle" },
+  polygon: { tool: "polygon", mode: "click" },
+  lasso: { tool: "polygon", mode: "freehand" },
+  polyline: { tool: "polyline", mode: "click" },
+} as const;
+
+// FBWebb report link settings
+export const FBWEBB_URL_PARAMS = {
+  DATABASE: "database",
+  USER: "user",
+  FNR: "fnr",
+} as const;
+export const FBWEBB_FNR_SEPARATOR = ",";
+export const FBWEBB_MAX_URL_LENGTH = 8000;
+
+// Experience Builder messages: selections requested by other widgets are
+// handed to the runtime through this mutable state key
+export const MESSAGE_SELECTION_STATE_KEY = "messageSelection";
+export const MESSAGE_FNR_SEPARATOR_PATTERN = /[\s,;]+/;
+export const FNR_QUERY_BATCH_SIZE = 100;
+
+// Select from list: plain text or CSV, the first cell of each line is used
+export const SELECTION_LIST_MAX_ENTRIES = 500;
+export const SELECTION_LIST_MAX_FILE_BYTES = 1_000_000;
+export const SELECTION_LIST_FILE_ACCEPT = ".csv,.txt,text/csv,text/plain";
+export const SELECTION_LIST_CELL_SEPARATOR = /[;,\t]/;
+// First-line cells treated as a header row rather than an entry
+export const SELECTION_LIST_HEADER_NAMES = [
+  "FNR",
+  "FASTIGHET",
+  "FASTIGHETSBETECKNING",
+  "BETECKNING",
+  "DESIGNATION",
+] as const;
+
+// Selection persistence and share links
+export const SELECTION_PERSISTENCE_MODES: readonly SelectionPersistence[] = [
+  "off",
+  "session",
+  "local",
+] as const;
+export const SELECTION_STORAGE_PREFIX = "property-widget:selection";
+export const SELECTION_STORAGE_VERSION = 1;
+export const SHARE_HASH_PARAM_PREFIX = "property_fnr_";
+export const SHARE_FNR_SEPARATOR = ",";
+export const SHARE_URL_MAX_LENGTH = 8000;
+
+// Field mapping: defaults are also the canonical attribute names used internally
+export const DEFAULT_FIELD_MAPPING: Readonly<FieldMapping> = {
+  fnr: "FNR",
+  uuid: "UUID_FASTIGHET",
+  designation: "FASTIGHET",
+  ownerFnr: "FNR",
+  ownerName: "NAMN",
+  ownerList: "AGARLISTA",
+  address: "BOSTADR",
+  postalCode: "POSTNR",
+  city: "POSTADR",
+  share: "ANDEL",
+  orgNumber: "ORGNR",
+} as const;
+export const FIELD_MAPPING_SOURCES: {
+  readonly [K in keyof FieldMapping]: FieldMappingSource;
+} = {
+  fnr: "property",
+  uuid: "property",
+  designation: "property",
+  ownerFnr: "owner",
+  ownerName: "owner",
+  ownerList: "owner",
+  address: "owner",
+  postalCode: "owner",
+  city: "owner",
+  share: "owner",
+  orgNumber: "owner",
+} as const;
+// Plain or qualified (table.field) identifiers; anything else is rejected
+export const FIELD_NAME_PATTERN =
+  /^[A-Za-z_][A-Za-z0-9_]*(?:\.[A-Za-z_][A-Za-z0-9_]*)?$/;
+
+// Query cache settings (owner lookups, one entry per data source and FNR)
+export const QUERY_CACHE_MAX_SIZE = 500;
 export const QUERY_CACHE_EVICTION_PERCENTAGE = 0.2;
+export const QUERY_CACHE_TTL_MS = 5 * 60 * 1000;
 
 // CSV export settings
 // Header order: FNR, UUID_FASTIGHET, FASTIGHET, BOSTADR, ADDRESS
@@ -95,6 +478,29 @@ export const CSV_HEADERS = [
   "BOSTADR",
   "ADDRESS",
 ] as const;
+export const CSV_DELIMITERS: { readonly [K in CsvDelimiter]: string } = {
+  comma: ",",
+  semicolon: ";",
+  tab: "\t",
+};
+export const CSV_DELIMITER_IDS: readonly CsvDelimiter[] = [
+  "comma",
+  "semicolon",
+  "tab",
+];
+export const CSV_ROW_SHAPES: readonly CsvRowShape[] = ["owner", "property"];
+export const CSV_BOM = "\uFEFF";
+// Joins the owners' values in one-line-per-property files
+export const CSV_VALUE_SEPARATOR = "; ";
+export const DEFAULT_CSV_EXPORT_OPTIONS: CsvExportOptions = {
+  delimiter: "comma",
+  includeBom: false,
+  columns: CSV_HEADERS,
+  rowShape: "owner",
+};
+// Last CSV choices, kept per user in localStorage
+export const CSV_OPTIONS_STORAGE_PREFIX = "property-widget:csv-options";
+export const CSV_OPTIONS_STORAGE_VERSION = 1;
 
 // Redux store action types
 export const PROPERTY_ACTION_TYPES = [
@@ -105,8 +511,13 @@ export const PROPERTY_ACTION_TYPES = [
   "PROPERTY_WIDGET/SET_QUERY_IN_FLIGHT",
   "PROPERTY_WIDGET/SET_RAW_RESULTS",
   "PROPERTY_WIDGET/REMOVE_WIDGET_STATE",
+  "PROPERTY_WIDGET/UNDO",
+  "PROPERTY_WIDGET/REDO",
 ] as const;
 
+// Selection history depth per widget (undo and redo stacks each)
+export const SELECTION_HISTORY_LIMIT = 20;
+
 // HTML sanitization patterns
 export const HTML_WHITESPACE_PATTERN = /[\s\u00A0\u200B]+/g;
 
@@ -136,6 +547,35 @@ export const IDENTITY_KEY_PREFIXES = {
 export const SPACE_CHAR_CODE = 32;
 export const DEFAULT_MASK = "***";
 
+// Privacy: masking rules per owner field (the default keeps the original
+// patterns: first letter of each name part, first two street characters)
+export const DEFAULT_MASKING_POLICY: Readonly<MaskingPolicy> = {
+  name: "partial",
+  address: "partial",
+  orgNumber: "keep",
+  exemptOrganizations: false,
+};
+export const NAME_MASK_STRATEGIES: readonly NameMaskStrategy[] = [
+  "partial",
+  "initials",
+  "redact",
+] as const;
+export const ADDRESS_MASK_STRATEGIES: readonly AddressMaskStrategy[] = [
+  "partial",
+  "hideStreet",
+  "redact",
+] as const;
+export const ORG_NUMBER_MASK_STRATEGIES: readonly OrgNumberMaskStrategy[] = [
+  "keep",
+  "redact",
+] as const;
+
+// Privacy: unmasking by ArcGIS group or role, and its audit trail
+export const PII_ACCESS_LIST_SEPARATOR = /[\n,;]+/;
+export const AUDIT_LOG_MAX_EVENTS = 500;
+export const AUDIT_LOG_MIME_TYPE = "application/json;charset=utf-8";
+export const AUDIT_MEMORY_SINK_ID = "memory";
+
 // Validation: Network security patterns
 export const LOCALHOST_PATTERNS = ["localhost", "127.0.0.1", "::1", "[::1]"];
 export const PRIVATE_IP_REGEX =
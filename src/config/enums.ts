@@ -13,4 +13,6 @@ export enum PropertyActionType {
   SET_QUERY_IN_FLIGHT = "PROPERTY_WIDGET/SET_QUERY_IN_FLIGHT",
   SET_RAW_RESULTS = "PROPERTY_WIDGET/SET_RAW_RESULTS",
   REMOVE_WIDGET_STATE = "PROPERTY_WIDGET/REMOVE_WIDGET_STATE",
+  UNDO = "PROPERTY_WIDGET/UNDO",
+  REDO = "PROPERTY_WIDGET/REDO",
 }
@@ -32,6 +32,16 @@ export const createWidgetStyles = (theme: IMThemeVariables) => {
     flex: "1 1 0",
   };
 
+  const tableRow = {
+    borderBlockEnd: border,
+    "&:last-child": {
+      borderBlockEnd: "none",
+    },
+    "&:hover": {
+      backgroundColor: color?.surface?.background,
+    },
+  };
+
   return {
     parent: createFlex("column", {
       flex: "1 1 auto",
@@ -55,6 +65,27 @@ export const createWidgetStyles = (theme: IMThemeVariables) => {
       alignItems: "center",
       justifyContent: "end",
     }),
+    bufferPanel: createFlexAuto("row", {
+      alignItems: "center",
+      flexWrap: "wrap",
+      gap: spacing?.(1),
+      padding: spacing?.(1),
+      borderBlockStart: border,
+    }),
+    bufferDistance: css({
+      flex: "1 1 0",
+      minInlineSize: 0,
+    }),
+    bufferUnit: css({
+      flex: "1 1 0",
+      minInlineSize: 0,
+    }),
+    bufferStatus: css({
+      inlineSize: "100%",
+      fontFamily: typography?.label2?.fontFamily,
+      fontSize: typography?.label2?.fontSize,
+      opacity: 0.7,
+    }),
     cols: createFlexAuto("row", {
       borderBlockStart: border,
       borderBlockEnd: border,
@@ -101,14 +132,12 @@ export const createWidgetStyles = (theme: IMThemeVariables) => {
       userSelect: "none",
     }),
     tbody: css({}),
-    tr: css({
-      borderBlockEnd: border,
-      "&:last-child": {
-        borderBlockEnd: "none",
-      },
-      "&:hover": {
-        backgroundColor: color?.surface?.background,
-      },
+    tr: css(tableRow),
+    // Row linked to the emphasized parcel on the map
+    trLinked: css({
+      ...tableRow,
+      backgroundColor: color?.surface?.background,
+      boxShadow: `inset 3px 0 0 ${color?.primary?.main}`,
     }),
     td: css({
       padding: spacing?.(1),
@@ -125,6 +154,117 @@ export const createWidgetStyles = (theme: IMThemeVariables) => {
       fontSize: typography?.label2?.fontSize,
       fontWeight: typography?.label2?.fontWeight,
     }),
+    filterRow: css({
+      borderBlockEnd: border,
+    }),
+    thFilter: css({
+      padding: spacing?.(1),
+      borderInlineEnd: border,
+      "&:last-child": {
+        borderInlineEnd: "none",
+      },
+      fontWeight: "normal",
+    }),
+    tdEmpty: css({
+      padding: spacing?.(2),
+      textAlign: "center",
+      fontFamily: typography?.label2?.fontFamily,
+      fontSize: typography?.label2?.fontSize,
+    }),
+    tableToolbar: createFlexAuto("row", {
+      alignItems: "center",
+      gap: spacing?.(1),
+    }),
+    quickSearch: css({
+      flex: "1 1 auto",
+    }),
+    thActions: css({
+      padding: spacing?.(1),
+      textAlign: "left",
+      borderBlockEnd: border,
+      borderInlineEnd: border,
+      fontWeight: 500,
+      inlineSize: "1%",
+      whiteSpace: "nowrap",
+    }),
+    tdActions: css({
+      paddingInline: spacing?.(1),
+      borderInlineEnd: border,
+      verticalAlign: "top",
+      inlineSize: "1%",
+      whiteSpace: "nowrap",
+    }),
+    rowActions: createFlexAuto("row", {
+      alignItems: "center",
+      gap: 2,
+    }),
+    trDetails: css({
+      borderBlockEnd: border,
+      backgroundColor: color?.surface?.background,
+    }),
+    tdDetails: css({
+      padding: spacing?.(2),
+      fontFamily: typography?.label2?.fontFamily,
+      fontSize: typography?.label2?.fontSize,
+    }),
+    detailPanel: createFlex("column", {
+      gap: spacing?.(2),
+    }),
+    detailFields: css({
+      display: "grid",
+      gridTemplateColumns: "max-content 1fr",
+      columnGap: spacing?.(2),
+      rowGap: 2,
+      margin: 0,
+      "& dt": { fontWeight: 500 },
+      "& dd": { margin: 0, wordBreak: "break-word" },
+    }),
+    detailSubheading: css({
+      fontWeight: 500,
+    }),
+    detailOwners: createFlex("column", {
+      gap: spacing?.(2),
+      margin: 0,
+      padding: 0,
+      listStyle: "none",
+    }),
+    detailOwner: createFlex("column", {
+      gap: spacing?.(1),
+      paddingInlineStart: spacing?.(2),
+      borderInlineStart: border,
+    }),
+    detailOwnerName: css({
+      fontWeight: 500,
+    }),
+    detailOwnerList: css({
+      margin: 0,
+      paddingInlineStart: spacing?.(4),
+    }),
+    trGroup: css({
+      ...tableRow,
+      backgroundColor: color?.surface?.background,
+      fontWeight: 500,
+    }),
+    tdGroup: css({
+      padding: spacing?.(1),
+      verticalAlign: "top",
+    }),
+    groupSummary: createFlexAuto("row", {
+      alignItems: "baseline",
+      flexWrap: "wrap",
+      columnGap: spacing?.(2),
+    }),
+    groupMeta: css({
+      fontWeight: "normal",
+      fontFamily: typography?.label2?.fontFamily,
+      fontSize: typography?.label2?.fontSize,
+    }),
+    shareWarning: css({
+      fontWeight: 500,
+      fontFamily: typography?.label2?.fontFamily,
+      fontSize: typography?.label2?.fontSize,
+      color: color?.warning?.dark,
+    }),
     sortIndicator: css({
       marginInlineStart: spacing?.(6),
       display: "inline-block",
@@ -172,6 +312,79 @@ export const createWidgetStyles = (theme: IMThemeVariables) => {
       inlineSize: "100%",
       marginBlockStart: spacing?.(1),
     }),
+    listDialogBody: createFlex("column", {
+      gap: spacing?.(2),
+    }),
+    listDialogHint: css({
+      fontFamily: typography?.label2?.fontFamily,
+      fontSize: typography?.label2?.fontSize,
+      opacity: 0.7,
+    }),
+    listDialogInput: css({
+      inlineSize: "100%",
+      minBlockSize: 160,
+      fontFamily: "monospace",
+    }),
+    listDialogReport: createFlex("column", {
+      gap: spacing?.(1),
+      fontFamily: typography?.label2?.fontFamily,
+      fontSize: typography?.label2?.fontSize,
+    }),
+    listDialogUnresolved: css({
+      maxBlockSize: 160,
+      overflowY: "auto",
+      margin: 0,
+      paddingInlineStart: spacing?.(4),
+    }),
+    auditLogList: css({
+      maxBlockSize: 320,
+      overflowY: "auto",
+      margin: 0,
+      padding: 0,
+      listStyle: "none",
+      fontFamily: typography?.label2?.fontFamily,
+      fontSize: typography?.label2?.fontSize,
+    }),
+    auditLogEntry: createFlex("column", {
+      gap: spacing?.(0.5),
+      paddingBlock: spacing?.(1),
+      borderBlockEnd: border,
+    }),
+    auditLogMeta: css({
+      opacity: 0.7,
+    }),
+    auditLogFnrs: css({
+      fontFamily: "monospace",
+      wordBreak: "break-all",
+    }),
+    csvDialogField: createFlex("column", {
+      gap: spacing?.(1),
+    }),
+    csvDialogCheckLabel: css({
+      marginInlineStart: spacing?.(1),
+    }),
+    csvColumnList: css({
+      maxBlockSize: 240,
+      overflowY: "auto",
+      margin: 0,
+      padding: 0,
+      listStyle: "none",
+      fontFamily: typography?.label2?.fontFamily,
+      fontSize: typography?.label2?.fontSize,
+    }),
+    csvColumnItem: createFlex("row", {
+      alignItems: "center",
+      gap: spacing?.(0.5),
+      "& > span": { flex: "1 1 auto", minInlineSize: 0 },
+    }),
+    visuallyHidden: css({
+      position: "absolute",
+      inlineSize: 1,
+      blockSize: 1,
+      overflow: "hidden",
+      clip: "rect(0 0 0 0)",
+      whiteSpace: "nowrap",
+    }),
     footer: createFlexAuto("row", {
       borderBlockStart: border,
       fontFamily: typography?.label2?.fontFamily,
@@ -285,6 +498,15 @@ export const createSettingStyles = (theme: IMThemeVariables) => {
       inlineSize: "100%",
       minInlineSize: 0,
     }),
+    columnEditor: createFlex("column", {
+      inlineSize: "100%",
+      gap: spacing?.(1),
+    }),
+    columnEditorActions: createFlex("row", {
+      inlineSize: "100%",
+      alignItems: "center",
+      gap: spacing?.(1),
+    }),
   } as const;
 };
 
@@ -4,7 +4,11 @@ import type {
   IMState,
   WidgetState,
 } from "jimu-core";
-import type { ColumnDef, SortingState } from "@tanstack/react-table";
+import type {
+  ColumnDef,
+  ColumnFiltersState,
+  SortingState,
+} from "@tanstack/react-table";
 import type { Immutable } from "seamless-immutable";
 import type { WidgetStyles } from "./style";
 
@@ -35,16 +39,149 @@ export interface Config {
   enableToggleRemoval: boolean;
   allowedHosts?: readonly string[];
   enablePIIMasking: boolean;
+  // ArcGIS groups (id or title) and roles whose members may unmask owner data
+  piiAccessGroups?: readonly string[];
+  piiAccessRoles?: readonly string[];
+  maskingPolicy?: Partial<MaskingPolicy>;
+  // Optional HTTPS endpoint that receives every audit event as JSON
+  auditEndpoint?: string;
+  mailingLabelTemplate?: MailingLabelTemplateId;
+  geojsonCrs?: GeoJsonCrsMode;
+  geojsonPrecision?: number;
+  bufferOrigin?: BufferOrigin;
+  exportFilteredRowsOnly?: boolean;
+  selectionPersistence?: SelectionPersistence;
   relationshipId?: number;
   enableBatchOwnerQuery: boolean;
   highlightColor?: string;
   highlightOpacity?: number;
   outlineWidth?: number;
   autoCloseOtherWidgets?: boolean;
+  fbwebbBaseUrl?: string;
+  fbwebbDatabase?: string;
+  fbwebbUser?: string;
+  fieldMapping?: Partial<FieldMapping>;
+  columnSettings?: { [columnId: string]: ColumnSettings };
 }
 
 export type IMConfig = ImmutableObject<Config>;
 
+// Where the selected FNRs survive a page reload ("off" keeps them in memory)
+export type SelectionPersistence = "off" | "session" | "local";
+
+export type NameMaskStrategy = "partial" | "initials" | "redact";
+// hideStreet keeps postal code and city; redact hides all address parts
+export type AddressMaskStrategy = "partial" | "hideStreet" | "redact";
+export type OrgNumberMaskStrategy = "keep" | "redact";
+
+export interface MaskingPolicy {
+  name: NameMaskStrategy;
+  address: AddressMaskStrategy;
+  orgNumber: OrgNumberMaskStrategy;
+  // Owners with an ORGNR are companies, whose details are public
+  exemptOrganizations: boolean;
+}
+
+// false leaves owner data as is, true masks with the default policy
+export type OwnerMasking = boolean | MaskingPolicy;
+
+export type OwnerMaskField =
+  | "name"
+  | "address"
+  | "postalCode"
+  | "city"
+  | "orgNumber"
+  | "ownerList";
+
+// Who may reveal masked owner data; empty lists mean nobody
+export interface PIIAccessPolicy {
+  groups: readonly string[];
+  roles: readonly string[];
+}
+
+// The parts of the signed-in portal user that decide PII access
+export interface PIIAccessUser {
+  username: string;
+  role: string;
+  roleId: string;
+  groups: ReadonlyArray<{ id: string; title: string }>;
+}
+
+export type AuditAction = "lookup" | "pii_reveal" | "copy" | "export";
+
+export interface AuditEvent {
+  action: AuditAction;
+  timestamp: string;
+  username: string;
+  widgetId: string;
+  fnrs: FnrValue[];
+  // Export format or copy source, when the action has one
+  detail?: string;
+}
+
+// Destination for audit events; a failing sink never blocks the others
+export interface AuditSink {
+  readonly id: string;
+  write: (event: AuditEvent) => void;
+}
+
+export interface AuditLogDocument {
+  sessionId: string;
+  startedAt: string;
+  exportedAt: string;
+  events: AuditEvent[];
+}
+
+export interface StoredSelection {
+  version: number;
+  fnrs: FnrValue[];
+  savedAt: number;
+}
+
+export interface ShareUrlPayload {
+  url: string;
+  count: number;
+}
+
+/**
+ * Source field names for each attribute the widget reads. Query results are
+ * renamed to the default (canonical) names right after they are fetched.
+ */
+export interface FieldMapping {
+  fnr: string;
+  uuid: string;
+  designation: string;
+  ownerFnr: string;
+  ownerName: string;
+  ownerList: string;
+  address: string;
+  postalCode: string;
+  city: string;
+  share: string;
+  orgNumber: string;
+}
+
+export type FieldMappingKey = keyof FieldMapping;
+
+export type FieldMappingSource = "property" | "owner";
+
+export type ColumnFormatter = "text" | "fraction" | "orgNumber";
+
+export interface ColumnSettings {
+  label?: string;
+  formatter?: ColumnFormatter;
+}
+
+/**
+ * Parsed `displayColumns` entry. Plain ids ("FASTIGHET") are built-in row
+ * columns; "owner:ANDEL" or "property:AREA" read raw layer attributes.
+ */
+export interface DisplayColumn {
+  id: string;
+  field: string;
+  source: FieldMappingSource | null;
+}
+
 // =============================================================================
 // DATA ATTRIBUTES
 // Property and owner data structures from ArcGIS feature layers
@@ -86,9 +223,40 @@ export interface GridRowData {
   geometryType?: string | null;
   geometry?: SerializedRecord | null;
   rawOwner?: OwnerAttributes;
+  rawProperty?: AttributeMap;
 }
 
-export type ExportFormat = "json" | "csv" | "geojson";
+// Owner detail view: one entry per owner share, already masked for display
+export interface OwnerListEntry {
+  name: string;
+  orgNumber: string;
+}
+
+export interface OwnerDetail {
+  id: string;
+  name: string;
+  share: string;
+  orgNumber: string;
+  address: string;
+  postalCity: string;
+  ownerList: OwnerListEntry[];
+}
+
+export interface PropertyDetails {
+  fnr: FnrValue;
+  uuid: string;
+  designation: string;
+  owners: OwnerDetail[];
+}
+
+export type ExportFormat =
+  | "json"
+  | "csv"
+  | "geojson"
+  | "xlsx"
+  | "labels"
+  | "recipients"
+  | "report";
 
 export interface ExportFormatDefinition {
   id: ExportFormat;
@@ -107,11 +275,234 @@ export interface CsvHeaderValues {
   ADDRESS: string;
 }
 
+export type CsvDelimiter = "comma" | "semicolon" | "tab";
+
+// "owner" writes one line per owner row, "property" one line per property
+// with the owners' values joined in each cell
+export type CsvRowShape = "owner" | "property";
+
+export interface CsvExportOptions {
+  delimiter: CsvDelimiter;
+  // A UTF-8 byte order mark makes Excel read å, ä and ö correctly
+  includeBom: boolean;
+  // CSV_HEADERS names or "property:FIELD" / "owner:FIELD" ids, in file order
+  columns: readonly string[];
+  rowShape: CsvRowShape;
+}
+
+export interface StoredCsvExportOptions extends CsvExportOptions {
+  version: number;
+}
+
+export interface MailingCsvHeaderValues {
+  TYPE: string;
+  NAME: string;
+  ORGNR: string;
+  ADDRESS: string;
+  POSTAL_CODE: string;
+  CITY: string;
+  PROPERTIES: string;
+  FNR: string;
+}
+
 export interface ExportOptions {
   format: ExportFormat;
   filename: string;
   rowCount: number;
   definition?: ExportFormatDefinition;
+  mailing?: MailingExportOptions;
+  report?: PropertyReportOptions;
+  json?: JsonExportContext;
+  geojson?: GeoJsonExportOptions;
+  csv?: CsvExportOptions;
+  // Lets raw owner columns in CSV files find their masking rule
+  fieldMapping?: FieldMapping | null;
+}
+
+// Versioned JSON export: one entry per property with its owners
+export interface JsonExportSources {
+  property: string | null;
+  owner: string | null;
+}
+
+// Supplied by the widget; the rest of the metadata comes from the rows
+export interface JsonExportContext {
+  appId: string | null;
+  widgetId: string | null;
+  sources: JsonExportSources;
+}
+
+export interface JsonExportMetadata extends JsonExportContext {
+  exportedAt: string;
+  masked: boolean;
+  spatialReference: SerializedRecord | null;
+  propertyCount: number;
+  rowCount: number;
+}
+
+export interface JsonExportOwner {
+  NAMN: string;
+  BOSTADR: string;
+  POSTNR: string;
+  POSTADR: string;
+  ORGNR: string;
+  ANDEL: string;
+  AGARLISTA: OwnerListEntry[];
+  // Formatted owner text as shown in the table
+  ADDRESS: string;
+}
+
+export interface JsonExportProperty {
+  FNR: FnrValue;
+  UUID_FASTIGHET: string;
+  FASTIGHET: string;
+  owners: JsonExportOwner[];
+  geometryType?: string;
+  geometry?: SerializedRecord;
+}
+
+export interface JsonExportDocument {
+  version: number;
+  metadata: JsonExportMetadata;
+  properties: JsonExportProperty[];
+}
+
+export type XlsxCellValue = string | number | null | undefined;
+
+export interface XlsxColumn {
+  header: string;
+  type: "string" | "number";
+}
+
+export interface XlsxSheet {
+  name: string;
+  columns: readonly XlsxColumn[];
+  rows: ReadonlyArray<readonly XlsxCellValue[]>;
+  freezeHeader?: boolean;
+}
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+// PDF drawing: points, origin at the bottom left, RGB components 0–1
+export type PdfColor = readonly [number, number, number];
+
+export interface PdfTextItem {
+  type: "text";
+  x: number;
+  y: number;
+  text: string;
+  size: number;
+  bold?: boolean;
+  color?: PdfColor;
+}
+
+export interface PdfRectItem {
+  type: "rect";
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  fill?: PdfColor;
+  stroke?: PdfColor;
+  lineWidth?: number;
+}
+
+export interface PdfLineItem {
+  type: "line";
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  color?: PdfColor;
+  lineWidth?: number;
+}
+
+// Baseline JPEG, embedded as is with the DCTDecode filter
+export interface PdfImage {
+  data: Uint8Array;
+  width: number;
+  height: number;
+}
+
+export interface PdfImageItem {
+  type: "image";
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  image: PdfImage;
+}
+
+export type PdfItem = PdfTextItem | PdfRectItem | PdfLineItem | PdfImageItem;
+
+export interface PdfPage {
+  width: number;
+  height: number;
+  items: readonly PdfItem[];
+}
+
+export interface PdfDocumentInfo {
+  title?: string;
+  created?: Date;
+}
+
+// Mailing list: one recipient per postal address and owner type
+export type MailingRecipientType = "organization" | "person";
+
+export interface MailingRecipient {
+  type: MailingRecipientType;
+  names: string[];
+  orgNumbers: string[];
+  address: string;
+  postalCode: string;
+  city: string;
+  properties: string[];
+  fnrs: FnrValue[];
+}
+
+export type MailingLabelTemplateId = "3474" | "L7160" | "L7161" | "L7163";
+
+// Label sheet grid in millimetres
+export interface MailingLabelLayout {
+  columns: number;
+  rows: number;
+  pageWidth: number;
+  pageHeight: number;
+  marginTop: number;
+  marginLeft: number;
+  labelWidth: number;
+  labelHeight: number;
+  gapX: number;
+  gapY: number;
+}
+
+export interface MailingExportOptions {
+  layout: MailingLabelLayout;
+  // Shown when a label has more owners than lines, e.g. "+{count} more"
+  moreOwnersText: string;
+}
+
+// Property report: texts are translated and filled in by the widget
+export interface PropertyReportLabels {
+  title: string;
+  created: string;
+  mapUnavailable: string;
+  legend: string;
+  designation: string;
+  owner: string;
+  share: string;
+  // "{page}" and "{total}" are replaced per page
+  page: string;
+}
+
+export interface PropertyReportOptions {
+  labels: PropertyReportLabels;
+  mapImage: PdfImage | null;
+  highlightColor: [number, number, number, number];
+  outlineWidth: number;
 }
 
 // =============================================================================
@@ -166,11 +557,22 @@ export interface ErrorState {
   details?: string;
 }
 
+export interface SelectionSnapshot {
+  selectedProperties: GridRowData[];
+  rawPropertyResults: SerializedQueryResultMap | null;
+}
+
+export interface SelectionHistory {
+  past: SelectionSnapshot[];
+  future: SelectionSnapshot[];
+}
+
 export interface PropertyWidgetState {
   error: ErrorState | null;
   selectedProperties: GridRowData[];
   isQueryInFlight: boolean;
   rawPropertyResults: SerializedQueryResultMap | null;
+  history: SelectionHistory;
 }
 
 export type IMPropertyWidgetState = ImmutableObject<PropertyWidgetState>;
@@ -269,6 +671,8 @@ export interface PerformanceMetric {
   duration: number;
   success: boolean;
   error?: string;
+  cacheHits?: number;
+  cacheMisses?: number;
 }
 
 // =============================================================================
@@ -327,13 +731,18 @@ export function isValidationFailure<T>(
 // Used by processPropertyQueryResults pipeline
 // =============================================================================
 
+export interface FieldMappedQueryOptions {
+  signal?: AbortSignal;
+  fieldMapping?: FieldMapping;
+}
+
 export interface PropertyQueryHelpers {
   extractFnr: (attrs: AttributeMap | null | undefined) => FnrValue | null;
   queryOwnerByFnr: (
     fnr: FnrValue,
     dataSourceId: string,
     dsManager: DataSourceManager,
-    options?: { signal?: AbortSignal }
+    options?: FieldMappedQueryOptions
   ) => Promise<__esri.Graphic[]>;
   queryOwnersByRelationship: (
     propertyFnrs: FnrValue[],
@@ -341,13 +750,13 @@ export interface PropertyQueryHelpers {
     ownerDataSourceId: string,
     dsManager: DataSourceManager,
     relationshipId: number,
-    options?: { signal?: AbortSignal }
+    options?: FieldMappedQueryOptions
   ) => Promise<Map<string, OwnerAttributes[]>>;
   createRowId: (fnr: FnrValue, objectId: number) => string;
   formatPropertyWithShare: (property: string, share?: string) => string;
   formatOwnerInfo: (
     owner: OwnerAttributes,
-    maskPII: boolean,
+    maskPII: OwnerMasking,
     unknownText: string
   ) => string;
   isAbortError: (error: unknown) => boolean;
@@ -363,13 +772,14 @@ export interface PropertyProcessingContext {
   readonly dsManager: DataSourceManager;
   readonly maxResults: number;
   readonly signal?: AbortSignal;
+  readonly fieldMapping?: FieldMapping;
   readonly helpers: PropertyQueryHelpers;
   readonly messages: PropertyQueryMessages;
 }
 
 export interface StandardQueryConfig {
   readonly ownerDataSourceId: string;
-  readonly enablePIIMasking: boolean;
+  readonly enablePIIMasking: OwnerMasking;
 }
 
 export interface BatchQueryConfig extends StandardQueryConfig {
@@ -397,6 +807,30 @@ export interface StyleObject {
   [key: string]: StyleValue;
 }
 
+export interface PropertyRowActions {
+  onZoom: (row: GridRowData) => void;
+  onFlash: (row: GridRowData) => void;
+  onRemove: (row: GridRowData) => void;
+  onCopy: (row: GridRowData) => void;
+  disabled?: boolean;
+}
+
+export type RowLinkSource = "table" | "map";
+
+export interface RowLink {
+  key: NormalizedFnr;
+  source: RowLinkSource;
+}
+
+export interface PropertyRowLinking {
+  activeKey: NormalizedFnr | null;
+  pinnedKey: NormalizedFnr | null;
+  scrollToActive: boolean;
+  getRowKey: (row: GridRowData) => NormalizedFnr;
+  onRowHover: (row: GridRowData | null) => void;
+  onRowClick: (row: GridRowData) => void;
+}
+
 export interface PropertyTableProps {
   data: GridRowData[];
   columns: Array<ColumnDef<GridRowData>>;
@@ -404,6 +838,75 @@ export interface PropertyTableProps {
   styles: WidgetStyles;
   sorting: SortingState;
   onSortingChange: (sorting: SortingState) => void;
+  columnFilters: ColumnFiltersState;
+  onColumnFiltersChange: (filters: ColumnFiltersState) => void;
+  globalFilter: string;
+  onGlobalFilterChange: (query: string) => void;
+  rowActions?: PropertyRowActions;
+  rowLinking?: PropertyRowLinking;
+  rowDetails?: PropertyRowDetails;
+  grouping?: PropertyTableGrouping;
+}
+
+// Expandable owner details; masking follows the widget's PII setting and policy
+export interface PropertyRowDetails {
+  maskPII: OwnerMasking;
+}
+
+export type TableViewMode = "flat" | "grouped";
+
+// Grouped view: one parent row per FNR with its owner rows underneath
+export interface PropertyTableGrouping {
+  viewMode: TableViewMode;
+  onViewModeChange: (viewMode: TableViewMode) => void;
+}
+
+export interface PropertyRowGroup<T> {
+  key: string;
+  items: T[];
+}
+
+export interface OwnerShareSummary {
+  ownerCount: number;
+  // Sum of the parsed ANDEL values, null when no share could be read
+  total: number | null;
+  isMismatch: boolean;
+}
+
+export interface PropertyDetailsProps {
+  details: PropertyDetails;
+  translate: (key: string) => string;
+  styles: WidgetStyles;
+}
+
+export interface SelectListDialogProps {
+  isOpen: boolean;
+  isBusy: boolean;
+  report: SelectionListReport | null;
+  translate: (key: string) => string;
+  styles: WidgetStyles;
+  onSubmit: (text: string) => void;
+  onClose: () => void;
+}
+
+export interface CsvExportDialogProps {
+  isOpen: boolean;
+  options: CsvExportOptions;
+  // Column ids the user can add, built-in columns first
+  columnOptions: readonly string[];
+  translate: (key: string) => string;
+  styles: WidgetStyles;
+  onExport: (options: CsvExportOptions) => void;
+  onClose: () => void;
+}
+
+export interface AuditLogDialogProps {
+  isOpen: boolean;
+  events: readonly AuditEvent[];
+  translate: (key: string) => string;
+  styles: WidgetStyles;
+  onDownload: () => void;
+  onClose: () => void;
 }
 
 export interface LoadingBlockProps {
@@ -432,6 +935,7 @@ export interface HoverQueryConfig {
   propertyDataSourceId: string;
   ownerDataSourceId: string;
   allowedHosts?: readonly string[];
+  fieldMapping?: FieldMapping;
 }
 
 export interface GeometryInput {
@@ -448,7 +952,7 @@ export interface GeometryInput {
 }
 
 export interface ExportContent {
-  content: string;
+  content: string | Uint8Array;
   mimeType: string;
   extension: string;
 }
@@ -470,7 +974,7 @@ export interface ProcessPropertyQueryParams {
   config: {
     propertyDataSourceId: string;
     ownerDataSourceId: string;
-    enablePIIMasking: boolean;
+    enablePIIMasking: OwnerMasking;
     relationshipId?: number;
     enableBatchOwnerQuery?: boolean;
   };
@@ -494,10 +998,11 @@ export interface PropertySelectionPipelineParams {
   toggleEnabled: boolean;
   enableBatchOwnerQuery?: boolean;
   relationshipId?: number;
-  enablePIIMasking: boolean;
+  enablePIIMasking: OwnerMasking;
   signal: AbortSignal;
   selectedProperties: GridRowData[];
   translate: (key: string) => string;
+  fieldMapping?: FieldMapping;
 }
 
 export type PropertySelectionPipelineResult =
@@ -514,6 +1019,105 @@ export type PropertySelectionPipelineResult =
       propertyResults: QueryResult[];
     };
 
+export type BufferUnit = "meters" | "kilometers" | "feet" | "miles";
+
+// "parcel" buffers the parcel under the click, "point" the clicked location
+export type BufferOrigin = "parcel" | "point";
+
+export type SketchTool = "rectangle" | "polygon" | "lasso" | "polyline";
+
+export type SelectionMode = "click" | "buffer" | SketchTool;
+
+export interface SketchCreateOptions {
+  tool: "rectangle" | "polygon" | "polyline";
+  mode?: "click" | "freehand" | "hybrid";
+}
+
+export interface BufferQueryResult {
+  buffer: __esri.Geometry;
+  propertyResults: QueryResult[];
+}
+
+/**
+ * Buffer selection is additive - toggle removal never applies, so the
+ * pipeline ignores the toggle setting of point selection
+ */
+export interface BufferSelectionPipelineParams
+  extends Omit<PropertySelectionPipelineParams, "toggleEnabled"> {
+  sourceGeometry?: __esri.Geometry | null;
+  bufferDistance: number;
+  bufferUnit: BufferUnit;
+  bufferOrigin?: BufferOrigin;
+}
+
+export interface BufferSelectionPipelineResult {
+  buffer: __esri.Geometry | null;
+  sourceGeometry: __esri.Geometry;
+  selection: PropertySelectionPipelineResult;
+}
+
+/**
+ * Sketched shapes select everything they touch; like buffer selection they
+ * never toggle existing rows off
+ */
+export interface SketchSelectionPipelineParams
+  extends Omit<PropertySelectionPipelineParams, "mapPoint" | "toggleEnabled"> {
+  geometry: __esri.Geometry;
+  bufferDistance?: number;
+  bufferUnit?: BufferUnit;
+}
+
+export interface SketchSelectionPipelineResult {
+  queryGeometry: __esri.Geometry;
+  buffer: __esri.Geometry | null;
+  selection: PropertySelectionPipelineResult;
+}
+
+/**
+ * Lists of FNRs (for example from another widget's message) are looked up
+ * directly and, like sketches, only ever add to the selection
+ */
+export interface FnrSelectionPipelineParams
+  extends Omit<PropertySelectionPipelineParams, "mapPoint" | "toggleEnabled"> {
+  fnrs: readonly FnrValue[];
+}
+
+// Selection requested by another widget through a message action
+export type MessageSelectionRequest =
+  | { id: number; kind: "geometry"; geometries: __esri.Geometry[] }
+  | { id: number; kind: "fnr"; fnrs: FnrValue[] };
+
+// Select from list: each pasted or uploaded line is an FNR or a designation
+export interface SelectionListEntry {
+  line: number;
+  value: string;
+  kind: "fnr" | "designation";
+}
+
+export interface ParsedSelectionList {
+  entries: SelectionListEntry[];
+  truncated: number;
+}
+
+export interface SelectionListReport {
+  total: number;
+  matched: number;
+  unresolved: SelectionListEntry[];
+  truncated: number;
+  error?: string;
+}
+
+export interface ListSelectionPipelineParams
+  extends Omit<PropertySelectionPipelineParams, "mapPoint" | "toggleEnabled"> {
+  fnrs: readonly FnrValue[];
+  designations: readonly string[];
+}
+
+export interface ListSelectionPipelineResult {
+  propertyResults: QueryResult[];
+  selection: PropertySelectionPipelineResult;
+}
+
 export interface HoverQueryParams {
   config: {
     propertyDataSourceId: string;
@@ -521,7 +1125,7 @@ export interface HoverQueryParams {
     allowedHosts?: readonly string[];
   };
   dsManager: DataSourceManager | null;
-  enablePIIMasking: boolean;
+  enablePIIMasking: OwnerMasking;
   translate: (key: string) => string;
 }
 
@@ -591,6 +1195,26 @@ export type GeoJsonGeometry =
   | { type: "MultiPoint"; coordinates: number[][] }
   | null;
 
+// "wgs84" projects to longitude/latitude per RFC 7946; "native" keeps the
+// layer's coordinates and names their system in a `crs` member
+export type GeoJsonCrsMode = "wgs84" | "native";
+
+// Projects a serialized ArcGIS geometry to WGS84; null when it cannot
+export type Wgs84GeometryProjector = (
+  geometry: SerializedRecord
+) => SerializedRecord | null;
+
+export interface GeoJsonExportOptions {
+  crs: GeoJsonCrsMode;
+  // Decimal places kept in coordinates and bounding boxes
+  precision: number;
+  projectToWgs84?: Wgs84GeometryProjector;
+  // Called when a "wgs84" export had to keep the native coordinates
+  onNativeFallback?: () => void;
+}
+
+export type CoordinateProjector = (coordinate: readonly number[]) => number[];
+
 // =============================================================================
 // SETTINGS PANEL INTERFACES
 // Settings panel form validation and manipulation
@@ -647,6 +1271,43 @@ export interface SignalOptions {
   signal: AbortSignal;
 }
 
+// Network and timeout failures are shown as connection problems, the rest
+// as failed queries
+export type QueryErrorCategory = "network" | "timeout" | "server" | "query";
+
+export interface QueryError extends Error {
+  category: QueryErrorCategory;
+}
+
+export interface RequestPolicyOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  random?: () => number;
+}
+
+export interface QueryCacheOptions {
+  maxSize?: number;
+  ttlMs?: number;
+  evictionPercentage?: number;
+  now?: () => number;
+}
+
+export interface QueryCacheStats {
+  hits: number;
+  misses: number;
+  size: number;
+}
+
+export interface QueryCache<T> {
+  get: (key: string) => T | undefined;
+  set: (key: string, value: T) => void;
+  clear: () => void;
+  getStats: () => QueryCacheStats;
+}
+
 // =============================================================================
 // DATA SOURCE VALIDATION INTERFACES
 // Data source validation and processing types
@@ -693,6 +1354,7 @@ export interface CreateGridRowParams {
   geometry?: SerializedRecord | null;
   createRowId: (fnr: FnrValue, objectId: number) => string;
   rawOwner?: OwnerAttributes;
+  rawProperty?: AttributeMap;
 }
 
 export interface MapClickValidationParams {
@@ -713,6 +1375,8 @@ export interface PropertySelectors {
   selectSelectedProperties: (state: IMState) => GridRowData[];
   selectIsQueryInFlight: (state: IMState) => boolean;
   selectRawPropertyResults: (state: IMState) => SerializedQueryResultMap | null;
+  selectCanUndo: (state: IMState) => boolean;
+  selectCanRedo: (state: IMState) => boolean;
 }
 
 export type PropertyAction =
@@ -729,6 +1393,7 @@ export type PropertyAction =
       type: "PROPERTY_WIDGET/SET_SELECTED_PROPERTIES";
       properties: GridRowData[];
       widgetId: string;
+      recordHistory?: boolean;
     }
   | {
       type: "PROPERTY_WIDGET/CLEAR_ALL";
@@ -747,6 +1412,14 @@ export type PropertyAction =
   | {
       type: "PROPERTY_WIDGET/REMOVE_WIDGET_STATE";
       widgetId: string;
+    }
+  | {
+      type: "PROPERTY_WIDGET/UNDO";
+      widgetId: string;
+    }
+  | {
+      type: "PROPERTY_WIDGET/REDO";
+      widgetId: string;
     };
 
 /**
@@ -770,6 +1443,8 @@ export interface PropertyDispatcher {
     results: { [key: string]: SerializedQueryResult } | null
   ) => void;
   removeWidgetState: () => void;
+  undo: () => void;
+  redo: () => void;
 }
 
 /**
@@ -805,6 +1480,17 @@ export type HighlightSymbolJSON<T extends "polygon" | "polyline" | "point"> =
 // Types for clipboard, pipeline execution, and error boundaries
 // =============================================================================
 
+export interface FBWebbSettings {
+  baseUrl?: string;
+  database?: string;
+  user?: string;
+}
+
+export interface ReportUrlPayload {
+  url: string;
+  count: number;
+}
+
 export interface ClipboardPayload {
   text: string;
   count: number;
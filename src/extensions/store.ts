@@ -1,7 +1,10 @@
 import type { extensionSpec, IMState } from "jimu-core";
 import SeamlessImmutable from "seamless-immutable";
 import { createSelector } from "reselect";
-import { PROPERTY_ACTION_TYPES } from "../config/constants";
+import {
+  PROPERTY_ACTION_TYPES,
+  SELECTION_HISTORY_LIMIT,
+} from "../config/constants";
 import { PropertyActionType } from "../config/enums";
 import type {
   ErrorState,
@@ -13,6 +16,8 @@ import type {
   PropertySelectors,
   PropertySubStateMap,
   PropertyWidgetState,
+  SelectionHistory,
+  SelectionSnapshot,
   SerializedQueryResultMap,
 } from "../config/types";
 
@@ -28,11 +33,13 @@ export const propertyActions = {
   }),
   setSelectedProperties: (
     properties: GridRowData[],
-    widgetId: string
+    widgetId: string,
+    options?: { recordHistory?: boolean }
   ): PropertyAction => ({
     type: PropertyActionType.SET_SELECTED_PROPERTIES,
     properties,
     widgetId,
+    recordHistory: options?.recordHistory ?? true,
   }),
   clearAll: (widgetId: string): PropertyAction => ({
     type: PropertyActionType.CLEAR_ALL,
@@ -55,6 +62,14 @@ export const propertyActions = {
     type: PropertyActionType.REMOVE_WIDGET_STATE,
     widgetId,
   }),
+  undo: (widgetId: string): PropertyAction => ({
+    type: PropertyActionType.UNDO,
+    widgetId,
+  }),
+  redo: (widgetId: string): PropertyAction => ({
+    type: PropertyActionType.REDO,
+    widgetId,
+  }),
 };
 
 const initialPropertyState: PropertyWidgetState = {
@@ -62,6 +77,7 @@ const initialPropertyState: PropertyWidgetState = {
   selectedProperties: [],
   isQueryInFlight: false,
   rawPropertyResults: null,
+  history: { past: [], future: [] },
 };
 
 const createImmutableState = (): IMPropertyWidgetState =>
@@ -73,6 +89,35 @@ const initialGlobalState: IMPropertyGlobalState = SeamlessImmutable({
   byId: emptyWidgetStateMap,
 });
 
+const pushBounded = (
+  stack: readonly SelectionSnapshot[],
+  snapshot: SelectionSnapshot
+): SelectionSnapshot[] => {
+  const next = [...stack, snapshot];
+  return next.length > SELECTION_HISTORY_LIMIT
+    ? next.slice(next.length - SELECTION_HISTORY_LIMIT)
+    : next;
+};
+
+// Formatted owner text reflects the masking at the time it was built, so it
+// is left out; the widget formats it again from rawOwner after a restore
+const stripOwnerText = (row: GridRowData): GridRowData =>
+  row.rawOwner ? { ...row, BOSTADR: "", ADDRESS: "" } : row;
+
+const takeSnapshot = (
+  widgetState: IMPropertyWidgetState
+): SelectionSnapshot => ({
+  selectedProperties: widgetState.selectedProperties
+    .asMutable({ deep: true })
+    .map(stripOwnerText),
+  rawPropertyResults:
+    widgetState.rawPropertyResults?.asMutable({ deep: true }) ?? null,
+});
+
+const getHistory = (widgetState: IMPropertyWidgetState): SelectionHistory =>
+  (widgetState.history as SelectionHistory | undefined) ??
+  initialPropertyState.history;
+
 const isPropertyAction = (action: unknown): action is PropertyAction => {
   if (!action || typeof action !== "object") {
     return false;
@@ -106,6 +151,36 @@ const propertyReducer = (
     return s.setIn(widgetStatePath, createImmutableState());
   };
 
+  const getWidgetState = (s: IMPropertyGlobalState): IMPropertyWidgetState =>
+    s.getIn(widgetStatePath) as IMPropertyWidgetState;
+
+  // Pushes the current selection onto the undo stack and drops redo entries
+  const recordHistory = (s: IMPropertyGlobalState): IMPropertyGlobalState => {
+    const widgetState = getWidgetState(s);
+    const history = getHistory(widgetState);
+    return s.setIn([...widgetStatePath, "history"], {
+      past: pushBounded(history.past, takeSnapshot(widgetState)),
+      future: [],
+    });
+  };
+
+  const restoreSnapshot = (
+    s: IMPropertyGlobalState,
+    snapshot: SelectionSnapshot,
+    history: SelectionHistory
+  ): IMPropertyGlobalState => {
+    const widgetState = getWidgetState(s);
+    return s.setIn(
+      widgetStatePath,
+      widgetState.merge({
+        selectedProperties: snapshot.selectedProperties,
+        rawPropertyResults: snapshot.rawPropertyResults,
+        error: null,
+        history,
+      })
+    );
+  };
+
   switch (action.type) {
     case PropertyActionType.SET_ERROR: {
       const withState = ensureWidgetState(state);
@@ -120,15 +195,24 @@ const propertyReducer = (
       return withState.setIn([...widgetStatePath, "error"], null);
     }
     case PropertyActionType.SET_SELECTED_PROPERTIES: {
-      const withState = ensureWidgetState(state);
+      const ensured = ensureWidgetState(state);
+      const withState =
+        action.recordHistory === false ? ensured : recordHistory(ensured);
       return withState.setIn(
         [...widgetStatePath, "selectedProperties"],
         action.properties
       );
     }
     case PropertyActionType.CLEAR_ALL: {
-      const withState = ensureWidgetState(state);
-      return withState.setIn(widgetStatePath, createImmutableState());
+      const ensured = ensureWidgetState(state);
+      const hasSelection =
+        getWidgetState(ensured).selectedProperties.length > 0;
+      const withState = hasSelection ? recordHistory(ensured) : ensured;
+      const history = getHistory(getWidgetState(withState));
+      return withState.setIn(
+        widgetStatePath,
+        createImmutableState().set("history", history)
+      );
     }
     case PropertyActionType.SET_QUERY_IN_FLIGHT: {
       const withState = ensureWidgetState(state);
@@ -144,6 +228,32 @@ const propertyReducer = (
         action.results
       );
     }
+    case PropertyActionType.UNDO: {
+      const withState = ensureWidgetState(state);
+      const widgetState = getWidgetState(withState);
+      const history = getHistory(widgetState);
+      if (history.past.length === 0) {
+        return withState;
+      }
+      const previous = history.past[history.past.length - 1];
+      return restoreSnapshot(withState, previous, {
+        past: history.past.slice(0, -1),
+        future: pushBounded(history.future, takeSnapshot(widgetState)),
+      });
+    }
+    case PropertyActionType.REDO: {
+      const withState = ensureWidgetState(state);
+      const widgetState = getWidgetState(withState);
+      const history = getHistory(widgetState);
+      if (history.future.length === 0) {
+        return withState;
+      }
+      const next = history.future[history.future.length - 1];
+      return restoreSnapshot(withState, next, {
+        past: pushBounded(history.past, takeSnapshot(widgetState)),
+        future: history.future.slice(0, -1),
+      });
+    }
     case PropertyActionType.REMOVE_WIDGET_STATE: {
       const updatedById = state.byId.without(widgetId);
       return state.set("byId", updatedById);
@@ -229,11 +339,27 @@ export const createPropertySelectors = (
     }
   );
 
+  const selectCanUndo = createSelector(
+    getWidgetState,
+    (widgetState: IMPropertyWidgetState): boolean => {
+      return (widgetState?.history?.past?.length ?? 0) > 0;
+    }
+  );
+
+  const selectCanRedo = createSelector(
+    getWidgetState,
+    (widgetState: IMPropertyWidgetState): boolean => {
+      return (widgetState?.history?.future?.length ?? 0) > 0;
+    }
+  );
+
   return {
     selectError,
     selectSelectedProperties,
     selectIsQueryInFlight,
     selectRawPropertyResults,
+    selectCanUndo,
+    selectCanRedo,
   };
 };
 
@@ -0,0 +1,98 @@
+import {
+  AbstractMessageAction,
+  type DataRecordsSelectionChangeMessage,
+  type ExtentChangeMessage,
+  type FeatureDataRecord,
+  getAppStore,
+  type Message,
+  type MessageDescription,
+  MessageType,
+  MutableStoreManager,
+  type StringSelectionChangeMessage,
+} from "jimu-core";
+import { MESSAGE_SELECTION_STATE_KEY } from "../config/constants";
+import type { IMConfig, MessageSelectionRequest } from "../config/types";
+import { resolveFieldMapping } from "../shared/utils/fields";
+import { collectRecordFnrs, parseFnrList } from "../shared/utils/messages";
+
+const SUPPORTED_MESSAGE_TYPES: readonly MessageType[] = [
+  MessageType.ExtentChange,
+  MessageType.DataRecordsSelectionChange,
+  MessageType.StringSelectionChange,
+];
+
+let requestCounter = 0;
+
+const getRecordGeometry = (
+  record: FeatureDataRecord
+): __esri.Geometry | null => {
+  const geometry = (record?.feature as __esri.Graphic | undefined)?.geometry;
+  // Only JSAPI geometries can be queried directly; plain JSON is skipped
+  return geometry && typeof geometry.type === "string" ? geometry : null;
+};
+
+/**
+ * Turns another widget's message into a property selection request. FNRs in
+ * the message win over geometries since they identify parcels exactly.
+ */
+const toSelectionRequest = (
+  message: Message,
+  fnrField: string
+): MessageSelectionRequest | null => {
+  const id = ++requestCounter;
+
+  switch (message.type) {
+    case MessageType.ExtentChange: {
+      const { extent } = message as ExtentChangeMessage;
+      return extent ? { id, kind: "geometry", geometries: [extent] } : null;
+    }
+    case MessageType.StringSelectionChange: {
+      const fnrs = parseFnrList((message as StringSelectionChangeMessage).str);
+      return fnrs.length > 0 ? { id, kind: "fnr", fnrs } : null;
+    }
+    case MessageType.DataRecordsSelectionChange: {
+      const records = ((message as DataRecordsSelectionChangeMessage)
+        .records ?? []) as FeatureDataRecord[];
+      const fnrs = collectRecordFnrs(records, fnrField);
+      if (fnrs.length > 0) {
+        return { id, kind: "fnr", fnrs };
+      }
+      const geometries = records
+        .map(getRecordGeometry)
+        .filter((geometry): geometry is __esri.Geometry => geometry !== null);
+      return geometries.length > 0
+        ? { id, kind: "geometry", geometries }
+        : null;
+    }
+    default:
+      return null;
+  }
+};
+
+export default class SelectPropertiesAction extends AbstractMessageAction {
+  filterMessageDescription(messageDescription: MessageDescription): boolean {
+    return SUPPORTED_MESSAGE_TYPES.includes(messageDescription.messageType);
+  }
+
+  filterMessage(message: Message): boolean {
+    // Never react to this widget's own selection messages
+    return message.widgetId !== this.widgetId;
+  }
+
+  onExecute(message: Message): boolean {
+    const config = getAppStore().getState().appConfig?.widgets?.[this.widgetId]
+      ?.config as IMConfig | undefined;
+    const fnrField = resolveFieldMapping(config?.fieldMapping).fnr;
+    const request = toSelectionRequest(message, fnrField);
+    if (!request) {
+      return true;
+    }
+
+    MutableStoreManager.getInstance().updateStateValue(
+      this.widgetId,
+      MESSAGE_SELECTION_STATE_KEY,
+      request
+    );
+    return true;
+  }
+}
@@ -0,0 +1,73 @@
+/** @jsx jsx */
+import { jsx } from "jimu-core";
+import { Button, Modal, ModalBody, ModalFooter, ModalHeader } from "jimu-ui";
+import type {
+  AuditAction,
+  AuditEvent,
+  AuditLogDialogProps,
+} from "../../config/types";
+
+const AUDIT_ACTION_LABEL_KEYS: { [K in AuditAction]: string } = {
+  lookup: "auditActionLookup",
+  pii_reveal: "auditActionReveal",
+  copy: "auditActionCopy",
+  export: "auditActionExport",
+};
+
+const formatEventTime = (timestamp: string): string => {
+  const date = new Date(timestamp);
+  return Number.isNaN(date.getTime()) ? timestamp : date.toLocaleString();
+};
+
+export const AuditLogDialog = (props: AuditLogDialogProps) => {
+  const { isOpen, events, translate, styles, onDownload, onClose } = props;
+
+  // Newest first, as the log is mostly read to check recent activity
+  const newestFirst = [...events].reverse();
+
+  const renderEvent = (event: AuditEvent, index: number) => (
+    <li key={`${event.timestamp}-${index}`} css={styles.auditLogEntry}>
+      <div>
+        {translate(AUDIT_ACTION_LABEL_KEYS[event.action])}
+        {event.detail ? ` (${event.detail})` : ""}
+      </div>
+      <div css={styles.auditLogMeta}>
+        {formatEventTime(event.timestamp)}
+        {event.username ? ` · ${event.username}` : ""}
+      </div>
+      <div css={styles.auditLogFnrs}>
+        {translate("auditFnrs")
+          .replace("{count}", String(event.fnrs.length))
+          .replace("{fnrs}", event.fnrs.join(", "))}
+      </div>
+    </li>
+  );
+
+  return (
+    <Modal isOpen={isOpen} toggle={onClose} centered>
+      <ModalHeader toggle={onClose}>{translate("auditLogTitle")}</ModalHeader>
+      <ModalBody css={styles.listDialogBody}>
+        <div css={styles.listDialogHint}>{translate("auditLogHint")}</div>
+        {events.length > 0 ? (
+          <ul css={styles.auditLogList} aria-label={translate("auditLogTitle")}>
+            {newestFirst.map(renderEvent)}
+          </ul>
+        ) : (
+          <div role="status">{translate("auditLogEmpty")}</div>
+        )}
+      </ModalBody>
+      <ModalFooter>
+        <Button
+          type="primary"
+          onClick={onDownload}
+          disabled={events.length === 0}
+        >
+          {translate("auditLogDownload")}
+        </Button>
+        <Button type="tertiary" onClick={onClose}>
+          {translate("selectFromListClose")}
+        </Button>
+      </ModalFooter>
+    </Modal>
+  );
+};
@@ -0,0 +1,212 @@
+/** @jsx jsx */
+import { jsx, React } from "jimu-core";
+import {
+  Button,
+  Checkbox,
+  Label,
+  Modal,
+  ModalBody,
+  ModalFooter,
+  ModalHeader,
+  Option,
+  Select,
+  SVG,
+} from "jimu-ui";
+import { CSV_DELIMITER_IDS, CSV_ROW_SHAPES } from "../../config/constants";
+import type {
+  CsvDelimiter,
+  CsvExportDialogProps,
+  CsvExportOptions,
+  CsvRowShape,
+} from "../../config/types";
+import { parseDisplayColumn } from "../../shared/utils/index";
+import arrowDownIcon from "../../assets/arrow-down.svg";
+import arrowUpIcon from "../../assets/arrow-up.svg";
+import removeIcon from "../../assets/close.svg";
+
+const CSV_DELIMITER_LABEL_KEYS: { [K in CsvDelimiter]: string } = {
+  comma: "csvDelimiterComma",
+  semicolon: "csvDelimiterSemicolon",
+  tab: "csvDelimiterTab",
+};
+
+const CSV_ROW_SHAPE_LABEL_KEYS: { [K in CsvRowShape]: string } = {
+  owner: "csvRowShapeOwner",
+  property: "csvRowShapeProperty",
+};
+
+export const CsvExportDialog = (props: CsvExportDialogProps) => {
+  const {
+    isOpen,
+    options,
+    columnOptions,
+    translate,
+    styles,
+    onExport,
+    onClose,
+  } = props;
+
+  const [draft, setDraft] = React.useState<CsvExportOptions>(options);
+
+  // Start from the remembered choices each time the dialog opens
+  React.useEffect(() => {
+    if (isOpen) setDraft(options);
+  }, [isOpen, options]);
+
+  const update = (patch: Partial<CsvExportOptions>) => {
+    setDraft((previous) => ({ ...previous, ...patch }));
+  };
+
+  const getColumnName = (columnId: string): string => {
+    const column = parseDisplayColumn(columnId);
+    if (!column?.source) return columnId;
+    return `${column.field} (${translate(
+      column.source === "owner" ? "csvOwnerField" : "csvPropertyField"
+    )})`;
+  };
+
+  const moveColumn = (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    if (target < 0 || target >= draft.columns.length) return;
+    const columns = [...draft.columns];
+    [columns[index], columns[target]] = [columns[target], columns[index]];
+    update({ columns });
+  };
+
+  const removeColumn = (columnId: string) => {
+    if (draft.columns.length <= 1) return;
+    update({ columns: draft.columns.filter((id) => id !== columnId) });
+  };
+
+  const addColumn = (event: React.ChangeEvent<HTMLSelectElement>) => {
+    const columnId = event?.target?.value;
+    if (!columnId || draft.columns.includes(columnId)) return;
+    update({ columns: [...draft.columns, columnId] });
+  };
+
+  const availableColumns = columnOptions.filter(
+    (columnId) => !draft.columns.includes(columnId)
+  );
+
+  return (
+    <Modal isOpen={isOpen} toggle={onClose} centered>
+      <ModalHeader toggle={onClose}>{translate("csvExportTitle")}</ModalHeader>
+      <ModalBody css={styles.listDialogBody}>
+        <div css={styles.listDialogHint}>{translate("csvExportHint")}</div>
+        <div css={styles.csvDialogField}>
+          <Label for="csv-export-delimiter">{translate("csvDelimiter")}</Label>
+          <Select
+            id="csv-export-delimiter"
+            size="sm"
+            value={draft.delimiter}
+            onChange={(event: React.ChangeEvent<HTMLSelectElement>) => {
+              const delimiter = event?.target?.value as CsvDelimiter;
+              if (CSV_DELIMITER_IDS.includes(delimiter)) update({ delimiter });
+            }}
+          >
+            {CSV_DELIMITER_IDS.map((delimiter) => (
+              <Option key={delimiter} value={delimiter}>
+                {translate(CSV_DELIMITER_LABEL_KEYS[delimiter])}
+              </Option>
+            ))}
+          </Select>
+        </div>
+        <div css={styles.csvDialogField}>
+          <Label for="csv-export-row-shape">{translate("csvRowShape")}</Label>
+          <Select
+            id="csv-export-row-shape"
+            size="sm"
+            value={draft.rowShape}
+            onChange={(event: React.ChangeEvent<HTMLSelectElement>) => {
+              const rowShape = event?.target?.value as CsvRowShape;
+              if (CSV_ROW_SHAPES.includes(rowShape)) update({ rowShape });
+            }}
+          >
+            {CSV_ROW_SHAPES.map((rowShape) => (
+              <Option key={rowShape} value={rowShape}>
+                {translate(CSV_ROW_SHAPE_LABEL_KEYS[rowShape])}
+              </Option>
+            ))}
+          </Select>
+        </div>
+        <Label check>
+          <Checkbox
+            checked={draft.includeBom}
+            onChange={(_event, checked: boolean) =>
+              update({ includeBom: checked })
+            }
+          />
+          <span css={styles.csvDialogCheckLabel}>
+            {translate("csvIncludeBom")}
+          </span>
+        </Label>
+        <div css={styles.csvDialogField}>
+          <div>{translate("csvColumns")}</div>
+          <ul css={styles.csvColumnList} aria-label={translate("csvColumns")}>
+            {draft.columns.map((columnId, index) => (
+              <li key={columnId} css={styles.csvColumnItem}>
+                <span>{getColumnName(columnId)}</span>
+                <Button
+                  type="tertiary"
+                  icon
+                  size="sm"
+                  onClick={() => moveColumn(index, -1)}
+                  disabled={index === 0}
+                  title={translate("csvMoveColumnUp")}
+                  aria-label={translate("csvMoveColumnUp")}
+                >
+                  <SVG src={arrowUpIcon} size={14} />
+                </Button>
+                <Button
+                  type="tertiary"
+                  icon
+                  size="sm"
+                  onClick={() => moveColumn(index, 1)}
+                  disabled={index === draft.columns.length - 1}
+                  title={translate("csvMoveColumnDown")}
+                  aria-label={translate("csvMoveColumnDown")}
+                >
+                  <SVG src={arrowDownIcon} size={14} />
+                </Button>
+                <Button
+                  type="tertiary"
+                  icon
+                  size="sm"
+                  onClick={() => removeColumn(columnId)}
+                  disabled={draft.columns.length <= 1}
+                  title={translate("csvRemoveColumn")}
+                  aria-label={translate("csvRemoveColumn")}
+                >
+                  <SVG src={removeIcon} size={14} />
+                </Button>
+              </li>
+            ))}
+          </ul>
+          {availableColumns.length > 0 ? (
+            <Select
+              size="sm"
+              value=""
+              placeholder={translate("csvAddColumn")}
+              onChange={addColumn}
+              aria-label={translate("csvAddColumn")}
+            >
+              {availableColumns.map((columnId) => (
+                <Option key={columnId} value={columnId}>
+                  {getColumnName(columnId)}
+                </Option>
+              ))}
+            </Select>
+          ) : null}
+        </div>
+      </ModalBody>
+      <ModalFooter>
+        <Button type="primary" onClick={() => onExport(draft)}>
+          {translate("csvExportSubmit")}
+        </Button>
+        <Button type="tertiary" onClick={onClose}>
+          {translate("selectFromListClose")}
+        </Button>
+      </ModalFooter>
+    </Modal>
+  );
+};
@@ -0,0 +1,82 @@
+/** @jsx jsx */
+import { jsx, React } from "jimu-core";
+import type { OwnerDetail, PropertyDetailsProps } from "../../config/types";
+
+const joinParts = (...parts: string[]): string =>
+  parts.filter(Boolean).join(", ");
+
+export const PropertyDetails = (props: PropertyDetailsProps) => {
+  const { details, translate, styles } = props;
+
+  const renderOwner = (owner: OwnerDetail) => (
+    <li key={owner.id} css={styles.detailOwner}>
+      <div css={styles.detailOwnerName}>
+        {owner.name || translate("unknownOwner")}
+      </div>
+      <dl css={styles.detailFields}>
+        {owner.share ? (
+          <React.Fragment>
+            <dt>{translate("detailShare")}</dt>
+            <dd>{owner.share}</dd>
+          </React.Fragment>
+        ) : null}
+        {owner.orgNumber ? (
+          <React.Fragment>
+            <dt>{translate("detailOrgNumber")}</dt>
+            <dd>{owner.orgNumber}</dd>
+          </React.Fragment>
+        ) : null}
+        {owner.address || owner.postalCity ? (
+          <React.Fragment>
+            <dt>{translate("detailAddress")}</dt>
+            <dd>{joinParts(owner.address, owner.postalCity)}</dd>
+          </React.Fragment>
+        ) : null}
+      </dl>
+      {owner.ownerList.length > 0 ? (
+        <div>
+          <div css={styles.detailSubheading}>
+            {translate("detailOwnerList")}
+          </div>
+          <ul css={styles.detailOwnerList}>
+            {owner.ownerList.map((entry, index) => (
+              <li key={`${entry.name}-${index}`}>
+                {entry.orgNumber
+                  ? `${entry.name} (${entry.orgNumber})`
+                  : entry.name}
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : null}
+    </li>
+  );
+
+  return (
+    <div
+      css={styles.detailPanel}
+      role="region"
+      aria-label={`${translate("propertyDetails")}: ${details.designation}`}
+    >
+      <dl css={styles.detailFields}>
+        <dt>{translate("detailDesignation")}</dt>
+        <dd>{details.designation}</dd>
+        <dt>FNR</dt>
+        <dd>{String(details.fnr)}</dd>
+        <dt>UUID</dt>
+        <dd>{details.uuid}</dd>
+      </dl>
+      <div css={styles.detailSubheading}>
+        {translate("detailOwners").replace(
+          "{count}",
+          String(details.owners.length)
+        )}
+      </div>
+      {details.owners.length > 0 ? (
+        <ul css={styles.detailOwners}>{details.owners.map(renderOwner)}</ul>
+      ) : (
+        <div>{translate("unknownOwner")}</div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,152 @@
+/** @jsx jsx */
+import { jsx, React } from "jimu-core";
+import {
+  Alert,
+  Button,
+  Modal,
+  ModalBody,
+  ModalFooter,
+  ModalHeader,
+  TextArea,
+} from "jimu-ui";
+import {
+  SELECTION_LIST_FILE_ACCEPT,
+  SELECTION_LIST_MAX_ENTRIES,
+  SELECTION_LIST_MAX_FILE_BYTES,
+} from "../../config/constants";
+import type { SelectListDialogProps } from "../../config/types";
+
+export const SelectListDialog = (props: SelectListDialogProps) => {
+  const { isOpen, isBusy, report, translate, styles, onSubmit, onClose } =
+    props;
+
+  const [text, setText] = React.useState("");
+  const [fileError, setFileError] = React.useState<string | null>(null);
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
+
+  const handleTextChange = (event: React.ChangeEvent<HTMLTextAreaElement>) => {
+    setText(event.target.value);
+    setFileError(null);
+  };
+
+  const handleFileChange = async (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const file = event.target.files?.[0];
+    // Reset so picking the same file again still fires a change
+    event.target.value = "";
+    if (!file) return;
+
+    if (file.size > SELECTION_LIST_MAX_FILE_BYTES) {
+      setFileError(translate("errorListFileTooLarge"));
+      return;
+    }
+
+    try {
+      setText(await file.text());
+      setFileError(null);
+    } catch (_error) {
+      setFileError(translate("errorListFileRead"));
+    }
+  };
+
+  const handleSubmit = () => {
+    if (!text.trim() || isBusy) return;
+    onSubmit(text);
+  };
+
+  const errorText = fileError ?? report?.error ?? null;
+
+  return (
+    <Modal isOpen={isOpen} toggle={onClose} centered>
+      <ModalHeader toggle={onClose}>
+        {translate("selectFromListTitle")}
+      </ModalHeader>
+      <ModalBody css={styles.listDialogBody}>
+        <div css={styles.listDialogHint}>
+          {translate("selectFromListHint").replace(
+            "{max}",
+            String(SELECTION_LIST_MAX_ENTRIES)
+          )}
+        </div>
+        <TextArea
+          css={styles.listDialogInput}
+          value={text}
+          onChange={handleTextChange}
+          placeholder={translate("selectFromListPlaceholder")}
+          aria-label={translate("selectFromListTitle")}
+          spellCheck={false}
+        />
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={SELECTION_LIST_FILE_ACCEPT}
+          css={styles.visuallyHidden}
+          onChange={(event) => {
+            void handleFileChange(event);
+          }}
+          tabIndex={-1}
+          aria-hidden="true"
+        />
+        {errorText ? (
+          <Alert
+            type="error"
+            fullWidth
+            css={styles.alert}
+            text={errorText}
+          />
+        ) : null}
+        {report && !report.error ? (
+          <div css={styles.listDialogReport} role="status" aria-live="polite">
+            <div>
+              {translate("listMatchedCount")
+                .replace("{matched}", String(report.matched))
+                .replace("{total}", String(report.total))}
+            </div>
+            {report.truncated > 0 ? (
+              <div>
+                {translate("listTruncated").replace(
+                  "{count}",
+                  String(report.truncated)
+                )}
+              </div>
+            ) : null}
+            {report.unresolved.length > 0 ? (
+              <React.Fragment>
+                <div>{translate("listUnresolvedTitle")}</div>
+                <ul css={styles.listDialogUnresolved}>
+                  {report.unresolved.map((entry) => (
+                    <li key={`${entry.line}-${entry.value}`}>
+                      {translate("listUnresolvedLine")
+                        .replace("{line}", String(entry.line))
+                        .replace("{value}", entry.value)}
+                    </li>
+                  ))}
+                </ul>
+              </React.Fragment>
+            ) : null}
+          </div>
+        ) : null}
+      </ModalBody>
+      <ModalFooter>
+        <Button
+          type="default"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isBusy}
+        >
+          {translate("selectFromListUpload")}
+        </Button>
+        <Button
+          type="primary"
+          onClick={handleSubmit}
+          disabled={isBusy || !text.trim()}
+        >
+          {translate("selectFromListSubmit")}
+        </Button>
+        <Button type="tertiary" onClick={onClose}>
+          {translate("selectFromListClose")}
+        </Button>
+      </ModalFooter>
+    </Modal>
+  );
+};
@@ -1,24 +1,105 @@
 /** @jsx jsx */
+/** @jsxFrag React.Fragment */
 import { jsx, React } from "jimu-core";
-import { Scrollable, SVG } from "jimu-ui";
+import { Button, Scrollable, SVG, TextInput } from "jimu-ui";
 import { flexRender, useReactTable } from "@tanstack/react-table";
-import type { ColumnFiltersState } from "@tanstack/react-table";
-import type { PropertyTableProps } from "../../config/types";
+import type { Header, Row } from "@tanstack/react-table";
+import type {
+  GridRowData,
+  PropertyRowGroup,
+  PropertyTableProps,
+} from "../../config/types";
 import {
   createTableConfig,
-  getDefaultColumnFilters,
   getRowId,
   getVisibleRows,
 } from "../../shared/config";
+import {
+  buildPropertyDetails,
+  formatShareTotal,
+  groupRowsByProperty,
+  normalizeFnrKey,
+  summarizeOwnerShares,
+} from "../../shared/utils/index";
+import { PropertyDetails } from "./property-details";
 import arrowDownIcon from "../../assets/arrow-down.svg";
 import arrowUpIcon from "../../assets/arrow-up.svg";
+import removeIcon from "../../assets/close.svg";
+import copyIcon from "../../assets/copy.svg";
+import flashIcon from "../../assets/flash.svg";
+import groupIcon from "../../assets/group.svg";
+import zoomIcon from "../../assets/zoom-to.svg";
+
+const getHeaderLabel = (header: Header<GridRowData, unknown>): string => {
+  const definition = header.column.columnDef.header;
+  if (typeof definition === "string") return definition;
+  if (typeof definition === "function") {
+    const rendered: unknown = definition(header.getContext());
+    if (typeof rendered === "string") return rendered;
+  }
+  return header.column.id;
+};
+
+const toggleSetKey = (
+  previous: ReadonlySet<string>,
+  key: string
+): ReadonlySet<string> => {
+  const next = new Set(previous);
+  if (next.has(key)) {
+    next.delete(key);
+  } else {
+    next.add(key);
+  }
+  return next;
+};
 
 export const PropertyTable = (props: PropertyTableProps) => {
-  const { data, columns, translate, styles, sorting, onSortingChange } = props;
+  const {
+    data,
+    columns,
+    translate,
+    styles,
+    sorting,
+    onSortingChange,
+    columnFilters,
+    onColumnFiltersChange,
+    globalFilter,
+    onGlobalFilterChange,
+    rowActions,
+    rowLinking,
+    rowDetails,
+    grouping,
+  } = props;
 
-  const [columnFilters, setColumnFilters] = React.useState<ColumnFiltersState>(
-    getDefaultColumnFilters()
+  const tbodyRef = React.useRef<HTMLTableSectionElement>(null);
+  const [expandedKeys, setExpandedKeys] = React.useState<ReadonlySet<string>>(
+    () => new Set()
   );
+  const [expandedGroups, setExpandedGroups] = React.useState<
+    ReadonlySet<string>
+  >(() => new Set());
+  const hasActionColumn = Boolean(rowActions || rowDetails);
+  const columnCount = columns.length + (hasActionColumn ? 1 : 0);
+  const isGrouped = grouping?.viewMode === "grouped";
+
+  const toggleDetails = (key: string) => {
+    setExpandedKeys((previous) => toggleSetKey(previous, key));
+  };
+
+  const toggleGroup = (key: string) => {
+    setExpandedGroups((previous) => toggleSetKey(previous, key));
+  };
+  const activeKey = rowLinking?.activeKey ?? null;
+  const scrollToActive = rowLinking?.scrollToActive ?? false;
+
+  React.useEffect(() => {
+    if (!activeKey || !scrollToActive) return;
+    // Map hover: bring the first row of the hovered parcel into view
+    const rowElement = tbodyRef.current?.querySelector<HTMLElement>(
+      `tr[data-fnr-key="${CSS.escape(activeKey)}"]`
+    );
+    rowElement?.scrollIntoView({ block: "nearest", behavior: "smooth" });
+  }, [activeKey, scrollToActive]);
 
   const table = useReactTable({
     data,
@@ -27,13 +108,16 @@ export const PropertyTable = (props: PropertyTableProps) => {
     state: {
       sorting,
       columnFilters,
+      globalFilter,
     },
     onSortingChange,
-    onColumnFiltersChange: setColumnFilters,
+    onColumnFiltersChange,
+    onGlobalFilterChange,
     ...createTableConfig(),
   });
 
   const visibleRows = getVisibleRows(table);
+  const renderedDetailKeys = new Set<string>();
 
   const renderSortIndicator = (isSorted: false | "asc" | "desc") => {
     if (!isSorted) return null;
@@ -44,63 +128,344 @@ export const PropertyTable = (props: PropertyTableProps) => {
     );
   };
 
-  return (
-    <Scrollable horizontal={false} duration={300}>
-      <div
-        css={styles.tableContainer}
-        role="region"
-        aria-label={translate("widgetTitle")}
+  const renderDetailsToggle = (row: GridRowData, label: string) => {
+    const key = normalizeFnrKey(row.FNR);
+    const isExpanded = expandedKeys.has(key);
+    const text = isExpanded ? "hideDetails" : "showDetails";
+    return (
+      <Button
+        type="tertiary"
+        icon
+        size="sm"
+        onClick={() => toggleDetails(key)}
+        title={translate(text)}
+        aria-label={`${translate(text)}: ${label}`}
+        aria-expanded={isExpanded}
+      >
+        <SVG src={isExpanded ? arrowUpIcon : arrowDownIcon} size={14} />
+      </Button>
+    );
+  };
+
+  const renderRowActions = (row: GridRowData) => {
+    if (!hasActionColumn) return null;
+    const label = row.FASTIGHET || String(row.FNR);
+    if (!rowActions) {
+      return (
+        <td
+          css={styles.tdActions}
+          role="cell"
+          onClick={(e) => e.stopPropagation()}
+        >
+          <div css={styles.rowActions}>{renderDetailsToggle(row, label)}</div>
+        </td>
+      );
+    }
+
+    const actionButtons = [
+      {
+        key: "zoom",
+        icon: zoomIcon,
+        text: "zoomToProperty",
+        run: rowActions.onZoom,
+      },
+      {
+        key: "flash",
+        icon: flashIcon,
+        text: "flashProperty",
+        run: rowActions.onFlash,
+      },
+      { key: "copy", icon: copyIcon, text: "copyRow", run: rowActions.onCopy },
+      {
+        key: "remove",
+        icon: removeIcon,
+        text: "removeProperty",
+        run: rowActions.onRemove,
+      },
+    ];
+
+    return (
+      <td
+        css={styles.tdActions}
+        role="cell"
+        onClick={(e) => e.stopPropagation()}
       >
-        <table css={styles.table} role="table">
-          <thead css={styles.thead}>
-            {table.getHeaderGroups().map((headerGroup) => (
-              <tr key={headerGroup.id} css={styles.tr} role="row">
-                {headerGroup.headers.map((header) => (
-                  <th
-                    key={header.id}
-                    css={styles.th}
-                    onClick={header.column.getToggleSortingHandler()}
-                    role="columnheader"
-                    aria-sort={
-                      header.column.getIsSorted()
-                        ? header.column.getIsSorted() === "asc"
-                          ? "ascending"
-                          : "descending"
-                        : "none"
-                    }
-                    tabIndex={0}
-                    onKeyDown={(e) => {
-                      if (e.key === "Enter" || e.key === " ") {
-                        e.preventDefault();
-                        const toggleHandler =
-                          header.column.getToggleSortingHandler();
-                        if (toggleHandler) toggleHandler(e.nativeEvent);
+        <div css={styles.rowActions}>
+          {rowDetails ? renderDetailsToggle(row, label) : null}
+          {actionButtons.map((action) => (
+            <Button
+              key={action.key}
+              type="tertiary"
+              icon
+              size="sm"
+              disabled={rowActions.disabled}
+              onClick={() => action.run(row)}
+              title={translate(action.text)}
+              aria-label={`${translate(action.text)}: ${label}`}
+            >
+              <SVG src={action.icon} size={14} />
+            </Button>
+          ))}
+        </div>
+      </td>
+    );
+  };
+
+  const renderRow = (row: Row<GridRowData>) => {
+    const linkKey = rowLinking?.getRowKey(row.original) ?? null;
+    const isLinked = linkKey !== null && linkKey === activeKey;
+    const detailKey = normalizeFnrKey(row.original.FNR);
+    // Details follow the first visible row of an expanded property
+    const details =
+      rowDetails &&
+      expandedKeys.has(detailKey) &&
+      !renderedDetailKeys.has(detailKey)
+        ? buildPropertyDetails(data, detailKey, rowDetails.maskPII)
+        : null;
+    if (details) renderedDetailKeys.add(detailKey);
+    return (
+      <React.Fragment key={row.id}>
+        <tr
+          data-fnr-key={linkKey ?? undefined}
+          css={isLinked ? styles.trLinked : styles.tr}
+          role="row"
+          aria-selected={
+            rowLinking ? linkKey === rowLinking.pinnedKey : undefined
+          }
+          tabIndex={rowLinking ? 0 : undefined}
+          onMouseEnter={
+            rowLinking ? () => rowLinking.onRowHover(row.original) : undefined
+          }
+          onMouseLeave={
+            rowLinking ? () => rowLinking.onRowHover(null) : undefined
+          }
+          onClick={
+            rowLinking ? () => rowLinking.onRowClick(row.original) : undefined
+          }
+          onKeyDown={(e) => {
+            if (!rowLinking || e.target !== e.currentTarget) {
+              return;
+            }
+            if (e.key === "Enter" || e.key === " ") {
+              e.preventDefault();
+              rowLinking.onRowClick(row.original);
+            }
+          }}
+        >
+          {renderRowActions(row.original)}
+          {row.getVisibleCells().map((cell) => (
+            <td key={cell.id} css={styles.td} role="cell">
+              {flexRender(cell.column.columnDef.cell, cell.getContext())}
+            </td>
+          ))}
+        </tr>
+        {details ? (
+          <tr css={styles.trDetails} role="row">
+            <td css={styles.tdDetails} role="cell" colSpan={columnCount}>
+              <PropertyDetails
+                details={details}
+                translate={translate}
+                styles={styles}
+              />
+            </td>
+          </tr>
+        ) : null}
+      </React.Fragment>
+    );
+  };
+
+  const renderGroup = (group: PropertyRowGroup<Row<GridRowData>>) => {
+    const first = group.items[0].original;
+    const label = first.FASTIGHET || String(first.FNR);
+    const isExpanded = expandedGroups.has(group.key);
+    const text = isExpanded ? "hideOwners" : "showOwners";
+    // Summed over every owner row, so filtering never triggers the warning
+    const summary = summarizeOwnerShares(data, group.key);
+    return (
+      <React.Fragment key={`group-${group.key}`}>
+        <tr
+          data-fnr-key={group.key}
+          css={styles.trGroup}
+          role="row"
+          aria-expanded={isExpanded}
+          onMouseEnter={
+            rowLinking ? () => rowLinking.onRowHover(first) : undefined
+          }
+          onMouseLeave={
+            rowLinking ? () => rowLinking.onRowHover(null) : undefined
+          }
+        >
+          <td css={styles.tdGroup} role="cell" colSpan={columnCount}>
+            <div css={styles.groupSummary}>
+              <Button
+                type="tertiary"
+                icon
+                size="sm"
+                onClick={() => toggleGroup(group.key)}
+                title={translate(text)}
+                aria-label={`${translate(text)}: ${label}`}
+                aria-expanded={isExpanded}
+              >
+                <SVG
+                  src={isExpanded ? arrowUpIcon : arrowDownIcon}
+                  size={14}
+                />
+              </Button>
+              <span>{label}</span>
+              <span css={styles.groupMeta}>
+                {translate("groupOwnerCount").replace(
+                  "{count}",
+                  String(summary.ownerCount)
+                )}
+              </span>
+              {summary.total !== null ? (
+                <span css={styles.groupMeta}>
+                  {translate("groupShareTotal").replace(
+                    "{total}",
+                    formatShareTotal(summary.total)
+                  )}
+                </span>
+              ) : null}
+              {summary.isMismatch ? (
+                <span css={styles.shareWarning} role="note">
+                  {translate("shareTotalMismatch")}
+                </span>
+              ) : null}
+            </div>
+          </td>
+        </tr>
+        {isExpanded ? group.items.map(renderRow) : null}
+      </React.Fragment>
+    );
+  };
+
+  return (
+    <>
+      <div css={styles.tableToolbar}>
+        <TextInput
+          css={styles.quickSearch}
+          size="sm"
+          type="search"
+          value={globalFilter}
+          placeholder={translate("quickSearchPlaceholder")}
+          onChange={(e) => onGlobalFilterChange(e.target.value)}
+          aria-label={translate("quickSearch")}
+        />
+        {grouping ? (
+          <Button
+            type={isGrouped ? "primary" : "tertiary"}
+            icon
+            size="sm"
+            onClick={() =>
+              grouping.onViewModeChange(isGrouped ? "flat" : "grouped")
+            }
+            title={translate("groupByProperty")}
+            aria-label={translate("groupByProperty")}
+            aria-pressed={isGrouped}
+          >
+            <SVG src={groupIcon} size={14} />
+          </Button>
+        ) : null}
+      </div>
+      <Scrollable horizontal={false} duration={300}>
+        <div
+          css={styles.tableContainer}
+          role="region"
+          aria-label={translate("widgetTitle")}
+        >
+          <table css={styles.table} role="table">
+            <thead css={styles.thead}>
+              {table.getHeaderGroups().map((headerGroup) => (
+                <tr key={headerGroup.id} css={styles.tr} role="row">
+                  {hasActionColumn && (
+                    <th css={styles.thActions} role="columnheader">
+                      {translate("actions")}
+                    </th>
+                  )}
+                  {headerGroup.headers.map((header) => (
+                    <th
+                      key={header.id}
+                      css={styles.th}
+                      onClick={header.column.getToggleSortingHandler()}
+                      role="columnheader"
+                      aria-sort={
+                        header.column.getIsSorted()
+                          ? header.column.getIsSorted() === "asc"
+                            ? "ascending"
+                            : "descending"
+                          : "none"
                       }
-                    }}
-                  >
-                    {flexRender(
-                      header.column.columnDef.header,
-                      header.getContext()
-                    )}
-                    {renderSortIndicator(header.column.getIsSorted())}
-                  </th>
-                ))}
+                      tabIndex={0}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter" || e.key === " ") {
+                          e.preventDefault();
+                          const toggleHandler =
+                            header.column.getToggleSortingHandler();
+                          if (toggleHandler) toggleHandler(e.nativeEvent);
+                        }
+                      }}
+                    >
+                      {flexRender(
+                        header.column.columnDef.header,
+                        header.getContext()
+                      )}
+                      {renderSortIndicator(header.column.getIsSorted())}
+                    </th>
+                  ))}
+                </tr>
+              ))}
+              <tr css={styles.filterRow} role="row">
+                {hasActionColumn && (
+                  <th css={styles.thFilter} role="columnheader" />
+                )}
+                {table.getLeafHeaders().map((header) => {
+                  const label = getHeaderLabel(header);
+                  const filterValue = header.column.getFilterValue();
+                  return (
+                    <th
+                      key={header.id}
+                      css={styles.thFilter}
+                      role="columnheader"
+                    >
+                      <TextInput
+                        size="sm"
+                        value={
+                          typeof filterValue === "string" ? filterValue : ""
+                        }
+                        placeholder={translate("filterColumn")}
+                        onChange={(e) =>
+                          header.column.setFilterValue(
+                            e.target.value || undefined
+                          )
+                        }
+                        aria-label={`${translate("filterColumn")}: ${label}`}
+                      />
+                    </th>
+                  );
+                })}
               </tr>
-            ))}
-          </thead>
-          <tbody css={styles.tbody}>
-            {visibleRows.map((row) => (
-              <tr key={row.id} css={styles.tr} role="row">
-                {row.getVisibleCells().map((cell) => (
-                  <td key={cell.id} css={styles.td} role="cell">
-                    {flexRender(cell.column.columnDef.cell, cell.getContext())}
+            </thead>
+            <tbody ref={tbodyRef} css={styles.tbody}>
+              {visibleRows.length === 0 ? (
+                <tr css={styles.tr} role="row">
+                  <td
+                    css={styles.tdEmpty}
+                    role="cell"
+                    colSpan={columnCount}
+                  >
+                    {translate("noMatchingProperties")}
                   </td>
-                ))}
-              </tr>
-            ))}
-          </tbody>
-        </table>
-      </div>
-    </Scrollable>
+                </tr>
+              ) : null}
+              {isGrouped
+                ? groupRowsByProperty(visibleRows, (row) => row.original).map(
+                    renderGroup
+                  )
+                : visibleRows.map(renderRow)}
+            </tbody>
+          </table>
+        </div>
+      </Scrollable>
+    </>
   );
 };
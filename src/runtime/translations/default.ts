@@ -8,6 +8,11 @@ export default {
   queryingOwner: "Fetching owner information…",
   noResults: "No properties found.",
   propertySelected: "Properties selected:",
+  showingCount: "Showing {shown} of {total}",
+  quickSearch: "Search properties",
+  quickSearchPlaceholder: "Search designation, address or owner",
+  filterColumn: "Filter",
+  noMatchingProperties: "No properties match the filters.",
   clickMapToSelectProperties: "Click the map to select properties.",
   cursorTooltipNoProperty: "No property at cursor",
   cursorTooltipFormat: "{fastighet}",
@@ -17,24 +22,52 @@ export default {
   readyToSelect: "Click the map to select a property.",
   columnFastighet: "Property",
   columnAddress: "Address",
+  columnFnr: "FNR",
+  columnUuid: "Property UUID",
   actions: "Actions",
   errorTitle: "Error",
   errorModuleTitle: "Module Error",
   errorLoadingModules: "Failed to load required map modules.",
   errorNoMapPoint: "Could not read map coordinates.",
+  errorInvalidSketch: "The drawn shape is empty. Draw it again.",
+  errorNoValidFnr: "No valid property numbers (FNR) were received.",
   errorQueryFailed: "Failed to retrieve property data.",
   errorOwnerQueryFailed: "Failed to retrieve owner information.",
   errorNetworkError: "Network error. Please check your connection.",
+  errorQueryTimeout: "The property service did not respond in time. Try again.",
+  errorServiceUnavailable:
+    "The property service is temporarily unavailable. Try again in a moment.",
   errorNoDataAvailable: "No data available.",
   errorHostNotAllowed: "Data source host not allowed.",
   errorUnknown: "An unknown error occurred.",
   unknownOwner: "Unknown",
   removeProperty: "Remove",
+  zoomToProperty: "Zoom to property",
+  flashProperty: "Flash on map",
+  copyRow: "Copy row",
+  showDetails: "Show owner details",
+  hideDetails: "Hide owner details",
+  propertyDetails: "Property details",
+  detailDesignation: "Property",
+  detailOwners: "Owners ({count})",
+  detailShare: "Share",
+  detailOrgNumber: "Org. number",
+  detailAddress: "Address",
+  detailOwnerList: "Owner list",
+  groupByProperty: "Group by property",
+  showOwners: "Show owners",
+  hideOwners: "Hide owners",
+  groupOwnerCount: "Owners: {count}",
+  groupShareTotal: "Share total: {total}",
+  shareTotalMismatch: "Shares do not add up to 1",
   clearAll: "Clear all",
   noPropertiesSelected: "No properties selected.",
   bufferSearch: "Buffer Search",
   bufferDistance: "Buffer distance",
   searchRadius: "Search within radius",
+  bufferOrigin: "Buffer from",
+  bufferOriginParcel: "Clicked parcel",
+  bufferOriginPoint: "Clicked point",
   invalidDistance: "Invalid distance",
   meters: "Meters",
   kilometers: "Kilometers",
@@ -42,8 +75,18 @@ export default {
   miles: "Miles",
   applyBuffer: "Apply",
   bufferingGeometry: "Buffering…",
+  sketchTools: "Select by shape",
+  rectangle: "Rectangle",
+  polygon: "Polygon",
+  lasso: "Lasso",
+  polyline: "Line",
+  sketchHint: "Draw on the map to select properties ({tool}).",
+  sketchLineBufferHint: "Set the distance to 0 to select along the line only.",
+  stopSketch: "Stop drawing",
   undo: "Undo",
   undoLastAction: "Undo last action",
+  redo: "Redo",
+  redoLastAction: "Redo last undone action",
   close: "Close",
   invalidHexColorFormat: "Invalid hex color format.",
   ownerQueryFailedLog: "Owner query failed",
@@ -54,12 +97,94 @@ export default {
   errorBoundaryConsoleLog: "Property widget error:",
   exportData: "Export",
   exportJSON: "JSON",
-  exportJSONDesc: "Raw data with full metadata.",
+  exportJSONDesc: "Properties, owners and geometry with export metadata.",
   exportCSV: "CSV",
-  exportCSVDesc: "Spreadsheet format (attributes only).",
+  exportCSVDesc: "Spreadsheet file with your choice of columns and separator.",
   exportGeoJSON: "GeoJSON",
-  exportGeoJSONDesc: "Geographic data format.",
+  exportGeoJSONDesc: "Map features in WGS84 for GIS and web maps.",
+  geojsonNativeFallback:
+    "Some geometries could not be projected to WGS84, so the GeoJSON file keeps the layer's own coordinates.",
+  exportXLSX: "Excel (XLSX)",
+  exportXLSXDesc: "Excel workbook, one row per owner share, with a summary.",
+  exportLabels: "Mailing labels (PDF)",
+  exportLabelsDesc:
+    "Printable label sheet, one label per owner address.",
+  exportRecipients: "Mailing list (CSV)",
+  exportRecipientsDesc:
+    "Recipients for mail merge, owners at the same address combined.",
+  labelMoreOwners: "+{count} more owners",
+  exportReport: "Property report (PDF)",
+  exportReportDesc:
+    "Map of the selection with a table of owners, ready to print.",
+  reportTitle: "Property owner report",
+  reportCreated: "Created {date}",
+  reportMapUnavailable: "The map image could not be created.",
+  reportLegendSelected: "Selected property",
+  reportColumnDesignation: "Property",
+  reportColumnOwner: "Owner",
+  reportColumnShare: "Share",
+  reportPage: "Page {page} of {total}",
   copyToClipboard: "Copy to clipboard",
+  revealOwnerData: "Show unmasked owner data",
+  hideOwnerData: "Mask owner data again",
   copiedSuccess: "Copied {count} properties to clipboard.",
   copyFailed: "Copy failed. Try again.",
+  copyReportUrl: "Copy FBWebb report link",
+  reportUrlCopied: "Copied report link for {count} properties.",
+  reportUrlCopyFailed: "Could not copy the report link. Copy it below.",
+  reportUrlLabel: "FBWebb report link",
+  errorReportNotConfigured: "FBWebb report link is not fully configured.",
+  errorReportUrlTooLong: "Too many properties for one report link.",
+  copyShareLink: "Copy share link",
+  shareLinkCopied: "Copied a link to {count} selected properties.",
+  shareLinkCopyFailed: "Could not copy the share link. Copy it below.",
+  shareLinkLabel: "Share link",
+  errorShareLinkFailed: "Could not create a share link for this page.",
+  errorShareLinkTooLong: "Too many properties for one share link.",
+  selectPropertiesAction: "Select properties",
+  selectFromList: "Select from list",
+  selectFromListTitle: "Select properties from a list",
+  selectFromListHint:
+    "Paste or upload property designations or FNRs, one per line (up to {max}). For CSV files the first column is used.",
+  selectFromListPlaceholder: "Lund Gastelyckan 1:1\n140123456",
+  selectFromListUpload: "Upload CSV/TXT",
+  selectFromListSubmit: "Select",
+  selectFromListClose: "Close",
+  listMatchedCount: "{matched} of {total} entries found.",
+  listTruncated: "{count} entries over the limit were skipped.",
+  listUnresolvedTitle: "Not found:",
+  listUnresolvedLine: "Line {line}: {value}",
+  errorListEmpty: "Enter at least one property designation or FNR.",
+  errorListFileTooLarge: "The file is too large. Use a file under 1 MB.",
+  errorListFileRead: "Could not read the file.",
+  auditLog: "Audit log",
+  csvExportTitle: "Export CSV",
+  csvExportHint:
+    "Swedish Excel opens semicolon-separated files with a byte order mark directly. Your choices are remembered for next time.",
+  csvDelimiter: "Separator",
+  csvDelimiterComma: "Comma (,)",
+  csvDelimiterSemicolon: "Semicolon (;)",
+  csvDelimiterTab: "Tab",
+  csvIncludeBom: "Add UTF-8 byte order mark (for Excel)",
+  csvRowShape: "Rows",
+  csvRowShapeOwner: "One row per owner",
+  csvRowShapeProperty: "One row per property, owners joined",
+  csvColumns: "Columns",
+  csvAddColumn: "Add column…",
+  csvMoveColumnUp: "Move column up",
+  csvMoveColumnDown: "Move column down",
+  csvRemoveColumn: "Remove column",
+  csvPropertyField: "property",
+  csvOwnerField: "owner",
+  csvExportSubmit: "Export",
+  auditLogTitle: "Audit log for this session",
+  auditLogHint:
+    "Property lookups, unmasked views, copies and exports since the page was loaded, newest first.",
+  auditLogEmpty: "Nothing has been recorded yet.",
+  auditLogDownload: "Download JSON",
+  auditFnrs: "{count} FNR: {fnrs}",
+  auditActionLookup: "Property lookup",
+  auditActionReveal: "Unmasked view",
+  auditActionCopy: "Copy",
+  auditActionExport: "Export",
 };
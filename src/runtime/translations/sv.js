@@ -11,6 +11,11 @@ System.register([], function (e) {
         queryingOwner: "Hämtar ägarinformation…",
         noResults: "Inga fastigheter hittades.",
         propertySelected: "Fastigheter valda:",
+        showingCount: "Visar {shown} av {total}",
+        quickSearch: "Sök fastigheter",
+        quickSearchPlaceholder: "Sök beteckning, adress eller ägare",
+        filterColumn: "Filtrera",
+        noMatchingProperties: "Inga fastigheter matchar filtren.",
         clickMapToSelectProperties:
           "Klicka på kartan för att välja fastigheter.",
         cursorTooltipNoProperty: "Ingen fastighet vid markören",
@@ -21,24 +26,51 @@ System.register([], function (e) {
         readyToSelect: "Klicka på kartan för att välja en fastighet.",
         columnFastighet: "Fastighet",
         columnAddress: "Adress",
+        columnFnr: "FNR",
+        columnUuid: "Fastighets-UUID",
         actions: "Åtgärder",
         errorTitle: "Fel",
         errorModuleTitle: "Modulfel",
         errorLoadingModules: "Kunde inte ladda nödvändiga kartmoduler.",
         errorNoMapPoint: "Kunde inte läsa kartkoordinater.",
+        errorInvalidSketch: "Den ritade formen är tom. Rita den igen.",
+        errorNoValidFnr: "Inga giltiga fastighetsnummer (FNR) togs emot.",
         errorQueryFailed: "Kunde inte hämta fastighetsdata.",
         errorOwnerQueryFailed: "Kunde inte hämta ägarinformation.",
         errorNetworkError: "Nätverksfel. Kontrollera din anslutning.",
+        errorQueryTimeout: "Fastighetstjänsten svarade inte i tid. Försök igen.",
+        errorServiceUnavailable: "Fastighetstjänsten är tillfälligt otillgänglig. Försök igen om en stund.",
         errorNoDataAvailable: "Inga data tillgängliga.",
         errorHostNotAllowed: "Datakällans värd är inte tillåten.",
         errorUnknown: "Ett okänt fel inträffade.",
         unknownOwner: "Okänd",
         removeProperty: "Ta bort",
+        zoomToProperty: "Zooma till fastighet",
+        flashProperty: "Blinka i kartan",
+        copyRow: "Kopiera rad",
+        showDetails: "Visa ägaruppgifter",
+        hideDetails: "Dölj ägaruppgifter",
+        propertyDetails: "Fastighetsuppgifter",
+        detailDesignation: "Fastighet",
+        detailOwners: "Ägare ({count})",
+        detailShare: "Andel",
+        detailOrgNumber: "Org.nr",
+        detailAddress: "Adress",
+        detailOwnerList: "Ägarlista",
+        groupByProperty: "Gruppera per fastighet",
+        showOwners: "Visa ägare",
+        hideOwners: "Dölj ägare",
+        groupOwnerCount: "Ägare: {count}",
+        groupShareTotal: "Summa andelar: {total}",
+        shareTotalMismatch: "Andelarna summerar inte till 1",
         clearAll: "Rensa alla",
         noPropertiesSelected: "Inga fastigheter valda.",
         bufferSearch: "Buffertsökning",
         bufferDistance: "Buffertavstånd",
         searchRadius: "Sök inom radie",
+        bufferOrigin: "Buffra från",
+        bufferOriginParcel: "Klickad fastighet",
+        bufferOriginPoint: "Klickad punkt",
         invalidDistance: "Ogiltigt avstånd",
         meters: "Meter",
         kilometers: "Kilometer",
@@ -46,8 +78,19 @@ System.register([], function (e) {
         miles: "Mil",
         applyBuffer: "Tillämpa",
         bufferingGeometry: "Buffrar…",
+        sketchTools: "Välj med form",
+        rectangle: "Rektangel",
+        polygon: "Polygon",
+        lasso: "Lasso",
+        polyline: "Linje",
+        sketchHint: "Rita i kartan för att välja fastigheter ({tool}).",
+        sketchLineBufferHint:
+          "Sätt avståndet till 0 för att bara välja längs linjen.",
+        stopSketch: "Sluta rita",
         undo: "Ångra",
         undoLastAction: "Ångra senaste åtgärd",
+        redo: "Gör om",
+        redoLastAction: "Gör om senast ångrade åtgärd",
         close: "Stäng",
         invalidHexColorFormat: "Ogiltigt hex-färgformat.",
         ownerQueryFailedLog: "Ägarfråga misslyckades",
@@ -58,14 +101,100 @@ System.register([], function (e) {
         errorBoundaryConsoleLog: "Fel i fastighetswidget:",
         exportData: "Exportera",
         exportJSON: "JSON",
-        exportJSONDesc: "Rådata med fullständig metadata.",
+        exportJSONDesc: "Fastigheter, ägare och geometri med exportmetadata.",
         exportCSV: "CSV",
-        exportCSVDesc: "Kalkylbladsformat (endast attribut).",
+        exportCSVDesc: "Kalkylbladsfil med valfria kolumner och avgränsare.",
         exportGeoJSON: "GeoJSON",
-        exportGeoJSONDesc: "Geografiskt dataformat.",
+        exportGeoJSONDesc: "Kartobjekt i WGS84 för GIS och webbkartor.",
+        geojsonNativeFallback:
+          "Vissa geometrier kunde inte projiceras till WGS84, så GeoJSON-filen behåller lagrets egna koordinater.",
+        exportXLSX: "Excel (XLSX)",
+        exportXLSXDesc:
+          "Excel-arbetsbok, en rad per ägarandel, med sammanställning.",
+        exportLabels: "Adressetiketter (PDF)",
+        exportLabelsDesc:
+          "Utskrivbart etikettark, en etikett per ägaradress.",
+        exportRecipients: "Utskickslista (CSV)",
+        exportRecipientsDesc:
+          "Mottagare för dokumentkoppling, ägare på samma adress sammanslagna.",
+        labelMoreOwners: "+{count} ägare till",
+        exportReport: "Fastighetsrapport (PDF)",
+        exportReportDesc:
+          "Karta över urvalet med en ägartabell, klar att skriva ut.",
+        reportTitle: "Rapport över fastighetsägare",
+        reportCreated: "Skapad {date}",
+        reportMapUnavailable: "Kartbilden kunde inte skapas.",
+        reportLegendSelected: "Vald fastighet",
+        reportColumnDesignation: "Fastighet",
+        reportColumnOwner: "Ägare",
+        reportColumnShare: "Andel",
+        reportPage: "Sida {page} av {total}",
         copyToClipboard: "Kopiera till urklipp",
+        revealOwnerData: "Visa omaskerade ägaruppgifter",
+        hideOwnerData: "Maskera ägaruppgifter igen",
         copiedSuccess: "Kopierade {count} fastigheter till urklipp.",
         copyFailed: "Kopiering misslyckades. Försök igen.",
+        copyReportUrl: "Kopiera FBWebb-rapportlänk",
+        reportUrlCopied: "Kopierade rapportlänk för {count} fastigheter.",
+        reportUrlCopyFailed:
+          "Rapportlänken kunde inte kopieras. Kopiera den nedan.",
+        reportUrlLabel: "FBWebb-rapportlänk",
+        errorReportNotConfigured:
+          "FBWebb-rapportlänken är inte fullständigt konfigurerad.",
+        errorReportUrlTooLong: "För många fastigheter för en rapportlänk.",
+        copyShareLink: "Kopiera delningslänk",
+        shareLinkCopied: "Kopierade en länk till {count} valda fastigheter.",
+        shareLinkCopyFailed:
+          "Kunde inte kopiera delningslänken. Kopiera den nedan.",
+        shareLinkLabel: "Delningslänk",
+        errorShareLinkFailed: "Kunde inte skapa en delningslänk för sidan.",
+        errorShareLinkTooLong: "För många fastigheter för en delningslänk.",
+        selectPropertiesAction: "Välj fastigheter",
+        selectFromList: "Välj från lista",
+        selectFromListTitle: "Välj fastigheter från en lista",
+        selectFromListHint:
+          "Klistra in eller ladda upp fastighetsbeteckningar eller FNR, en per rad (högst {max}). I CSV-filer används första kolumnen.",
+        selectFromListPlaceholder: "Lund Gastelyckan 1:1\n140123456",
+        selectFromListUpload: "Ladda upp CSV/TXT",
+        selectFromListSubmit: "Välj",
+        selectFromListClose: "Stäng",
+        listMatchedCount: "{matched} av {total} rader hittades.",
+        listTruncated: "{count} rader över gränsen hoppades över.",
+        listUnresolvedTitle: "Hittades inte:",
+        listUnresolvedLine: "Rad {line}: {value}",
+        errorListEmpty: "Ange minst en fastighetsbeteckning eller ett FNR.",
+        errorListFileTooLarge: "Filen är för stor. Använd en fil under 1 MB.",
+        errorListFileRead: "Kunde inte läsa filen.",
+        auditLog: "Granskningslogg",
+        csvExportTitle: "Exportera CSV",
+        csvExportHint:
+          "Svensk Excel öppnar semikolonseparerade filer med byte order mark direkt. Dina val sparas till nästa gång.",
+        csvDelimiter: "Avgränsare",
+        csvDelimiterComma: "Komma (,)",
+        csvDelimiterSemicolon: "Semikolon (;)",
+        csvDelimiterTab: "Tabb",
+        csvIncludeBom: "Lägg till UTF-8 byte order mark (för Excel)",
+        csvRowShape: "Rader",
+        csvRowShapeOwner: "En rad per ägare",
+        csvRowShapeProperty: "En rad per fastighet, ägare sammanslagna",
+        csvColumns: "Kolumner",
+        csvAddColumn: "Lägg till kolumn…",
+        csvMoveColumnUp: "Flytta kolumnen upp",
+        csvMoveColumnDown: "Flytta kolumnen ner",
+        csvRemoveColumn: "Ta bort kolumnen",
+        csvPropertyField: "fastighet",
+        csvOwnerField: "ägare",
+        csvExportSubmit: "Exportera",
+        auditLogTitle: "Granskningslogg för sessionen",
+        auditLogHint:
+          "Fastighetsuppslag, omaskerade visningar, kopieringar och exporter sedan sidan laddades, senaste först.",
+        auditLogEmpty: "Inget har loggats ännu.",
+        auditLogDownload: "Ladda ner JSON",
+        auditFnrs: "{count} FNR: {fnrs}",
+        auditActionLookup: "Fastighetsuppslag",
+        auditActionReveal: "Omaskerad visning",
+        auditActionCopy: "Kopiering",
+        auditActionExport: "Export",
       });
     },
   };
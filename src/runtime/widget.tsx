@@ -3,14 +3,20 @@
 import {
   type AllWidgetProps,
   appActions,
+  type DataRecordSet,
+  DataRecordSetChangeMessage,
   DataSourceComponent,
   DataSourceManager,
+  type FeatureLayerDataSource,
   getAppStore,
   hooks,
   type IMState,
   jsx,
+  MessageManager,
+  MutableStoreManager,
   React,
   ReactRedux,
+  RecordSetChangeType,
   WidgetState,
 } from "jimu-core";
 import { JimuMapViewComponent } from "jimu-arcgis";
@@ -24,38 +30,85 @@ import {
   defaultMessages as jimuUIMessages,
   Loading,
   LoadingType,
+  NumericInput,
+  Option,
+  Select,
   SVG,
+  TextInput,
 } from "jimu-ui";
-import type { ColumnDef, SortingState } from "@tanstack/react-table";
+import type {
+  ColumnDef,
+  ColumnFiltersState,
+  SortingState,
+} from "@tanstack/react-table";
 import { shallowEqual } from "react-redux";
 import {
+  BUFFER_DEFAULT_DISTANCE,
+  BUFFER_DEFAULT_UNIT,
+  BUFFER_ORIGINS,
+  BUFFER_UNITS,
   CURSOR_TOOLTIP_STYLE,
+  DEFAULT_CSV_EXPORT_OPTIONS,
   EXPORT_FORMATS,
+  MESSAGE_SELECTION_STATE_KEY,
   MIN_SPINNER_DISPLAY_MS,
+  SKETCH_TOOLS,
   WIDGET_STARTUP_DELAY_MS,
 } from "../config/constants";
 import { ErrorType } from "../config/enums";
 import { useWidgetStyles } from "../config/style";
 import type {
   AppStateForClose,
+  AuditAction,
+  AuditEvent,
+  BufferOrigin,
+  BufferUnit,
+  CsvExportOptions,
   ErrorBoundaryProps,
   ErrorState,
   ExportFormat,
+  FBWebbSettings,
+  FnrValue,
+  GeoJsonExportOptions,
   GridRowData,
   IMConfig,
   IMStateWithProperty,
+  MessageSelectionRequest,
+  OwnerMasking,
+  PropertyReportOptions,
+  PropertySelectionPipelineResult,
+  QueryResult,
+  RowLink,
   SelectionGraphicsHelpers,
   SelectionGraphicsParams,
+  SelectionListReport,
+  SelectionMode,
   SerializedQueryResult,
   SerializedQueryResultMap,
+  SketchTool,
+  TableViewMode,
   WidgetEntryInfo,
   WidgetManifestInfo,
 } from "../config/types";
 import { createPropertySelectors, propertyActions } from "../extensions/store";
-import { clearQueryCache, runPropertySelectionPipeline } from "../shared/api";
+import {
+  clearOwnerQueryCache,
+  clearQueryCache,
+  createWgs84GeometryProjector,
+  getOwnerQueryCacheStats,
+  mergeGeometries,
+  runBufferSelectionPipeline,
+  runFnrSelectionPipeline,
+  runListSelectionPipeline,
+  runPropertySelectionPipeline,
+  runSketchSelectionPipeline,
+} from "../shared/api";
 import {
   createPropertyTableColumns,
+  filterPropertiesForTable,
+  getDefaultColumnFilters,
   getDefaultSorting,
+  hasActiveFilters,
 } from "../shared/config";
 import {
   useAbortControllerPool,
@@ -64,6 +117,7 @@ import {
   useHitTestHover,
   useMapViewLifecycle,
   usePopupManager,
+  useSketchSelection,
   useThrottle,
   useWidgetStartup,
 } from "../shared/hooks";
@@ -75,37 +129,108 @@ import {
 } from "../shared/telemetry";
 import {
   abortHelpers,
+  applySortingToProperties,
   buildClipboardPayload,
+  buildCsvOptionsStorageKey,
+  buildFBWebbReportUrl,
+  buildGraphicEntriesFromRows,
+  buildHighlightColor,
+  buildMessageRecordGraphics,
   buildResultsMap,
+  buildSelectionShareUrl,
+  buildSelectionStorageKey,
+  canRevealPII,
+  captureSelectionSnapshot,
+  collectCsvColumnOptions,
+  collectReportFnrs,
   collectSelectedRawData,
   copyToClipboard,
+  createAuditEvent,
+  createHttpAuditSink,
   type CursorGraphicsState,
   cursorLifecycleHelpers,
   dataSourceHelpers,
+  describeQueryError,
+  diffCacheStats,
+  downloadAuditLog,
+  executeBufferQueryPipeline,
+  executeFnrQueryPipeline,
+  executeListQueryPipeline,
   executePropertyQueryPipeline,
+  executeSketchQueryPipeline,
   exportData,
   extractFnr,
-  formatOwnerInfo,
+  findUnresolvedEntries,
+  formatPropertiesForClipboard,
+  getAuditEvents,
+  getDataSourceUrl,
+  getPreferenceStorage,
+  getSelectionStorage,
+  getValidatedOutlineWidth,
   isAbortError,
+  isMessageSelectionRequest,
+  isReportConfigured,
   isValidationFailure,
+  loadCsvExportOptions,
+  loadStoredSelection,
   normalizeFnrKey,
   notifyCopyOutcome,
+  parseSelectionList,
+  readSharedSelection,
+  recordAuditEvent,
+  recordUnmaskedView,
+  reformatOwnerRows,
+  registerAuditSink,
+  removePropertyFromSelection,
+  removeSharedSelectionParam,
+  resolveBufferOrigin,
+  resolveFieldMapping,
+  resolveGeoJsonExportOptions,
+  resolveMailingLabelLayout,
+  resolveMaskingPolicy,
+  resolvePIIAccessPolicy,
+  resolveSelectionPersistence,
   restoreCursor,
+  saveCsvExportOptions,
+  saveStoredSelection,
   scheduleCursorUpdate,
   scheduleGraphicsRendering,
   setCursor,
+  splitSelectionListEntries,
   syncCursorGraphics,
   syncGraphicsWithState,
+  toPIIAccessUser,
   updatePropertySelectionState,
+  validateBufferDistance,
+  validateFnrSelectionRequest,
+  validateListSelectionRequest,
   validateMapClickRequest,
+  validateSketchSelectionRequest,
 } from "../shared/utils/index";
+import { AuditLogDialog } from "./components/audit-log-dialog";
+import { CsvExportDialog } from "./components/csv-export-dialog";
+import { SelectListDialog } from "./components/select-list-dialog";
 import { PropertyTable } from "./components/table";
 import defaultMessages from "./translations/default";
 import clearIcon from "../assets/clear-selection-general.svg";
 import setupIcon from "../assets/config-missing.svg";
 import copyButton from "../assets/copy.svg";
+import eyeIcon from "../assets/eye.svg";
 import exportIcon from "../assets/export.svg";
+import linkIcon from "../assets/link-add.svg";
+import shareIcon from "../assets/share.svg";
+import listIcon from "../assets/list.svg";
+import historyIcon from "../assets/history.svg";
+import bufferIcon from "../assets/buffer.svg";
+import sketchIcon from "../assets/sketch.svg";
 import mapSelect from "../assets/map-select.svg";
+import undoIcon from "../assets/undo.svg";
+import redoIcon from "../assets/redo.svg";
+
+const BUFFER_ORIGIN_LABEL_KEYS: { [K in BufferOrigin]: string } = {
+  parcel: "bufferOriginParcel",
+  point: "bufferOriginPoint",
+};
 
 const syncSelectionGraphics = (params: SelectionGraphicsParams) => {
   const {
@@ -260,7 +385,7 @@ class PropertyWidgetErrorBoundary extends React.Component<
 }
 
 const WidgetContent = (props: AllWidgetProps<IMConfig>): React.ReactElement => {
-  const { config, id, useMapWidgetIds } = props;
+  const { config, id, useMapWidgetIds, user } = props;
   const styles = useWidgetStyles();
   const translate = hooks.useTranslation(jimuUIMessages, defaultMessages);
 
@@ -289,11 +414,20 @@ const WidgetContent = (props: AllWidgetProps<IMConfig>): React.ReactElement => {
     IMStateWithProperty,
     SerializedQueryResultMap | null
   >(selectors.selectRawPropertyResults, shallowEqual);
+  const isQueryInFlight = ReactRedux.useSelector<IMStateWithProperty, boolean>(
+    selectors.selectIsQueryInFlight
+  );
+  const canUndo = ReactRedux.useSelector<IMStateWithProperty, boolean>(
+    selectors.selectCanUndo
+  );
+  const canRedo = ReactRedux.useSelector<IMStateWithProperty, boolean>(
+    selectors.selectCanRedo
+  );
   const selectedCount = selectedProperties.length;
   const hasSelectedProperties = selectedCount > 0;
 
   const [urlFeedback, setUrlFeedback] = React.useState<{
-    type: "success" | "error";
+    type: "success" | "warning" | "error";
     text: string;
   } | null>(null);
 
@@ -311,6 +445,12 @@ const WidgetContent = (props: AllWidgetProps<IMConfig>): React.ReactElement => {
     };
   }, [urlFeedback]);
 
+  // Manual-copy fallback stays until dismissed or the selection changes
+  const [urlFallback, setUrlFallback] = React.useState<{
+    url: string;
+    labelKey: string;
+  } | null>(null);
+
   hooks.useUpdateEffect(() => {
     if (hasSelectedProperties) return;
     if (urlFeedback) {
@@ -318,36 +458,26 @@ const WidgetContent = (props: AllWidgetProps<IMConfig>): React.ReactElement => {
     }
   }, [hasSelectedProperties]);
 
+  hooks.useUpdateEffect(() => {
+    setUrlFallback(null);
+  }, [selectedProperties]);
+
   // Latest value refs: Provide current values to callbacks without triggering re-renders
   const selectedPropertiesRef =
     hooks.useLatest<GridRowData[]>(selectedProperties);
   const rawPropertyResultsRef =
     hooks.useLatest<SerializedQueryResultMap | null>(rawPropertyResults);
 
-  // Consolidated property selection pipeline: Validation → Query → Finalize
-  const executePropertySelection = hooks.useEventCallback(
+  // Shared selection request flow: Request tracking → Query → Finalize
+  const runSelectionRequest = hooks.useEventCallback(
     async (
-      event: __esri.ViewClickEvent,
-      tracker: ReturnType<typeof createPerformanceTracker>
+      tracker: ReturnType<typeof createPerformanceTracker>,
+      runPipeline: (context: {
+        signal: AbortSignal;
+        selectedProperties: GridRowData[];
+        isStaleRequest: () => boolean;
+      }) => Promise<PropertySelectionPipelineResult>
     ): Promise<number> => {
-      // Step 1: Validate and prepare execution context
-      const validation = validateMapClickRequest({
-        event,
-        modules,
-        config,
-        dsManager: dsManagerRef.current,
-        translate,
-      });
-
-      if (isValidationFailure(validation)) {
-        const { error, failureReason } = validation;
-        setError(error.type as ErrorType, error.message);
-        tracker.failure(failureReason);
-        trackError("map_click_validation", failureReason);
-        throw new Error(failureReason);
-      }
-
-      const { mapPoint, manager } = validation.data;
       const requestId = requestIdRef.current + 1;
       requestIdRef.current = requestId;
       const isStaleRequest = () => requestId !== requestIdRef.current;
@@ -357,20 +487,17 @@ const WidgetContent = (props: AllWidgetProps<IMConfig>): React.ReactElement => {
 
       const selectionForPipeline = [...(selectedPropertiesRef.current ?? [])];
       const controller = getController();
+      const cacheStatsBefore = getOwnerQueryCacheStats();
 
       // Step 2: Run property query pipeline
-      const pipelineResult = await executePropertyQueryPipeline({
-        mapPoint,
-        config,
-        dsManager: manager,
-        maxResults,
-        toggleEnabled,
-        enablePIIMasking: piiMaskingEnabled,
-        selectedProperties: selectionForPipeline,
+      const pipelineResult = await runPipeline({
         signal: controller.signal,
-        translate,
-        runPipeline: runPropertySelectionPipeline,
+        selectedProperties: selectionForPipeline,
+        isStaleRequest,
       });
+      tracker.recordCacheUsage(
+        diffCacheStats(cacheStatsBefore, getOwnerQueryCacheStats())
+      );
 
       const abortStatus = abortHelpers.checkAbortedOrStale(
         controller.signal,
@@ -419,6 +546,7 @@ const WidgetContent = (props: AllWidgetProps<IMConfig>): React.ReactElement => {
         });
 
         rawPropertyResultsRef.current = stateUpdate.resultsToStore;
+        recordWidgetAudit("lookup", pipelineResult.rowsToProcess);
 
         const graphicsHelpers = {
           highlightGraphics,
@@ -444,6 +572,117 @@ const WidgetContent = (props: AllWidgetProps<IMConfig>): React.ReactElement => {
     }
   );
 
+  const validateSelectionRequest = hooks.useEventCallback(
+    (
+      event: __esri.ViewClickEvent,
+      tracker: ReturnType<typeof createPerformanceTracker>
+    ) => {
+      const validation = validateMapClickRequest({
+        event,
+        modules,
+        config,
+        dsManager: dsManagerRef.current,
+        translate,
+      });
+
+      if (isValidationFailure(validation)) {
+        const { error, failureReason } = validation;
+        setError(error.type as ErrorType, error.message);
+        tracker.failure(failureReason);
+        trackError("map_click_validation", failureReason);
+        throw new Error(failureReason);
+      }
+
+      return validation.data;
+    }
+  );
+
+  // Consolidated property selection pipeline: Validation → Query → Finalize
+  const executePropertySelection = hooks.useEventCallback(
+    async (
+      event: __esri.ViewClickEvent,
+      tracker: ReturnType<typeof createPerformanceTracker>
+    ): Promise<number> => {
+      // Step 1: Validate and prepare execution context
+      const { mapPoint, manager } = validateSelectionRequest(event, tracker);
+
+      return await runSelectionRequest(
+        tracker,
+        ({ signal, selectedProperties: selectionForPipeline }) =>
+          executePropertyQueryPipeline({
+            mapPoint,
+            config,
+            dsManager: manager,
+            maxResults,
+            toggleEnabled,
+            enablePIIMasking: ownerMasking,
+            selectedProperties: selectionForPipeline,
+            signal,
+            translate,
+            runPipeline: runPropertySelectionPipeline,
+          })
+      );
+    }
+  );
+
+  const executeBufferSelection = hooks.useEventCallback(
+    async (
+      event: __esri.ViewClickEvent,
+      sourceGeometry: __esri.Geometry | null,
+      buffer: { distance: number; unit: BufferUnit },
+      tracker: ReturnType<typeof createPerformanceTracker>
+    ): Promise<number> => {
+      const { mapPoint, manager } = validateSelectionRequest(event, tracker);
+
+      return await runSelectionRequest(
+        tracker,
+        async ({
+          signal,
+          selectedProperties: selectionForPipeline,
+          isStaleRequest,
+        }) => {
+          const bufferResult = await executeBufferQueryPipeline({
+            mapPoint,
+            sourceGeometry,
+            bufferDistance: buffer.distance,
+            bufferUnit: buffer.unit,
+            bufferOrigin,
+            config,
+            dsManager: manager,
+            maxResults,
+            enablePIIMasking: ownerMasking,
+            selectedProperties: selectionForPipeline,
+            signal,
+            translate,
+            runPipeline: runBufferSelectionPipeline,
+          });
+
+          if (!isStaleRequest()) {
+            lastBufferSourceRef.current = {
+              event,
+              sourceGeometry: bufferResult.sourceGeometry,
+            };
+            setHasBufferSource(true);
+
+            if (bufferResult.buffer) {
+              showBufferPreview({
+                geometry: bufferResult.buffer,
+                view: getCurrentView(),
+                highlightColor: buildHighlightColor(
+                  highlightColorConfig,
+                  highlightOpacityConfig
+                ),
+                outlineWidth: getValidatedOutlineWidth(outlineWidthConfig),
+              });
+            }
+          }
+
+          return bufferResult.selection;
+        }
+      );
+    }
+  );
+
   hooks.useEffectOnce(() => {
     // Widget mounted
   });
@@ -483,6 +722,14 @@ const WidgetContent = (props: AllWidgetProps<IMConfig>): React.ReactElement => {
     removeHighlightForFnr,
     highlightGraphics,
     destroyGraphicsLayer,
+    showBufferPreview,
+    clearBufferPreview,
+    getHighlightGeometry,
+    getHighlightExtent,
+    flashHighlightForFnr,
+    emphasizeHighlightForFnr,
+    clearEmphasis,
+    findHighlightFnrAt,
   } = useGraphicsLayer({
     widgetId,
     propertyDataSourceId: config.propertyDataSourceId,
@@ -494,11 +741,43 @@ const WidgetContent = (props: AllWidgetProps<IMConfig>): React.ReactElement => {
     useAbortControllerPool();
   const requestIdRef = React.useRef(0); // Increments for each query to detect stale requests
 
+  // Buffer search state: last clicked source is kept so Apply can re-run it
+  const [selectionMode, setSelectionMode] =
+    React.useState<SelectionMode>("click");
+  const [bufferDistance, setBufferDistance] = React.useState<number>(
+    BUFFER_DEFAULT_DISTANCE
+  );
+  const [bufferUnit, setBufferUnit] =
+    React.useState<BufferUnit>(BUFFER_DEFAULT_UNIT);
+  const bufferOriginConfig = config.bufferOrigin;
+  const [bufferOrigin, setBufferOrigin] = React.useState<BufferOrigin>(() =>
+    resolveBufferOrigin(bufferOriginConfig)
+  );
+  hooks.useUpdateEffect(() => {
+    setBufferOrigin(resolveBufferOrigin(bufferOriginConfig));
+  }, [bufferOriginConfig]);
+  const [hasBufferSource, setHasBufferSource] = React.useState(false);
+  const lastBufferSourceRef = React.useRef<{
+    event: __esri.ViewClickEvent;
+    sourceGeometry: __esri.Geometry | null;
+  } | null>(null);
+  const isBufferMode = selectionMode === "buffer";
+  const activeSketchTool = SKETCH_TOOLS.includes(selectionMode as SketchTool)
+    ? (selectionMode as SketchTool)
+    : null;
+
+  const resetBufferSource = hooks.useEventCallback(() => {
+    lastBufferSourceRef.current = null;
+    setHasBufferSource(false);
+    clearBufferPreview();
+  });
+
   const resetSelectionState = hooks.useEventCallback(
     (shouldTrackClear: boolean) => {
       abortAll();
       clearQueryCache();
       clearHighlights();
+      resetBufferSource();
 
       const previousSelection = selectedPropertiesRef.current ?? [];
       if (shouldTrackClear && previousSelection.length > 0) {
@@ -523,12 +802,114 @@ const WidgetContent = (props: AllWidgetProps<IMConfig>): React.ReactElement => {
     resetSelectionState(false);
   });
 
+  // History restore: Redraw highlights once the restored selection is rendered
+  const pendingHistoryRestoreRef = React.useRef(false);
+
+  const redrawSelectionHighlights = hooks.useEventCallback(
+    (rows: GridRowData[]) => {
+      clearHighlights();
+      const view = getCurrentView();
+      if (!view || !modules?.Graphic || rows.length === 0) {
+        return;
+      }
+
+      const entries = buildGraphicEntriesFromRows({
+        rows,
+        createGraphic: (properties) => new modules.Graphic(properties),
+        normalizeFnrKey,
+      });
+
+      void highlightGraphics({
+        entries,
+        view,
+        extractFnr,
+        normalizeFnrKey,
+        highlightColor: buildHighlightColor(
+          highlightColorConfig,
+          highlightOpacityConfig
+        ),
+        outlineWidth: getValidatedOutlineWidth(outlineWidthConfig),
+      });
+    }
+  );
+
+  hooks.useUpdateEffect(() => {
+    if (!pendingHistoryRestoreRef.current) {
+      return;
+    }
+    pendingHistoryRestoreRef.current = false;
+    // History holds no owner text; format it with the masking in effect now
+    const restoredRows = reformatOwnerRows(
+      selectedProperties,
+      ownerMasking,
+      translate("unknownOwner")
+    );
+    dispatch(
+      propertyActions.setSelectedProperties(restoredRows, widgetId, {
+        recordHistory: false,
+      })
+    );
+    redrawSelectionHighlights(restoredRows);
+  }, [selectedProperties, redrawSelectionHighlights]);
+
+  const applyHistoryStep = hooks.useEventCallback(
+    (direction: "undo" | "redo") => {
+      abortAll();
+      resetBufferSource();
+      pendingHistoryRestoreRef.current = true;
+
+      dispatch(
+        direction === "undo"
+          ? propertyActions.undo(widgetId)
+          : propertyActions.redo(widgetId)
+      );
+      dispatch(propertyActions.setQueryInFlight(false, widgetId));
+
+      trackEvent({ category: "Property", action: direction });
+    }
+  );
+
+  const handleUndo = hooks.useEventCallback(() => {
+    applyHistoryStep("undo");
+  });
+
+  const handleRedo = hooks.useEventCallback(() => {
+    applyHistoryStep("redo");
+  });
+
   const setError = hooks.useEventCallback(
     (type: ErrorType, message: string, details?: string) => {
       dispatch(propertyActions.setError({ type, message, details }, widgetId));
     }
   );
 
+  const renderBufferInputs = () => (
+    <>
+      <NumericInput
+        css={styles.bufferDistance}
+        size="sm"
+        value={bufferDistance}
+        min={0}
+        onChange={handleBufferDistanceChange}
+        title={translate("bufferDistance")}
+        aria-label={translate("bufferDistance")}
+      />
+      <Select
+        css={styles.bufferUnit}
+        size="sm"
+        value={bufferUnit}
+        onChange={handleBufferUnitChange}
+        aria-label={translate("bufferDistance")}
+      >
+        {BUFFER_UNITS.map((unit) => (
+          <Option key={unit} value={unit}>
+            {translate(unit)}
+          </Option>
+        ))}
+      </Select>
+    </>
+  );
+
   const renderConfiguredContent = () => {
     if (hasSelectedProperties) {
       const tableData = Array.isArray(selectedProperties)
@@ -542,6 +923,30 @@ const WidgetContent = (props: AllWidgetProps<IMConfig>): React.ReactElement => {
           styles={styles}
           sorting={tableSorting}
           onSortingChange={setTableSorting}
+          columnFilters={columnFilters}
+          onColumnFiltersChange={setColumnFilters}
+          globalFilter={globalFilter}
+          onGlobalFilterChange={setGlobalFilter}
+          rowActions={{
+            onZoom: handleZoomToRow,
+            onFlash: handleFlashRow,
+            onRemove: handleRemoveRow,
+            onCopy: handleCopyRow,
+            disabled: isQueryInFlight,
+          }}
+          rowLinking={{
+            activeKey: linkedFnrKey,
+            pinnedKey: pinnedLinkKey,
+            scrollToActive: hoverLink?.source === "map",
+            getRowKey: (row) => normalizeFnrKey(row.FNR),
+            onRowHover: handleRowHover,
+            onRowClick: handleRowClick,
+          }}
+          rowDetails={{ maskPII: ownerMasking }}
+          grouping={{
+            viewMode: tableViewMode,
+            onViewModeChange: setTableViewMode,
+          }}
         />
       );
     }
@@ -564,7 +969,116 @@ const WidgetContent = (props: AllWidgetProps<IMConfig>): React.ReactElement => {
 
   const maxResults = config.maxResults;
   const toggleEnabled = config.enableToggleRemoval;
-  const piiMaskingEnabled = config.enablePIIMasking;
+  const piiPolicyMasking = config.enablePIIMasking;
+  const piiAccessGroupsConfig = config.piiAccessGroups;
+  const piiAccessRolesConfig = config.piiAccessRoles;
+  const piiAccessUser = React.useMemo(() => toPIIAccessUser(user), [user]);
+  const canUnmaskPII = React.useMemo(
+    () =>
+      piiPolicyMasking &&
+      canRevealPII(
+        piiAccessUser,
+        resolvePIIAccessPolicy({
+          piiAccessGroups: piiAccessGroupsConfig,
+          piiAccessRoles: piiAccessRolesConfig,
+        })
+      ),
+    [
+      piiPolicyMasking,
+      piiAccessUser,
+      piiAccessGroupsConfig,
+      piiAccessRolesConfig,
+    ]
+  );
+  const [isPIIRevealed, setIsPIIRevealed] = React.useState(false);
+  // Masked for everyone until an authorised user reveals owner data
+  const piiMaskingEnabled =
+    piiPolicyMasking && !(canUnmaskPII && isPIIRevealed);
+  const maskingPolicyConfig = config.maskingPolicy;
+  const maskingPolicy = React.useMemo(
+    () => resolveMaskingPolicy(maskingPolicyConfig),
+    [maskingPolicyConfig]
+  );
+  const ownerMasking: OwnerMasking = piiMaskingEnabled ? maskingPolicy : false;
+
+  // Audit each unmasked view: the selection when it shows, then additions
+  const auditedFnrKeysRef = React.useRef(new Set<string>());
+  React.useEffect(() => {
+    recordUnmaskedView({
+      rows: selectedProperties,
+      masked: piiMaskingEnabled,
+      audited: auditedFnrKeysRef.current,
+      username: piiAccessUser?.username ?? "",
+      widgetId,
+    });
+  }, [piiMaskingEnabled, piiAccessUser, selectedProperties, widgetId]);
+
+  const recordWidgetAudit = hooks.useEventCallback(
+    (action: AuditAction, rows: readonly GridRowData[], detail?: string) => {
+      const fnrs = collectReportFnrs(rows);
+      if (fnrs.length === 0) return;
+      recordAuditEvent(
+        createAuditEvent({
+          action,
+          username: piiAccessUser?.username ?? "",
+          widgetId,
+          fnrs,
+          detail,
+        })
+      );
+    }
+  );
+
+  const auditEndpointConfig = config.auditEndpoint;
+  const allowedHostsConfig = config.allowedHosts;
+  React.useEffect(() => {
+    const sink = createHttpAuditSink({
+      endpoint: auditEndpointConfig,
+      allowedHosts: allowedHostsConfig,
+      widgetId,
+    });
+    return sink ? registerAuditSink(sink) : undefined;
+  }, [auditEndpointConfig, allowedHostsConfig, widgetId]);
+
+  const [isAuditLogOpen, setIsAuditLogOpen] = React.useState(false);
+  const [auditEvents, setAuditEvents] = React.useState<readonly AuditEvent[]>(
+    []
+  );
+
+  const handleOpenAuditLog = hooks.useEventCallback(() => {
+    setAuditEvents(getAuditEvents());
+    setIsAuditLogOpen(true);
+    trackFeatureUsage("audit_log", true);
+  });
+
+  const handleCloseAuditLog = hooks.useEventCallback(() => {
+    setIsAuditLogOpen(false);
+  });
+
+  const handleDownloadAuditLog = hooks.useEventCallback(() => {
+    try {
+      downloadAuditLog();
+      trackEvent({ category: "Audit", action: "audit_log_download" });
+    } catch (error) {
+      trackError("audit_log_download", error);
+    }
+  });
+
+  const handleTogglePIIReveal = hooks.useEventCallback(() => {
+    if (!canUnmaskPII) return;
+    setIsPIIRevealed((previous) => !previous);
+  });
+  const fieldMappingConfig = config.fieldMapping;
+  const fieldMapping = React.useMemo(
+    () => resolveFieldMapping(fieldMappingConfig),
+    [fieldMappingConfig]
+  );
+
+  // Cached owners carry the old field names; drop them when the mapping changes
+  hooks.useUpdateEffect(() => {
+    clearOwnerQueryCache();
+  }, [fieldMapping]);
+
   const mapWidgetId = useMapWidgetIds?.[0];
   const highlightColorConfig = config.highlightColor;
   const highlightOpacityConfig = config.highlightOpacity;
@@ -585,8 +1099,10 @@ const WidgetContent = (props: AllWidgetProps<IMConfig>): React.ReactElement => {
     dataSourceId: config.propertyDataSourceId,
     dsManagerRef: dsManagerRef,
     viewRef: currentViewRef,
-    enablePIIMasking: piiMaskingEnabled,
+    // Hover lookups are not audited, so the tooltip always follows the policy
+    enablePIIMasking: piiPolicyMasking ? maskingPolicy : false,
     translate,
+    fieldMapping,
   });
 
   // Use ref to avoid closure capture issues
@@ -594,10 +1110,94 @@ const WidgetContent = (props: AllWidgetProps<IMConfig>): React.ReactElement => {
   const isQueryingRef = hooks.useLatest(isQuerying);
   const hasCompletedFirstQueryRef = hooks.useLatest(hasCompletedFirstHitTest);
 
+  // Row/map linking: hover is transient, a row click pins the link
+  const [hoverLink, setHoverLink] = React.useState<RowLink | null>(null);
+  const [pinnedLinkKey, setPinnedLinkKey] = React.useState<string | null>(
+    null
+  );
+  const mapLinkRequestRef = React.useRef(0);
+  const linkedFnrKey = hoverLink?.key ?? pinnedLinkKey;
+
+  const clearMapLink = hooks.useEventCallback(() => {
+    mapLinkRequestRef.current += 1;
+    setHoverLink((current) => (current?.source === "map" ? null : current));
+  });
+
+  const linkRowFromMap = hooks.useEventCallback(
+    (event: __esri.ViewPointerMoveEvent) => {
+      const view = currentViewRef.current;
+      if (!view || (selectedPropertiesRef.current?.length ?? 0) === 0) {
+        clearMapLink();
+        return;
+      }
+
+      const requestId = ++mapLinkRequestRef.current;
+      findHighlightFnrAt(view, { x: event.x, y: event.y })
+        .then((fnr) => {
+          if (requestId !== mapLinkRequestRef.current) return;
+          if (fnr === null) {
+            setHoverLink((current) =>
+              current?.source === "map" ? null : current
+            );
+            return;
+          }
+          const key = normalizeFnrKey(fnr);
+          setHoverLink((current) =>
+            current?.source === "map" && current.key === key
+              ? current
+              : { key, source: "map" }
+          );
+        })
+        .catch((error: unknown) => {
+          if (!isAbortError(error)) {
+            trackError("row_link_hit_test", error);
+          }
+        });
+    }
+  );
+
+  const handleRowHover = hooks.useEventCallback((row: GridRowData | null) => {
+    setHoverLink(
+      row ? { key: normalizeFnrKey(row.FNR), source: "table" } : null
+    );
+  });
+
+  const handleRowClick = hooks.useEventCallback((row: GridRowData) => {
+    const key = normalizeFnrKey(row.FNR);
+    setPinnedLinkKey((current) => (current === key ? null : key));
+  });
+
+  // Emphasis follows the link; links to rows no longer selected are dropped
+  hooks.useUpdateEffect(() => {
+    if (!linkedFnrKey) {
+      clearEmphasis();
+      return;
+    }
+    const linkedRow = selectedProperties.find(
+      (row) => normalizeFnrKey(row.FNR) === linkedFnrKey
+    );
+    if (!linkedRow) {
+      clearEmphasis();
+      setHoverLink(null);
+      setPinnedLinkKey(null);
+      return;
+    }
+    emphasizeHighlightForFnr({
+      fnr: linkedRow.FNR,
+      normalizeFnrKey,
+      highlightColor: buildHighlightColor(
+        highlightColorConfig,
+        highlightOpacityConfig
+      ),
+      outlineWidth: getValidatedOutlineWidth(outlineWidthConfig),
+    });
+  }, [linkedFnrKey, selectedProperties]);
+
   // Throttled hitTest function (50ms is standard for pointer-move)
   const throttledHitTest = useThrottle((event: __esri.ViewPointerMoveEvent) => {
     lastHoverQueryPointRef.current = { x: event.x, y: event.y };
     performHitTest(event);
+    linkRowFromMap(event);
   }, 50);
 
   const handlePointerMove = hooks.useEventCallback(
@@ -637,6 +1237,7 @@ const WidgetContent = (props: AllWidgetProps<IMConfig>): React.ReactElement => {
       onUpdate: updateCursorPoint,
     });
     cleanupHoverQuery();
+    clearMapLink();
   });
 
   hooks.useUpdateEffect(() => {
@@ -645,35 +1246,18 @@ const WidgetContent = (props: AllWidgetProps<IMConfig>): React.ReactElement => {
 
     trackFeatureUsage("pii_masking_toggled", piiMaskingEnabled);
 
-    // Performance: Pre-allocate result array
-    const reformattedProperties = new Array<GridRowData>(
-      currentSelection.length
+    const reformattedProperties = reformatOwnerRows(
+      currentSelection,
+      ownerMasking,
+      translate("unknownOwner")
     );
-    const len = currentSelection.length;
-
-    for (let i = 0; i < len; i++) {
-      const row = currentSelection[i];
-      if (!row.rawOwner || typeof row.rawOwner !== "object") {
-        reformattedProperties[i] = row;
-        continue;
-      }
-
-      const formattedOwner = formatOwnerInfo(
-        row.rawOwner,
-        piiMaskingEnabled,
-        translate("unknownOwner")
-      );
-      reformattedProperties[i] = {
-        ...row,
-        BOSTADR: formattedOwner,
-        ADDRESS: formattedOwner,
-      };
-    }
 
     dispatch(
-      propertyActions.setSelectedProperties(reformattedProperties, widgetId)
+      propertyActions.setSelectedProperties(reformattedProperties, widgetId, {
+        recordHistory: false,
+      })
     );
-  }, [piiMaskingEnabled, translate, dispatch, widgetId]);
+  }, [ownerMasking, translate, dispatch, widgetId]);
 
   hooks.useUpdateEffect(() => {
     const currentSelection = selectedPropertiesRef.current ?? [];
@@ -750,13 +1334,52 @@ const WidgetContent = (props: AllWidgetProps<IMConfig>): React.ReactElement => {
     );
   }, [config.enableBatchOwnerQuery, config.relationshipId]);
 
-  const tableColumnsRef = React.useRef<Array<ColumnDef<GridRowData>>>(
-    createPropertyTableColumns({ translate })
+  const displayColumnsConfig = config.displayColumns;
+  const columnSettingsConfig = config.columnSettings;
+  const tableColumns = React.useMemo<Array<ColumnDef<GridRowData>>>(
+    () =>
+      createPropertyTableColumns({
+        translate,
+        displayColumns: displayColumnsConfig,
+        columnSettings: columnSettingsConfig,
+        maskPII: ownerMasking,
+        fieldMapping,
+      }),
+    [
+      translate,
+      displayColumnsConfig,
+      columnSettingsConfig,
+      ownerMasking,
+      fieldMapping,
+    ]
   );
-  const tableColumns = tableColumnsRef.current;
 
   const [tableSorting, setTableSorting] =
     React.useState<SortingState>(getDefaultSorting());
+  const [columnFilters, setColumnFilters] = React.useState<ColumnFiltersState>(
+    getDefaultColumnFilters()
+  );
+  const [globalFilter, setGlobalFilter] = React.useState("");
+  const [tableViewMode, setTableViewMode] =
+    React.useState<TableViewMode>("flat");
+  const isFiltered = hasActiveFilters(columnFilters, globalFilter);
+  const filteredProperties = React.useMemo(
+    () =>
+      filterPropertiesForTable(
+        selectedProperties,
+        tableColumns,
+        columnFilters,
+        globalFilter
+      ),
+    [selectedProperties, tableColumns, columnFilters, globalFilter]
+  );
+  const exportFilteredRowsOnly = config.exportFilteredRowsOnly ?? false;
+
+  // Copy/export source: the rows shown in the table when configured to
+  const getOutputRows = (): GridRowData[] =>
+    exportFilteredRowsOnly && isFiltered
+      ? filteredProperties
+      : (selectedPropertiesRef.current ?? []);
 
   const closeOtherWidgets = hooks.useEventCallback(() => {
     if (!config?.autoCloseOtherWidgets) return;
@@ -792,55 +1415,198 @@ const WidgetContent = (props: AllWidgetProps<IMConfig>): React.ReactElement => {
     dispatch(appActions.closeWidgets(targets));
   });
 
-  const handleExport = hooks.useEventCallback((format: ExportFormat) => {
-    if (!hasSelectedProperties) return;
+  // Layer URLs identify the sources in the JSON export metadata
+  const getLayerUrl = (dataSourceId: string): string | null => {
+    const dataSource = dsManagerRef.current?.getDataSource(
+      dataSourceId
+    ) as FeatureLayerDataSource | null;
+    return getDataSourceUrl(dataSource);
+  };
 
-    const resultsMap = buildResultsMap(rawPropertyResults);
-    if (!resultsMap || resultsMap.size === 0) return;
+  // The map snapshot zooms the view, so one report is captured at a time
+  const reportInFlightRef = React.useRef(false);
 
-    const selectedRows = [...selectedProperties];
-    const selectedRawData = collectSelectedRawData(selectedRows, resultsMap);
-    if (selectedRawData.length === 0) return;
+  const buildReportOptions = async (): Promise<PropertyReportOptions> => {
+    const mapImage = await captureSelectionSnapshot(
+      getCurrentView(),
+      getHighlightExtent()
+    );
+    return {
+      labels: {
+        title: translate("reportTitle"),
+        created: translate("reportCreated").replace(
+          "{date}",
+          new Date().toLocaleString()
+        ),
+        mapUnavailable: translate("reportMapUnavailable"),
+        legend: translate("reportLegendSelected"),
+        designation: translate("reportColumnDesignation"),
+        owner: translate("reportColumnOwner"),
+        share: translate("reportColumnShare"),
+        page: translate("reportPage"),
+      },
+      mapImage,
+      highlightColor: buildHighlightColor(
+        highlightColorConfig,
+        highlightOpacityConfig
+      ),
+      outlineWidth: getValidatedOutlineWidth(outlineWidthConfig),
+    };
+  };
+
+  // A projection engine that fails to load still gives a file, with the
+  // native coordinates and a warning
+  const buildGeoJsonOptions = async (): Promise<GeoJsonExportOptions> => {
+    const options: GeoJsonExportOptions = {
+      ...resolveGeoJsonExportOptions(
+        config.geojsonCrs,
+        config.geojsonPrecision
+      ),
+      onNativeFallback: () => {
+        setUrlFeedback({
+          type: "warning",
+          text: translate("geojsonNativeFallback"),
+        });
+      },
+    };
+    if (options.crs !== "wgs84") return options;
 
     try {
-      exportData(
-        selectedRawData,
-        selectedRows,
-        {
-          format,
-          filename: "property-export",
-          rowCount: selectedRows.length,
-          definition: EXPORT_FORMATS.find((item) => item.id === format),
-        },
-        config.enablePIIMasking,
-        translate("unknownOwner")
+      return {
+        ...options,
+        projectToWgs84: await createWgs84GeometryProjector(),
+      };
+    } catch (error) {
+      trackError("geojson_projection_load", error);
+      return options;
+    }
+  };
+
+  const handleExport = hooks.useEventCallback(
+    async (format: ExportFormat, csv?: CsvExportOptions) => {
+      if (!hasSelectedProperties) return;
+      if (format === "report" && reportInFlightRef.current) return;
+
+      const resultsMap = buildResultsMap(rawPropertyResults);
+      if (!resultsMap || resultsMap.size === 0) return;
+
+      const selectedRows = applySortingToProperties(
+        getOutputRows(),
+        tableSorting
       );
+      const selectedRawData = collectSelectedRawData(selectedRows, resultsMap);
+      if (selectedRawData.length === 0) return;
 
-      trackEvent({
-        category: "Export",
-        action: `export_${format}`,
-        label: tableSorting.length > 0 ? "sorted" : "unsorted",
-        value: selectedRows.length,
-      });
-    } catch (error) {
-      trackError(`export_${format}`, error);
+      try {
+        let report: PropertyReportOptions | undefined;
+        if (format === "report") {
+          reportInFlightRef.current = true;
+          report = await buildReportOptions();
+        }
+        const geojson =
+          format === "geojson" ? await buildGeoJsonOptions() : undefined;
+
+        exportData(
+          selectedRawData,
+          selectedRows,
+          {
+            format,
+            filename: "property-export",
+            rowCount: selectedRows.length,
+            definition: EXPORT_FORMATS.find((item) => item.id === format),
+            mailing: {
+              layout: resolveMailingLabelLayout(config.mailingLabelTemplate),
+              moreOwnersText: translate("labelMoreOwners"),
+            },
+            report,
+            json: {
+              appId: appId ?? null,
+              widgetId,
+              sources: {
+                property: getLayerUrl(config.propertyDataSourceId),
+                owner: getLayerUrl(config.ownerDataSourceId),
+              },
+            },
+            geojson,
+            csv,
+            fieldMapping,
+          },
+          ownerMasking,
+          translate("unknownOwner")
+        );
+        recordWidgetAudit("export", selectedRows, format);
+
+        trackEvent({
+          category: "Export",
+          action: `export_${format}`,
+          label: tableSorting.length > 0 ? "sorted" : "unsorted",
+          value: selectedRows.length,
+        });
+      } catch (error) {
+        trackError(`export_${format}`, error);
+      } finally {
+        if (format === "report") reportInFlightRef.current = false;
+      }
     }
+  );
+
+  // CSV choices are asked for before each CSV export and remembered per user
+  const [isCsvDialogOpen, setIsCsvDialogOpen] = React.useState(false);
+  const [csvOptions, setCsvOptions] = React.useState<CsvExportOptions>(
+    DEFAULT_CSV_EXPORT_OPTIONS
+  );
+  const [csvColumnOptions, setCsvColumnOptions] = React.useState<
+    readonly string[]
+  >([]);
+
+  const getCsvOptionsStorageKey = () =>
+    buildCsvOptionsStorageKey(piiAccessUser?.username, appId, widgetId);
+
+  const handleOpenCsvDialog = hooks.useEventCallback(() => {
+    if (!hasSelectedProperties) return;
+    setCsvOptions(
+      loadCsvExportOptions(getPreferenceStorage(), getCsvOptionsStorageKey()) ??
+        DEFAULT_CSV_EXPORT_OPTIONS
+    );
+    setCsvColumnOptions(collectCsvColumnOptions(getOutputRows()));
+    setIsCsvDialogOpen(true);
+  });
+
+  const handleCloseCsvDialog = hooks.useEventCallback(() => {
+    setIsCsvDialogOpen(false);
   });
 
+  const handleCsvExport = hooks.useEventCallback(
+    (options: CsvExportOptions) => {
+      setIsCsvDialogOpen(false);
+      setCsvOptions(options);
+      saveCsvExportOptions(
+        getPreferenceStorage(),
+        getCsvOptionsStorageKey(),
+        options
+      );
+      void handleExport("csv", options);
+    }
+  );
+
   const handleExportFormatSelect = hooks.useEventCallback(
     (format: ExportFormat) => {
-      if (!["json", "csv", "geojson"].includes(format)) {
+      if (!EXPORT_FORMATS.some((definition) => definition.id === format)) {
+        return;
+      }
+      if (format === "csv") {
+        handleOpenCsvDialog();
         return;
       }
-      handleExport(format);
+      void handleExport(format);
     }
   );
 
   const handleCopyToClipboard = hooks.useEventCallback(() => {
     setUrlFeedback(null);
 
-    const currentSelection = selectedPropertiesRef.current ?? [];
-    if (!currentSelection || currentSelection.length === 0) return;
+    const currentSelection = getOutputRows();
+    if (currentSelection.length === 0) return;
 
     const selectionArray = [...currentSelection];
 
@@ -848,13 +1614,16 @@ const WidgetContent = (props: AllWidgetProps<IMConfig>): React.ReactElement => {
       const payload = buildClipboardPayload(
         selectionArray,
         tableSorting,
-        piiMaskingEnabled,
+        ownerMasking,
         translate
       );
 
       if (!payload) return;
 
       const copySucceeded = copyToClipboard(payload.text);
+      if (copySucceeded) {
+        recordWidgetAudit("copy", selectionArray, "selection");
+      }
       notifyCopyOutcome(
         copySucceeded,
         payload,
@@ -871,24 +1640,842 @@ const WidgetContent = (props: AllWidgetProps<IMConfig>): React.ReactElement => {
     }
   });
 
-  const handlePropertyDataSourceFailed = hooks.useEventCallback(() => {
-    setError(ErrorType.VALIDATION_ERROR, translate("errorNoDataAvailable"));
+  // Row actions: geometry comes from the live highlight, else the stored row
+  const resolveRowGeometry = (row: GridRowData): __esri.Geometry | null => {
+    const highlighted = getHighlightGeometry(row.FNR, normalizeFnrKey);
+    if (highlighted || !modules?.Graphic) {
+      return highlighted;
+    }
+    const [entry] = buildGraphicEntriesFromRows({
+      rows: [row],
+      createGraphic: (properties) => new modules.Graphic(properties),
+      normalizeFnrKey,
+    });
+    return entry?.graphic.geometry ?? null;
+  };
+
+  const handleZoomToRow = hooks.useEventCallback((row: GridRowData) => {
+    const view = getCurrentView();
+    const geometry = resolveRowGeometry(row);
+    if (!view || !geometry) return;
+
+    view.goTo(geometry).catch((error: unknown) => {
+      if (!isAbortError(error)) {
+        trackError("row_zoom", error);
+      }
+    });
+    trackEvent({ category: "Property", action: "row_zoom" });
   });
 
-  const handleOwnerDataSourceFailed = hooks.useEventCallback(() => {
-    setError(ErrorType.VALIDATION_ERROR, translate("errorNoDataAvailable"));
+  const handleFlashRow = hooks.useEventCallback((row: GridRowData) => {
+    if (flashHighlightForFnr(row.FNR, normalizeFnrKey)) {
+      trackEvent({ category: "Property", action: "row_flash" });
+    }
   });
 
-  const handleMapClickCore = hooks.useEventCallback(
-    async (event: __esri.ViewClickEvent) => {
-      const tracker = createPerformanceTracker("map_click_query");
+  const handleRemoveRow = hooks.useEventCallback((row: GridRowData) => {
+    if (isQueryInFlight) return;
 
-      try {
-        const processedCount = await executePropertySelection(event, tracker);
+    const update = removePropertyFromSelection({
+      fnr: row.FNR,
+      selectedProperties: selectedPropertiesRef.current ?? [],
+      rawResults: rawPropertyResultsRef.current,
+      normalizeFnrKey,
+    });
+    if (update.removedCount === 0) return;
 
-        tracker.success();
-        trackEvent({
-          category: "Query",
+    removeHighlightForFnr(row.FNR, normalizeFnrKey);
+    rawPropertyResultsRef.current = update.resultsToStore;
+    dispatch(
+      propertyActions.setSelectedProperties(update.rowsToStore, widgetId)
+    );
+    dispatch(propertyActions.setRawResults(update.resultsToStore, widgetId));
+    trackEvent({
+      category: "Property",
+      action: "row_remove",
+      value: update.removedCount,
+    });
+  });
+
+  const handleCopyRow = hooks.useEventCallback((row: GridRowData) => {
+    setUrlFeedback(null);
+    try {
+      const payload = {
+        text: formatPropertiesForClipboard(
+          [row],
+          ownerMasking,
+          translate("unknownOwner")
+        ),
+        count: 1,
+        isSorted: false,
+      };
+      const copySucceeded = copyToClipboard(payload.text);
+      if (copySucceeded) {
+        recordWidgetAudit("copy", [row], "row");
+      }
+      notifyCopyOutcome(
+        copySucceeded,
+        payload,
+        translate,
+        setUrlFeedback,
+        trackEvent
+      );
+    } catch (error) {
+      setUrlFeedback({ type: "error", text: translate("copyFailed") });
+      trackError("copy_row", error);
+    }
+  });
+
+  const reportSettings: FBWebbSettings = {
+    baseUrl: config.fbwebbBaseUrl,
+    database: config.fbwebbDatabase,
+    user: config.fbwebbUser,
+  };
+  const canBuildReportUrl = isReportConfigured(reportSettings);
+
+  const handleCopyReportUrl = hooks.useEventCallback(() => {
+    setUrlFeedback(null);
+    setUrlFallback(null);
+
+    const currentSelection = selectedPropertiesRef.current ?? [];
+    if (currentSelection.length === 0) return;
+
+    const result = buildFBWebbReportUrl({
+      settings: reportSettings,
+      rows: currentSelection,
+      allowedHosts: config.allowedHosts,
+      translate,
+    });
+
+    if (isValidationFailure(result)) {
+      setUrlFeedback({ type: "error", text: result.error.message });
+      trackError("report_url", result.failureReason);
+      return;
+    }
+
+    const { url, count } = result.data;
+    const copySucceeded = copyToClipboard(url);
+
+    if (copySucceeded) {
+      setUrlFeedback({
+        type: "success",
+        text: translate("reportUrlCopied").replace("{count}", String(count)),
+      });
+    } else {
+      setUrlFeedback({ type: "error", text: translate("reportUrlCopyFailed") });
+      setUrlFallback({ url, labelKey: "reportUrlLabel" });
+    }
+
+    trackEvent({
+      category: "Copy",
+      action: "copy_report_url",
+      label: copySucceeded ? "success" : "failed",
+      value: count,
+    });
+  });
+
+  const handleCopyShareLink = hooks.useEventCallback(() => {
+    setUrlFeedback(null);
+    setUrlFallback(null);
+
+    const currentSelection = selectedPropertiesRef.current ?? [];
+    if (currentSelection.length === 0) return;
+
+    const result = buildSelectionShareUrl({
+      href: window.location.href,
+      widgetId,
+      rows: currentSelection,
+      translate,
+    });
+
+    if (isValidationFailure(result)) {
+      setUrlFeedback({ type: "error", text: result.error.message });
+      trackError("share_link", result.failureReason);
+      return;
+    }
+
+    const { url, count } = result.data;
+    const copySucceeded = copyToClipboard(url);
+
+    if (copySucceeded) {
+      setUrlFeedback({
+        type: "success",
+        text: translate("shareLinkCopied").replace("{count}", String(count)),
+      });
+    } else {
+      setUrlFeedback({ type: "error", text: translate("shareLinkCopyFailed") });
+      setUrlFallback({ url, labelKey: "shareLinkLabel" });
+    }
+
+    trackEvent({
+      category: "Copy",
+      action: "copy_share_link",
+      label: copySucceeded ? "success" : "failed",
+      value: count,
+    });
+  });
+
+  const handleDismissReportUrl = hooks.useEventCallback(() => {
+    setUrlFallback(null);
+  });
+
+  const handleReportUrlFocus = hooks.useEventCallback(
+    (event: React.FocusEvent<HTMLInputElement>) => {
+      event.target.select();
+    }
+  );
+
+  const handlePropertyDataSourceFailed = hooks.useEventCallback(() => {
+    setError(ErrorType.VALIDATION_ERROR, translate("errorNoDataAvailable"));
+  });
+
+  const handleOwnerDataSourceFailed = hooks.useEventCallback(() => {
+    setError(ErrorType.VALIDATION_ERROR, translate("errorNoDataAvailable"));
+  });
+
+  const resolveBufferInput = hooks.useEventCallback(
+    (): { distance: number; unit: BufferUnit } | null => {
+      const validation = validateBufferDistance(
+        bufferDistance,
+        bufferUnit,
+        translate
+      );
+
+      if (isValidationFailure(validation)) {
+        const { error, failureReason } = validation;
+        setError(error.type as ErrorType, error.message);
+        trackError("buffer_distance_validation", failureReason);
+        return null;
+      }
+
+      return validation.data;
+    }
+  );
+
+  const handleBufferSelection = hooks.useEventCallback(
+    async (
+      event: __esri.ViewClickEvent,
+      sourceGeometry: __esri.Geometry | null
+    ) => {
+      const buffer = resolveBufferInput();
+      if (!buffer) return;
+
+      const tracker = createPerformanceTracker("buffer_query");
+
+      try {
+        const processedCount = await executeBufferSelection(
+          event,
+          sourceGeometry,
+          buffer,
+          tracker
+        );
+
+        tracker.success();
+        trackEvent({
+          category: "Query",
+          action: "buffer_query",
+          label: buffer.unit,
+          value: processedCount,
+        });
+      } catch (error) {
+        if (isAbortError(error)) {
+          tracker.failure("aborted");
+          dispatch(propertyActions.setQueryInFlight(false, widgetId));
+          return;
+        }
+
+        const queryError = describeQueryError(error, translate);
+        setError(queryError.type, queryError.message);
+        tracker.failure("query_error");
+        dispatch(propertyActions.setQueryInFlight(false, widgetId));
+        trackError("buffer_query", error);
+      }
+    }
+  );
+
+  const handleApplyBuffer = hooks.useEventCallback(() => {
+    const lastSource = lastBufferSourceRef.current;
+    if (!lastSource) return;
+    void handleBufferSelection(lastSource.event, lastSource.sourceGeometry);
+  });
+
+  const handleToggleBufferMode = hooks.useEventCallback(() => {
+    const nextMode: SelectionMode = isBufferMode ? "click" : "buffer";
+    stopSketch();
+    setSelectionMode(nextMode);
+    resetBufferSource();
+    trackFeatureUsage("buffer_search", nextMode === "buffer");
+  });
+
+  const handleBufferDistanceChange = hooks.useEventCallback(
+    (value: number) => {
+      setBufferDistance(value);
+    }
+  );
+
+  // Apply re-runs the last click from the new origin
+  const handleBufferOriginChange = hooks.useEventCallback(
+    (event: React.ChangeEvent<HTMLSelectElement>) => {
+      const nextOrigin = event?.target?.value as BufferOrigin;
+      if (!BUFFER_ORIGINS.includes(nextOrigin)) return;
+      setBufferOrigin(nextOrigin);
+      const lastSource = lastBufferSourceRef.current;
+      if (lastSource) {
+        lastBufferSourceRef.current = { ...lastSource, sourceGeometry: null };
+      }
+    }
+  );
+
+  const handleBufferUnitChange = hooks.useEventCallback(
+    (event: React.ChangeEvent<HTMLSelectElement>) => {
+      const nextUnit = event?.target?.value as BufferUnit;
+      if (BUFFER_UNITS.includes(nextUnit)) {
+        setBufferUnit(nextUnit);
+      }
+    }
+  );
+
+  const executeSketchSelection = hooks.useEventCallback(
+    async (
+      request: { geometry: __esri.Geometry; manager: DataSourceManager },
+      buffer: { distance: number; unit: BufferUnit } | null,
+      tracker: ReturnType<typeof createPerformanceTracker>
+    ): Promise<number> => {
+      return await runSelectionRequest(
+        tracker,
+        async ({
+          signal,
+          selectedProperties: selectionForPipeline,
+          isStaleRequest,
+        }) => {
+          const sketchResult = await executeSketchQueryPipeline({
+            geometry: request.geometry,
+            bufferDistance: buffer?.distance,
+            bufferUnit: buffer?.unit,
+            config,
+            dsManager: request.manager,
+            maxResults,
+            enablePIIMasking: ownerMasking,
+            selectedProperties: selectionForPipeline,
+            signal,
+            translate,
+            runPipeline: runSketchSelectionPipeline,
+          });
+
+          if (!isStaleRequest()) {
+            if (sketchResult.buffer) {
+              showBufferPreview({
+                geometry: sketchResult.buffer,
+                view: getCurrentView(),
+                highlightColor: buildHighlightColor(
+                  highlightColorConfig,
+                  highlightOpacityConfig
+                ),
+                outlineWidth: getValidatedOutlineWidth(outlineWidthConfig),
+              });
+            } else {
+              clearBufferPreview();
+            }
+          }
+
+          return sketchResult.selection;
+        }
+      );
+    }
+  );
+
+  const handleSketchComplete = hooks.useEventCallback(
+    async (geometry: __esri.Geometry, tool: SketchTool) => {
+      const tracker = createPerformanceTracker("sketch_query");
+
+      const validation = validateSketchSelectionRequest({
+        geometry,
+        modules,
+        config,
+        dsManager: dsManagerRef.current,
+        translate,
+      });
+
+      if (isValidationFailure(validation)) {
+        const { error, failureReason } = validation;
+        setError(error.type as ErrorType, error.message);
+        tracker.failure(failureReason);
+        trackError("sketch_validation", failureReason);
+        return;
+      }
+
+      // Lines may be widened into a corridor; zero distance keeps the bare line
+      let buffer: { distance: number; unit: BufferUnit } | null = null;
+      if (tool === "polyline" && bufferDistance > 0) {
+        buffer = resolveBufferInput();
+        if (!buffer) {
+          tracker.failure("invalid_buffer_distance");
+          return;
+        }
+      }
+
+      try {
+        const processedCount = await executeSketchSelection(
+          validation.data,
+          buffer,
+          tracker
+        );
+
+        tracker.success();
+        trackEvent({
+          category: "Query",
+          action: "sketch_query",
+          label: tool,
+          value: processedCount,
+        });
+      } catch (error) {
+        if (isAbortError(error)) {
+          tracker.failure("aborted");
+          dispatch(propertyActions.setQueryInFlight(false, widgetId));
+          return;
+        }
+
+        const queryError = describeQueryError(error, translate);
+        setError(queryError.type, queryError.message);
+        tracker.failure("query_error");
+        dispatch(propertyActions.setQueryInFlight(false, widgetId));
+        trackError("sketch_query", error);
+      }
+    }
+  );
+
+  const executeFnrSelection = hooks.useEventCallback(
+    async (
+      request: { fnrs: readonly FnrValue[]; manager: DataSourceManager },
+      tracker: ReturnType<typeof createPerformanceTracker>
+    ): Promise<number> => {
+      return await runSelectionRequest(
+        tracker,
+        ({ signal, selectedProperties: selectionForPipeline }) =>
+          executeFnrQueryPipeline({
+            fnrs: request.fnrs,
+            config,
+            dsManager: request.manager,
+            maxResults,
+            enablePIIMasking: ownerMasking,
+            selectedProperties: selectionForPipeline,
+            signal,
+            translate,
+            runPipeline: runFnrSelectionPipeline,
+          })
+      );
+    }
+  );
+
+  const handleMessageSelection = hooks.useEventCallback(
+    async (request: MessageSelectionRequest) => {
+      const tracker = createPerformanceTracker("message_query");
+
+      try {
+        let processedCount = 0;
+
+        if (request.kind === "fnr") {
+          const validation = validateFnrSelectionRequest({
+            fnrs: request.fnrs,
+            modules,
+            config,
+            dsManager: dsManagerRef.current,
+            translate,
+          });
+          if (isValidationFailure(validation)) {
+            const { error, failureReason } = validation;
+            setError(error.type as ErrorType, error.message);
+            tracker.failure(failureReason);
+            trackError("message_validation", failureReason);
+            return;
+          }
+
+          processedCount = await executeFnrSelection(validation.data, tracker);
+        } else {
+          const geometry = await mergeGeometries(request.geometries);
+          const validation = validateSketchSelectionRequest({
+            geometry,
+            modules,
+            config,
+            dsManager: dsManagerRef.current,
+            translate,
+          });
+          if (isValidationFailure(validation)) {
+            const { error, failureReason } = validation;
+            setError(error.type as ErrorType, error.message);
+            tracker.failure(failureReason);
+            trackError("message_validation", failureReason);
+            return;
+          }
+
+          processedCount = await executeSketchSelection(
+            validation.data,
+            null,
+            tracker
+          );
+        }
+
+        tracker.success();
+        trackEvent({
+          category: "Query",
+          action: "message_query",
+          label: request.kind,
+          value: processedCount,
+        });
+      } catch (error) {
+        if (isAbortError(error)) {
+          tracker.failure("aborted");
+          dispatch(propertyActions.setQueryInFlight(false, widgetId));
+          return;
+        }
+
+        const queryError = describeQueryError(error, translate);
+        setError(queryError.type, queryError.message);
+        tracker.failure("query_error");
+        dispatch(propertyActions.setQueryInFlight(false, widgetId));
+        trackError("message_query", error);
+      }
+    }
+  );
+
+  // Message actions hand requests over through mutable state; each request id
+  // runs once, after the map modules are available
+  const messageSelection =
+    props.mutableStateProps?.[MESSAGE_SELECTION_STATE_KEY];
+  const handledMessageIdRef = React.useRef<number | null>(null);
+
+  React.useEffect(() => {
+    if (!modules || !isMessageSelectionRequest(messageSelection)) return;
+    if (handledMessageIdRef.current === messageSelection.id) return;
+    handledMessageIdRef.current = messageSelection.id;
+    // Clear the request so a remount does not run it again
+    MutableStoreManager.getInstance().updateStateValue(
+      widgetId,
+      MESSAGE_SELECTION_STATE_KEY,
+      null
+    );
+    void handleMessageSelection(messageSelection);
+  }, [messageSelection, modules, handleMessageSelection, widgetId]);
+
+  // Publish the selection so other widgets can follow it
+  const publishSelectionMessage = hooks.useEventCallback(
+    (rows: GridRowData[]) => {
+      if (rows.length === 0) {
+        MessageManager.getInstance().publishMessage(
+          new DataRecordSetChangeMessage(
+            widgetId,
+            RecordSetChangeType.Remove,
+            [widgetId]
+          )
+        );
+        return;
+      }
+
+      const propertyDs = dsManagerRef.current?.getDataSource(
+        config.propertyDataSourceId
+      ) as FeatureLayerDataSource | null;
+      if (!propertyDs || !modules?.Graphic) return;
+
+      const records = buildMessageRecordGraphics({
+        rows,
+        createGraphic: (properties) => new modules.Graphic(properties),
+        fnrField: resolveFieldMapping(config.fieldMapping).fnr,
+      }).map((graphic) => propertyDs.buildRecord(graphic));
+
+      const dataSet: DataRecordSet = {
+        name: widgetId,
+        label: props.label ?? widgetId,
+        type: "selected",
+        dataSource: propertyDs,
+        records,
+      };
+
+      MessageManager.getInstance().publishMessage(
+        new DataRecordSetChangeMessage(
+          widgetId,
+          RecordSetChangeType.CreateUpdate,
+          [dataSet]
+        )
+      );
+    }
+  );
+
+  hooks.useUpdateEffect(() => {
+    try {
+      publishSelectionMessage(selectedProperties);
+    } catch (error) {
+      trackError("message_publish", error);
+    }
+  }, [selectedProperties]);
+
+  const [isListDialogOpen, setIsListDialogOpen] = React.useState(false);
+  const [listReport, setListReport] =
+    React.useState<SelectionListReport | null>(null);
+
+  const handleOpenListDialog = hooks.useEventCallback(() => {
+    setListReport(null);
+    setIsListDialogOpen(true);
+    trackFeatureUsage("select_from_list", true);
+  });
+
+  const handleCloseListDialog = hooks.useEventCallback(() => {
+    setIsListDialogOpen(false);
+  });
+
+  const handleListSubmit = hooks.useEventCallback(async (text: string) => {
+    const tracker = createPerformanceTracker("list_query");
+    const { entries, truncated } = parseSelectionList(text);
+    const emptyReport: SelectionListReport = {
+      total: entries.length,
+      matched: 0,
+      unresolved: [],
+      truncated,
+    };
+
+    const validation = validateListSelectionRequest({
+      entries,
+      modules,
+      config,
+      dsManager: dsManagerRef.current,
+      translate,
+    });
+    if (isValidationFailure(validation)) {
+      setListReport({ ...emptyReport, error: validation.error.message });
+      tracker.failure(validation.failureReason);
+      trackError("list_validation", validation.failureReason);
+      return;
+    }
+
+    const { fnrs, designations } = splitSelectionListEntries(entries);
+    let propertyResults: QueryResult[] = [];
+    setListReport(null);
+
+    try {
+      const processedCount = await runSelectionRequest(
+        tracker,
+        async ({ signal, selectedProperties: selectionForPipeline }) => {
+          const listResult = await executeListQueryPipeline({
+            fnrs,
+            designations,
+            config,
+            dsManager: validation.data.manager,
+            maxResults,
+            enablePIIMasking: ownerMasking,
+            selectedProperties: selectionForPipeline,
+            signal,
+            translate,
+            runPipeline: runListSelectionPipeline,
+          });
+          propertyResults = listResult.propertyResults;
+          return listResult.selection;
+        }
+      );
+
+      const unresolved = findUnresolvedEntries(
+        entries,
+        propertyResults,
+        fieldMapping
+      );
+      setListReport({
+        ...emptyReport,
+        matched: entries.length - unresolved.length,
+        unresolved,
+      });
+
+      tracker.success();
+      trackEvent({
+        category: "Query",
+        action: "list_query",
+        label: unresolved.length > 0 ? "partial" : "complete",
+        value: processedCount,
+      });
+    } catch (error) {
+      dispatch(propertyActions.setQueryInFlight(false, widgetId));
+      if (isAbortError(error)) {
+        tracker.failure("aborted");
+        return;
+      }
+
+      setListReport({
+        ...emptyReport,
+        error: describeQueryError(error, translate).message,
+      });
+      tracker.failure("query_error");
+      trackError("list_query", error);
+    }
+  });
+
+  // Selection persistence: restore once the data sources exist, then keep the
+  // stored FNRs in step with every selection change
+  const selectionPersistence = resolveSelectionPersistence(
+    config.selectionPersistence
+  );
+  const appId = ReactRedux.useSelector(
+    (state: IMState) => state.queryObject?.id as string | undefined
+  );
+  const selectionStorageKey = buildSelectionStorageKey(appId, widgetId);
+  const [dataSourceCreatedCount, setDataSourceCreatedCount] = React.useState(0);
+  const restoreAttemptedRef = React.useRef(false);
+
+  const handleDataSourceCreated = hooks.useEventCallback(() => {
+    setDataSourceCreatedCount((count) => count + 1);
+  });
+
+  const handleRestoreSelection = hooks.useEventCallback(
+    async (fnrs: FnrValue[], source: "share_link" | "storage") => {
+      const tracker = createPerformanceTracker("restore_selection");
+
+      const validation = validateFnrSelectionRequest({
+        fnrs,
+        modules,
+        config,
+        dsManager: dsManagerRef.current,
+        translate,
+      });
+      if (isValidationFailure(validation)) {
+        tracker.failure(validation.failureReason);
+        trackError("restore_validation", validation.failureReason);
+        return;
+      }
+
+      try {
+        const processedCount = await executeFnrSelection(
+          validation.data,
+          tracker
+        );
+
+        tracker.success();
+        trackEvent({
+          category: "Property",
+          action: "restore_selection",
+          label: source,
+          value: processedCount,
+        });
+      } catch (error) {
+        if (isAbortError(error)) {
+          tracker.failure("aborted");
+          dispatch(propertyActions.setQueryInFlight(false, widgetId));
+          return;
+        }
+
+        const queryError = describeQueryError(error, translate);
+        setError(queryError.type, queryError.message);
+        tracker.failure("query_error");
+        dispatch(propertyActions.setQueryInFlight(false, widgetId));
+        trackError("restore_selection", error);
+      }
+    }
+  );
+
+  React.useEffect(() => {
+    if (restoreAttemptedRef.current || !modules) return;
+    const manager = dsManagerRef.current;
+    if (
+      !manager?.getDataSource(config.propertyDataSourceId) ||
+      !manager.getDataSource(config.ownerDataSourceId)
+    ) {
+      return;
+    }
+    restoreAttemptedRef.current = true;
+
+    // A shared link wins over the stored selection and is consumed once
+    const sharedFnrs = readSharedSelection(window.location.hash, widgetId);
+    if (sharedFnrs.length > 0) {
+      window.history.replaceState(
+        window.history.state,
+        "",
+        removeSharedSelectionParam(window.location.href, widgetId)
+      );
+      void handleRestoreSelection(sharedFnrs, "share_link");
+      return;
+    }
+
+    if ((selectedPropertiesRef.current ?? []).length > 0) return;
+    const storedFnrs = loadStoredSelection(
+      getSelectionStorage(selectionPersistence),
+      selectionStorageKey
+    );
+    if (storedFnrs.length > 0) {
+      void handleRestoreSelection(storedFnrs, "storage");
+    }
+  }, [
+    modules,
+    dataSourceCreatedCount,
+    config.propertyDataSourceId,
+    config.ownerDataSourceId,
+    selectionPersistence,
+    selectionStorageKey,
+    widgetId,
+    handleRestoreSelection,
+  ]);
+
+  hooks.useUpdateEffect(() => {
+    saveStoredSelection(
+      getSelectionStorage(selectionPersistence),
+      selectionStorageKey,
+      selectedProperties
+    );
+  }, [selectedProperties]);
+
+  const { startSketch, stopSketch, destroySketch } = useSketchSelection({
+    widgetId,
+    modules,
+    onSketchComplete: handleSketchComplete,
+  });
+
+  const handleSelectSketchTool = hooks.useEventCallback(
+    async (tool: SketchTool) => {
+      resetBufferSource();
+
+      if (activeSketchTool === tool) {
+        stopSketch();
+        setSelectionMode("click");
+        trackFeatureUsage(`sketch_${tool}`, false);
+        return;
+      }
+
+      setSelectionMode(tool);
+      trackFeatureUsage(`sketch_${tool}`, true);
+
+      try {
+        const started = await startSketch(getCurrentView(), tool);
+        if (!started) {
+          setSelectionMode("click");
+        }
+      } catch (error) {
+        setSelectionMode("click");
+        setError(ErrorType.VALIDATION_ERROR, translate("errorLoadingModules"));
+        trackError("sketch_start", error);
+      }
+    }
+  );
+
+  const handleStopSketch = hooks.useEventCallback(() => {
+    stopSketch();
+    clearBufferPreview();
+    setSelectionMode("click");
+  });
+
+  const handleMapClickCore = hooks.useEventCallback(
+    async (event: __esri.ViewClickEvent) => {
+      // Clicks while sketching place vertices and must not select
+      if (activeSketchTool) {
+        return;
+      }
+
+      if (isBufferMode) {
+        await handleBufferSelection(event, null);
+        return;
+      }
+
+      const tracker = createPerformanceTracker("map_click_query");
+
+      try {
+        const processedCount = await executePropertySelection(event, tracker);
+
+        tracker.success();
+        trackEvent({
+          category: "Query",
           action: "property_query",
           label: "success",
           value: processedCount,
@@ -902,7 +2489,8 @@ const WidgetContent = (props: AllWidgetProps<IMConfig>): React.ReactElement => {
           return;
         }
 
-        setError(ErrorType.QUERY_ERROR, translate("errorQueryFailed"));
+        const queryError = describeQueryError(error, translate);
+        setError(queryError.type, queryError.message);
         tracker.failure("query_error");
         dispatch(propertyActions.setQueryInFlight(false, widgetId));
         trackError("property_query", error);
@@ -1130,6 +2718,8 @@ const WidgetContent = (props: AllWidgetProps<IMConfig>): React.ReactElement => {
 
   const performWidgetCleanup = hooks.useEventCallback(() => {
     handleWidgetReset();
+    destroySketch();
+    setSelectionMode("click");
     cleanup();
   });
 
@@ -1257,6 +2847,7 @@ const WidgetContent = (props: AllWidgetProps<IMConfig>): React.ReactElement => {
         <DataSourceComponent
           key={`${id}-property-ds`}
           useDataSource={propertyUseDataSource}
+          onDataSourceCreated={handleDataSourceCreated}
           onCreateDataSourceFailed={handlePropertyDataSourceFailed}
         />
       ) : null}
@@ -1265,6 +2856,7 @@ const WidgetContent = (props: AllWidgetProps<IMConfig>): React.ReactElement => {
         <DataSourceComponent
           key={`${id}-owner-ds`}
           useDataSource={ownerUseDataSource}
+          onDataSourceCreated={handleDataSourceCreated}
           onCreateDataSourceFailed={handleOwnerDataSourceFailed}
         />
       ) : null}
@@ -1281,6 +2873,43 @@ const WidgetContent = (props: AllWidgetProps<IMConfig>): React.ReactElement => {
             >
               <SVG src={copyButton} size={20} />
             </Button>
+            <Button
+              type="tertiary"
+              icon
+              onClick={handleCopyShareLink}
+              title={translate("copyShareLink")}
+              aria-label={translate("copyShareLink")}
+              disabled={!hasSelectedProperties}
+            >
+              <SVG src={shareIcon} size={20} />
+            </Button>
+            {canBuildReportUrl ? (
+              <Button
+                type="tertiary"
+                icon
+                onClick={handleCopyReportUrl}
+                title={translate("copyReportUrl")}
+                aria-label={translate("copyReportUrl")}
+                disabled={!hasSelectedProperties}
+              >
+                <SVG src={linkIcon} size={20} />
+              </Button>
+            ) : null}
+            {canUnmaskPII ? (
+              <Button
+                type="tertiary"
+                icon
+                active={isPIIRevealed}
+                onClick={handleTogglePIIReveal}
+                title={translate(
+                  isPIIRevealed ? "hideOwnerData" : "revealOwnerData"
+                )}
+                aria-label={translate("revealOwnerData")}
+                aria-pressed={isPIIRevealed}
+              >
+                <SVG src={eyeIcon} size={20} />
+              </Button>
+            ) : null}
             <Dropdown
               activeIcon
               menuRole="listbox"
@@ -1309,6 +2938,87 @@ const WidgetContent = (props: AllWidgetProps<IMConfig>): React.ReactElement => {
                 ))}
               </DropdownMenu>
             </Dropdown>
+            <Button
+              type="tertiary"
+              icon
+              onClick={handleOpenListDialog}
+              title={translate("selectFromList")}
+              aria-label={translate("selectFromList")}
+              aria-haspopup="dialog"
+            >
+              <SVG src={listIcon} size={20} />
+            </Button>
+            <Button
+              type="tertiary"
+              icon
+              onClick={handleOpenAuditLog}
+              title={translate("auditLog")}
+              aria-label={translate("auditLog")}
+              aria-haspopup="dialog"
+            >
+              <SVG src={historyIcon} size={20} />
+            </Button>
+            <Button
+              type="tertiary"
+              icon
+              active={isBufferMode}
+              onClick={handleToggleBufferMode}
+              title={translate("bufferSearch")}
+              aria-label={translate("bufferSearch")}
+              aria-pressed={isBufferMode}
+            >
+              <SVG src={bufferIcon} size={20} />
+            </Button>
+            <Dropdown
+              activeIcon
+              menuRole="listbox"
+              aria-label={translate("sketchTools")}
+            >
+              <DropdownButton
+                arrow={false}
+                icon
+                type="tertiary"
+                active={activeSketchTool !== null}
+                title={translate("sketchTools")}
+                role="combobox"
+              >
+                <SVG src={sketchIcon} size={20} />
+              </DropdownButton>
+              <DropdownMenu alignment="start">
+                {SKETCH_TOOLS.map((tool) => (
+                  <DropdownItem
+                    key={tool}
+                    active={activeSketchTool === tool}
+                    onClick={() => {
+                      void handleSelectSketchTool(tool);
+                    }}
+                    role="menuitem"
+                  >
+                    {translate(tool)}
+                  </DropdownItem>
+                ))}
+              </DropdownMenu>
+            </Dropdown>
+            <Button
+              type="tertiary"
+              icon
+              onClick={handleUndo}
+              title={translate("undoLastAction")}
+              aria-label={translate("undo")}
+              disabled={!canUndo}
+            >
+              <SVG src={undoIcon} size={20} />
+            </Button>
+            <Button
+              type="tertiary"
+              icon
+              onClick={handleRedo}
+              title={translate("redoLastAction")}
+              aria-label={translate("redo")}
+              disabled={!canRedo}
+            >
+              <SVG src={redoIcon} size={20} />
+            </Button>
             <Button
               type="tertiary"
               icon
@@ -1320,6 +3030,66 @@ const WidgetContent = (props: AllWidgetProps<IMConfig>): React.ReactElement => {
             </Button>
           </div>
         </div>
+        {isBufferMode ? (
+          <div
+            css={styles.bufferPanel}
+            role="group"
+            aria-label={translate("searchRadius")}
+          >
+            <Select
+              css={styles.bufferUnit}
+              size="sm"
+              value={bufferOrigin}
+              onChange={handleBufferOriginChange}
+              aria-label={translate("bufferOrigin")}
+            >
+              {BUFFER_ORIGINS.map((origin) => (
+                <Option key={origin} value={origin}>
+                  {translate(BUFFER_ORIGIN_LABEL_KEYS[origin])}
+                </Option>
+              ))}
+            </Select>
+            {renderBufferInputs()}
+            <Button
+              type="secondary"
+              size="sm"
+              onClick={handleApplyBuffer}
+              disabled={!hasBufferSource || isQueryInFlight}
+            >
+              {translate("applyBuffer")}
+            </Button>
+            {isQueryInFlight ? (
+              <div css={styles.bufferStatus} role="status" aria-live="polite">
+                {translate("bufferingGeometry")}
+              </div>
+            ) : null}
+          </div>
+        ) : null}
+        {activeSketchTool ? (
+          <div
+            css={styles.bufferPanel}
+            role="group"
+            aria-label={translate("sketchTools")}
+          >
+            {activeSketchTool === "polyline" ? renderBufferInputs() : null}
+            <Button type="secondary" size="sm" onClick={handleStopSketch}>
+              {translate("stopSketch")}
+            </Button>
+            <div css={styles.bufferStatus} role="status" aria-live="polite">
+              {isQueryInFlight
+                ? translate("bufferingGeometry")
+                : translate("sketchHint").replace(
+                    "{tool}",
+                    translate(activeSketchTool)
+                  )}
+            </div>
+            {activeSketchTool === "polyline" ? (
+              <div css={styles.bufferStatus}>
+                {translate("sketchLineBufferHint")}
+              </div>
+            ) : null}
+          </div>
+        ) : null}
       </div>
       <div css={styles.body} role="main">
         {!isConfigured ? (
@@ -1341,9 +3111,15 @@ const WidgetContent = (props: AllWidgetProps<IMConfig>): React.ReactElement => {
 
       <div css={styles.footer}>
         <div css={styles.col}>{translate("propertySelected")}</div>
-        <div css={styles.col}>{selectedCount}</div>
+        <div css={styles.col} role="status" aria-live="polite">
+          {isFiltered
+            ? translate("showingCount")
+                .replace("{shown}", String(filteredProperties.length))
+                .replace("{total}", String(selectedCount))
+            : selectedCount}
+        </div>
 
-        {urlFeedback || error ? (
+        {urlFeedback || error || urlFallback ? (
           <div css={styles.footerAlertOverlay}>
             {error ? (
               <Alert
@@ -1365,10 +3141,62 @@ const WidgetContent = (props: AllWidgetProps<IMConfig>): React.ReactElement => {
                 />
               </>
             ) : null}
+            {urlFallback ? (
+              <div css={styles.feedback}>
+                <Alert
+                  type="info"
+                  fullWidth
+                  closable
+                  onClose={handleDismissReportUrl}
+                  css={styles.alert}
+                  text={translate(urlFallback.labelKey)}
+                />
+                <TextInput
+                  css={styles.feedbackInput}
+                  size="sm"
+                  value={urlFallback.url}
+                  readOnly
+                  spellCheck={false}
+                  onFocus={handleReportUrlFocus}
+                  aria-label={translate(urlFallback.labelKey)}
+                />
+              </div>
+            ) : null}
           </div>
         ) : null}
       </div>
 
+      <SelectListDialog
+        isOpen={isListDialogOpen}
+        isBusy={isQueryInFlight}
+        report={listReport}
+        translate={translate}
+        styles={styles}
+        onSubmit={(text) => {
+          void handleListSubmit(text);
+        }}
+        onClose={handleCloseListDialog}
+      />
+
+      <CsvExportDialog
+        isOpen={isCsvDialogOpen}
+        options={csvOptions}
+        columnOptions={csvColumnOptions}
+        translate={translate}
+        styles={styles}
+        onExport={handleCsvExport}
+        onClose={handleCloseCsvDialog}
+      />
+
+      <AuditLogDialog
+        isOpen={isAuditLogOpen}
+        events={auditEvents}
+        translate={translate}
+        styles={styles}
+        onDownload={handleDownloadAuditLog}
+        onClose={handleCloseAuditLog}
+      />
+
       {mapWidgetId ? (
         <JimuMapViewComponent
           useMapWidgetId={mapWidgetId}
@@ -8,7 +8,10 @@ import {
   ReactRedux,
   type UseDataSource,
 } from "jimu-core";
-import { DataSourceSelector } from "jimu-ui/advanced/data-source-selector";
+import {
+  DataSourceSelector,
+  FieldSelector,
+} from "jimu-ui/advanced/data-source-selector";
 import {
   MapWidgetSelector,
   SettingRow,
@@ -21,6 +24,8 @@ import {
   CollapsablePanel,
   defaultMessages as jimuUIMessages,
   NumericInput,
+  Option,
+  Select,
   Slider,
   SVG,
   Switch,
@@ -29,8 +34,42 @@ import {
 } from "jimu-ui";
 import type { AllWidgetSettingProps } from "jimu-for-builder";
 import Immutable from "seamless-immutable";
+import {
+  ADDRESS_MASK_STRATEGIES,
+  BUFFER_DEFAULT_ORIGIN,
+  BUFFER_ORIGINS,
+  BUILT_IN_COLUMNS,
+  COLUMN_FORMATTERS,
+  DEFAULT_GEOJSON_CRS_MODE,
+  DEFAULT_GEOJSON_PRECISION,
+  DEFAULT_MAILING_LABEL_TEMPLATE,
+  FIELD_MAPPING_SOURCES,
+  GEOJSON_CRS_MODES,
+  GEOJSON_MAX_PRECISION,
+  GEOJSON_MIN_PRECISION,
+  MAILING_LABEL_TEMPLATE_IDS,
+  NAME_MASK_STRATEGIES,
+  ORG_NUMBER_MASK_STRATEGIES,
+  SELECTION_PERSISTENCE_MODES,
+} from "../config/constants";
 import { useSettingStyles } from "../config/style";
-import type { FieldErrors, IMConfig } from "../config/types";
+import type {
+  AddressMaskStrategy,
+  BufferOrigin,
+  ColumnFormatter,
+  ColumnSettings,
+  DisplayColumn,
+  FieldErrors,
+  FieldMappingKey,
+  FieldMappingSource,
+  GeoJsonCrsMode,
+  IMConfig,
+  MailingLabelTemplateId,
+  MaskingPolicy,
+  NameMaskStrategy,
+  OrgNumberMaskStrategy,
+  SelectionPersistence,
+} from "../config/types";
 import { createPropertySelectors } from "../extensions/store";
 import {
   useBooleanConfigValue,
@@ -41,19 +80,105 @@ import {
   useValidatedNumericHandler,
 } from "../shared/hooks";
 import {
+  buildDisplayColumnId,
   computeSettingsVisibility,
   dataSourceHelpers,
+  isValidAuditEndpoint,
+  isValidReportUrl,
   normalizeHostList,
   normalizeHostValue,
   opacityHelpers,
   outlineWidthHelpers,
+  parseAccessList,
   resetDependentFields,
+  resolveDisplayColumns,
+  resolveFieldMapping,
+  resolveMaskingPolicy,
+  resolveSelectionPersistence,
 } from "../shared/utils/index";
 import defaultMessages from "./translations/default";
+import arrowDownIcon from "../assets/arrow-down.svg";
+import arrowUpIcon from "../assets/arrow-up.svg";
 import removeIcon from "../assets/close.svg";
 import infoIcon from "../assets/info.svg";
 import addIcon from "../assets/plus.svg";
 
+// fnr -> fieldFnrLabel, ownerName -> fieldOwnerNameLabel
+const getFieldMappingLabelKey = (key: FieldMappingKey): string =>
+  `field${key.charAt(0).toUpperCase()}${key.slice(1)}Label`;
+
+const COLUMN_FORMATTER_LABEL_KEYS: { [K in ColumnFormatter]: string } = {
+  text: "formatterText",
+  fraction: "formatterFraction",
+  orgNumber: "formatterOrgNumber",
+};
+
+const SELECTION_PERSISTENCE_LABEL_KEYS: {
+  [K in SelectionPersistence]: string;
+} = {
+  off: "selectionPersistenceOff",
+  session: "selectionPersistenceSession",
+  local: "selectionPersistenceLocal",
+};
+
+const MAILING_LABEL_TEMPLATE_LABEL_KEYS: {
+  [K in MailingLabelTemplateId]: string;
+} = {
+  "3474": "mailingLabelTemplate3474",
+  L7160: "mailingLabelTemplateL7160",
+  L7161: "mailingLabelTemplateL7161",
+  L7163: "mailingLabelTemplateL7163",
+};
+
+const BUFFER_ORIGIN_LABEL_KEYS: { [K in BufferOrigin]: string } = {
+  parcel: "bufferOriginParcel",
+  point: "bufferOriginPoint",
+};
+
+const GEOJSON_CRS_LABEL_KEYS: { [K in GeoJsonCrsMode]: string } = {
+  wgs84: "geojsonCrsWgs84",
+  native: "geojsonCrsNative",
+};
+
+type MaskStrategy =
+  | NameMaskStrategy
+  | AddressMaskStrategy
+  | OrgNumberMaskStrategy;
+
+const MASK_STRATEGY_LABEL_KEYS: { [K in MaskStrategy]: string } = {
+  partial: "maskStrategyPartial",
+  initials: "maskStrategyInitials",
+  hideStreet: "maskStrategyHideStreet",
+  keep: "maskStrategyKeep",
+  redact: "maskStrategyRedact",
+};
+
+const MASK_RULES: ReadonlyArray<{
+  key: Exclude<keyof MaskingPolicy, "exemptOrganizations">;
+  strategies: readonly MaskStrategy[];
+  labelKey: string;
+  descriptionKey: string;
+}> = [
+  {
+    key: "name",
+    strategies: NAME_MASK_STRATEGIES,
+    labelKey: "maskNameRuleLabel",
+    descriptionKey: "maskNameRuleDescription",
+  },
+  {
+    key: "address",
+    strategies: ADDRESS_MASK_STRATEGIES,
+    labelKey: "maskAddressRuleLabel",
+    descriptionKey: "maskAddressRuleDescription",
+  },
+  {
+    key: "orgNumber",
+    strategies: ORG_NUMBER_MASK_STRATEGIES,
+    labelKey: "maskOrgNumberRuleLabel",
+    descriptionKey: "maskOrgNumberRuleDescription",
+  },
+];
+
 const Setting = (
   props: AllWidgetSettingProps<IMConfig>
 ): React.ReactElement => {
@@ -118,6 +243,15 @@ const Setting = (
   const getBooleanConfig = useBooleanConfigValue(config);
   const updateConfig = useUpdateConfig(id, config, onSettingChange);
 
+  const fieldMappingConfig = config.fieldMapping;
+  const resolvedFieldMapping = React.useMemo(
+    () => resolveFieldMapping(fieldMappingConfig),
+    [fieldMappingConfig]
+  );
+  const fieldMappingKeys = Object.keys(
+    FIELD_MAPPING_SOURCES
+  ) as FieldMappingKey[];
+
   const [localMaxResults, setLocalMaxResults] = React.useState<string>(() =>
     String(config.maxResults || 50)
   );
@@ -127,12 +261,19 @@ const Setting = (
   const [localPIIMasking, setLocalPIIMasking] = React.useState(() =>
     getBooleanConfig("enablePIIMasking")
   );
+  const [localExportFilteredRows, setLocalExportFilteredRows] = React.useState(
+    () => getBooleanConfig("exportFilteredRowsOnly", false)
+  );
   const [localBatchOwnerQuery, setLocalBatchOwnerQuery] = React.useState(() =>
     getBooleanConfig("enableBatchOwnerQuery", false)
   );
   const [localRelationshipId, setLocalRelationshipId] = React.useState<string>(
     () => String(config.relationshipId ?? 0)
   );
+  const [localGeojsonPrecision, setLocalGeojsonPrecision] =
+    React.useState<string>(() =>
+      String(config.geojsonPrecision ?? DEFAULT_GEOJSON_PRECISION)
+    );
   const [localAllowedHostInput, setLocalAllowedHostInput] = React.useState("");
   const [localAllowedHostsList, setLocalAllowedHostsList] = React.useState(() =>
     normalizeHostList(config.allowedHosts)
@@ -153,6 +294,18 @@ const Setting = (
     const value = config.outlineWidth;
     return typeof value === "number" && Number.isFinite(value) ? value : 1;
   });
+  const [localFbwebbBaseUrl, setLocalFbwebbBaseUrl] = React.useState(
+    () => config.fbwebbBaseUrl ?? ""
+  );
+  const [localFbwebbDatabase, setLocalFbwebbDatabase] = React.useState(
+    () => config.fbwebbDatabase ?? ""
+  );
+  const [localFbwebbUser, setLocalFbwebbUser] = React.useState(
+    () => config.fbwebbUser ?? ""
+  );
+  const [localAuditEndpoint, setLocalAuditEndpoint] = React.useState(
+    () => config.auditEndpoint ?? ""
+  );
   const [fieldErrors, setFieldErrors] = React.useState<FieldErrors>({});
 
   const validateMaxResults = useNumericValidator(
@@ -171,6 +324,14 @@ const Setting = (
     setFieldErrors
   );
 
+  const validateGeojsonPrecision = useNumericValidator(
+    "geojsonPrecision",
+    GEOJSON_MIN_PRECISION,
+    GEOJSON_MAX_PRECISION,
+    translate("errorGeojsonPrecisionInvalid"),
+    setFieldErrors
+  );
+
   const {
     handleChange: handleMaxResultsChange,
     handleBlur: handleMaxResultsBlur,
@@ -195,6 +356,18 @@ const Setting = (
     clamp: { min: 0, max: 99 },
   });
 
+  const {
+    handleChange: handleGeojsonPrecisionChange,
+    handleBlur: handleGeojsonPrecisionBlur,
+  } = useValidatedNumericHandler({
+    localValue: localGeojsonPrecision,
+    setLocalValue: setLocalGeojsonPrecision,
+    validate: validateGeojsonPrecision,
+    updateConfig,
+    configField: "geojsonPrecision",
+    clamp: { min: GEOJSON_MIN_PRECISION, max: GEOJSON_MAX_PRECISION },
+  });
+
   const handleToggleRemovalChange = useSwitchConfigHandler(
     localToggleRemoval,
     setLocalToggleRemoval,
@@ -209,6 +382,31 @@ const Setting = (
     "enablePIIMasking"
   );
 
+  const handlePIIAccessAccept = hooks.useEventCallback(
+    (key: "piiAccessGroups" | "piiAccessRoles", value: string) => {
+      const next = parseAccessList(value);
+      if (next.join(",") === parseAccessList(config[key]).join(",")) return;
+      updateConfig(key, next);
+    }
+  );
+
+  const maskingPolicy = resolveMaskingPolicy(config.maskingPolicy);
+
+  const handleMaskingPolicyChange = hooks.useEventCallback(
+    (key: keyof MaskingPolicy, value: MaskStrategy | boolean) => {
+      const current = resolveMaskingPolicy(config.maskingPolicy);
+      if (current[key] === value) return;
+      updateConfig("maskingPolicy", { ...current, [key]: value });
+    }
+  );
+
+  const handleExportFilteredRowsChange = useSwitchConfigHandler(
+    localExportFilteredRows,
+    setLocalExportFilteredRows,
+    updateConfig,
+    "exportFilteredRowsOnly"
+  );
+
   const handleBatchOwnerQueryChange = useSwitchConfigHandler(
     localBatchOwnerQuery,
     setLocalBatchOwnerQuery,
@@ -282,6 +480,185 @@ const Setting = (
     outlineWidthHelpers.normalize
   );
 
+  const handleFbwebbBaseUrlChange = hooks.useEventCallback(
+    (evt: React.ChangeEvent<HTMLInputElement>) => {
+      setLocalFbwebbBaseUrl(evt.target.value);
+    }
+  );
+
+  const handleFbwebbBaseUrlBlur = hooks.useEventCallback(() => {
+    const trimmed = localFbwebbBaseUrl.trim();
+    const isValid =
+      !trimmed || isValidReportUrl(trimmed, localAllowedHostsList);
+    setFieldErrors((prev) => ({
+      ...prev,
+      fbwebbBaseUrl: isValid ? undefined : translate("errorFbwebbUrlInvalid"),
+    }));
+    if (!isValid) return;
+    setLocalFbwebbBaseUrl(trimmed);
+    updateConfig("fbwebbBaseUrl", trimmed);
+  });
+
+  const handleAuditEndpointChange = hooks.useEventCallback(
+    (evt: React.ChangeEvent<HTMLInputElement>) => {
+      setLocalAuditEndpoint(evt.target.value);
+    }
+  );
+
+  const handleAuditEndpointBlur = hooks.useEventCallback(() => {
+    const trimmed = localAuditEndpoint.trim();
+    const isValid =
+      !trimmed || isValidAuditEndpoint(trimmed, localAllowedHostsList);
+    setFieldErrors((prev) => ({
+      ...prev,
+      auditEndpoint: isValid
+        ? undefined
+        : translate("errorAuditEndpointInvalid"),
+    }));
+    if (!isValid) return;
+    setLocalAuditEndpoint(trimmed);
+    updateConfig("auditEndpoint", trimmed);
+  });
+
+  const handleFbwebbDatabaseChange = hooks.useEventCallback(
+    (evt: React.ChangeEvent<HTMLInputElement>) => {
+      setLocalFbwebbDatabase(evt.target.value);
+    }
+  );
+
+  const handleFbwebbDatabaseBlur = hooks.useEventCallback(() => {
+    const trimmed = localFbwebbDatabase.trim();
+    setLocalFbwebbDatabase(trimmed);
+    updateConfig("fbwebbDatabase", trimmed);
+  });
+
+  const handleFbwebbUserChange = hooks.useEventCallback(
+    (evt: React.ChangeEvent<HTMLInputElement>) => {
+      setLocalFbwebbUser(evt.target.value);
+    }
+  );
+
+  const handleFbwebbUserBlur = hooks.useEventCallback(() => {
+    const trimmed = localFbwebbUser.trim();
+    setLocalFbwebbUser(trimmed);
+    updateConfig("fbwebbUser", trimmed);
+  });
+
+  const handleFieldMappingChange = hooks.useEventCallback(
+    (key: FieldMappingKey, fields: Array<{ name?: string }> | null) => {
+      const fieldName = fields?.[0]?.name ?? "";
+      updateConfig("fieldMapping", {
+        ...resolvedFieldMapping,
+        [key]: fieldName,
+      });
+    }
+  );
+
+  const displayColumnsConfig = config.displayColumns;
+  const columnSettingsConfig = config.columnSettings;
+  const displayColumns = React.useMemo(
+    () => resolveDisplayColumns(displayColumnsConfig),
+    [displayColumnsConfig]
+  );
+
+  const getColumnName = (column: DisplayColumn): string =>
+    column.source
+      ? `${column.field} (${translate(
+          column.source === "owner" ? "ownerLayerShort" : "propertyLayerShort"
+        )})`
+      : translate(BUILT_IN_COLUMNS[column.field].headerKey);
+
+  const handleAddColumn = hooks.useEventCallback(
+    (source: FieldMappingSource, fields: Array<{ name?: string }> | null) => {
+      const fieldName = fields?.[0]?.name;
+      if (!fieldName) return;
+      const columnId = buildDisplayColumnId(source, fieldName);
+      if (displayColumns.some((column) => column.id === columnId)) return;
+      updateConfig("displayColumns", [
+        ...displayColumns.map((column) => column.id),
+        columnId,
+      ]);
+    }
+  );
+
+  const handleMoveColumn = hooks.useEventCallback(
+    (index: number, offset: -1 | 1) => {
+      const target = index + offset;
+      if (target < 0 || target >= displayColumns.length) return;
+      const nextIds = displayColumns.map((column) => column.id);
+      [nextIds[index], nextIds[target]] = [nextIds[target], nextIds[index]];
+      updateConfig("displayColumns", nextIds);
+    }
+  );
+
+  const handleRemoveColumn = hooks.useEventCallback((columnId: string) => {
+    if (displayColumns.length <= 1) return;
+    updateConfig(
+      "displayColumns",
+      displayColumns
+        .map((column) => column.id)
+        .filter((candidate) => candidate !== columnId)
+    );
+  });
+
+  const updateColumnSettings = hooks.useEventCallback(
+    (columnId: string, patch: ColumnSettings) => {
+      const current = columnSettingsConfig?.[columnId];
+      updateConfig("columnSettings", {
+        ...(columnSettingsConfig ?? {}),
+        [columnId]: { ...(current ?? {}), ...patch },
+      });
+    }
+  );
+
+  const handleColumnLabelAccept = hooks.useEventCallback(
+    (columnId: string, value: string) => {
+      const label = value.trim();
+      if ((columnSettingsConfig?.[columnId]?.label ?? "") === label) return;
+      updateColumnSettings(columnId, { label });
+    }
+  );
+
+  const handleColumnFormatterChange = hooks.useEventCallback(
+    (columnId: string, event: React.ChangeEvent<HTMLSelectElement>) => {
+      const formatter = event?.target?.value as ColumnFormatter;
+      if (!COLUMN_FORMATTERS.includes(formatter)) return;
+      updateColumnSettings(columnId, { formatter });
+    }
+  );
+
+  const handleSelectionPersistenceChange = hooks.useEventCallback(
+    (event: React.ChangeEvent<HTMLSelectElement>) => {
+      const mode = event?.target?.value as SelectionPersistence;
+      if (!SELECTION_PERSISTENCE_MODES.includes(mode)) return;
+      updateConfig("selectionPersistence", mode);
+    }
+  );
+
+  const handleMailingLabelTemplateChange = hooks.useEventCallback(
+    (event: React.ChangeEvent<HTMLSelectElement>) => {
+      const template = event?.target?.value as MailingLabelTemplateId;
+      if (!MAILING_LABEL_TEMPLATE_IDS.includes(template)) return;
+      updateConfig("mailingLabelTemplate", template);
+    }
+  );
+
+  const handleBufferOriginChange = hooks.useEventCallback(
+    (event: React.ChangeEvent<HTMLSelectElement>) => {
+      const origin = event?.target?.value as BufferOrigin;
+      if (!BUFFER_ORIGINS.includes(origin)) return;
+      updateConfig("bufferOrigin", origin);
+    }
+  );
+
+  const handleGeojsonCrsChange = hooks.useEventCallback(
+    (event: React.ChangeEvent<HTMLSelectElement>) => {
+      const mode = event?.target?.value as GeoJsonCrsMode;
+      if (!GEOJSON_CRS_MODES.includes(mode)) return;
+      updateConfig("geojsonCrs", mode);
+    }
+  );
+
   const handlePropertyDataSourceChange = hooks.useEventCallback(
     (useDataSources: readonly UseDataSource[]) => {
       const selectedDs = useDataSources?.[0] ?? null;
@@ -317,6 +694,12 @@ const Setting = (
     setLocalPIIMasking(getBooleanConfig("enablePIIMasking"));
   }, [config.enablePIIMasking]);
 
+  hooks.useUpdateEffect(() => {
+    setLocalExportFilteredRows(
+      getBooleanConfig("exportFilteredRowsOnly", false)
+    );
+  }, [config.exportFilteredRowsOnly]);
+
   hooks.useUpdateEffect(() => {
     setLocalBatchOwnerQuery(getBooleanConfig("enableBatchOwnerQuery", false));
   }, [config.enableBatchOwnerQuery]);
@@ -325,6 +708,12 @@ const Setting = (
     setLocalRelationshipId(String(config.relationshipId ?? 0));
   }, [config.relationshipId]);
 
+  hooks.useUpdateEffect(() => {
+    setLocalGeojsonPrecision(
+      String(config.geojsonPrecision ?? DEFAULT_GEOJSON_PRECISION)
+    );
+  }, [config.geojsonPrecision]);
+
   hooks.useUpdateEffect(() => {
     const uniqueHosts = normalizeHostList(config.allowedHosts);
     setLocalAllowedHostsList(uniqueHosts);
@@ -350,6 +739,22 @@ const Setting = (
     setLocalOutlineWidth(outlineWidthHelpers.normalize(baseValue));
   }, [config.outlineWidth]);
 
+  hooks.useUpdateEffect(() => {
+    setLocalFbwebbBaseUrl(config.fbwebbBaseUrl ?? "");
+  }, [config.fbwebbBaseUrl]);
+
+  hooks.useUpdateEffect(() => {
+    setLocalFbwebbDatabase(config.fbwebbDatabase ?? "");
+  }, [config.fbwebbDatabase]);
+
+  hooks.useUpdateEffect(() => {
+    setLocalFbwebbUser(config.fbwebbUser ?? "");
+  }, [config.fbwebbUser]);
+
+  hooks.useUpdateEffect(() => {
+    setLocalAuditEndpoint(config.auditEndpoint ?? "");
+  }, [config.auditEndpoint]);
+
   hooks.useEffectOnce(() => {
     // Settings panel mounted
   });
@@ -571,6 +976,29 @@ const Setting = (
                 />
               </SettingRow>
 
+              <SettingRow
+                flow="wrap"
+                level={1}
+                css={styles.row}
+                label={renderLabelWithTooltip(
+                  "bufferOriginLabel",
+                  "bufferOriginDescription"
+                )}
+              >
+                <Select
+                  size="sm"
+                  value={config.bufferOrigin ?? BUFFER_DEFAULT_ORIGIN}
+                  onChange={handleBufferOriginChange}
+                  aria-label={translate("bufferOriginLabel")}
+                >
+                  {BUFFER_ORIGINS.map((origin) => (
+                    <Option key={origin} value={origin}>
+                      {translate(BUFFER_ORIGIN_LABEL_KEYS[origin])}
+                    </Option>
+                  ))}
+                </Select>
+              </SettingRow>
+
               <SettingRow
                 flow="no-wrap"
                 level={1}
@@ -587,6 +1015,226 @@ const Setting = (
                 />
               </SettingRow>
 
+              {localPIIMasking && (
+                <>
+                  <SettingRow
+                    flow="wrap"
+                    level={1}
+                    css={styles.row}
+                    label={renderLabelWithTooltip(
+                      "piiAccessGroupsLabel",
+                      "piiAccessGroupsDescription"
+                    )}
+                  >
+                    <TextInput
+                      css={styles.fullWidth}
+                      defaultValue={parseAccessList(
+                        config.piiAccessGroups
+                      ).join(", ")}
+                      placeholder={translate("piiAccessPlaceholder")}
+                      onAcceptValue={(value) =>
+                        handlePIIAccessAccept("piiAccessGroups", value)
+                      }
+                      aria-label={translate("piiAccessGroupsLabel")}
+                      spellCheck={false}
+                    />
+                  </SettingRow>
+                  <SettingRow
+                    flow="wrap"
+                    level={1}
+                    css={styles.row}
+                    label={renderLabelWithTooltip(
+                      "piiAccessRolesLabel",
+                      "piiAccessRolesDescription"
+                    )}
+                  >
+                    <TextInput
+                      css={styles.fullWidth}
+                      defaultValue={parseAccessList(
+                        config.piiAccessRoles
+                      ).join(", ")}
+                      placeholder={translate("piiAccessPlaceholder")}
+                      onAcceptValue={(value) =>
+                        handlePIIAccessAccept("piiAccessRoles", value)
+                      }
+                      aria-label={translate("piiAccessRolesLabel")}
+                      spellCheck={false}
+                    />
+                  </SettingRow>
+                  {MASK_RULES.map((rule) => (
+                    <SettingRow
+                      key={rule.key}
+                      flow="wrap"
+                      level={1}
+                      css={styles.row}
+                      label={renderLabelWithTooltip(
+                        rule.labelKey,
+                        rule.descriptionKey
+                      )}
+                    >
+                      <Select
+                        size="sm"
+                        value={maskingPolicy[rule.key]}
+                        onChange={(event) => {
+                          const value = event?.target?.value as MaskStrategy;
+                          if (!rule.strategies.includes(value)) return;
+                          handleMaskingPolicyChange(rule.key, value);
+                        }}
+                        aria-label={translate(rule.labelKey)}
+                      >
+                        {rule.strategies.map((strategy) => (
+                          <Option key={strategy} value={strategy}>
+                            {translate(MASK_STRATEGY_LABEL_KEYS[strategy])}
+                          </Option>
+                        ))}
+                      </Select>
+                    </SettingRow>
+                  ))}
+                  <SettingRow
+                    flow="no-wrap"
+                    level={1}
+                    css={styles.row}
+                    label={renderLabelWithTooltip(
+                      "exemptOrganizationsLabel",
+                      "exemptOrganizationsDescription"
+                    )}
+                  >
+                    <Switch
+                      checked={maskingPolicy.exemptOrganizations}
+                      onChange={(event) =>
+                        handleMaskingPolicyChange(
+                          "exemptOrganizations",
+                          event.target.checked
+                        )
+                      }
+                      aria-label={translate("exemptOrganizationsLabel")}
+                    />
+                  </SettingRow>
+                </>
+              )}
+
+              <SettingRow
+                flow="no-wrap"
+                level={1}
+                css={styles.row}
+                label={renderLabelWithTooltip(
+                  "exportFilteredRowsOnlyLabel",
+                  "exportFilteredRowsOnlyDescription"
+                )}
+              >
+                <Switch
+                  checked={localExportFilteredRows}
+                  onChange={handleExportFilteredRowsChange}
+                  aria-label={translate("exportFilteredRowsOnlyLabel")}
+                />
+              </SettingRow>
+
+              <SettingRow
+                flow="wrap"
+                level={1}
+                css={styles.row}
+                label={renderLabelWithTooltip(
+                  "mailingLabelTemplateLabel",
+                  "mailingLabelTemplateDescription"
+                )}
+              >
+                <Select
+                  size="sm"
+                  value={
+                    config.mailingLabelTemplate ??
+                    DEFAULT_MAILING_LABEL_TEMPLATE
+                  }
+                  onChange={handleMailingLabelTemplateChange}
+                  aria-label={translate("mailingLabelTemplateLabel")}
+                >
+                  {MAILING_LABEL_TEMPLATE_IDS.map((template) => (
+                    <Option key={template} value={template}>
+                      {translate(MAILING_LABEL_TEMPLATE_LABEL_KEYS[template])}
+                    </Option>
+                  ))}
+                </Select>
+              </SettingRow>
+
+              <SettingRow
+                flow="wrap"
+                level={1}
+                css={styles.row}
+                label={renderLabelWithTooltip(
+                  "geojsonCrsLabel",
+                  "geojsonCrsDescription"
+                )}
+              >
+                <Select
+                  size="sm"
+                  value={config.geojsonCrs ?? DEFAULT_GEOJSON_CRS_MODE}
+                  onChange={handleGeojsonCrsChange}
+                  aria-label={translate("geojsonCrsLabel")}
+                >
+                  {GEOJSON_CRS_MODES.map((mode) => (
+                    <Option key={mode} value={mode}>
+                      {translate(GEOJSON_CRS_LABEL_KEYS[mode])}
+                    </Option>
+                  ))}
+                </Select>
+              </SettingRow>
+
+              <SettingRow
+                flow="wrap"
+                level={1}
+                css={styles.row}
+                label={renderLabelWithTooltip(
+                  "geojsonPrecisionLabel",
+                  "geojsonPrecisionDescription"
+                )}
+              >
+                <NumericInput
+                  css={styles.fullWidth}
+                  value={parseInt(localGeojsonPrecision, 10)}
+                  min={GEOJSON_MIN_PRECISION}
+                  max={GEOJSON_MAX_PRECISION}
+                  onChange={handleGeojsonPrecisionChange}
+                  onBlur={handleGeojsonPrecisionBlur}
+                  aria-label={translate("geojsonPrecisionLabel")}
+                  aria-invalid={!!fieldErrors.geojsonPrecision}
+                />
+              </SettingRow>
+              {fieldErrors.geojsonPrecision && (
+                <SettingRow flow="wrap" level={1} css={styles.row}>
+                  <Alert
+                    fullWidth
+                    css={styles.fullWidth}
+                    type="error"
+                    text={fieldErrors.geojsonPrecision}
+                    closable={false}
+                  />
+                </SettingRow>
+              )}
+
+              <SettingRow
+                flow="wrap"
+                level={1}
+                css={styles.row}
+                label={renderLabelWithTooltip(
+                  "selectionPersistenceLabel",
+                  "selectionPersistenceDescription"
+                )}
+              >
+                <Select
+                  size="sm"
+                  value={resolveSelectionPersistence(
+                    config.selectionPersistence
+                  )}
+                  onChange={handleSelectionPersistenceChange}
+                  aria-label={translate("selectionPersistenceLabel")}
+                >
+                  {SELECTION_PERSISTENCE_MODES.map((mode) => (
+                    <Option key={mode} value={mode}>
+                      {translate(SELECTION_PERSISTENCE_LABEL_KEYS[mode])}
+                    </Option>
+                  ))}
+                </Select>
+              </SettingRow>
+
               <SettingRow
                 flow="wrap"
                 level={1}
@@ -658,6 +1306,38 @@ const Setting = (
                   )}
                 </div>
               </SettingRow>
+
+              <SettingRow
+                flow="wrap"
+                level={1}
+                css={styles.row}
+                label={renderLabelWithTooltip(
+                  "auditEndpointLabel",
+                  "auditEndpointDescription"
+                )}
+              >
+                <TextInput
+                  css={styles.fullWidth}
+                  value={localAuditEndpoint}
+                  onChange={handleAuditEndpointChange}
+                  onBlur={handleAuditEndpointBlur}
+                  placeholder={translate("auditEndpointPlaceholder")}
+                  aria-label={translate("auditEndpointLabel")}
+                  aria-invalid={!!fieldErrors.auditEndpoint}
+                  spellCheck={false}
+                />
+              </SettingRow>
+              {fieldErrors.auditEndpoint && (
+                <SettingRow flow="wrap" level={1} css={styles.row}>
+                  <Alert
+                    fullWidth
+                    css={styles.fullWidth}
+                    type="error"
+                    text={fieldErrors.auditEndpoint}
+                    closable={false}
+                  />
+                </SettingRow>
+              )}
             </CollapsablePanel>
           </SettingSection>
           <SettingSection>
@@ -752,6 +1432,257 @@ const Setting = (
               </SettingRow>
             </CollapsablePanel>
           </SettingSection>
+          <SettingSection>
+            <CollapsablePanel
+              label={translate("panelFbwebbSettings")}
+              type="default"
+              level={1}
+              role="group"
+              aria-label={translate("panelFbwebbSettings")}
+            >
+              <SettingRow
+                flow="wrap"
+                level={1}
+                css={styles.row}
+                label={renderLabelWithTooltip(
+                  "fbwebbBaseUrlLabel",
+                  "fbwebbBaseUrlDescription"
+                )}
+              >
+                <TextInput
+                  css={styles.fullWidth}
+                  value={localFbwebbBaseUrl}
+                  onChange={handleFbwebbBaseUrlChange}
+                  onBlur={handleFbwebbBaseUrlBlur}
+                  placeholder={translate("fbwebbBaseUrlPlaceholder")}
+                  aria-label={translate("fbwebbBaseUrlLabel")}
+                  aria-invalid={!!fieldErrors.fbwebbBaseUrl}
+                  spellCheck={false}
+                />
+              </SettingRow>
+              {fieldErrors.fbwebbBaseUrl && (
+                <SettingRow flow="wrap" level={1} css={styles.row}>
+                  <Alert
+                    fullWidth
+                    css={styles.fullWidth}
+                    type="error"
+                    text={fieldErrors.fbwebbBaseUrl}
+                    closable={false}
+                  />
+                </SettingRow>
+              )}
+
+              <SettingRow
+                flow="wrap"
+                level={1}
+                css={styles.row}
+                label={renderLabelWithTooltip(
+                  "fbwebbDatabaseLabel",
+                  "fbwebbDatabaseDescription"
+                )}
+              >
+                <TextInput
+                  css={styles.fullWidth}
+                  value={localFbwebbDatabase}
+                  onChange={handleFbwebbDatabaseChange}
+                  onBlur={handleFbwebbDatabaseBlur}
+                  aria-label={translate("fbwebbDatabaseLabel")}
+                  spellCheck={false}
+                />
+              </SettingRow>
+
+              <SettingRow
+                flow="wrap"
+                level={1}
+                css={styles.row}
+                label={renderLabelWithTooltip(
+                  "fbwebbUserLabel",
+                  "fbwebbUserDescription"
+                )}
+              >
+                <TextInput
+                  css={styles.fullWidth}
+                  value={localFbwebbUser}
+                  onChange={handleFbwebbUserChange}
+                  onBlur={handleFbwebbUserBlur}
+                  aria-label={translate("fbwebbUserLabel")}
+                  autoComplete="off"
+                  spellCheck={false}
+                />
+              </SettingRow>
+            </CollapsablePanel>
+          </SettingSection>
+          <SettingSection>
+            <CollapsablePanel
+              label={translate("panelTableColumns")}
+              type="default"
+              level={1}
+              role="group"
+              aria-label={translate("panelTableColumns")}
+            >
+              <SettingRow flow="wrap" level={1} css={styles.row}>
+                <div css={styles.description}>
+                  {translate("tableColumnsDescription")}
+                </div>
+              </SettingRow>
+              {displayColumns.map((column, index) => {
+                const columnName = getColumnName(column);
+                const settings = columnSettingsConfig?.[column.id];
+                return (
+                  <SettingRow
+                    key={column.id}
+                    flow="wrap"
+                    level={1}
+                    css={styles.row}
+                    label={columnName}
+                  >
+                    <div css={styles.columnEditor}>
+                      <TextInput
+                        css={styles.fullWidth}
+                        defaultValue={settings?.label ?? ""}
+                        placeholder={columnName}
+                        onAcceptValue={(value) =>
+                          handleColumnLabelAccept(column.id, value)
+                        }
+                        aria-label={`${translate(
+                          "columnHeaderLabel"
+                        )}: ${columnName}`}
+                        spellCheck={false}
+                      />
+                      <div css={styles.columnEditorActions}>
+                        <Select
+                          size="sm"
+                          value={settings?.formatter ?? "text"}
+                          onChange={(event) =>
+                            handleColumnFormatterChange(column.id, event)
+                          }
+                          aria-label={`${translate(
+                            "columnFormatterLabel"
+                          )}: ${columnName}`}
+                        >
+                          {COLUMN_FORMATTERS.map((formatter) => (
+                            <Option key={formatter} value={formatter}>
+                              {translate(
+                                COLUMN_FORMATTER_LABEL_KEYS[formatter]
+                              )}
+                            </Option>
+                          ))}
+                        </Select>
+                        <Button
+                          type="tertiary"
+                          icon
+                          size="sm"
+                          onClick={() => handleMoveColumn(index, -1)}
+                          disabled={index === 0}
+                          title={translate("moveColumnUp")}
+                          aria-label={translate("moveColumnUp")}
+                        >
+                          <SVG src={arrowUpIcon} size={16} />
+                        </Button>
+                        <Button
+                          type="tertiary"
+                          icon
+                          size="sm"
+                          onClick={() => handleMoveColumn(index, 1)}
+                          disabled={index === displayColumns.length - 1}
+                          title={translate("moveColumnDown")}
+                          aria-label={translate("moveColumnDown")}
+                        >
+                          <SVG src={arrowDownIcon} size={16} />
+                        </Button>
+                        <Button
+                          type="tertiary"
+                          icon
+                          size="sm"
+                          onClick={() => handleRemoveColumn(column.id)}
+                          disabled={displayColumns.length <= 1}
+                          title={translate("removeColumn")}
+                          aria-label={translate("removeColumn")}
+                        >
+                          <SVG src={removeIcon} size={16} />
+                        </Button>
+                      </div>
+                    </div>
+                  </SettingRow>
+                );
+              })}
+              <SettingRow
+                flow="wrap"
+                level={1}
+                css={styles.row}
+                label={translate("addPropertyColumnLabel")}
+              >
+                <FieldSelector
+                  useDataSources={propertySelectorValue}
+                  selectedFields={Immutable([])}
+                  onChange={(fields) => handleAddColumn("property", fields)}
+                  isMultiple={false}
+                  isDataSourceDropDownHidden
+                  useDropdown
+                  aria-label={translate("addPropertyColumnLabel")}
+                />
+              </SettingRow>
+              <SettingRow
+                flow="wrap"
+                level={1}
+                css={styles.row}
+                label={translate("addOwnerColumnLabel")}
+              >
+                <FieldSelector
+                  useDataSources={ownerSelectorValue}
+                  selectedFields={Immutable([])}
+                  onChange={(fields) => handleAddColumn("owner", fields)}
+                  isMultiple={false}
+                  isDataSourceDropDownHidden
+                  useDropdown
+                  aria-label={translate("addOwnerColumnLabel")}
+                />
+              </SettingRow>
+            </CollapsablePanel>
+          </SettingSection>
+          <SettingSection>
+            <CollapsablePanel
+              label={translate("panelFieldMapping")}
+              type="default"
+              level={1}
+              role="group"
+              aria-label={translate("panelFieldMapping")}
+            >
+              <SettingRow flow="wrap" level={1} css={styles.row}>
+                <div css={styles.description}>
+                  {translate("fieldMappingDescription")}
+                </div>
+              </SettingRow>
+              {fieldMappingKeys.map((key) => {
+                const labelKey = getFieldMappingLabelKey(key);
+                return (
+                  <SettingRow
+                    key={key}
+                    flow="wrap"
+                    level={1}
+                    css={styles.row}
+                    label={translate(labelKey)}
+                  >
+                    <FieldSelector
+                      useDataSources={
+                        FIELD_MAPPING_SOURCES[key] === "property"
+                          ? propertySelectorValue
+                          : ownerSelectorValue
+                      }
+                      selectedFields={Immutable([resolvedFieldMapping[key]])}
+                      onChange={(fields) =>
+                        handleFieldMappingChange(key, fields)
+                      }
+                      isMultiple={false}
+                      isDataSourceDropDownHidden
+                      useDropdown
+                      aria-label={translate(labelKey)}
+                    />
+                  </SettingRow>
+                );
+              })}
+            </CollapsablePanel>
+          </SettingSection>
         </>
       )}
 
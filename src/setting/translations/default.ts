@@ -21,8 +21,61 @@ export default {
   enableToggleRemovalLabel: "Toggle Removal",
   enableToggleRemovalDescription:
     "Click a selected parcel again to deselect it.",
+  bufferOriginLabel: "Buffer Origin",
+  bufferOriginDescription:
+    "What buffer search starts from by default: the parcel under the click or the clicked point. Users can switch in the buffer tool.",
+  bufferOriginParcel: "Clicked parcel",
+  bufferOriginPoint: "Clicked point",
   enablePIIMaskingLabel: "PII Masking",
   enablePIIMaskingDescription: "Mask owner names and addresses in the widget.",
+  piiAccessGroupsLabel: "Unmask for Groups",
+  piiAccessGroupsDescription:
+    "ArcGIS group IDs, separated by commas. Group titles are not accepted since anyone can create a group with the same title. Members can show unmasked owner data; each reveal is logged.",
+  piiAccessRolesLabel: "Unmask for Roles",
+  piiAccessRolesDescription:
+    "Roles such as org_admin or custom role IDs, separated by commas. Users with these roles can show unmasked owner data.",
+  piiAccessPlaceholder: "Comma-separated list",
+  maskNameRuleLabel: "Owner Names",
+  maskNameRuleDescription:
+    "How masked owner names are shown in the table, copy and exports.",
+  maskAddressRuleLabel: "Owner Addresses",
+  maskAddressRuleDescription:
+    "Hide only the street to keep postal code and city, or redact the whole address.",
+  maskOrgNumberRuleLabel: "Organization Numbers",
+  maskOrgNumberRuleDescription:
+    "Keep the number, or redact it. Numbers are never hashed: a hash of a 10-digit number is easy to reverse.",
+  maskStrategyPartial: "Partially masked",
+  maskStrategyInitials: "Initials only",
+  maskStrategyHideStreet: "Hide street",
+  maskStrategyKeep: "Keep",
+  maskStrategyRedact: "Redact",
+  exemptOrganizationsLabel: "Never Mask Organizations",
+  exemptOrganizationsDescription:
+    "Owners with an organization number (ORGNR) are public and shown unmasked.",
+  exportFilteredRowsOnlyLabel: "Copy/Export Filtered Rows",
+  exportFilteredRowsOnlyDescription:
+    "When the table is filtered, copy and export only the rows shown.",
+  mailingLabelTemplateLabel: "Mailing Label Sheet",
+  mailingLabelTemplateDescription:
+    "Label grid used by the mailing labels export. All sheets are A4.",
+  mailingLabelTemplate3474: "Avery 3474 (3 × 8, 70 × 37 mm)",
+  mailingLabelTemplateL7160: "Avery L7160 (3 × 7, 63.5 × 38.1 mm)",
+  mailingLabelTemplateL7161: "Avery L7161 (3 × 6, 63.5 × 46.6 mm)",
+  mailingLabelTemplateL7163: "Avery L7163 (2 × 7, 99.1 × 38.1 mm)",
+  geojsonCrsLabel: "GeoJSON Coordinates",
+  geojsonCrsDescription:
+    "WGS84 longitude/latitude works in QGIS, geojson.io and web maps. Native keeps the layer's coordinate system and names it in the file.",
+  geojsonCrsWgs84: "WGS84 (RFC 7946)",
+  geojsonCrsNative: "Layer coordinate system",
+  geojsonPrecisionLabel: "GeoJSON Decimal Places",
+  geojsonPrecisionDescription:
+    "Decimals kept in exported coordinates. Six decimals of a degree is about 10 cm.",
+  selectionPersistenceLabel: "Remember Selection",
+  selectionPersistenceDescription:
+    "Keep the selected properties after a page reload, for this browser tab or on this device.",
+  selectionPersistenceOff: "Off",
+  selectionPersistenceSession: "This tab",
+  selectionPersistenceLocal: "This device",
   highlightOptionsDescription:
     "Customize how selected parcels appear on the map.",
   highlightColorLabel: "Highlight Color",
@@ -50,7 +103,56 @@ export default {
   errorInvalidNumber: "Please enter a whole number greater than zero.",
   errorMaxResultsInvalid: "Max results must be between 1 and 1000.",
   errorRelationshipIdInvalid: "Relationship ID must be between 0 and 99.",
+  errorGeojsonPrecisionInvalid: "Decimal places must be between 0 and 10.",
   runtimeStateQuerying: "Query in progress…",
   runtimeStateError: "Query error. See widget for details.",
   runtimeStateSelected: "{count} properties selected.",
+  panelFbwebbSettings: "FBWebb Report",
+  fbwebbBaseUrlLabel: "Report URL",
+  fbwebbBaseUrlDescription:
+    "HTTPS address of the FBWebb report page. The host must be allowed.",
+  fbwebbBaseUrlPlaceholder: "https://fbwebb.example.com/report",
+  fbwebbDatabaseLabel: "Database",
+  fbwebbDatabaseDescription: "FBWebb database name added to report links.",
+  fbwebbUserLabel: "User",
+  fbwebbUserDescription: "FBWebb user added to report links.",
+  errorFbwebbUrlInvalid: "Enter an HTTPS URL on an allowed host.",
+  auditEndpointLabel: "Audit Endpoint",
+  auditEndpointDescription:
+    "Optional HTTPS URL that receives every lookup, unmasked view, copy and export as JSON. The host must be listed under allowed hosts.",
+  auditEndpointPlaceholder: "https://audit.example.com/events",
+  errorAuditEndpointInvalid: "Enter an HTTPS URL on a listed allowed host.",
+  panelTableColumns: "Table Columns",
+  tableColumnsDescription:
+    "Choose, order and label the columns shown in the results table.",
+  columnFastighet: "Property",
+  columnAddress: "Address",
+  columnFnr: "FNR",
+  columnUuid: "Property UUID",
+  propertyLayerShort: "property",
+  ownerLayerShort: "owner",
+  columnHeaderLabel: "Column header",
+  columnFormatterLabel: "Format",
+  formatterText: "Text",
+  formatterFraction: "Share as fraction",
+  formatterOrgNumber: "Organization number",
+  moveColumnUp: "Move column up",
+  moveColumnDown: "Move column down",
+  removeColumn: "Remove column",
+  addPropertyColumnLabel: "Add property layer field",
+  addOwnerColumnLabel: "Add owner layer field",
+  panelFieldMapping: "Field Mapping",
+  fieldMappingDescription:
+    "Choose which fields hold each value. Empty entries use the default field names.",
+  fieldFnrLabel: "Property join key (FNR)",
+  fieldUuidLabel: "Property UUID",
+  fieldDesignationLabel: "Property designation",
+  fieldOwnerFnrLabel: "Owner join key (FNR)",
+  fieldOwnerNameLabel: "Owner name",
+  fieldOwnerListLabel: "Owner list",
+  fieldAddressLabel: "Street address",
+  fieldPostalCodeLabel: "Postal code",
+  fieldCityLabel: "City",
+  fieldShareLabel: "Ownership share",
+  fieldOrgNumberLabel: "Organization number",
 };
@@ -30,9 +30,62 @@ System.register([], function (e) {
         enableToggleRemovalLabel: "Växla borttagning",
         enableToggleRemovalDescription:
           "Klicka på en vald fastighet igen för att avmarkera den.",
+        bufferOriginLabel: "Buffertens utgångspunkt",
+        bufferOriginDescription:
+          "Vad buffertsökningen utgår från som standard: fastigheten under klicket eller den klickade punkten. Användare kan byta i buffertverktyget.",
+        bufferOriginParcel: "Klickad fastighet",
+        bufferOriginPoint: "Klickad punkt",
         enablePIIMaskingLabel: "PII-maskering",
         enablePIIMaskingDescription:
           "Maskera ägarnamn och adresser i widgeten.",
+        piiAccessGroupsLabel: "Avmaskera för grupper",
+        piiAccessGroupsDescription:
+          "ArcGIS-gruppers ID, åtskilda med kommatecken. Gruppnamn godtas inte eftersom vem som helst kan skapa en grupp med samma namn. Medlemmar kan visa omaskerade ägaruppgifter; varje visning loggas.",
+        piiAccessRolesLabel: "Avmaskera för roller",
+        piiAccessRolesDescription:
+          "Roller som org_admin eller ID för anpassade roller, åtskilda med kommatecken. Användare med dessa roller kan visa omaskerade ägaruppgifter.",
+        piiAccessPlaceholder: "Kommaseparerad lista",
+        maskNameRuleLabel: "Ägarnamn",
+        maskNameRuleDescription:
+          "Hur maskerade ägarnamn visas i tabellen, vid kopiering och i exporter.",
+        maskAddressRuleLabel: "Ägaradresser",
+        maskAddressRuleDescription:
+          "Dölj bara gatan för att behålla postnummer och ort, eller dölj hela adressen.",
+        maskOrgNumberRuleLabel: "Organisationsnummer",
+        maskOrgNumberRuleDescription:
+          "Behåll numret eller dölj det. Numren hashas aldrig: en hash av ett tiosiffrigt nummer är lätt att räkna baklänges.",
+        maskStrategyPartial: "Delvis maskerad",
+        maskStrategyInitials: "Endast initialer",
+        maskStrategyHideStreet: "Dölj gata",
+        maskStrategyKeep: "Behåll",
+        maskStrategyRedact: "Dölj helt",
+        exemptOrganizationsLabel: "Maskera aldrig organisationer",
+        exemptOrganizationsDescription:
+          "Ägare med organisationsnummer (ORGNR) är offentliga och visas omaskerade.",
+        exportFilteredRowsOnlyLabel: "Kopiera/exportera filtrerade rader",
+        exportFilteredRowsOnlyDescription:
+          "När tabellen är filtrerad kopieras och exporteras bara de visade raderna.",
+        mailingLabelTemplateLabel: "Etikettark för utskick",
+        mailingLabelTemplateDescription:
+          "Etikettrutnät för exporten av adressetiketter. Alla ark är A4.",
+        mailingLabelTemplate3474: "Avery 3474 (3 × 8, 70 × 37 mm)",
+        mailingLabelTemplateL7160: "Avery L7160 (3 × 7, 63,5 × 38,1 mm)",
+        mailingLabelTemplateL7161: "Avery L7161 (3 × 6, 63,5 × 46,6 mm)",
+        mailingLabelTemplateL7163: "Avery L7163 (2 × 7, 99,1 × 38,1 mm)",
+        geojsonCrsLabel: "GeoJSON-koordinater",
+        geojsonCrsDescription:
+          "WGS84 longitud/latitud fungerar i QGIS, geojson.io och webbkartor. Lagrets koordinatsystem behåller lagrets koordinater och anger systemet i filen.",
+        geojsonCrsWgs84: "WGS84 (RFC 7946)",
+        geojsonCrsNative: "Lagrets koordinatsystem",
+        geojsonPrecisionLabel: "Decimaler i GeoJSON",
+        geojsonPrecisionDescription:
+          "Antal decimaler i exporterade koordinater. Sex decimaler av en grad motsvarar ungefär 10 cm.",
+        selectionPersistenceLabel: "Kom ihåg urval",
+        selectionPersistenceDescription:
+          "Behåll valda fastigheter efter omladdning, i den här fliken eller på den här enheten.",
+        selectionPersistenceOff: "Av",
+        selectionPersistenceSession: "Den här fliken",
+        selectionPersistenceLocal: "Den här enheten",
         highlightOptionsDescription:
           "Anpassa hur valda fastigheter visas på kartan.",
         highlightColorLabel: "Markeringsfärg",
@@ -61,9 +114,61 @@ System.register([], function (e) {
         errorInvalidNumber: "Ange ett heltal större än noll.",
         errorMaxResultsInvalid: "Max resultat måste vara mellan 1 och 1000.",
         errorRelationshipIdInvalid: "Relations-ID måste vara mellan 0 och 99.",
+        errorGeojsonPrecisionInvalid:
+          "Antal decimaler måste vara mellan 0 och 10.",
         runtimeStateQuerying: "Sökning pågår…",
         runtimeStateError: "Frågefel. Se widgeten för detaljer.",
         runtimeStateSelected: "{count} fastigheter valda.",
+        panelFbwebbSettings: "FBWebb-rapport",
+        fbwebbBaseUrlLabel: "Rapport-URL",
+        fbwebbBaseUrlDescription:
+          "HTTPS-adress till FBWebb-rapportsidan. Värden måste vara tillåten.",
+        fbwebbBaseUrlPlaceholder: "https://fbwebb.example.com/report",
+        fbwebbDatabaseLabel: "Databas",
+        fbwebbDatabaseDescription:
+          "FBWebb-databasens namn som läggs till i rapportlänkar.",
+        fbwebbUserLabel: "Användare",
+        fbwebbUserDescription: "FBWebb-användare som läggs till i rapportlänkar.",
+        errorFbwebbUrlInvalid: "Ange en HTTPS-URL på en tillåten värd.",
+        auditEndpointLabel: "Granskningsadress",
+        auditEndpointDescription:
+          "Valfri HTTPS-URL som tar emot varje uppslag, omaskerad visning, kopiering och export som JSON. Värden måste finnas bland tillåtna värdar.",
+        auditEndpointPlaceholder: "https://audit.example.com/events",
+        errorAuditEndpointInvalid:
+          "Ange en HTTPS-URL på en listad tillåten värd.",
+        panelTableColumns: "Tabellkolumner",
+        tableColumnsDescription:
+          "Välj, ordna och namnge kolumnerna i resultattabellen.",
+        columnFastighet: "Fastighet",
+        columnAddress: "Adress",
+        columnFnr: "FNR",
+        columnUuid: "Fastighets-UUID",
+        propertyLayerShort: "fastighet",
+        ownerLayerShort: "ägare",
+        columnHeaderLabel: "Kolumnrubrik",
+        columnFormatterLabel: "Format",
+        formatterText: "Text",
+        formatterFraction: "Andel som bråk",
+        formatterOrgNumber: "Organisationsnummer",
+        moveColumnUp: "Flytta kolumn uppåt",
+        moveColumnDown: "Flytta kolumn nedåt",
+        removeColumn: "Ta bort kolumn",
+        addPropertyColumnLabel: "Lägg till fält från fastighetslagret",
+        addOwnerColumnLabel: "Lägg till fält från ägarlagret",
+        panelFieldMapping: "Fältmappning",
+        fieldMappingDescription:
+          "Välj vilka fält som innehåller respektive värde. Tomma val använder standardfältnamnen.",
+        fieldFnrLabel: "Kopplingsnyckel i fastighetslagret (FNR)",
+        fieldUuidLabel: "Fastighets-UUID",
+        fieldDesignationLabel: "Fastighetsbeteckning",
+        fieldOwnerFnrLabel: "Kopplingsnyckel i ägarlagret (FNR)",
+        fieldOwnerNameLabel: "Ägarnamn",
+        fieldOwnerListLabel: "Ägarlista",
+        fieldAddressLabel: "Gatuadress",
+        fieldPostalCodeLabel: "Postnummer",
+        fieldCityLabel: "Postort",
+        fieldShareLabel: "Ägarandel",
+        fieldOrgNumberLabel: "Organisationsnummer",
       });
     },
   };
@@ -5,14 +5,27 @@ import type {
   QueryOptions,
 } from "jimu-core";
 import { loadArcGISJSAPIModules } from "jimu-arcgis";
-import { OWNER_QUERY_CONCURRENCY } from "../config/constants";
+import {
+  FNR_QUERY_BATCH_SIZE,
+  OWNER_QUERY_CONCURRENCY,
+} from "../config/constants";
 import type {
   AttributeMap,
+  BufferQueryResult,
+  BufferSelectionPipelineParams,
+  BufferSelectionPipelineResult,
+  BufferUnit,
   FeatureLayerConstructor,
+  FieldMappedQueryOptions,
+  FieldMapping,
+  FnrSelectionPipelineParams,
   FnrValue,
   GridRowData,
+  ListSelectionPipelineParams,
+  ListSelectionPipelineResult,
   OwnerAttributes,
   OwnerFetchSuccess,
+  OwnerMasking,
   OwnerQueryResolution,
   ProcessingAccumulator,
   ProcessPropertyResult,
@@ -20,24 +33,35 @@ import type {
   PropertyAttributes,
   PropertyBatchQueryParams,
   PropertyIndividualQueryParams,
+  PropertyPipelineSuccess,
   PropertyProcessingContext,
   PropertySelectionPipelineParams,
   PropertySelectionPipelineResult,
+  QueryCacheStats,
   QueryConstructor,
   QueryResult,
   QueryTaskConstructor,
   QueryTaskLike,
   RelationshipQueryConstructor,
+  SerializedRecord,
   SignalOptions,
+  SketchSelectionPipelineParams,
+  SketchSelectionPipelineResult,
   ValidateDataSourcesParams,
   ValidatedProperty,
   ValidationResult,
+  Wgs84GeometryProjector,
 } from "../config/types";
+import { trackError } from "./telemetry";
 import {
   abortHelpers,
+  applyFieldMapping,
+  buildDesignationWhereClause,
   buildFnrWhereClause,
+  buildOwnerCacheKey,
   buildPropertyRows,
   calculatePropertyUpdates,
+  createQueryCache,
   createRowId,
   createValidationError,
   deriveToggleState,
@@ -48,9 +72,11 @@ import {
   isAbortError,
   isValidArcGISUrl,
   normalizeFnrKey,
-  parseArcGISError,
   processOwnerResult,
   processPropertyQueryResults,
+  resolveFieldMapping,
+  runWithRequestPolicy,
+  toQueryError,
 } from "./utils/index";
 
 // Global module cache - loaded once per session
@@ -63,6 +89,8 @@ let cachedPromiseUtils: PromiseUtilsLike | null = null;
 // Instance caches - cleared on widget unmount
 const featureLayerCache = new Map<string, __esri.FeatureLayer>();
 const relationshipQueryTaskCache = new Map<string, QueryTaskLike>();
+// Owner lookups shared by hover, click and batch queries
+const ownerQueryCache = createQueryCache<OwnerAttributes[]>();
 
 const getPromiseUtils = async (): Promise<PromiseUtilsLike> => {
   if (cachedPromiseUtils) {
@@ -111,7 +139,7 @@ const appendRowsForValidatedProperty = (
     validated: ValidatedProperty;
     owners: OwnerAttributes[];
     ownerQueryFailed: boolean;
-    maskPII: boolean;
+    maskPII: OwnerMasking;
     context: PropertyProcessingContext;
   }
 ) => {
@@ -221,7 +249,7 @@ const fetchOwnerDataForProperty = async (
       validated.fnr,
       config.ownerDataSourceId,
       dsManager,
-      { signal }
+      { signal, fieldMapping: context.fieldMapping }
     );
 
     const owners = graphics
@@ -242,7 +270,7 @@ const processBatchOfProperties = async (params: {
   batch: ValidatedProperty[];
   currentRowCount: number;
   context: PropertyProcessingContext;
-  config: { ownerDataSourceId: string; enablePIIMasking: boolean };
+  config: { ownerDataSourceId: string; enablePIIMasking: OwnerMasking };
 }): Promise<ProcessingAccumulator> => {
   const { batch, context, config, currentRowCount } = params;
   const { helpers, maxResults } = context;
@@ -304,8 +332,16 @@ const processBatchOfProperties = async (params: {
 
 export const clearQueryCache = (): void => {
   clearFeatureLayerCache();
+  ownerQueryCache.clear();
+};
+
+export const clearOwnerQueryCache = (): void => {
+  ownerQueryCache.clear();
 };
 
+export const getOwnerQueryCacheStats = (): QueryCacheStats =>
+  ownerQueryCache.getStats();
+
 export const validateDataSources = (
   params: ValidateDataSourcesParams
 ): ValidationResult<{ manager: DataSourceManager }> => {
@@ -387,95 +423,224 @@ export const validateDataSources = (
   return { valid: true, data: { manager: dsManager } };
 };
 
-export const queryPropertyByPoint = async (
-  point: __esri.Point,
+const loadPropertyFeatureLayer = async (
   dataSourceId: string,
   dsManager: DataSourceManager,
-  options?: { signal?: AbortSignal }
-): Promise<QueryResult[]> => {
-  try {
-    abortHelpers.throwIfAborted(options?.signal);
+  signal?: AbortSignal
+): Promise<__esri.FeatureLayer> => {
+  const ds = dsManager.getDataSource(
+    dataSourceId
+  ) as FeatureLayerDataSource | null;
+  if (!ds) {
+    throw new Error("Property data source not found");
+  }
 
-    const ds = dsManager.getDataSource(
-      dataSourceId
-    ) as FeatureLayerDataSource | null;
-    if (!ds) {
-      throw new Error("Property data source not found");
-    }
+  const layerUrl = ds.url;
+  if (!layerUrl) {
+    throw new Error("Data source URL not available");
+  }
 
-    const layerUrl = ds.url;
-    if (!layerUrl) {
-      throw new Error("Data source URL not available");
-    }
+  if (!cachedFeatureLayerCtor || !cachedQueryCtor) {
+    const [FeatureLayer, Query] = await loadArcGISJSAPIModules([
+      "esri/layers/FeatureLayer",
+      "esri/rest/support/Query",
+    ]);
+    cachedFeatureLayerCtor = FeatureLayer as FeatureLayerConstructor;
+    cachedQueryCtor = Query as QueryConstructor;
+  }
 
-    if (!cachedFeatureLayerCtor || !cachedQueryCtor) {
-      const [FeatureLayer, Query] = await loadArcGISJSAPIModules([
-        "esri/layers/FeatureLayer",
-        "esri/rest/support/Query",
-      ]);
-      cachedFeatureLayerCtor = FeatureLayer as FeatureLayerConstructor;
-      cachedQueryCtor = Query as QueryConstructor;
-    }
+  if (!cachedFeatureLayerCtor || !cachedQueryCtor) {
+    throw new Error("Failed to load ArcGIS query modules");
+  }
 
-    if (!cachedFeatureLayerCtor || !cachedQueryCtor) {
-      throw new Error("Failed to load ArcGIS query modules");
+  const FeatureLayer = cachedFeatureLayerCtor;
+
+  let layer = featureLayerCache.get(layerUrl);
+  if (!layer) {
+    layer = new FeatureLayer({
+      url: layerUrl,
+      outFields: ["*"],
+    });
+    featureLayerCache.set(layerUrl, layer);
+
+    // Ensure layer is loaded before querying
+    try {
+      await layer.load(createSignalOptions(signal));
+      abortHelpers.throwIfAborted(signal);
+    } catch (loadError) {
+      featureLayerCache.delete(layerUrl);
+      throw loadError instanceof Error
+        ? loadError
+        : new Error(String(loadError));
     }
+  }
 
-    const FeatureLayer = cachedFeatureLayerCtor;
-    const Query = cachedQueryCtor;
+  return layer;
+};
 
-    let layer = featureLayerCache.get(layerUrl);
-    if (!layer) {
-      layer = new FeatureLayer({
-        url: layerUrl,
-        outFields: ["*"],
-      });
-      featureLayerCache.set(layerUrl, layer);
+// Spatial queries pass a geometry; FNR lookups pass an attribute filter
+const queryPropertyFeatures = async (
+  criteria: { geometry: __esri.Geometry } | { where: string },
+  dataSourceId: string,
+  dsManager: DataSourceManager,
+  signal?: AbortSignal,
+  fieldMapping?: FieldMapping
+): Promise<QueryResult[]> => {
+  abortHelpers.throwIfAborted(signal);
 
-      // Ensure layer is loaded before querying
-      try {
-        await layer.load(createSignalOptions(options?.signal));
-        abortHelpers.throwIfAborted(options?.signal);
-      } catch (loadError) {
-        featureLayerCache.delete(layerUrl);
-        throw loadError instanceof Error
-          ? loadError
-          : new Error(String(loadError));
-      }
-    }
+  const layer = await loadPropertyFeatureLayer(dataSourceId, dsManager, signal);
+  const Query = cachedQueryCtor;
+  if (!Query) {
+    throw new Error("Failed to load ArcGIS query modules");
+  }
 
-    const query = new Query({
-      geometry: point,
-      returnGeometry: true,
-      outFields: ["*"],
-      spatialRelationship: "intersects",
-      returnZ: false,
-      returnM: false,
-    });
+  const query = new Query({
+    ...("geometry" in criteria
+      ? {
+          geometry: criteria.geometry,
+          spatialRelationship: "intersects" as const,
+        }
+      : { where: criteria.where }),
+    returnGeometry: true,
+    outFields: ["*"],
+    returnZ: false,
+    returnM: false,
+  });
 
-    const result = await layer.queryFeatures(
-      query,
-      createSignalOptions(options?.signal)
-    );
+  const result = await runWithRequestPolicy(
+    (requestSignal) => layer.queryFeatures(query, { signal: requestSignal }),
+    { signal }
+  );
 
-    abortHelpers.throwIfAborted(options?.signal);
+  abortHelpers.throwIfAborted(signal);
 
-    if (!result?.features || result.features.length === 0) {
-      return [];
-    }
+  if (!result?.features || result.features.length === 0) {
+    return [];
+  }
 
-    return result.features.map((feature: __esri.Graphic) => {
-      const attrs = feature.attributes as PropertyAttributes;
-      return {
-        features: [feature],
-        propertyId: attrs.FNR,
-      };
-    });
+  return result.features.map((feature: __esri.Graphic) => {
+    const attrs = applyFieldMapping<PropertyAttributes>(
+      feature.attributes as AttributeMap,
+      fieldMapping,
+      "property"
+    );
+    feature.attributes = attrs;
+    return {
+      features: [feature],
+      propertyId: attrs.FNR,
+    };
+  });
+};
+
+export const queryPropertyByPoint = async (
+  point: __esri.Point,
+  dataSourceId: string,
+  dsManager: DataSourceManager,
+  options?: FieldMappedQueryOptions
+): Promise<QueryResult[]> => {
+  try {
+    return await queryPropertyFeatures(
+      { geometry: point },
+      dataSourceId,
+      dsManager,
+      options?.signal,
+      options?.fieldMapping
+    );
   } catch (error) {
     if (isAbortError(error)) {
       throw error instanceof Error ? error : new Error(String(error));
     }
-    throw new Error(parseArcGISError(error, "Property query failed"));
+    throw toQueryError(error, "Property query failed");
+  }
+};
+
+export const queryPropertiesByGeometry = async (
+  geometry: __esri.Geometry,
+  dataSourceId: string,
+  dsManager: DataSourceManager,
+  options?: FieldMappedQueryOptions
+): Promise<QueryResult[]> => {
+  try {
+    return await queryPropertyFeatures(
+      { geometry },
+      dataSourceId,
+      dsManager,
+      options?.signal,
+      options?.fieldMapping
+    );
+  } catch (error) {
+    abortHelpers.handleOrThrow(error);
+    throw toQueryError(error, "Property query failed");
+  }
+};
+
+// Attribute lookups are batched so each where clause stays a manageable size
+const queryPropertiesByFieldValues = async <T extends string | number>(
+  values: readonly T[],
+  buildClause: (value: T) => string,
+  dataSourceId: string,
+  dsManager: DataSourceManager,
+  options?: FieldMappedQueryOptions
+): Promise<QueryResult[]> => {
+  const results: QueryResult[] = [];
+
+  for (let index = 0; index < values.length; index += FNR_QUERY_BATCH_SIZE) {
+    const where = values
+      .slice(index, index + FNR_QUERY_BATCH_SIZE)
+      .map(buildClause)
+      .join(" OR ");
+    const batchResults = await queryPropertyFeatures(
+      { where },
+      dataSourceId,
+      dsManager,
+      options?.signal,
+      options?.fieldMapping
+    );
+    results.push(...batchResults);
+  }
+
+  return results;
+};
+
+export const queryPropertiesByFnr = async (
+  fnrs: readonly FnrValue[],
+  dataSourceId: string,
+  dsManager: DataSourceManager,
+  options?: FieldMappedQueryOptions
+): Promise<QueryResult[]> => {
+  try {
+    const fieldName = resolveFieldMapping(options?.fieldMapping).fnr;
+    return await queryPropertiesByFieldValues(
+      fnrs,
+      (fnr) => buildFnrWhereClause(fnr, undefined, { fieldName }),
+      dataSourceId,
+      dsManager,
+      options
+    );
+  } catch (error) {
+    abortHelpers.handleOrThrow(error);
+    throw toQueryError(error, "Property query failed");
+  }
+};
+
+export const queryPropertiesByDesignation = async (
+  designations: readonly string[],
+  dataSourceId: string,
+  dsManager: DataSourceManager,
+  options?: FieldMappedQueryOptions
+): Promise<QueryResult[]> => {
+  try {
+    const fieldName = resolveFieldMapping(options?.fieldMapping).designation;
+    return await queryPropertiesByFieldValues(
+      designations,
+      (designation) => buildDesignationWhereClause(designation, fieldName),
+      dataSourceId,
+      dsManager,
+      options
+    );
+  } catch (error) {
+    abortHelpers.handleOrThrow(error);
+    throw toQueryError(error, "Property query failed");
   }
 };
 
@@ -483,7 +648,7 @@ export const queryOwnerByFnr = async (
   fnr: FnrValue,
   dataSourceId: string,
   dsManager: DataSourceManager,
-  options?: { signal?: AbortSignal }
+  options?: FieldMappedQueryOptions
 ): Promise<__esri.Graphic[]> => {
   try {
     abortHelpers.throwIfAborted(options?.signal);
@@ -495,52 +660,92 @@ export const queryOwnerByFnr = async (
       throw new Error("Owner data source not found");
     }
 
-    const signalOptions = createSignalOptions(options?.signal);
+    const fieldMapping = resolveFieldMapping(options?.fieldMapping);
+    const where = buildFnrWhereClause(fnr, undefined, {
+      fieldName: fieldMapping.ownerFnr,
+    });
 
-    const result = await ds.query(
-      {
-        where: buildFnrWhereClause(fnr),
-        returnGeometry: false,
-        outFields: ["*"],
-      },
-      toDataSourceQueryOptions(signalOptions)
+    const cacheKey = buildOwnerCacheKey(dataSourceId, fnr);
+    const cachedOwners = ownerQueryCache.get(cacheKey);
+    if (cachedOwners) {
+      return cachedOwners.map(
+        (attributes) => ({ attributes, geometry: null }) as __esri.Graphic
+      );
+    }
+
+    const result = await runWithRequestPolicy(
+      (requestSignal) =>
+        ds.query(
+          { where, returnGeometry: false, outFields: ["*"] },
+          toDataSourceQueryOptions({ signal: requestSignal })
+        ),
+      { signal: options?.signal }
     );
 
     abortHelpers.throwIfAborted(options?.signal);
 
     const records = result?.records ?? [];
     if (records.length === 0) {
+      ownerQueryCache.set(cacheKey, []);
       return [];
     }
 
-    return records.map((record: FeatureDataRecord) => {
-      const attributes = record.getData() as OwnerAttributes;
+    const graphics = records.map((record: FeatureDataRecord) => {
+      const attributes = applyFieldMapping<OwnerAttributes>(
+        record.getData() as AttributeMap,
+        fieldMapping,
+        "owner"
+      );
       return {
         attributes,
         geometry: record.getGeometry(),
       } as __esri.Graphic;
     });
+    ownerQueryCache.set(
+      cacheKey,
+      graphics.map((graphic) => graphic.attributes as OwnerAttributes)
+    );
+    return graphics;
   } catch (error) {
     abortHelpers.handleOrThrow(error);
-    throw new Error(parseArcGISError(error, "Owner query failed"));
+    throw toQueryError(error, "Owner query failed");
   }
 };
 
 export const queryOwnersByRelationship = async (
   propertyFnrs: FnrValue[],
   propertyDataSourceId: string,
-  _ownerDataSourceId: string,
+  ownerDataSourceId: string,
   dsManager: DataSourceManager,
   relationshipId: number,
-  options?: { signal?: AbortSignal }
+  options?: FieldMappedQueryOptions
 ): Promise<Map<string, OwnerAttributes[]>> => {
   try {
     abortHelpers.throwIfAborted(options?.signal);
+    const fieldMapping = resolveFieldMapping(options?.fieldMapping);
 
     if (!propertyFnrs || propertyFnrs.length === 0) {
       return new Map();
     }
 
+    // Only FNRs without fresh cached owners go to the server
+    const cachedOwnersByFnr = new Map<string, OwnerAttributes[]>();
+    const uncachedFnrs: FnrValue[] = [];
+    for (const fnr of propertyFnrs) {
+      const cachedOwners = ownerQueryCache.get(
+        buildOwnerCacheKey(ownerDataSourceId, fnr)
+      );
+      if (cachedOwners) {
+        cachedOwnersByFnr.set(String(fnr), [...cachedOwners]);
+      } else {
+        uncachedFnrs.push(fnr);
+      }
+    }
+
+    if (uncachedFnrs.length === 0) {
+      return cachedOwnersByFnr;
+    }
+
     const propertyDs = dsManager.getDataSource(
       propertyDataSourceId
     ) as FeatureLayerDataSource | null;
@@ -569,30 +774,38 @@ export const queryOwnersByRelationship = async (
     const QueryTask = cachedQueryTaskCtor;
     const RelationshipQuery = cachedRelationshipQueryCtor;
 
-    let queryTask = relationshipQueryTaskCache.get(layerUrl);
-    if (!queryTask) {
-      queryTask = new QueryTask({ url: layerUrl });
+    const cachedQueryTask = relationshipQueryTaskCache.get(layerUrl);
+    const queryTask = cachedQueryTask ?? new QueryTask({ url: layerUrl });
+    if (!cachedQueryTask) {
       relationshipQueryTaskCache.set(layerUrl, queryTask);
     }
     const relationshipQuery = new RelationshipQuery();
 
-    const signalOptions = createSignalOptions(options?.signal);
-
     const BATCH_SIZE = 100;
     const fnrBatches: FnrValue[][] = [];
-    for (let index = 0; index < propertyFnrs.length; index += BATCH_SIZE) {
-      fnrBatches.push(propertyFnrs.slice(index, index + BATCH_SIZE));
+    for (let index = 0; index < uncachedFnrs.length; index += BATCH_SIZE) {
+      fnrBatches.push(uncachedFnrs.slice(index, index + BATCH_SIZE));
     }
 
     const batchRequests = fnrBatches.map(
       (batch) => () =>
-        propertyDs.query(
-          {
-            where: batch.map((fnr) => buildFnrWhereClause(fnr)).join(" OR "),
-            outFields: ["FNR", "OBJECTID"],
-            returnGeometry: false,
-          },
-          toDataSourceQueryOptions(signalOptions)
+        runWithRequestPolicy(
+          (requestSignal) =>
+            propertyDs.query(
+              {
+                where: batch
+                  .map((fnr) =>
+                    buildFnrWhereClause(fnr, undefined, {
+                      fieldName: fieldMapping.fnr,
+                    })
+                  )
+                  .join(" OR "),
+                outFields: [fieldMapping.fnr, "OBJECTID"],
+                returnGeometry: false,
+              },
+              toDataSourceQueryOptions({ signal: requestSignal })
+            ),
+          { signal: options?.signal }
         )
     );
 
@@ -621,7 +834,11 @@ export const queryOwnersByRelationship = async (
           const record = records[k];
           propertyRecords.push(record);
 
-          const data = record.getData() as PropertyAttributes;
+          const data = applyFieldMapping<PropertyAttributes>(
+            record.getData() as AttributeMap,
+            fieldMapping,
+            "property"
+          );
           const objectId = data.OBJECTID;
           const fnr = String(data.FNR);
 
@@ -636,7 +853,7 @@ export const queryOwnersByRelationship = async (
     }
 
     if (objectIds.length === 0) {
-      return new Map();
+      return cachedOwnersByFnr;
     }
 
     relationshipQuery.objectIds = objectIds;
@@ -645,14 +862,17 @@ export const queryOwnersByRelationship = async (
 
     abortHelpers.throwIfAborted(options?.signal);
 
-    const result = await queryTask.executeRelationshipQuery(
-      relationshipQuery,
-      createSignalOptions(options?.signal)
+    const result = await runWithRequestPolicy(
+      (requestSignal) =>
+        queryTask.executeRelationshipQuery(relationshipQuery, {
+          signal: requestSignal,
+        }),
+      { signal: options?.signal }
     );
 
     abortHelpers.throwIfAborted(options?.signal);
 
-    const ownersByFnr = new Map<string, OwnerAttributes[]>();
+    const ownersByFnr = new Map<string, OwnerAttributes[]>(cachedOwnersByFnr);
 
     objectIds.forEach((objectId) => {
       const relatedRecords = result[objectId];
@@ -660,18 +880,25 @@ export const queryOwnersByRelationship = async (
 
       if (fnr && relatedRecords?.features) {
         const owners = relatedRecords.features
-          .map(
-            (feature: __esri.Graphic) => feature.attributes as OwnerAttributes
+          .map((feature: __esri.Graphic) =>
+            feature.attributes
+              ? applyFieldMapping<OwnerAttributes>(
+                  feature.attributes as AttributeMap,
+                  fieldMapping,
+                  "owner"
+                )
+              : null
           )
-          .filter(Boolean);
+          .filter((owner): owner is OwnerAttributes => Boolean(owner));
         ownersByFnr.set(fnr, owners);
+        ownerQueryCache.set(buildOwnerCacheKey(ownerDataSourceId, fnr), owners);
       }
     });
 
     return ownersByFnr;
   } catch (error) {
     abortHelpers.handleOrThrow(error);
-    throw new Error(parseArcGISError(error, "Relationship query failed"));
+    throw toQueryError(error, "Relationship query failed");
   }
 };
 
@@ -705,7 +932,7 @@ const processBatchQuery = async (
       config.ownerDataSourceId,
       context.dsManager,
       config.relationshipId,
-      { signal: context.signal }
+      { signal: context.signal, fieldMapping: context.fieldMapping }
     );
   } catch (error) {
     if (helpers.isAbortError(error)) {
@@ -799,11 +1026,11 @@ export const propertyQueryService = {
   processIndividual: processIndividualQuery,
 };
 
-export const runPropertySelectionPipeline = async (
-  params: PropertySelectionPipelineParams
-): Promise<PropertySelectionPipelineResult> => {
+const resolveSelectionFromResults = async (
+  propertyResults: QueryResult[],
+  params: Omit<PropertySelectionPipelineParams, "mapPoint">
+): Promise<PropertyPipelineSuccess> => {
   const {
-    mapPoint,
     propertyDataSourceId,
     ownerDataSourceId,
     dsManager,
@@ -813,42 +1040,11 @@ export const runPropertySelectionPipeline = async (
     relationshipId,
     enablePIIMasking,
     signal,
+    fieldMapping,
     selectedProperties,
     translate,
   } = params;
 
-  const propertyResults = await queryPropertyByPoint(
-    mapPoint,
-    propertyDataSourceId,
-    dsManager,
-    { signal }
-  );
-
-  if (propertyResults.length === 0) {
-    return { status: "empty" };
-  }
-
-  const toggleRemovalState = deriveToggleState({
-    propertyResults,
-    selectedProperties,
-    toggleEnabled,
-    normalizeFnrKey,
-    extractFnr,
-  });
-
-  if (toggleRemovalState) {
-    const { updatedRows, keysToRemove } = toggleRemovalState;
-
-    return {
-      status: "success",
-      rowsToProcess: [],
-      graphicsToAdd: [],
-      updatedRows,
-      toRemove: keysToRemove,
-      propertyResults,
-    };
-  }
-
   const processingResult = await processPropertyQueryResults({
     propertyResults,
     config: {
@@ -862,6 +1058,7 @@ export const runPropertySelectionPipeline = async (
       dsManager,
       maxResults,
       signal,
+      fieldMapping,
       helpers: {
         extractFnr,
         queryOwnerByFnr,
@@ -902,79 +1099,348 @@ export const runPropertySelectionPipeline = async (
   };
 };
 
+export const runPropertySelectionPipeline = async (
+  params: PropertySelectionPipelineParams
+): Promise<PropertySelectionPipelineResult> => {
+  const {
+    mapPoint,
+    propertyDataSourceId,
+    dsManager,
+    toggleEnabled,
+    signal,
+    fieldMapping,
+    selectedProperties,
+  } = params;
+
+  const propertyResults = await queryPropertyByPoint(
+    mapPoint,
+    propertyDataSourceId,
+    dsManager,
+    { signal, fieldMapping }
+  );
+
+  if (propertyResults.length === 0) {
+    return { status: "empty" };
+  }
+
+  const toggleRemovalState = deriveToggleState({
+    propertyResults,
+    selectedProperties,
+    toggleEnabled,
+    normalizeFnrKey,
+    extractFnr,
+  });
+
+  if (toggleRemovalState) {
+    const { updatedRows, keysToRemove } = toggleRemovalState;
+
+    return {
+      status: "success",
+      rowsToProcess: [],
+      graphicsToAdd: [],
+      updatedRows,
+      toRemove: keysToRemove,
+      propertyResults,
+    };
+  }
+
+  return await resolveSelectionFromResults(propertyResults, params);
+};
+
+export const createBufferGeometry = async (
+  geometry: __esri.Geometry,
+  bufferDistance: number,
+  bufferUnit: BufferUnit
+): Promise<__esri.Geometry> => {
+  const modules = await loadArcGISJSAPIModules([
+    "esri/geometry/geometryEngine",
+  ]);
+  const [geometryEngine] = modules as [__esri.geometryEngine];
+
+  // Planar buffers are distorted in geographic and Web Mercator references
+  const spatialReference = geometry.spatialReference;
+  const useGeodesic =
+    spatialReference?.isGeographic || spatialReference?.isWebMercator;
+
+  const bufferResult = useGeodesic
+    ? geometryEngine.geodesicBuffer(geometry, bufferDistance, bufferUnit)
+    : geometryEngine.buffer(geometry, bufferDistance, bufferUnit);
+
+  let buffer: __esri.Geometry | null = null;
+  if (Array.isArray(bufferResult)) {
+    if (bufferResult.length > 0) {
+      buffer = geometryEngine.union(bufferResult);
+    }
+  } else {
+    buffer = bufferResult;
+  }
+
+  if (!buffer) {
+    throw new Error("Failed to create buffer geometry");
+  }
+
+  if (!buffer.extent || buffer.extent.width === 0) {
+    throw new Error("Invalid buffer geometry: empty extent");
+  }
+
+  return buffer;
+};
+
 export const queryPropertiesInBuffer = async (
-  point: __esri.Point,
+  geometry: __esri.Geometry,
   bufferDistance: number,
-  bufferUnit: "meters" | "kilometers" | "feet" | "miles",
+  bufferUnit: BufferUnit,
   dataSourceId: string,
   dsManager: DataSourceManager,
-  options?: { signal?: AbortSignal }
-): Promise<PropertyAttributes[]> => {
+  options?: FieldMappedQueryOptions
+): Promise<BufferQueryResult> => {
   try {
     abortHelpers.throwIfAborted(options?.signal);
 
-    const modules = await loadArcGISJSAPIModules([
-      "esri/geometry/geometryEngine",
-    ]);
-    const [geometryEngine] = modules as [__esri.geometryEngine];
-
-    let buffer: __esri.Geometry | null = null;
-    const bufferResult = geometryEngine.buffer(
-      point,
+    const buffer = await createBufferGeometry(
+      geometry,
       bufferDistance,
       bufferUnit
     );
 
-    if (Array.isArray(bufferResult)) {
-      if (bufferResult.length > 0) {
-        buffer = geometryEngine.union(bufferResult);
-      }
-    } else {
-      buffer = bufferResult;
-    }
+    abortHelpers.throwIfAborted(options?.signal);
 
-    if (!buffer) {
-      throw new Error("Failed to create buffer geometry");
-    }
+    const propertyResults = await queryPropertyFeatures(
+      { geometry: buffer },
+      dataSourceId,
+      dsManager,
+      options?.signal,
+      options?.fieldMapping
+    );
 
-    if (!buffer.extent || buffer.extent.width === 0) {
-      throw new Error("Invalid buffer geometry: empty extent");
-    }
+    return { buffer, propertyResults };
+  } catch (error) {
+    abortHelpers.handleOrThrow(error);
+    throw toQueryError(error, "Buffer query failed");
+  }
+};
 
-    abortHelpers.throwIfAborted(options?.signal);
+export const runBufferSelectionPipeline = async (
+  params: BufferSelectionPipelineParams
+): Promise<BufferSelectionPipelineResult> => {
+  const {
+    mapPoint,
+    sourceGeometry,
+    bufferDistance,
+    bufferUnit,
+    bufferOrigin,
+    propertyDataSourceId,
+    dsManager,
+    signal,
+    fieldMapping,
+  } = params;
 
-    const ds = dsManager.getDataSource(
-      dataSourceId
-    ) as FeatureLayerDataSource | null;
-    if (!ds) {
-      throw new Error("Property data source not found");
-    }
+  // Point mode buffers the clicked location; parcel mode the parcel under
+  // it, or the location when there is none
+  let source: __esri.Geometry | null = sourceGeometry ?? null;
+  if (!source && bufferOrigin === "point") {
+    source = mapPoint;
+  } else if (!source) {
+    const clickedResults = await queryPropertyByPoint(
+      mapPoint,
+      propertyDataSourceId,
+      dsManager,
+      { signal, fieldMapping }
+    );
+    source = clickedResults[0]?.features[0]?.geometry ?? mapPoint;
+  }
 
-    const signalOptions = createSignalOptions(options?.signal);
+  const { buffer, propertyResults } = await queryPropertiesInBuffer(
+    source,
+    bufferDistance,
+    bufferUnit,
+    propertyDataSourceId,
+    dsManager,
+    { signal, fieldMapping }
+  );
 
-    const result = await ds.query(
-      {
-        geometry: buffer,
-        spatialRel: "esriSpatialRelIntersects",
-        returnGeometry: true,
-        outFields: ["*"],
-      },
-      toDataSourceQueryOptions(signalOptions)
-    );
+  if (propertyResults.length === 0) {
+    return { buffer, sourceGeometry: source, selection: { status: "empty" } };
+  }
 
-    abortHelpers.throwIfAborted(options?.signal);
+  const selection = await resolveSelectionFromResults(propertyResults, {
+    ...params,
+    toggleEnabled: false,
+  });
 
-    if (!result?.records || result.records.length === 0) {
-      return [];
-    }
+  return { buffer, sourceGeometry: source, selection };
+};
 
-    return result.records.map(
-      (record: FeatureDataRecord) => record.getData() as PropertyAttributes
+export const runSketchSelectionPipeline = async (
+  params: SketchSelectionPipelineParams
+): Promise<SketchSelectionPipelineResult> => {
+  const {
+    geometry,
+    bufferDistance,
+    bufferUnit,
+    propertyDataSourceId,
+    dsManager,
+    signal,
+    fieldMapping,
+  } = params;
+
+  // Only a positive distance buffers the sketch; otherwise it is queried as drawn
+  const shouldBuffer =
+    typeof bufferDistance === "number" && bufferDistance > 0 && !!bufferUnit;
+
+  let buffer: __esri.Geometry | null = null;
+  let propertyResults: QueryResult[];
+  if (shouldBuffer) {
+    const bufferResult = await queryPropertiesInBuffer(
+      geometry,
+      bufferDistance,
+      bufferUnit,
+      propertyDataSourceId,
+      dsManager,
+      { signal, fieldMapping }
     );
-  } catch (error) {
-    abortHelpers.handleOrThrow(error);
-    throw new Error(parseArcGISError(error, "Buffer query failed"));
+    buffer = bufferResult.buffer;
+    propertyResults = bufferResult.propertyResults;
+  } else {
+    propertyResults = await queryPropertiesByGeometry(
+      geometry,
+      propertyDataSourceId,
+      dsManager,
+      { signal, fieldMapping }
+    );
+  }
+
+  const queryGeometry = buffer ?? geometry;
+
+  if (propertyResults.length === 0) {
+    return { queryGeometry, buffer, selection: { status: "empty" } };
   }
+
+  const selection = await resolveSelectionFromResults(propertyResults, {
+    ...params,
+    toggleEnabled: false,
+  });
+
+  return { queryGeometry, buffer, selection };
 };
 
+export const runFnrSelectionPipeline = async (
+  params: FnrSelectionPipelineParams
+): Promise<PropertySelectionPipelineResult> => {
+  const { fnrs, propertyDataSourceId, dsManager, signal, fieldMapping } =
+    params;
+
+  const propertyResults = await queryPropertiesByFnr(
+    fnrs,
+    propertyDataSourceId,
+    dsManager,
+    { signal, fieldMapping }
+  );
+
+  if (propertyResults.length === 0) {
+    return { status: "empty" };
+  }
+
+  return await resolveSelectionFromResults(propertyResults, {
+    ...params,
+    toggleEnabled: false,
+  });
+};
+
+export const runListSelectionPipeline = async (
+  params: ListSelectionPipelineParams
+): Promise<ListSelectionPipelineResult> => {
+  const {
+    fnrs,
+    designations,
+    propertyDataSourceId,
+    dsManager,
+    signal,
+    fieldMapping,
+  } = params;
+
+  const byFnr =
+    fnrs.length > 0
+      ? await queryPropertiesByFnr(fnrs, propertyDataSourceId, dsManager, {
+          signal,
+          fieldMapping,
+        })
+      : [];
+  const byDesignation =
+    designations.length > 0
+      ? await queryPropertiesByDesignation(
+          designations,
+          propertyDataSourceId,
+          dsManager,
+          { signal, fieldMapping }
+        )
+      : [];
+
+  // A parcel listed by both FNR and designation is only processed once
+  const seen = new Set<string>();
+  const propertyResults = [...byFnr, ...byDesignation].filter((result) => {
+    const key = normalizeFnrKey(result.propertyId);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  if (propertyResults.length === 0) {
+    return { propertyResults, selection: { status: "empty" } };
+  }
+
+  const selection = await resolveSelectionFromResults(propertyResults, {
+    ...params,
+    toggleEnabled: false,
+  });
+
+  return { propertyResults, selection };
+};
+
+// Several geometries from one message are queried as a single shape
+export const mergeGeometries = async (
+  geometries: readonly __esri.Geometry[]
+): Promise<__esri.Geometry | null> => {
+  if (geometries.length === 0) return null;
+  if (geometries.length === 1) return geometries[0];
+
+  const modules = await loadArcGISJSAPIModules([
+    "esri/geometry/geometryEngine",
+  ]);
+  const [geometryEngine] = modules as [__esri.geometryEngine];
+  return geometryEngine.union([...geometries]) ?? null;
+};
+
+/**
+ * Loads the ArcGIS projection engine and returns a projector for the
+ * GeoJSON export. Geometries the engine cannot project give null.
+ */
+export const createWgs84GeometryProjector =
+  async (): Promise<Wgs84GeometryProjector> => {
+    const modules = await loadArcGISJSAPIModules([
+      "esri/geometry/projection",
+      "esri/geometry/support/jsonUtils",
+      "esri/geometry/SpatialReference",
+    ]);
+    const [projection, jsonUtils, SpatialReference] = modules as [
+      __esri.projection,
+      __esri.jsonUtils,
+      __esri.SpatialReferenceConstructor,
+    ];
+    await projection.load();
+
+    return (geometry) => {
+      try {
+        const source = jsonUtils.fromJSON(geometry);
+        if (!source?.spatialReference) return null;
+        const result = projection.project(source, SpatialReference.WGS84);
+        const projected = Array.isArray(result) ? result[0] : result;
+        return projected ? (projected.toJSON() as SerializedRecord) : null;
+      } catch (error) {
+        trackError("geojson_projection", error);
+        return null;
+      }
+    };
+  };
+
 export { isValidArcGISUrl };
@@ -7,40 +7,83 @@ import {
 import type {
   ColumnDef,
   ColumnFiltersState,
+  FilterFn,
   Row,
   SortingState,
   Table,
 } from "@tanstack/react-table";
-import { GRID_COLUMN_KEYS } from "../config/constants";
-import type { GridRowData } from "../config/types";
+import { BUILT_IN_COLUMNS } from "../config/constants";
+import type {
+  ColumnSettings,
+  FieldMapping,
+  GridRowData,
+  OwnerMasking,
+} from "../config/types";
+import {
+  getDisplayColumnText,
+  getTableColumnId,
+  resolveDisplayColumns,
+} from "./utils/columns";
 
 const columnHelper = createColumnHelper<GridRowData>();
 
 export const createPropertyTableColumns = (params: {
   translate: (key: string) => string;
+  displayColumns?: readonly string[] | null;
+  columnSettings?: { readonly [columnId: string]: ColumnSettings } | null;
+  maskPII?: OwnerMasking;
+  fieldMapping?: FieldMapping | null;
 }): Array<ColumnDef<GridRowData>> => {
-  const { translate } = params;
-
-  return [
-    columnHelper.accessor("FASTIGHET", {
-      id: GRID_COLUMN_KEYS.FASTIGHET,
-      header: () => translate("columnFastighet"),
-      cell: (info) => info.getValue(),
-      enableSorting: true,
-      enableColumnFilter: true,
-      filterFn: "includesString",
-    }),
-    columnHelper.accessor("ADDRESS", {
-      id: GRID_COLUMN_KEYS.ADDRESS,
-      header: () => translate("columnAddress"),
-      cell: (info) => info.getValue(),
-      enableSorting: true,
-      enableColumnFilter: true,
-      filterFn: "includesString",
-    }),
-  ];
+  const { translate, columnSettings, maskPII, fieldMapping } = params;
+
+  return resolveDisplayColumns(params.displayColumns).map((column) => {
+    const settings = columnSettings?.[column.id] ?? null;
+    const customLabel = settings?.label?.trim();
+    const headerLabel =
+      customLabel ||
+      (column.source
+        ? column.field
+        : translate(BUILT_IN_COLUMNS[column.field].headerKey));
+
+    return columnHelper.accessor(
+      (row) =>
+        getDisplayColumnText(row, column, { settings, maskPII, fieldMapping }),
+      {
+        id: getTableColumnId(column),
+        header: () => headerLabel,
+        cell: (info) => info.getValue(),
+        enableSorting: true,
+        enableColumnFilter: true,
+        filterFn: "includesString",
+      }
+    );
+  });
+};
+
+const normalizeFilterText = (value: unknown): string =>
+  value === null || value === undefined ? "" : String(value).toLowerCase();
+
+// Quick search covers the designation and the formatted owner/address text,
+// i.e. the masked values when PII masking is on
+export const matchesQuickSearch = (
+  row: GridRowData,
+  query: string | null | undefined
+): boolean => {
+  const needle = normalizeFilterText(query).trim();
+  if (!needle) {
+    return true;
+  }
+  return [row.FASTIGHET, row.BOSTADR, row.ADDRESS].some((value) =>
+    normalizeFilterText(value).includes(needle)
+  );
 };
 
+export const propertyGlobalFilterFn: FilterFn<GridRowData> = (
+  row,
+  _columnId,
+  filterValue
+) => matchesQuickSearch(row.original, filterValue as string);
+
 export const createTableConfig = () => ({
   enableSorting: true,
   enableColumnFilters: true,
@@ -49,12 +92,60 @@ export const createTableConfig = () => ({
   getCoreRowModel: getCoreRowModel(),
   getSortedRowModel: getSortedRowModel(),
   getFilteredRowModel: getFilteredRowModel(),
+  globalFilterFn: propertyGlobalFilterFn,
 });
 
 export const getDefaultSorting = (): SortingState => [];
 
 export const getDefaultColumnFilters = (): ColumnFiltersState => [];
 
+export const hasActiveFilters = (
+  columnFilters: ColumnFiltersState,
+  globalFilter: string
+): boolean =>
+  globalFilter.trim().length > 0 ||
+  columnFilters.some((filter) => normalizeFilterText(filter.value) !== "");
+
+/**
+ * Applies column filters and the quick search outside the table, matching
+ * what `PropertyTable` renders so copy and export can use the same rows.
+ * @param rows - Selected property rows.
+ * @param columns - Table column definitions (accessor columns).
+ * @param columnFilters - Active per-column filters.
+ * @param globalFilter - Quick search text.
+ * @returns The rows visible in the table, in their original order.
+ */
+export const filterPropertiesForTable = (
+  rows: GridRowData[],
+  columns: Array<ColumnDef<GridRowData>>,
+  columnFilters: ColumnFiltersState,
+  globalFilter: string
+): GridRowData[] => {
+  const activeFilters = columnFilters
+    .map((filter) => ({
+      column: columns.find((column) => column.id === filter.id),
+      needle: normalizeFilterText(filter.value),
+    }))
+    .filter((filter) => filter.column && filter.needle);
+
+  if (activeFilters.length === 0 && !globalFilter.trim()) {
+    return rows;
+  }
+
+  return rows.filter((row, index) => {
+    if (!matchesQuickSearch(row, globalFilter)) {
+      return false;
+    }
+    return activeFilters.every(({ column, needle }) => {
+      const accessorFn = (
+        column as { accessorFn?: (row: GridRowData, index: number) => unknown }
+      ).accessorFn;
+      const value = accessorFn ? accessorFn(row, index) : undefined;
+      return normalizeFilterText(value).includes(needle);
+    });
+  });
+};
+
 export const getRowId = (row: GridRowData): string => row.id;
 
 export const getVisibleRows = (
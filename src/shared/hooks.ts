@@ -9,6 +9,9 @@ import type { JimuMapView } from "jimu-arcgis";
 import {
   ABORT_CONTROLLER_POOL_SIZE,
   ESRI_MODULES_TO_LOAD,
+  ROW_FLASH_INTERVAL_MS,
+  ROW_FLASH_TOGGLE_COUNT,
+  SKETCH_CREATE_OPTIONS,
 } from "../config/constants";
 import type {
   AttributeMap,
@@ -18,10 +21,15 @@ import type {
   DebouncedFn,
   EsriModules,
   EsriStubGlobal,
+  FieldMapping,
   FnrValue,
+  OwnerMasking,
+  SketchTool,
 } from "../config/types";
 import { queryPropertyByPoint } from "./api";
 import {
+  buildBufferPreviewSymbolJSON,
+  buildEmphasisSymbolJSON,
   isAbortError,
   popupSuppressionManager,
   validateNumericRange,
@@ -225,6 +233,13 @@ export const useGraphicsLayer = (params: {
     new Map()
   );
   const cachedLayerRef = React.useRef<__esri.GraphicsLayer | null>(null);
+  const bufferPreviewRef = React.useRef<__esri.Graphic | null>(null);
+  const flashTimerRef = React.useRef<ReturnType<typeof setInterval> | null>(
+    null
+  );
+  const flashGraphicRef = React.useRef<__esri.Graphic | null>(null);
+  const emphasisGraphicRef = React.useRef<__esri.Graphic | null>(null);
+  const emphasisKeyRef = React.useRef<string | null>(null);
 
   const ensureHighlightLayer = hooks.useEventCallback(
     (view: __esri.MapView | null | undefined): __esri.GraphicsLayer | null => {
@@ -271,7 +286,24 @@ export const useGraphicsLayer = (params: {
     }
   );
 
+  const clearEmphasis = hooks.useEventCallback(() => {
+    const graphic = emphasisGraphicRef.current;
+    const layer = highlightLayerRef.current;
+    if (graphic && layer && !layer.destroyed) {
+      try {
+        layer.remove(graphic);
+      } catch (error) {
+        // Silently ignore removal errors
+      }
+    }
+    emphasisGraphicRef.current = null;
+    emphasisKeyRef.current = null;
+  });
+
   const removeHighlightForKey = hooks.useEventCallback((key: string) => {
+    if (emphasisKeyRef.current === key) {
+      clearEmphasis();
+    }
     const graphic = highlightGraphicsMapRef.current.get(key);
     if (!graphic) {
       return;
@@ -287,7 +319,20 @@ export const useGraphicsLayer = (params: {
     highlightGraphicsMapRef.current.delete(key);
   });
 
+  const stopFlash = hooks.useEventCallback(() => {
+    if (flashTimerRef.current) {
+      clearInterval(flashTimerRef.current);
+      flashTimerRef.current = null;
+    }
+    const graphic = flashGraphicRef.current;
+    if (graphic && !graphic.destroyed) {
+      graphic.visible = true;
+    }
+    flashGraphicRef.current = null;
+  });
+
   const clearHighlights = hooks.useEventCallback(() => {
+    stopFlash();
     const layer = highlightLayerRef.current;
     if (layer && !layer.destroyed) {
       try {
@@ -297,8 +342,61 @@ export const useGraphicsLayer = (params: {
       }
     }
     highlightGraphicsMapRef.current.clear();
+    bufferPreviewRef.current = null;
+    emphasisGraphicRef.current = null;
+    emphasisKeyRef.current = null;
   });
 
+  const clearBufferPreview = hooks.useEventCallback(() => {
+    const graphic = bufferPreviewRef.current;
+    if (!graphic) {
+      return;
+    }
+    const layer = highlightLayerRef.current;
+    if (layer && !layer.destroyed) {
+      try {
+        layer.remove(graphic);
+      } catch (error) {
+        // Silently ignore removal errors
+      }
+    }
+    bufferPreviewRef.current = null;
+  });
+
+  const showBufferPreview = hooks.useEventCallback(
+    (params: {
+      geometry: __esri.Geometry;
+      view: __esri.MapView | null | undefined;
+      highlightColor: [number, number, number, number];
+      outlineWidth: number;
+    }) => {
+      const { geometry, view, highlightColor, outlineWidth } = params;
+      if (!view || !modules) {
+        return;
+      }
+
+      const layer = ensureHighlightLayer(view);
+      if (!layer) {
+        return;
+      }
+
+      clearBufferPreview();
+
+      try {
+        const previewGraphic = new modules.Graphic({
+          geometry,
+          symbol: new modules.SimpleFillSymbol(
+            buildBufferPreviewSymbolJSON(highlightColor, outlineWidth)
+          ),
+        });
+        layer.add(previewGraphic);
+        bufferPreviewRef.current = previewGraphic;
+      } catch (error) {
+        // Silently ignore preview errors
+      }
+    }
+  );
+
   const symbolCacheRef = React.useRef<Map<string, __esri.Symbol>>(new Map());
   const MAX_SYMBOL_CACHE_SIZE = 100;
 
@@ -499,6 +597,148 @@ export const useGraphicsLayer = (params: {
     }
   );
 
+  const getHighlightGeometry = hooks.useEventCallback(
+    (
+      fnr: FnrValue | null | undefined,
+      normalizeFnrKey: (fnr: FnrValue | null | undefined) => string
+    ): __esri.Geometry | null => {
+      if (fnr === null || fnr === undefined) {
+        return null;
+      }
+      const graphic = highlightGraphicsMapRef.current.get(normalizeFnrKey(fnr));
+      return graphic?.geometry ?? null;
+    }
+  );
+
+  // Union of all highlight extents, used to frame the selection in reports
+  const getHighlightExtent = hooks.useEventCallback(
+    (): __esri.Extent | null =>
+      Array.from(highlightGraphicsMapRef.current.values()).reduce<
+        __esri.Extent | null
+      >((extent, graphic) => {
+        const graphicExtent = graphic.geometry?.extent;
+        if (!graphicExtent) return extent;
+        return extent ? extent.union(graphicExtent) : graphicExtent.clone();
+      }, null)
+  );
+
+  // Blinks the existing highlight so the parcel can be spotted on the map
+  const flashHighlightForFnr = hooks.useEventCallback(
+    (
+      fnr: FnrValue | null | undefined,
+      normalizeFnrKey: (fnr: FnrValue | null | undefined) => string
+    ): boolean => {
+      if (fnr === null || fnr === undefined) {
+        return false;
+      }
+      const graphic = highlightGraphicsMapRef.current.get(normalizeFnrKey(fnr));
+      if (!graphic) {
+        return false;
+      }
+
+      stopFlash();
+      flashGraphicRef.current = graphic;
+      let toggles = 0;
+      flashTimerRef.current = setInterval(() => {
+        toggles += 1;
+        if (graphic.destroyed || toggles >= ROW_FLASH_TOGGLE_COUNT) {
+          stopFlash();
+          return;
+        }
+        graphic.visible = !graphic.visible;
+      }, ROW_FLASH_INTERVAL_MS);
+      return true;
+    }
+  );
+
+  // Draws the linked row's parcel on top of the regular selection highlight
+  const emphasizeHighlightForFnr = hooks.useEventCallback(
+    (params: {
+      fnr: FnrValue | null | undefined;
+      normalizeFnrKey: (fnr: FnrValue | null | undefined) => string;
+      highlightColor: [number, number, number, number];
+      outlineWidth: number;
+    }): boolean => {
+      const { fnr, normalizeFnrKey, highlightColor, outlineWidth } = params;
+      if (fnr === null || fnr === undefined) {
+        clearEmphasis();
+        return false;
+      }
+
+      const key = normalizeFnrKey(fnr);
+      if (emphasisKeyRef.current === key && emphasisGraphicRef.current) {
+        return true;
+      }
+      clearEmphasis();
+
+      const base = highlightGraphicsMapRef.current.get(key);
+      const layer = highlightLayerRef.current;
+      const geometry = base?.geometry;
+      if (!geometry || !layer || layer.destroyed || !modules) {
+        return false;
+      }
+
+      let symbol: __esri.Symbol | null = null;
+      if (geometry.type === "polygon") {
+        symbol = new modules.SimpleFillSymbol(
+          buildEmphasisSymbolJSON(highlightColor, outlineWidth, "polygon")
+        );
+      } else if (geometry.type === "polyline") {
+        symbol = new modules.SimpleLineSymbol(
+          buildEmphasisSymbolJSON(highlightColor, outlineWidth, "polyline")
+        );
+      } else if (geometry.type === "point") {
+        symbol = new modules.SimpleMarkerSymbol(
+          buildEmphasisSymbolJSON(highlightColor, outlineWidth, "point")
+        );
+      }
+      if (!symbol) {
+        return false;
+      }
+
+      try {
+        const emphasisGraphic = new modules.Graphic({
+          geometry,
+          symbol,
+          attributes: { fnr },
+        });
+        layer.add(emphasisGraphic);
+        emphasisGraphicRef.current = emphasisGraphic;
+        emphasisKeyRef.current = key;
+        return true;
+      } catch (error) {
+        return false;
+      }
+    }
+  );
+
+  // Resolves the selected parcel under the pointer from the highlight layer
+  const findHighlightFnrAt = hooks.useEventCallback(
+    async (
+      view: __esri.MapView,
+      screenPoint: { x: number; y: number }
+    ): Promise<FnrValue | null> => {
+      const layer = highlightLayerRef.current;
+      if (
+        !layer ||
+        layer.destroyed ||
+        highlightGraphicsMapRef.current.size === 0
+      ) {
+        return null;
+      }
+
+      const response = await view.hitTest(screenPoint, { include: [layer] });
+      for (const result of response.results) {
+        if (result.type !== "graphic") continue;
+        const fnr = (result.graphic.attributes as AttributeMap | null)?.fnr;
+        if (typeof fnr === "string" || typeof fnr === "number") {
+          return fnr;
+        }
+      }
+      return null;
+    }
+  );
+
   const destroyGraphicsLayer = hooks.useEventCallback(
     (view: __esri.MapView | null | undefined) => {
       if (view && activeViewRef.current === view) {
@@ -553,6 +793,14 @@ export const useGraphicsLayer = (params: {
     removeHighlightForFnr,
     highlightGraphics,
     destroyGraphicsLayer,
+    showBufferPreview,
+    clearBufferPreview,
+    getHighlightGeometry,
+    getHighlightExtent,
+    flashHighlightForFnr,
+    emphasizeHighlightForFnr,
+    clearEmphasis,
+    findHighlightFnrAt,
   } as const;
 };
 
@@ -750,6 +998,152 @@ export const useMapViewLifecycle = (params: {
   };
 };
 
+export const useSketchSelection = (params: {
+  widgetId: string;
+  modules: EsriModules | null;
+  onSketchComplete: (geometry: __esri.Geometry, tool: SketchTool) => void;
+}) => {
+  const { widgetId, modules, onSketchComplete } = params;
+
+  const sketchViewModelRef = React.useRef<__esri.SketchViewModel | null>(
+    null
+  );
+  const sketchLayerRef = React.useRef<__esri.GraphicsLayer | null>(null);
+  const createHandleRef = React.useRef<__esri.Handle | null>(null);
+  const activeToolRef = React.useRef<SketchTool | null>(null);
+
+  const armTool = (viewModel: __esri.SketchViewModel, tool: SketchTool) => {
+    const { tool: createTool, mode } = SKETCH_CREATE_OPTIONS[tool];
+    viewModel.create(createTool, mode ? { mode } : undefined);
+  };
+
+  const destroySketch = hooks.useEventCallback(() => {
+    activeToolRef.current = null;
+
+    if (createHandleRef.current) {
+      createHandleRef.current.remove();
+      createHandleRef.current = null;
+    }
+
+    const viewModel = sketchViewModelRef.current;
+    const layer = sketchLayerRef.current;
+    const view = viewModel?.view as __esri.MapView | null | undefined;
+
+    if (viewModel && !viewModel.destroyed) {
+      try {
+        viewModel.cancel();
+        viewModel.destroy();
+      } catch (error) {
+        // Silently ignore teardown errors
+      }
+    }
+
+    if (layer && !layer.destroyed) {
+      try {
+        view?.map?.remove(layer);
+        layer.destroy();
+      } catch (error) {
+        // Silently ignore teardown errors
+      }
+    }
+
+    sketchViewModelRef.current = null;
+    sketchLayerRef.current = null;
+  });
+
+  const handleCreateEvent = hooks.useEventCallback(
+    (event: __esri.SketchViewModelCreateEvent) => {
+      if (event.state !== "complete") {
+        return;
+      }
+
+      const tool = activeToolRef.current;
+      const geometry = event.graphic?.geometry;
+      sketchLayerRef.current?.removeAll();
+
+      if (!tool) {
+        return;
+      }
+
+      if (geometry) {
+        onSketchComplete(geometry, tool);
+      }
+
+      // Keep the tool armed so several shapes can be drawn in a row
+      const viewModel = sketchViewModelRef.current;
+      if (viewModel && !viewModel.destroyed && activeToolRef.current === tool) {
+        armTool(viewModel, tool);
+      }
+    }
+  );
+
+  const startSketch = hooks.useEventCallback(
+    async (
+      view: __esri.MapView | null | undefined,
+      tool: SketchTool
+    ): Promise<boolean> => {
+      if (!view || !modules) {
+        return false;
+      }
+
+      let viewModel = sketchViewModelRef.current;
+      if (!viewModel || viewModel.destroyed || viewModel.view !== view) {
+        destroySketch();
+
+        const [SketchViewModel] = (await loadArcGISJSAPIModules([
+          "esri/widgets/Sketch/SketchViewModel",
+        ])) as [
+          new (
+            properties: __esri.SketchViewModelProperties
+          ) => __esri.SketchViewModel,
+        ];
+
+        const layerId = `Property Sketch - ${widgetId}`;
+        const layer = new modules.GraphicsLayer({
+          id: layerId,
+          listMode: "hide",
+          title: layerId,
+        });
+        view.map.add(layer);
+
+        viewModel = new SketchViewModel({
+          view,
+          layer,
+          updateOnGraphicClick: false,
+        });
+        createHandleRef.current = viewModel.on("create", handleCreateEvent);
+        sketchLayerRef.current = layer;
+        sketchViewModelRef.current = viewModel;
+      }
+
+      activeToolRef.current = tool;
+      viewModel.cancel();
+      armTool(viewModel, tool);
+      return true;
+    }
+  );
+
+  const stopSketch = hooks.useEventCallback(() => {
+    activeToolRef.current = null;
+
+    const viewModel = sketchViewModelRef.current;
+    if (viewModel && !viewModel.destroyed) {
+      try {
+        viewModel.cancel();
+      } catch (error) {
+        // Silently ignore cancel errors
+      }
+    }
+    sketchLayerRef.current?.removeAll();
+  });
+
+  hooks.useUnmount(() => {
+    destroySketch();
+  });
+
+  return { startSketch, stopSketch, destroySketch };
+};
+
 export const useBooleanConfigValue = (config: unknown) => {
   const configRef = hooks.useLatest(config);
   return hooks.useEventCallback((key: string, defaultValue = false) => {
@@ -1167,8 +1561,9 @@ export const useHitTestHover = (params: {
   dataSourceId: string | undefined;
   dsManagerRef: React.MutableRefObject<DataSourceManager | null>;
   viewRef: React.MutableRefObject<__esri.MapView | null>;
-  enablePIIMasking: boolean;
+  enablePIIMasking: OwnerMasking;
   translate: (key: string, fallback?: string) => string;
+  fieldMapping?: FieldMapping;
 }) => {
   const [hoverTooltipData, setHoverTooltipData] = React.useState<{
     fastighet: string;
@@ -1231,7 +1626,7 @@ export const useHitTestHover = (params: {
           mapPoint,
           dataSourceId,
           dsManager,
-          { signal: controller.signal }
+          { signal: controller.signal, fieldMapping: params.fieldMapping }
         );
 
         // Check if query was aborted
@@ -72,6 +72,21 @@ export const trackPerformance = (metric: PerformanceMetric): void => {
         label: metric.error,
       });
     }
+
+    if (metric.cacheHits !== undefined || metric.cacheMisses !== undefined) {
+      trackEvent({
+        category: "Cache",
+        action: metric.operation,
+        label: "hits",
+        value: metric.cacheHits ?? 0,
+      });
+      trackEvent({
+        category: "Cache",
+        action: metric.operation,
+        label: "misses",
+        value: metric.cacheMisses ?? 0,
+      });
+    }
   } catch (error) {
     // Silent fail for telemetry
   }
@@ -111,14 +126,21 @@ export const trackError = (
 
 export const createPerformanceTracker = (operation: string) => {
   const startTime = performance.now();
+  let cacheUsage: { hits: number; misses: number } | null = null;
 
   return {
+    // Owner cache hits and misses seen while the operation ran
+    recordCacheUsage: (usage: { hits: number; misses: number }) => {
+      cacheUsage = usage;
+    },
     success: () => {
       const duration = performance.now() - startTime;
       trackPerformance({
         operation,
         duration,
         success: true,
+        cacheHits: cacheUsage?.hits,
+        cacheMisses: cacheUsage?.misses,
       });
     },
     failure: (error: string) => {
@@ -128,6 +150,8 @@ export const createPerformanceTracker = (operation: string) => {
         duration,
         success: false,
         error,
+        cacheHits: cacheUsage?.hits,
+        cacheMisses: cacheUsage?.misses,
       });
     },
   };
@@ -0,0 +1,71 @@
+import { PII_ACCESS_LIST_SEPARATOR } from "../../config/constants";
+import type { PIIAccessPolicy, PIIAccessUser } from "../../config/types";
+import { isRecord, sanitizeTextContent } from "./helpers";
+
+const readText = (value: unknown): string =>
+  typeof value === "string" ? sanitizeTextContent(value) : "";
+
+// Settings text ("Lantmäteri, org_admin") to a trimmed list without duplicates
+export const parseAccessList = (
+  value: string | readonly string[] | null | undefined
+): string[] => {
+  if (!value) return [];
+  const entries = typeof value === "string" ? [value] : value;
+  const parsed = entries
+    .flatMap((entry) => String(entry).split(PII_ACCESS_LIST_SEPARATOR))
+    .map(readText)
+    .filter(Boolean);
+  return Array.from(new Set(parsed));
+};
+
+export const resolvePIIAccessPolicy = (config: {
+  piiAccessGroups?: readonly string[];
+  piiAccessRoles?: readonly string[];
+}): PIIAccessPolicy => ({
+  groups: parseAccessList(config.piiAccessGroups),
+  roles: parseAccessList(config.piiAccessRoles),
+});
+
+/**
+ * Reads the signed-in portal user passed to the widget.
+ * @returns null for anonymous users or an unexpected shape.
+ */
+export const toPIIAccessUser = (user: unknown): PIIAccessUser | null => {
+  if (!isRecord(user)) return null;
+  const username = readText(user.username);
+  if (!username) return null;
+
+  const groups = Array.isArray(user.groups) ? user.groups : [];
+  return {
+    username,
+    role: readText(user.role),
+    roleId: readText(user.roleId),
+    groups: groups.filter(isRecord).map((group) => ({
+      id: readText(group.id),
+      title: readText(group.title),
+    })),
+  };
+};
+
+/**
+ * A user may unmask owner data when their role (built-in name such as
+ * `org_admin` or custom role id) or the id of one of their groups is listed
+ * in the policy. Group titles never grant access: they are not unique and
+ * any user can create a group with a listed title. Comparison ignores case.
+ */
+export const canRevealPII = (
+  user: PIIAccessUser | null,
+  policy: PIIAccessPolicy
+): boolean => {
+  if (!user) return false;
+  const roles = new Set(policy.roles.map((role) => role.toLowerCase()));
+  const groups = new Set(policy.groups.map((group) => group.toLowerCase()));
+
+  const hasRole = [user.role, user.roleId].some(
+    (role) => role && roles.has(role.toLowerCase())
+  );
+  if (hasRole) return true;
+  return user.groups.some(
+    (group) => group.id && groups.has(group.id.toLowerCase())
+  );
+};
@@ -0,0 +1,165 @@
+import {
+  AUDIT_LOG_MAX_EVENTS,
+  AUDIT_LOG_MIME_TYPE,
+  AUDIT_MEMORY_SINK_ID,
+} from "../../config/constants";
+import type {
+  AuditAction,
+  AuditEvent,
+  AuditLogDocument,
+  AuditSink,
+  FnrValue,
+  GridRowData,
+} from "../../config/types";
+import { trackError } from "../telemetry";
+import { downloadFile } from "./export";
+import { collectReportFnrs } from "./report";
+import { isValidAuditEndpoint } from "./validation";
+
+const createSessionId = (): string => {
+  const uuid = globalThis.crypto?.randomUUID?.();
+  if (uuid) return uuid;
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+};
+
+// One session per page load, shared by every widget instance
+const auditSession = {
+  id: createSessionId(),
+  startedAt: new Date().toISOString(),
+};
+
+// Session-wide trail viewable in the widget; oldest events drop first
+const auditLog: AuditEvent[] = [];
+
+const memoryAuditSink: AuditSink = {
+  id: AUDIT_MEMORY_SINK_ID,
+  write: (event) => {
+    auditLog.push(event);
+    if (auditLog.length > AUDIT_LOG_MAX_EVENTS) {
+      auditLog.splice(0, auditLog.length - AUDIT_LOG_MAX_EVENTS);
+    }
+  },
+};
+
+const auditSinks = new Map<string, AuditSink>([
+  [memoryAuditSink.id, memoryAuditSink],
+]);
+
+export const createAuditEvent = (params: {
+  action: AuditAction;
+  username: string;
+  widgetId: string;
+  fnrs: readonly FnrValue[];
+  detail?: string;
+  now?: Date;
+}): AuditEvent => ({
+  action: params.action,
+  timestamp: (params.now ?? new Date()).toISOString(),
+  username: params.username,
+  widgetId: params.widgetId,
+  fnrs: [...params.fnrs],
+  ...(params.detail ? { detail: params.detail } : {}),
+});
+
+export const recordAuditEvent = (event: AuditEvent): void => {
+  auditSinks.forEach((sink) => {
+    try {
+      sink.write(event);
+    } catch (error) {
+      trackError("audit_sink_write", error, sink.id);
+    }
+  });
+};
+
+/**
+ * Records a view of the properties shown unmasked that are not in `audited`
+ * yet, whether masking is off or revealed. A masked view clears `audited`,
+ * so the next unmasked view is recorded again.
+ */
+export const recordUnmaskedView = (params: {
+  rows: ReadonlyArray<Pick<GridRowData, "FNR">>;
+  masked: boolean;
+  audited: Set<string>;
+  username: string;
+  widgetId: string;
+}): void => {
+  const { rows, masked, audited, username, widgetId } = params;
+  if (masked) {
+    audited.clear();
+    return;
+  }
+  const fnrs = collectReportFnrs(rows).filter((fnr) => !audited.has(fnr));
+  if (fnrs.length === 0) return;
+  fnrs.forEach((fnr) => audited.add(fnr));
+  recordAuditEvent(
+    createAuditEvent({ action: "pii_reveal", username, widgetId, fnrs })
+  );
+};
+
+/**
+ * Adds a sink next to the in-memory log; a sink with the same id is replaced.
+ * @returns A function that removes the sink again.
+ */
+export const registerAuditSink = (sink: AuditSink): (() => void) => {
+  auditSinks.set(sink.id, sink);
+  return () => {
+    if (auditSinks.get(sink.id) === sink) {
+      auditSinks.delete(sink.id);
+    }
+  };
+};
+
+/**
+ * Sink that POSTs each event of one widget as JSON. Requests are fire and
+ * forget, and keep going while the page unloads.
+ * @returns null when the endpoint is not an allowed HTTPS URL.
+ */
+export const createHttpAuditSink = (params: {
+  endpoint: string | null | undefined;
+  allowedHosts?: readonly string[];
+  widgetId: string;
+  fetchFn?: typeof fetch;
+}): AuditSink | null => {
+  const endpoint = params.endpoint?.trim() ?? "";
+  if (!isValidAuditEndpoint(endpoint, params.allowedHosts)) return null;
+  const fetchFn = params.fetchFn ?? globalThis.fetch;
+  if (typeof fetchFn !== "function") return null;
+
+  return {
+    id: `http:${params.widgetId}`,
+    write: (event) => {
+      if (event.widgetId !== params.widgetId) return;
+      fetchFn(endpoint, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ sessionId: auditSession.id, ...event }),
+        credentials: "omit",
+        keepalive: true,
+      }).catch((error: unknown) => {
+        trackError("audit_http_sink", error);
+      });
+    },
+  };
+};
+
+export const getAuditEvents = (): readonly AuditEvent[] => [...auditLog];
+
+export const clearAuditEvents = (): void => {
+  auditLog.length = 0;
+};
+
+export const buildAuditLogDocument = (
+  events: readonly AuditEvent[] = auditLog,
+  now: Date = new Date()
+): AuditLogDocument => ({
+  sessionId: auditSession.id,
+  startedAt: auditSession.startedAt,
+  exportedAt: now.toISOString(),
+  events: [...events],
+});
+
+export const downloadAuditLog = (now: Date = new Date()): void => {
+  const content = JSON.stringify(buildAuditLogDocument(auditLog, now), null, 2);
+  const date = now.toISOString().split("T")[0];
+  downloadFile(content, AUDIT_LOG_MIME_TYPE, `property-audit-${date}.json`);
+};
@@ -0,0 +1,80 @@
+import {
+  QUERY_CACHE_EVICTION_PERCENTAGE,
+  QUERY_CACHE_MAX_SIZE,
+  QUERY_CACHE_TTL_MS,
+} from "../../config/constants";
+import type {
+  FnrValue,
+  QueryCache,
+  QueryCacheOptions,
+  QueryCacheStats,
+} from "../../config/types";
+import { normalizeFnrKey } from "./helpers";
+
+/**
+ * Small LRU cache with a time-to-live. Map keeps insertion order, so a hit is
+ * moved to the end and a full cache drops a share of its oldest entries.
+ */
+export const createQueryCache = <T>(
+  options: QueryCacheOptions = {}
+): QueryCache<T> => {
+  const maxSize = Math.max(1, options.maxSize ?? QUERY_CACHE_MAX_SIZE);
+  const ttlMs = options.ttlMs ?? QUERY_CACHE_TTL_MS;
+  const evictionPercentage =
+    options.evictionPercentage ?? QUERY_CACHE_EVICTION_PERCENTAGE;
+  const now = options.now ?? Date.now;
+
+  const entries = new Map<string, { value: T; expiresAt: number }>();
+  let hits = 0;
+  let misses = 0;
+
+  const evict = () => {
+    const count = Math.max(1, Math.ceil(maxSize * evictionPercentage));
+    const keys = entries.keys();
+    for (let index = 0; index < count; index++) {
+      const next = keys.next();
+      if (next.done) break;
+      entries.delete(next.value);
+    }
+  };
+
+  return {
+    get: (key) => {
+      const entry = entries.get(key);
+      if (!entry || entry.expiresAt <= now()) {
+        if (entry) entries.delete(key);
+        misses++;
+        return undefined;
+      }
+      entries.delete(key);
+      entries.set(key, entry);
+      hits++;
+      return entry.value;
+    },
+    set: (key, value) => {
+      entries.delete(key);
+      if (entries.size >= maxSize) evict();
+      entries.set(key, { value, expiresAt: now() + ttlMs });
+    },
+    clear: () => {
+      entries.clear();
+      hits = 0;
+      misses = 0;
+    },
+    getStats: (): QueryCacheStats => ({ hits, misses, size: entries.size }),
+  };
+};
+
+export const buildOwnerCacheKey = (
+  dataSourceId: string,
+  fnr: FnrValue
+): string => `${dataSourceId}:${normalizeFnrKey(fnr)}`;
+
+// Hits and misses between two snapshots of the same cache
+export const diffCacheStats = (
+  before: QueryCacheStats,
+  after: QueryCacheStats
+): { hits: number; misses: number } => ({
+  hits: Math.max(0, after.hits - before.hits),
+  misses: Math.max(0, after.misses - before.misses),
+});
@@ -0,0 +1,227 @@
+import {
+  BUILT_IN_COLUMNS,
+  DEFAULT_DISPLAY_COLUMNS,
+  DEFAULT_FIELD_MAPPING,
+  DEFAULT_MASK,
+  DISPLAY_COLUMN_SOURCE_SEPARATOR,
+  FRACTION_MAX_DENOMINATOR,
+  OWNER_PUBLIC_COLUMNS,
+  PII_COLUMN_MASKS,
+} from "../../config/constants";
+import type {
+  ColumnFormatter,
+  ColumnSettings,
+  DisplayColumn,
+  FieldMapping,
+  FieldMappingKey,
+  FieldMappingSource,
+  GridRowData,
+  MaskingPolicy,
+  OwnerMasking,
+} from "../../config/types";
+import { isValidFieldName } from "./fields";
+import { sanitizeTextContent } from "./helpers";
+import { maskOwnerValue, resolveOwnerMasking } from "./privacy";
+
+const isColumnSource = (value: string): value is FieldMappingSource =>
+  value === "property" || value === "owner";
+
+export const buildDisplayColumnId = (
+  source: FieldMappingSource,
+  field: string
+): string => `${source}${DISPLAY_COLUMN_SOURCE_SEPARATOR}${field}`;
+
+export const parseDisplayColumn = (id: unknown): DisplayColumn | null => {
+  const trimmed = typeof id === "string" ? id.trim() : "";
+  if (!trimmed) return null;
+
+  const separatorIndex = trimmed.indexOf(DISPLAY_COLUMN_SOURCE_SEPARATOR);
+  if (separatorIndex === -1) {
+    return BUILT_IN_COLUMNS[trimmed]
+      ? { id: trimmed, field: trimmed, source: null }
+      : null;
+  }
+
+  const source = trimmed.slice(0, separatorIndex);
+  const field = trimmed.slice(separatorIndex + 1);
+  if (!isColumnSource(source) || !isValidFieldName(field)) return null;
+
+  return { id: trimmed, field, source };
+};
+
+export const getTableColumnId = (column: DisplayColumn): string =>
+  column.source ? column.id : BUILT_IN_COLUMNS[column.field].columnId;
+
+/**
+ * Parses configured column ids, dropping unknown or duplicate entries.
+ * An empty result falls back to the default columns.
+ */
+export const resolveDisplayColumns = (
+  columnIds?: readonly string[] | null
+): DisplayColumn[] => {
+  const seen = new Set<string>();
+  const columns: DisplayColumn[] = [];
+
+  for (const id of columnIds ?? []) {
+    const column = parseDisplayColumn(id);
+    if (!column) continue;
+    // BOSTADR and ADDRESS render the same table column
+    const tableId = getTableColumnId(column);
+    if (seen.has(tableId)) continue;
+    seen.add(tableId);
+    columns.push(column);
+  }
+
+  if (columns.length > 0) return columns;
+  return DEFAULT_DISPLAY_COLUMNS.map(
+    (id) => parseDisplayColumn(id) as DisplayColumn
+  );
+};
+
+export const getDisplayColumnValue = (
+  row: GridRowData,
+  column: DisplayColumn
+): unknown => {
+  if (!column.source) {
+    return row[BUILT_IN_COLUMNS[column.field].rowKey];
+  }
+  const attributes =
+    column.source === "owner" ? row.rawOwner : row.rawProperty;
+  return attributes ? attributes[column.field] : undefined;
+};
+
+const greatestCommonDivisor = (a: number, b: number): number =>
+  b === 0 ? a : greatestCommonDivisor(b, a % b);
+
+const formatFraction = (value: unknown, text: string): string => {
+  const compact = text.replace(/\s+/g, "");
+  const match = /^(\d+)\/(\d+)$/.exec(compact);
+  if (match) {
+    const numerator = Number(match[1]);
+    const denominator = Number(match[2]);
+    if (denominator === 0) return text;
+    const divisor = greatestCommonDivisor(numerator, denominator) || 1;
+    return `${numerator / divisor}/${denominator / divisor}`;
+  }
+
+  const numeric =
+    typeof value === "number" ? value : Number(compact.replace(",", "."));
+  if (!compact || !Number.isFinite(numeric) || numeric <= 0 || numeric > 1) {
+    return text;
+  }
+
+  // The first denominator that fits is already the reduced form
+  for (
+    let denominator = 1;
+    denominator <= FRACTION_MAX_DENOMINATOR;
+    denominator++
+  ) {
+    const numerator = Math.round(numeric * denominator);
+    if (Math.abs(numeric * denominator - numerator) < 1e-6) {
+      return `${numerator}/${denominator}`;
+    }
+  }
+  return text;
+};
+
+/**
+ * Reads an ownership share ("1/2", "0,5" or 0.5) as a decimal.
+ * @returns The share, or null when the value is not a share in (0, 1].
+ */
+export const parseShareValue = (value: unknown): number | null => {
+  if (typeof value === "number") {
+    return Number.isFinite(value) && value > 0 && value <= 1 ? value : null;
+  }
+  if (typeof value !== "string") return null;
+
+  const compact = value.replace(/\s+/g, "");
+  const match = /^(\d+)\/(\d+)$/.exec(compact);
+  const numeric = match
+    ? Number(match[1]) / Number(match[2])
+    : Number(compact.replace(",", "."));
+  if (!compact || !Number.isFinite(numeric) || numeric <= 0 || numeric > 1) {
+    return null;
+  }
+  return numeric;
+};
+
+const formatOrgNumber = (text: string): string => {
+  const digits = text.replace(/\D/g, "");
+  if (digits.length === 10) return `${digits.slice(0, 6)}-${digits.slice(6)}`;
+  if (digits.length === 12) return `${digits.slice(0, 8)}-${digits.slice(8)}`;
+  return text;
+};
+
+export const formatColumnValue = (
+  value: unknown,
+  formatter: ColumnFormatter = "text"
+): string => {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "object") return "";
+
+  const text = sanitizeTextContent(String(value));
+  if (!text) return "";
+
+  switch (formatter) {
+    case "fraction":
+      return formatFraction(value, text);
+    case "orgNumber":
+      return formatOrgNumber(text);
+    default:
+      return text;
+  }
+};
+
+const toCanonicalFieldName = (
+  field: string,
+  fieldMapping?: FieldMapping | null
+): string => {
+  if (!fieldMapping) return field;
+  const key = (Object.keys(fieldMapping) as FieldMappingKey[]).find(
+    (candidate) => fieldMapping[candidate] === field
+  );
+  return key ? DEFAULT_FIELD_MAPPING[key] : field;
+};
+
+const maskOwnerColumn = (
+  text: string,
+  field: string,
+  policy: MaskingPolicy,
+  fieldMapping?: FieldMapping | null
+): string => {
+  const canonical = toCanonicalFieldName(field, fieldMapping);
+  const maskField = PII_COLUMN_MASKS[canonical];
+  if (maskField) return maskOwnerValue(maskField, text, policy);
+  return OWNER_PUBLIC_COLUMNS.includes(canonical) ? text : DEFAULT_MASK;
+};
+
+/**
+ * Cell text for a display column. Built-in columns are already masked when
+ * rows are built; raw owner fields are masked here, and owner fields without
+ * a masking rule are redacted unless they are known to be public.
+ */
+export const getDisplayColumnText = (
+  row: GridRowData,
+  column: DisplayColumn,
+  options?: {
+    settings?: ColumnSettings | null;
+    maskPII?: OwnerMasking;
+    fieldMapping?: FieldMapping | null;
+  }
+): string => {
+  const value = getDisplayColumnValue(row, column);
+  const formatter = options?.settings?.formatter ?? "text";
+  // Built-in row values are sanitized already and keep their spacing
+  if (!column.source && formatter === "text") {
+    return value === null || value === undefined ? "" : String(value);
+  }
+
+  const text = formatColumnValue(value, formatter);
+  if (!text || !options?.maskPII || column.source !== "owner") {
+    return text;
+  }
+  const policy = resolveOwnerMasking(options.maskPII, row.rawOwner);
+  return policy
+    ? maskOwnerColumn(text, column.field, policy, options.fieldMapping)
+    : text;
+};
@@ -9,7 +9,9 @@ import type {
   CursorGraphicsState,
   CursorTooltipStyle,
   EsriModules,
+  FieldMapping,
   HoverQueryConfig,
+  OwnerMasking,
 } from "../../config/types";
 import { queryOwnerByFnr, queryPropertyByPoint } from "../api";
 import { abortHelpers, stripHtml } from "./helpers";
@@ -277,10 +279,12 @@ const queryPropertyData = async (
   mapPoint: __esri.Point,
   dataSourceId: string,
   manager: DataSourceManager,
-  signal: AbortSignal
+  signal: AbortSignal,
+  fieldMapping?: FieldMapping
 ): Promise<{ fnr: string; fastighet: string } | null> => {
   const results = await queryPropertyByPoint(mapPoint, dataSourceId, manager, {
     signal,
+    fieldMapping,
   });
   abortHelpers.throwIfAborted(signal);
 
@@ -300,11 +304,13 @@ const queryOwnerData = async (
   dataSourceId: string,
   manager: DataSourceManager,
   signal: AbortSignal,
-  enablePIIMasking: boolean,
-  unknownOwnerLabel: string
+  enablePIIMasking: OwnerMasking,
+  unknownOwnerLabel: string,
+  fieldMapping?: FieldMapping
 ): Promise<string> => {
   const ownerFeatures = await queryOwnerByFnr(fnr, dataSourceId, manager, {
     signal,
+    fieldMapping,
   });
   abortHelpers.throwIfAborted(signal);
 
@@ -322,7 +328,7 @@ export const executeHoverQuery = async (params: {
   config: HoverQueryConfig;
   dsManager: DataSourceManager | null;
   signal: AbortSignal;
-  enablePIIMasking: boolean;
+  enablePIIMasking: OwnerMasking;
   translate: (key: string) => string;
 }): Promise<{ fastighet: string; bostadr: string } | null> => {
   const { mapPoint, config, dsManager, signal, enablePIIMasking, translate } =
@@ -337,7 +343,8 @@ export const executeHoverQuery = async (params: {
     mapPoint,
     config.propertyDataSourceId,
     manager,
-    signal
+    signal,
+    config.fieldMapping
   );
   if (!propertyData) {
     return null;
@@ -353,7 +360,8 @@ export const executeHoverQuery = async (params: {
       manager,
       signal,
       enablePIIMasking,
-      unknownOwnerLabel
+      unknownOwnerLabel,
+      config.fieldMapping
     );
   } catch (ownerError) {
     bostadr = unknownOwnerLabel;
@@ -0,0 +1,154 @@
+import { SHARE_TOTAL_TOLERANCE } from "../../config/constants";
+import type {
+  GridRowData,
+  OwnerAttributes,
+  OwnerDetail,
+  OwnerMasking,
+  OwnerShareSummary,
+  PropertyDetails,
+  PropertyRowGroup,
+} from "../../config/types";
+import { formatColumnValue, parseShareValue } from "./columns";
+import { normalizeFnrKey, sanitizeTextContent } from "./helpers";
+import {
+  deduplicateOwnerEntries,
+  formatPostalCity,
+  maskOwnerAttributes,
+  parseOwnerListEntries,
+} from "./privacy";
+
+const toOwnerDetail = (
+  owner: OwnerAttributes,
+  index: number,
+  masking: OwnerMasking
+): OwnerDetail => {
+  const masked = maskOwnerAttributes(owner, masking);
+  const postalCode = sanitizeTextContent(masked.POSTNR || "").replace(
+    /\s+/g,
+    ""
+  );
+
+  return {
+    id: `${owner.OBJECTID ?? "owner"}-${index}`,
+    name: sanitizeTextContent(masked.NAMN || ""),
+    share: formatColumnValue(owner.ANDEL, "fraction"),
+    orgNumber: formatColumnValue(masked.ORGNR, "orgNumber"),
+    address: sanitizeTextContent(masked.BOSTADR || ""),
+    postalCity: formatPostalCity(
+      postalCode,
+      sanitizeTextContent(masked.POSTADR || "")
+    ),
+    ownerList: parseOwnerListEntries(owner.AGARLISTA, masking, owner),
+  };
+};
+
+// Duplicate owner records would otherwise repeat an owner and their share
+const collectDistinctOwners = (
+  propertyRows: readonly GridRowData[]
+): OwnerAttributes[] => {
+  const first = propertyRows[0];
+  if (!first) return [];
+  const rawOwners = propertyRows
+    .map((row) => row.rawOwner)
+    .filter((owner): owner is OwnerAttributes => Boolean(owner));
+  return deduplicateOwnerEntries(rawOwners, {
+    fnr: first.FNR,
+    propertyId: first.UUID_FASTIGHET,
+  });
+};
+
+/**
+ * Collects every owner of one property from the selection rows (one row per
+ * owner share). Rows without owner data keep their already formatted text.
+ */
+export const buildPropertyDetails = (
+  rows: readonly GridRowData[],
+  fnrKey: string,
+  maskPII: OwnerMasking
+): PropertyDetails | null => {
+  const propertyRows = rows.filter(
+    (row) => normalizeFnrKey(row.FNR) === fnrKey
+  );
+  if (propertyRows.length === 0) return null;
+
+  const first = propertyRows[0];
+  const owners = collectDistinctOwners(propertyRows).map((owner, index) =>
+    toOwnerDetail(owner, index, maskPII)
+  );
+
+  const fallbackOwners: OwnerDetail[] = propertyRows
+    .filter((row) => !row.rawOwner && row.ADDRESS)
+    .map((row) => ({
+      id: row.id,
+      name: row.ADDRESS,
+      share: "",
+      orgNumber: "",
+      address: "",
+      postalCity: "",
+      ownerList: [],
+    }));
+
+  return {
+    fnr: first.FNR,
+    uuid: first.UUID_FASTIGHET,
+    designation: first.FASTIGHET,
+    owners: [...owners, ...fallbackOwners],
+  };
+};
+
+/**
+ * Groups rows by FNR, keeping the order in which each property first appears
+ * so the grouped view follows the table's sorting.
+ */
+export const groupRowsByProperty = <T>(
+  items: readonly T[],
+  getRow: (item: T) => GridRowData
+): Array<PropertyRowGroup<T>> => {
+  const groups = new Map<string, PropertyRowGroup<T>>();
+  items.forEach((item) => {
+    const key = normalizeFnrKey(getRow(item).FNR);
+    const group = groups.get(key);
+    if (group) {
+      group.items.push(item);
+    } else {
+      groups.set(key, { key, items: [item] });
+    }
+  });
+  return Array.from(groups.values());
+};
+
+/**
+ * Sums the ANDEL shares of one property's distinct owners. Any readable share
+ * makes the total checkable; a total other than 1 is flagged as a mismatch.
+ */
+export const summarizeOwnerShares = (
+  rows: readonly GridRowData[],
+  fnrKey: string
+): OwnerShareSummary => {
+  const propertyRows = rows.filter(
+    (row) => normalizeFnrKey(row.FNR) === fnrKey
+  );
+
+  const owners = collectDistinctOwners(propertyRows);
+  const rowsWithoutOwner = propertyRows.filter((row) => !row.rawOwner).length;
+
+  const shares = owners
+    .map((owner) => parseShareValue(owner.ANDEL))
+    .filter((share): share is number => share !== null);
+  const total =
+    shares.length > 0 ? shares.reduce((sum, share) => sum + share, 0) : null;
+
+  const isMismatch =
+    total !== null && Math.abs(total - 1) > SHARE_TOTAL_TOLERANCE;
+  return {
+    ownerCount: owners.length + rowsWithoutOwner,
+    total: total !== null && !isMismatch ? 1 : total,
+    isMismatch,
+  };
+};
+
+export const formatShareTotal = (total: number | null): string => {
+  if (total === null) return "";
+  const rounded = Number(total.toFixed(6));
+  return formatColumnValue(rounded, rounded <= 1 ? "fraction" : "text");
+};
@@ -64,5 +64,11 @@ export const createPropertyDispatcher = (
         propertyActions.removeWidgetState(widgetId)
       );
     },
+    undo: () => {
+      safeDispatch(dispatch, widgetId, propertyActions.undo(widgetId));
+    },
+    redo: () => {
+      safeDispatch(dispatch, widgetId, propertyActions.redo(widgetId));
+    },
   };
 };
@@ -1,21 +1,83 @@
 import copy from "copy-to-clipboard";
-import { CSV_HEADERS, SORT_COMPARE_OPTIONS } from "../../config/constants";
+import {
+  CSV_BOM,
+  CSV_DELIMITER_IDS,
+  CSV_DELIMITERS,
+  CSV_HEADERS,
+  CSV_ROW_SHAPES,
+  CSV_VALUE_SEPARATOR,
+  DEFAULT_CSV_EXPORT_OPTIONS,
+  DEFAULT_GEOJSON_CRS_MODE,
+  DEFAULT_GEOJSON_PRECISION,
+  GEOJSON_CRS_MODES,
+  GEOJSON_MAX_PRECISION,
+  GEOJSON_MIN_PRECISION,
+  JSON_EXPORT_VERSION,
+  MAILING_CSV_HEADERS,
+  SORT_COMPARE_OPTIONS,
+  XLSX_OWNER_COLUMNS,
+  XLSX_SHEET_NAMES,
+  XLSX_SUMMARY_LABELS,
+} from "../../config/constants";
 import type {
+  CoordinateProjector,
+  CsvDelimiter,
+  CsvExportOptions,
   CsvHeaderValues,
+  CsvRowShape,
+  DisplayColumn,
   ExportContent,
   ExportFormat,
   ExportFormatDefinition,
   ExportOptions,
+  FieldMapping,
+  FieldMappingSource,
+  GeoJsonCrsMode,
+  GeoJsonExportOptions,
   GeoJsonGeometry,
   GeometryInput,
   GridRowData,
+  JsonExportContext,
+  JsonExportDocument,
+  JsonExportOwner,
+  JsonExportProperty,
+  MailingCsvHeaderValues,
+  MailingExportOptions,
+  MailingRecipient,
+  OwnerAttributes,
+  OwnerMasking,
+  PropertyReportOptions,
   SerializationErrorHandler,
   SerializedQueryResult,
   SerializedRecord,
+  Wgs84GeometryProjector,
+  XlsxCellValue,
 } from "../../config/types";
 import { trackError, trackEvent } from "../telemetry";
-import { sanitizeClipboardCell, stripHtml } from "./helpers";
-import { formatOwnerInfo } from "./privacy";
+import {
+  buildDisplayColumnId,
+  getDisplayColumnText,
+  getDisplayColumnValue,
+  parseDisplayColumn,
+  parseShareValue,
+} from "./columns";
+import { groupRowsByProperty } from "./details";
+import { isRecord, sanitizeClipboardCell, stripHtml } from "./helpers";
+import { buildMailingLabelsPdf, buildMailingRecipients } from "./mailing";
+import { buildPropertyReportPdf } from "./printing";
+import {
+  formatOwnerInfo,
+  maskOwnerAttributes,
+  parseOwnerListEntries,
+} from "./privacy";
+import {
+  isWgs84Wkid,
+  resolveSpatialReferenceWkid,
+  roundCoordinate,
+} from "./projection";
+import { buildXlsxWorkbook } from "./xlsx";
+
+type CsvHeader = (typeof CSV_HEADERS)[number];
 
 const isString = (value: unknown): value is string => typeof value === "string";
 
@@ -33,10 +95,11 @@ const hasContent = (value: string | null): value is string =>
 
 const resolveOwnerLabelForExport = (
   row: GridRowData,
-  unknownOwnerText: string
+  unknownOwnerText: string,
+  masking: OwnerMasking
 ): string => {
   if (row.rawOwner) {
-    return formatOwnerInfo(row.rawOwner, false, unknownOwnerText);
+    return formatOwnerInfo(row.rawOwner, masking, unknownOwnerText);
   }
 
   const bostadrValue = getGridString(row, "BOSTADR");
@@ -52,9 +115,12 @@ const resolveOwnerLabelForExport = (
   return unknownOwnerText;
 };
 
-const resolveOwnerAddressForExport = (row: GridRowData): string => {
+const resolveOwnerAddressForExport = (
+  row: GridRowData,
+  masking: OwnerMasking
+): string => {
   if (row.rawOwner && typeof row.rawOwner.BOSTADR === "string") {
-    return row.rawOwner.BOSTADR;
+    return maskOwnerAttributes(row.rawOwner, masking).BOSTADR;
   }
 
   const bostadrValue = getGridString(row, "BOSTADR");
@@ -120,12 +186,16 @@ export const sanitizeForExport = (
 
 export const buildExportRow = (
   row: GridRowData,
-  _maskingEnabled: boolean,
+  maskingEnabled: OwnerMasking,
   unknownOwnerText: string
 ): { propertyLabel: string; ownerLabel: string } => {
   const propertySource = row.FASTIGHET || row.FNR || "";
 
-  const ownerSource = resolveOwnerLabelForExport(row, unknownOwnerText);
+  const ownerSource = resolveOwnerLabelForExport(
+    row,
+    unknownOwnerText,
+    maskingEnabled
+  );
 
   return {
     propertyLabel: sanitizeForExport(propertySource, handleSerializationError),
@@ -163,7 +233,11 @@ export const applySortingToProperties = (
       return cachedValue;
     }
 
-    const rawValue = row[columnId as keyof GridRowData];
+    // Raw layer columns ("owner:ANDEL") are not keys on the row itself
+    const displayColumn = parseDisplayColumn(columnId);
+    const rawValue = displayColumn?.source
+      ? getDisplayColumnValue(row, displayColumn)
+      : row[columnId as keyof GridRowData];
     const normalized = (() => {
       if (rawValue === null || rawValue === undefined) return "";
       if (typeof rawValue === "string") return rawValue;
@@ -205,7 +279,7 @@ export const applySortingToProperties = (
 
 export const formatPropertiesForClipboard = (
   properties: GridRowData[] | null | undefined,
-  _maskingEnabled: boolean,
+  maskingEnabled: OwnerMasking,
   unknownOwnerText: string
 ): string => {
   if (!properties || properties.length === 0) {
@@ -223,7 +297,8 @@ export const formatPropertiesForClipboard = (
       if (property.rawOwner) {
         const formattedOwner = resolveOwnerLabelForExport(
           property,
-          unknownOwnerText
+          unknownOwnerText,
+          maskingEnabled
         );
         const sanitizedOwner = sanitizeClipboardCell(formattedOwner);
         return sanitizedOwner || sanitizedUnknown;
@@ -252,66 +327,389 @@ export const copyToClipboard = (text: string): boolean => {
   }
 };
 
-export const convertToJSON = (
-  rows: GridRowData[],
-  maskingEnabled: boolean,
+const toJsonExportOwner = (
+  row: GridRowData,
+  owner: OwnerAttributes,
+  masking: OwnerMasking,
   unknownOwnerText: string
-): Array<{ FASTIGHET: string; ADDRESS: string }> => {
-  if (!rows || rows.length === 0) return [];
+): JsonExportOwner => {
+  const masked = maskOwnerAttributes(owner, masking);
+  const text = (value: unknown) =>
+    sanitizeForExport(value, handleSerializationError);
 
-  return rows.map((row) => {
-    const exportRow = buildExportRow(row, maskingEnabled, unknownOwnerText);
+  return {
+    NAMN: text(masked.NAMN),
+    BOSTADR: text(masked.BOSTADR),
+    POSTNR: text(masked.POSTNR),
+    POSTADR: text(masked.POSTADR),
+    ORGNR: text(masked.ORGNR),
+    ANDEL: text(owner.ANDEL),
+    AGARLISTA: parseOwnerListEntries(owner.AGARLISTA, masking, owner),
+    ADDRESS: text(resolveOwnerLabelForExport(row, unknownOwnerText, masking)),
+  };
+};
 
-    return {
-      FASTIGHET: exportRow.propertyLabel,
-      ADDRESS: exportRow.ownerLabel,
-    };
-  });
+const resolveSpatialReference = (
+  rows: readonly GridRowData[]
+): SerializedRecord | null => {
+  for (const row of rows) {
+    const spatialReference = row.geometry?.spatialReference;
+    if (isRecord(spatialReference)) return { ...spatialReference };
+  }
+  return null;
+};
+
+/**
+ * Builds the versioned JSON export: a metadata header, then one entry per
+ * property (in the order of the rows) with its owners and geometry. Owner
+ * fields follow the masking like the table does.
+ */
+export const buildJSONExportDocument = (
+  rows: readonly GridRowData[],
+  maskingEnabled: OwnerMasking,
+  unknownOwnerText: string,
+  context?: JsonExportContext,
+  now: Date = new Date()
+): JsonExportDocument => {
+  const safeRows = rows ?? [];
+  const properties = groupRowsByProperty(safeRows, (row) => row).map(
+    ({ items }): JsonExportProperty => {
+      const [first] = items;
+      const designation =
+        first.rawOwner?.FASTIGHET ??
+        first.rawProperty?.FASTIGHET ??
+        first.FASTIGHET;
+
+      return {
+        FNR: first.FNR,
+        UUID_FASTIGHET: sanitizeForExport(
+          first.UUID_FASTIGHET,
+          handleSerializationError
+        ),
+        FASTIGHET: sanitizeForExport(designation, handleSerializationError),
+        owners: items.flatMap((row) =>
+          row.rawOwner
+            ? [
+                toJsonExportOwner(
+                  row,
+                  row.rawOwner,
+                  maskingEnabled,
+                  unknownOwnerText
+                ),
+              ]
+            : []
+        ),
+        ...(first.geometry
+          ? {
+              geometryType: first.geometryType ?? undefined,
+              geometry: first.geometry,
+            }
+          : {}),
+      };
+    }
+  );
+
+  return {
+    version: JSON_EXPORT_VERSION,
+    metadata: {
+      exportedAt: now.toISOString(),
+      appId: context?.appId ?? null,
+      widgetId: context?.widgetId ?? null,
+      sources: {
+        property: context?.sources.property ?? null,
+        owner: context?.sources.owner ?? null,
+      },
+      masked: Boolean(maskingEnabled),
+      spatialReference: resolveSpatialReference(safeRows),
+      propertyCount: properties.length,
+      rowCount: safeRows.length,
+    },
+    properties,
+  };
 };
 
-const escapeCsvValue = (value: unknown): string => {
-  const sanitized = sanitizeForExport(value, handleSerializationError);
-  if (sanitized === "") return '""';
+const quoteCsvValue = (text: string, delimiter: string): string => {
+  if (text === "") return '""';
 
   if (
-    sanitized.includes(",") ||
-    sanitized.includes('"') ||
-    sanitized.includes("\n")
+    text.includes(delimiter) ||
+    text.includes('"') ||
+    text.includes("\n") ||
+    text.includes("\r")
   ) {
-    return `"${sanitized.replace(/"/g, '""')}"`;
+    return `"${text.replace(/"/g, '""')}"`;
   }
 
-  return sanitized;
+  return text;
 };
 
+const escapeCsvValue = (value: unknown): string =>
+  quoteCsvValue(sanitizeForExport(value, handleSerializationError), ",");
+
+const isCsvHeader = (value: string): value is CsvHeader =>
+  (CSV_HEADERS as readonly string[]).includes(value);
+
+const isCsvColumn = (value: unknown): value is string =>
+  typeof value === "string" &&
+  (isCsvHeader(value) || Boolean(parseDisplayColumn(value)?.source));
+
+/**
+ * Reads CSV choices from config or storage, dropping unknown columns and
+ * duplicates. Missing or invalid parts fall back to the plain comma file.
+ */
+export const resolveCsvExportOptions = (value: unknown): CsvExportOptions => {
+  const input = isRecord(value) ? value : {};
+  const columns = Array.isArray(input.columns)
+    ? input.columns.filter(
+        (column, index, list): column is string =>
+          isCsvColumn(column) && list.indexOf(column) === index
+      )
+    : [];
+
+  return {
+    delimiter: CSV_DELIMITER_IDS.includes(input.delimiter as CsvDelimiter)
+      ? (input.delimiter as CsvDelimiter)
+      : DEFAULT_CSV_EXPORT_OPTIONS.delimiter,
+    includeBom: input.includeBom === true,
+    columns:
+      columns.length > 0 ? columns : DEFAULT_CSV_EXPORT_OPTIONS.columns,
+    rowShape: CSV_ROW_SHAPES.includes(input.rowShape as CsvRowShape)
+      ? (input.rowShape as CsvRowShape)
+      : DEFAULT_CSV_EXPORT_OPTIONS.rowShape,
+  };
+};
+
+/**
+ * Lists the columns a CSV file can have: the built-in columns, then every
+ * property and owner field found in the rows, by name.
+ */
+export const collectCsvColumnOptions = (
+  rows: readonly GridRowData[]
+): string[] => {
+  const collect = (
+    source: FieldMappingSource,
+    pick: (row: GridRowData) => { [field: string]: unknown } | undefined
+  ): string[] => {
+    const fields = new Set<string>();
+    rows.forEach((row) => {
+      Object.keys(pick(row) ?? {}).forEach((field) => fields.add(field));
+    });
+    return Array.from(fields)
+      .sort((a, b) => a.localeCompare(b, "sv", SORT_COMPARE_OPTIONS))
+      .map((field) => buildDisplayColumnId(source, field))
+      .filter(isCsvColumn);
+  };
+
+  return [
+    ...CSV_HEADERS,
+    ...collect("property", (row) => row.rawProperty),
+    ...collect("owner", (row) => row.rawOwner),
+  ];
+};
+
+const buildCsvHeaderValues = (
+  row: GridRowData,
+  unknownOwnerText: string,
+  maskingEnabled: OwnerMasking
+): CsvHeaderValues => {
+  const ownerAddress = resolveOwnerAddressForExport(row, maskingEnabled);
+  const ownerLabel = row.rawOwner
+    ? resolveOwnerLabelForExport(row, unknownOwnerText, maskingEnabled)
+    : (getGridString(row, "ADDRESS") ??
+      getGridString(row, "BOSTADR") ??
+      unknownOwnerText);
+  const text = (value: unknown) =>
+    sanitizeForExport(value, handleSerializationError);
+
+  return {
+    FNR: text(row.FNR),
+    UUID_FASTIGHET: text(row.UUID_FASTIGHET),
+    FASTIGHET: text(row.FASTIGHET),
+    BOSTADR: text(ownerAddress),
+    ADDRESS: text(ownerLabel),
+  };
+};
+
+/**
+ * Builds a CSV file from the rows. Without options the file has the
+ * CSV_HEADERS columns, comma separators and one line per owner row; raw
+ * owner fields follow the masking like the table does.
+ */
 export const convertToCSV = (
   rows: GridRowData[],
-  unknownOwnerText: string
+  unknownOwnerText: string,
+  maskingEnabled: OwnerMasking = false,
+  options: CsvExportOptions = DEFAULT_CSV_EXPORT_OPTIONS,
+  fieldMapping?: FieldMapping | null
 ): string => {
   if (!rows || rows.length === 0) return "";
 
-  const csvHeaders = CSV_HEADERS.join(",");
-
-  const csvRows = rows.map((row) => {
-    const ownerAddress = resolveOwnerAddressForExport(row);
-    const ownerLabel = row.rawOwner
-      ? resolveOwnerLabelForExport(row, unknownOwnerText)
-      : (getGridString(row, "ADDRESS") ??
-        getGridString(row, "BOSTADR") ??
-        unknownOwnerText);
-
-    const values: CsvHeaderValues = {
-      FNR: escapeCsvValue(row.FNR),
-      UUID_FASTIGHET: escapeCsvValue(row.UUID_FASTIGHET),
-      FASTIGHET: escapeCsvValue(row.FASTIGHET),
-      BOSTADR: escapeCsvValue(ownerAddress),
-      ADDRESS: escapeCsvValue(ownerLabel),
+  const { delimiter, includeBom, columns, rowShape } =
+    resolveCsvExportOptions(options);
+  const separator = CSV_DELIMITERS[delimiter];
+
+  const readRow = (row: GridRowData): string[] => {
+    const values = buildCsvHeaderValues(row, unknownOwnerText, maskingEnabled);
+    return columns.map((columnId) => {
+      if (isCsvHeader(columnId)) return values[columnId];
+      const column = parseDisplayColumn(columnId) as DisplayColumn;
+      return sanitizeForExport(
+        getDisplayColumnText(row, column, {
+          maskPII: maskingEnabled,
+          fieldMapping,
+        }),
+        handleSerializationError
+      );
+    });
+  };
+
+  // One line per property: each cell lists the distinct values of its rows
+  const lines =
+    rowShape === "property"
+      ? groupRowsByProperty(rows, (row) => row).map(({ items }) => {
+          const rowValues = items.map(readRow);
+          return columns.map((_columnId, index) =>
+            rowValues
+              .map((values) => values[index])
+              .filter(
+                (value, position, list) =>
+                  value !== "" && list.indexOf(value) === position
+              )
+              .join(CSV_VALUE_SEPARATOR)
+          );
+        })
+      : rows.map(readRow);
+
+  // Field names head the columns unless two columns share one
+  const names = columns.map(
+    (columnId) => parseDisplayColumn(columnId)?.field ?? columnId
+  );
+  const header = names.map((name, index) =>
+    names.indexOf(name) === names.lastIndexOf(name) ? name : columns[index]
+  );
+
+  const csv = [header, ...lines]
+    .map((values) =>
+      values.map((value) => quoteCsvValue(value, separator)).join(separator)
+    )
+    .join("\n");
+
+  return includeBom ? `${CSV_BOM}${csv}` : csv;
+};
+
+// One row per recipient, ready for mail merge in a word processor
+export const convertToMailingCSV = (
+  recipients: readonly MailingRecipient[]
+): string => {
+  if (!recipients || recipients.length === 0) return "";
+
+  const csvRows = recipients.map((recipient) => {
+    const values: MailingCsvHeaderValues = {
+      TYPE: escapeCsvValue(recipient.type),
+      NAME: escapeCsvValue(recipient.names.join(" & ")),
+      ORGNR: escapeCsvValue(recipient.orgNumbers.join("; ")),
+      ADDRESS: escapeCsvValue(recipient.address),
+      POSTAL_CODE: escapeCsvValue(recipient.postalCode),
+      CITY: escapeCsvValue(recipient.city),
+      PROPERTIES: escapeCsvValue(recipient.properties.join("; ")),
+      FNR: escapeCsvValue(recipient.fnrs.join("; ")),
     };
 
-    return CSV_HEADERS.map((header) => values[header]).join(",");
+    return MAILING_CSV_HEADERS.map((header) => values[header]).join(",");
   });
 
-  return [csvHeaders, ...csvRows].join("\n");
+  return [MAILING_CSV_HEADERS.join(","), ...csvRows].join("\n");
+};
+
+// String keys stay text cells: Excel would drop leading zeros and round
+// long numbers
+const toXlsxFnr = (fnr: GridRowData["FNR"]): XlsxCellValue =>
+  typeof fnr === "number" ? fnr : String(fnr);
+
+const buildXlsxOwnerRow = (
+  row: GridRowData,
+  maskingEnabled: OwnerMasking,
+  unknownOwnerText: string
+): XlsxCellValue[] => {
+  const clean = (value: unknown) =>
+    sanitizeForExport(value, handleSerializationError);
+  const owner = row.rawOwner;
+
+  // Rows without owner data only carry the already formatted table text
+  if (!owner) {
+    return [
+      toXlsxFnr(row.FNR),
+      clean(row.UUID_FASTIGHET),
+      clean(row.FASTIGHET),
+      clean(resolveOwnerLabelForExport(row, unknownOwnerText, maskingEnabled)),
+      "",
+      "",
+      "",
+      "",
+      "",
+      null,
+    ];
+  }
+
+  const masked = maskOwnerAttributes(owner, maskingEnabled);
+  const name = owner.AGARLISTA
+    ? formatOwnerInfo(owner, maskingEnabled, unknownOwnerText)
+    : clean(masked.NAMN);
+
+  return [
+    toXlsxFnr(row.FNR),
+    clean(row.UUID_FASTIGHET),
+    clean(row.FASTIGHET),
+    name,
+    clean(masked.BOSTADR),
+    clean(masked.POSTNR),
+    clean(masked.POSTADR),
+    clean(masked.ORGNR),
+    clean(owner.ANDEL),
+    parseShareValue(owner.ANDEL),
+  ];
+};
+
+/**
+ * Builds an Excel workbook: one row per owner share on the first sheet and
+ * selection totals on the second. Rows are written in the order given.
+ * @param rows - Selected rows, already sorted.
+ * @param maskingEnabled - Masking policy for owner fields, or false.
+ * @param unknownOwnerText - Fallback text for rows without owner data.
+ * @returns The .xlsx file bytes.
+ */
+export const convertToXLSX = (
+  rows: GridRowData[],
+  maskingEnabled: OwnerMasking,
+  unknownOwnerText: string
+): Uint8Array => {
+  const ownerRows = rows.map((row) =>
+    buildXlsxOwnerRow(row, maskingEnabled, unknownOwnerText)
+  );
+  const propertyKeys = new Set(rows.map((row) => String(row.FNR)));
+
+  return buildXlsxWorkbook([
+    {
+      name: XLSX_SHEET_NAMES.OWNERS,
+      columns: XLSX_OWNER_COLUMNS,
+      rows: ownerRows,
+      freezeHeader: true,
+    },
+    {
+      name: XLSX_SHEET_NAMES.SUMMARY,
+      columns: [
+        { header: XLSX_SUMMARY_LABELS.HEADER_ITEM, type: "string" },
+        { header: XLSX_SUMMARY_LABELS.HEADER_VALUE, type: "number" },
+      ],
+      rows: [
+        [XLSX_SUMMARY_LABELS.PROPERTIES, propertyKeys.size],
+        [XLSX_SUMMARY_LABELS.OWNER_ROWS, ownerRows.length],
+        [XLSX_SUMMARY_LABELS.PII_MASKING, maskingEnabled ? "On" : "Off"],
+        [XLSX_SUMMARY_LABELS.EXPORTED_AT, new Date().toISOString()],
+      ],
+      freezeHeader: true,
+    },
+  ]);
 };
 
 // =============================================================================
@@ -333,14 +731,19 @@ const isCoordinateTensor = (value: unknown): value is number[][][] =>
 
 // =============================================================================
 // GEOMETRY HELPERS
-// Coordinate cloning and building utilities
+// Coordinate transforming and building utilities
 // =============================================================================
 
-const cloneTensor = (value: number[][][]): number[][][] =>
-  value.map((matrix) => matrix.map((tuple) => tuple.slice()));
+const mapTensor = (
+  value: number[][][],
+  transform: CoordinateProjector
+): number[][][] =>
+  value.map((matrix) => matrix.map((tuple) => transform(tuple)));
 
-const cloneMatrix = (value: number[][]): number[][] =>
-  value.map((tuple) => tuple.slice());
+const mapMatrix = (
+  value: number[][],
+  transform: CoordinateProjector
+): number[][] => value.map((tuple) => transform(tuple));
 
 const buildExtentCoordinates = (value: {
   xmin?: unknown;
@@ -387,67 +790,120 @@ const buildPointCoordinates = (value: {
 
 const convertArcGISGeometryToGeoJSON = (
   geometry: GeometryInput,
-  geometryType: string
+  geometryType: string,
+  transform: CoordinateProjector
 ): GeoJsonGeometry => {
   const normalizedType = geometryType.toLowerCase();
 
   if (normalizedType === "polygon") {
     const rings = geometry.rings;
     if (isCoordinateTensor(rings)) {
-      return { type: "Polygon", coordinates: cloneTensor(rings) };
+      return { type: "Polygon", coordinates: mapTensor(rings, transform) };
     }
   }
 
   if (normalizedType === "extent") {
     const coordinates = buildExtentCoordinates(geometry);
     if (coordinates) {
-      return { type: "Polygon", coordinates };
+      return {
+        type: "Polygon",
+        coordinates: mapTensor(coordinates, transform),
+      };
     }
   }
 
   if (normalizedType === "polyline") {
     const paths = geometry.paths;
     if (isCoordinateTensor(paths)) {
-      return { type: "MultiLineString", coordinates: cloneTensor(paths) };
+      return {
+        type: "MultiLineString",
+        coordinates: mapTensor(paths, transform),
+      };
     }
   }
 
   if (normalizedType === "point") {
     const coordinates = buildPointCoordinates(geometry);
     if (coordinates) {
-      return { type: "Point", coordinates };
+      return { type: "Point", coordinates: transform(coordinates) };
     }
   }
 
   if (normalizedType === "multipoint") {
     const points = geometry.points;
     if (isCoordinateMatrix(points)) {
-      return { type: "MultiPoint", coordinates: cloneMatrix(points) };
+      return { type: "MultiPoint", coordinates: mapMatrix(points, transform) };
     }
   }
 
   return null;
 };
 
+const collectPositions = (
+  geometry: NonNullable<GeoJsonGeometry>
+): number[][] => {
+  if (geometry.type === "Point") return [geometry.coordinates];
+  if (geometry.type === "MultiPoint") return geometry.coordinates;
+  return geometry.coordinates.flat();
+};
+
+// RFC 7946 bbox: all minimums, then all maximums, over the dimensions every
+// position has
+const computeBbox = (positions: readonly number[][]): number[] | null => {
+  if (positions.length === 0) return null;
+  const dimensions = positions.reduce(
+    (count, position) => Math.min(count, position.length),
+    positions[0].length
+  );
+  const min = positions[0].slice(0, dimensions);
+  const max = positions[0].slice(0, dimensions);
+  positions.forEach((position) => {
+    for (let axis = 0; axis < dimensions; axis += 1) {
+      min[axis] = Math.min(min[axis], position[axis]);
+      max[axis] = Math.max(max[axis], position[axis]);
+    }
+  });
+  return [...min, ...max];
+};
+
+// A geometry without a spatial reference cannot be projected: its
+// coordinates are never assumed to be WGS84
+const projectGeometryToWgs84 = (
+  geometry: SerializedRecord,
+  projectToWgs84: Wgs84GeometryProjector | undefined
+): SerializedRecord | null => {
+  const spatialReference = geometry.spatialReference;
+  if (!isRecord(spatialReference)) return null;
+  if (isWgs84Wkid(resolveSpatialReferenceWkid(spatialReference))) {
+    return geometry;
+  }
+  return projectToWgs84 ? projectToWgs84(geometry) : null;
+};
+
 const buildGeoJSONFeature = (
   row: GridRowData,
-  unknownOwnerText: string
+  geometry: SerializedRecord,
+  unknownOwnerText: string,
+  maskingEnabled: OwnerMasking,
+  transform: CoordinateProjector
 ): SerializedRecord | null => {
-  if (!row.geometryType || !row.geometry) return null;
+  if (!row.geometryType) return null;
 
-  const geometry = row.geometry as GeometryInput;
   const geojsonGeometry = convertArcGISGeometryToGeoJSON(
-    geometry,
-    row.geometryType
+    geometry as GeometryInput,
+    row.geometryType,
+    transform
   );
 
   if (!geojsonGeometry) return null;
 
-  const ownerAddress = resolveOwnerAddressForExport(row);
+  const ownerAddress = resolveOwnerAddressForExport(row, maskingEnabled);
+  const bbox = computeBbox(collectPositions(geojsonGeometry));
 
   return {
     type: "Feature",
     id: row.id,
+    ...(bbox ? { bbox } : {}),
     properties: {
       FNR: sanitizeForExport(row.FNR, handleSerializationError),
       UUID_FASTIGHET: sanitizeForExport(
@@ -456,7 +912,8 @@ const buildGeoJSONFeature = (
       ),
       FASTIGHET: sanitizeForExport(row.FASTIGHET, handleSerializationError),
       BOSTADR: sanitizeForExport(
-        ownerAddress || resolveOwnerLabelForExport(row, unknownOwnerText),
+        ownerAddress ||
+          resolveOwnerLabelForExport(row, unknownOwnerText, maskingEnabled),
         handleSerializationError
       ),
     },
@@ -464,20 +921,101 @@ const buildGeoJSONFeature = (
   } as SerializedRecord;
 };
 
+export const resolveGeoJsonExportOptions = (
+  crs?: unknown,
+  precision?: unknown
+): GeoJsonExportOptions => ({
+  crs: GEOJSON_CRS_MODES.includes(crs as GeoJsonCrsMode)
+    ? (crs as GeoJsonCrsMode)
+    : DEFAULT_GEOJSON_CRS_MODE,
+  precision:
+    typeof precision === "number" && Number.isFinite(precision)
+      ? Math.min(
+          GEOJSON_MAX_PRECISION,
+          Math.max(GEOJSON_MIN_PRECISION, Math.round(precision))
+        )
+      : DEFAULT_GEOJSON_PRECISION,
+});
+
+/**
+ * Builds a GeoJSON FeatureCollection with a bbox on every feature and on
+ * the collection. By default coordinates are projected to WGS84 as RFC 7946
+ * requires, through `options.projectToWgs84`. When a geometry has no spatial
+ * reference or cannot be projected, the whole collection keeps the native
+ * coordinates, as with `crs: "native"`, names the system in a `crs` member
+ * and calls `options.onNativeFallback`.
+ */
 export const convertToGeoJSON = (
   rows: GridRowData[],
-  unknownOwnerText: string
+  unknownOwnerText: string,
+  maskingEnabled: OwnerMasking = false,
+  options: GeoJsonExportOptions = resolveGeoJsonExportOptions()
 ): SerializedRecord => {
   if (!rows || rows.length === 0) {
     return { type: "FeatureCollection", features: [] };
   }
 
+  const { crs, precision } = resolveGeoJsonExportOptions(
+    options.crs,
+    options.precision
+  );
+  const projected = rows.map((row) =>
+    crs === "wgs84" && row.geometryType && row.geometry
+      ? projectGeometryToWgs84(row.geometry, options.projectToWgs84)
+      : null
+  );
+  const keepNative =
+    crs === "native" ||
+    rows.some(
+      (row, index) =>
+        row.geometryType && row.geometry && projected[index] === null
+    );
+  if (keepNative && crs === "wgs84") {
+    trackEvent({
+      category: "Export",
+      action: "export_geojson",
+      label: "native_crs_fallback",
+    });
+    options.onNativeFallback?.();
+  }
+
+  const round: CoordinateProjector = (coordinate) =>
+    coordinate.map((value) => roundCoordinate(value, precision));
   const features = rows
-    .map((row) => buildGeoJSONFeature(row, unknownOwnerText))
+    .map((row, index) => {
+      const geometry = keepNative ? row.geometry : projected[index];
+      return geometry
+        ? buildGeoJSONFeature(
+            row,
+            geometry,
+            unknownOwnerText,
+            maskingEnabled,
+            round
+          )
+        : null;
+    })
     .filter((feature): feature is SerializedRecord => feature !== null);
 
+  const wkid = keepNative
+    ? resolveSpatialReferenceWkid(resolveSpatialReference(rows))
+    : null;
+  const bbox = computeBbox(
+    features.flatMap((feature) =>
+      collectPositions(feature.geometry as NonNullable<GeoJsonGeometry>)
+    )
+  );
+
   return {
     type: "FeatureCollection",
+    ...(wkid !== null
+      ? {
+          crs: {
+            type: "name",
+            properties: { name: `urn:ogc:def:crs:EPSG::${wkid}` },
+          },
+        }
+      : {}),
+    ...(bbox ? { bbox } : {}),
     features,
   };
 };
@@ -496,15 +1034,22 @@ const buildFilename = (
 const buildExportContent = (
   format: ExportFormat,
   selectedProperties: GridRowData[],
-  maskingEnabled: boolean,
+  maskingEnabled: OwnerMasking,
   unknownOwnerText: string,
-  definition?: ExportFormatDefinition
+  definition?: ExportFormatDefinition,
+  mailing?: MailingExportOptions,
+  report?: PropertyReportOptions,
+  json?: JsonExportContext,
+  geojson?: GeoJsonExportOptions,
+  csv?: CsvExportOptions,
+  fieldMapping?: FieldMapping | null
 ): ExportContent => {
   if (format === "json") {
-    const jsonData = convertToJSON(
+    const jsonData = buildJSONExportDocument(
       selectedProperties,
       maskingEnabled,
-      unknownOwnerText
+      unknownOwnerText,
+      json
     );
     try {
       return {
@@ -524,7 +1069,13 @@ const buildExportContent = (
 
   if (format === "csv") {
     return {
-      content: convertToCSV(selectedProperties, unknownOwnerText),
+      content: convertToCSV(
+        selectedProperties,
+        unknownOwnerText,
+        maskingEnabled,
+        csv,
+        fieldMapping
+      ),
       mimeType: definition?.mimeType || "text/csv;charset=utf-8",
       extension: definition?.extension || "csv",
     };
@@ -534,7 +1085,12 @@ const buildExportContent = (
     try {
       return {
         content: JSON.stringify(
-          convertToGeoJSON(selectedProperties, unknownOwnerText),
+          convertToGeoJSON(
+            selectedProperties,
+            unknownOwnerText,
+            maskingEnabled,
+            geojson
+          ),
           null,
           2
         ),
@@ -551,11 +1107,62 @@ const buildExportContent = (
     }
   }
 
+  if (format === "xlsx") {
+    return {
+      content: convertToXLSX(
+        selectedProperties,
+        maskingEnabled,
+        unknownOwnerText
+      ),
+      mimeType:
+        definition?.mimeType ||
+        "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+      extension: definition?.extension || "xlsx",
+    };
+  }
+
+  if (format === "labels") {
+    return {
+      content: buildMailingLabelsPdf(
+        buildMailingRecipients(selectedProperties, maskingEnabled),
+        mailing
+      ),
+      mimeType: definition?.mimeType || "application/pdf",
+      extension: definition?.extension || "pdf",
+    };
+  }
+
+  if (format === "report") {
+    if (!report) {
+      throw new Error("Report options are required for the PDF report");
+    }
+    return {
+      content: buildPropertyReportPdf(
+        selectedProperties,
+        maskingEnabled,
+        unknownOwnerText,
+        report
+      ),
+      mimeType: definition?.mimeType || "application/pdf",
+      extension: definition?.extension || "pdf",
+    };
+  }
+
+  if (format === "recipients") {
+    return {
+      content: convertToMailingCSV(
+        buildMailingRecipients(selectedProperties, maskingEnabled)
+      ),
+      mimeType: definition?.mimeType || "text/csv;charset=utf-8",
+      extension: definition?.extension || "csv",
+    };
+  }
+
   throw new Error(`Unsupported format: ${format}`);
 };
 
-const downloadFile = (
-  content: string,
+export const downloadFile = (
+  content: ExportContent["content"],
   mimeType: string,
   filename: string
 ): void => {
@@ -585,10 +1192,21 @@ export const exportData = (
   rawData: readonly SerializedQueryResult[] | null | undefined,
   selectedProperties: GridRowData[],
   options: ExportOptions,
-  maskingEnabled: boolean,
+  maskingEnabled: OwnerMasking,
   unknownOwnerText: string
 ): void => {
-  const { format, filename, rowCount, definition } = options;
+  const {
+    format,
+    filename,
+    rowCount,
+    definition,
+    mailing,
+    report,
+    json,
+    geojson,
+    csv,
+    fieldMapping,
+  } = options;
 
   try {
     void rawData;
@@ -598,7 +1216,13 @@ export const exportData = (
       selectedProperties,
       maskingEnabled,
       unknownOwnerText,
-      definition
+      definition,
+      mailing,
+      report,
+      json,
+      geojson,
+      csv,
+      fieldMapping
     );
 
     const finalFilename = buildFilename(filename, extension, rowCount);
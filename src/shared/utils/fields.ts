@@ -0,0 +1,74 @@
+import {
+  DEFAULT_FIELD_MAPPING,
+  FIELD_MAPPING_SOURCES,
+  FIELD_NAME_PATTERN,
+} from "../../config/constants";
+import type {
+  AttributeMap,
+  FieldMapping,
+  FieldMappingKey,
+  FieldMappingSource,
+} from "../../config/types";
+
+const FIELD_MAPPING_KEYS = Object.keys(
+  DEFAULT_FIELD_MAPPING
+) as FieldMappingKey[];
+
+export const isValidFieldName = (value: unknown): value is string =>
+  typeof value === "string" && FIELD_NAME_PATTERN.test(value);
+
+/**
+ * Fills gaps in a configured mapping with the default field names. Blank or
+ * malformed entries fall back too, so a bad value never reaches a query.
+ */
+export const resolveFieldMapping = (
+  mapping?: Partial<FieldMapping> | null
+): FieldMapping => {
+  const resolved: FieldMapping = { ...DEFAULT_FIELD_MAPPING };
+  if (!mapping) {
+    return resolved;
+  }
+
+  for (const key of FIELD_MAPPING_KEYS) {
+    const value = mapping[key];
+    const candidate = typeof value === "string" ? value.trim() : "";
+    if (candidate && isValidFieldName(candidate)) {
+      resolved[key] = candidate;
+    }
+  }
+
+  return resolved;
+};
+
+export const isDefaultFieldMapping = (mapping: FieldMapping): boolean =>
+  FIELD_MAPPING_KEYS.every((key) => mapping[key] === DEFAULT_FIELD_MAPPING[key]);
+
+/**
+ * Copies source attributes under their canonical names so processing,
+ * privacy and export code can read one schema regardless of the layer.
+ * Only the entries that belong to `source` apply, since both join keys
+ * share the canonical name FNR.
+ */
+export const applyFieldMapping = <T extends AttributeMap>(
+  attributes: AttributeMap | null | undefined,
+  mapping: FieldMapping | null | undefined,
+  source: FieldMappingSource
+): T => {
+  const attrs = attributes ?? {};
+  if (!mapping || isDefaultFieldMapping(mapping)) {
+    return attrs as T;
+  }
+
+  const mapped: AttributeMap = { ...attrs };
+  for (const key of FIELD_MAPPING_KEYS) {
+    const canonical = DEFAULT_FIELD_MAPPING[key];
+    const sourceField = mapping[key];
+    if (FIELD_MAPPING_SOURCES[key] !== source || sourceField === canonical) {
+      continue;
+    }
+    // A missing source field must not leak an unrelated same-named value
+    mapped[canonical] = sourceField in attrs ? attrs[sourceField] : undefined;
+  }
+
+  return mapped as T;
+};
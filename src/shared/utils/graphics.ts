@@ -1,6 +1,15 @@
-import { HEX_COLOR_PATTERN } from "../../config/constants";
+import {
+  BUFFER_PREVIEW_FILL_OPACITY,
+  HEX_COLOR_PATTERN,
+  ROW_EMPHASIS_MIN_OUTLINE_WIDTH,
+  ROW_EMPHASIS_OPACITY_BOOST,
+  ROW_EMPHASIS_OUTLINE_FACTOR,
+} from "../../config/constants";
 import type {
+  FnrValue,
+  GridRowData,
   HighlightSymbolJSON,
+  NormalizedFnr,
   SelectionGraphicsHelpers,
 } from "../../config/types";
 
@@ -68,6 +77,40 @@ export const buildHighlightSymbolJSON = <
   } as unknown as HighlightSymbolJSON<T>;
 };
 
+// Linked row emphasis: same hue as the selection, denser fill, heavier outline
+export const buildEmphasisSymbolJSON = <
+  T extends "polygon" | "polyline" | "point",
+>(
+  highlightColor: [number, number, number, number],
+  outlineWidth: number,
+  geometryType: T
+): HighlightSymbolJSON<T> => {
+  const [r, g, b, a] = highlightColor;
+  const width = Math.max(
+    outlineWidth * ROW_EMPHASIS_OUTLINE_FACTOR,
+    ROW_EMPHASIS_MIN_OUTLINE_WIDTH
+  );
+  const opacity = Math.min(1, a + ROW_EMPHASIS_OPACITY_BOOST);
+  return buildHighlightSymbolJSON([r, g, b, opacity], width, geometryType);
+};
+
+export const buildBufferPreviewSymbolJSON = (
+  highlightColor: [number, number, number, number],
+  outlineWidth: number
+): HighlightSymbolJSON<"polygon"> => {
+  const [r, g, b] = highlightColor;
+
+  return {
+    style: "solid",
+    color: [r, g, b, BUFFER_PREVIEW_FILL_OPACITY],
+    outline: {
+      style: "dash",
+      color: [r, g, b, 1],
+      width: outlineWidth,
+    },
+  };
+};
+
 export const syncGraphicsWithState = (params: {
   graphicsToAdd: Array<{ graphic: __esri.Graphic; fnr: string | number }>;
   selectedRows: Array<{ FNR: string | number }>;
@@ -111,3 +154,36 @@ export const syncGraphicsWithState = (params: {
 
   return true;
 };
+
+export const buildGraphicEntriesFromRows = (params: {
+  rows: GridRowData[];
+  createGraphic: (properties: __esri.GraphicProperties) => __esri.Graphic;
+  normalizeFnrKey: (fnr: FnrValue | null | undefined) => NormalizedFnr;
+}): Array<{ graphic: __esri.Graphic; fnr: FnrValue }> => {
+  const { rows, createGraphic, normalizeFnrKey } = params;
+  const entries: Array<{ graphic: __esri.Graphic; fnr: FnrValue }> = [];
+  const seen = new Set<string>();
+
+  for (const row of rows) {
+    if (!row.geometry || !row.geometryType) {
+      continue;
+    }
+    const fnrKey = normalizeFnrKey(row.FNR);
+    if (seen.has(fnrKey)) {
+      continue;
+    }
+    seen.add(fnrKey);
+
+    // Serialized rows carry Esri JSON without a type key; autocast needs one
+    const geometry = {
+      ...row.geometry,
+      type: row.geometryType,
+    } as unknown as __esri.GeometryProperties;
+    entries.push({
+      graphic: createGraphic({ geometry, attributes: { FNR: row.FNR } }),
+      fnr: row.FNR,
+    });
+  }
+
+  return entries;
+};
@@ -1,5 +1,16 @@
-import { HTML_WHITESPACE_PATTERN } from "../../config/constants";
-import type { FnrValue, MapViewWithPopupToggle } from "../../config/types";
+import {
+  DEFAULT_FIELD_MAPPING,
+  FIELD_NAME_PATTERN,
+  HTML_WHITESPACE_PATTERN,
+  RETRYABLE_HTTP_STATUSES,
+} from "../../config/constants";
+import { ErrorType } from "../../config/enums";
+import type {
+  FnrValue,
+  MapViewWithPopupToggle,
+  QueryError,
+  QueryErrorCategory,
+} from "../../config/types";
 
 export const isRecord = (
   value: unknown
@@ -70,11 +81,15 @@ export const isAbortError = (error: unknown): error is Error => {
 };
 
 export const abortHelpers = {
+  createAbortError: (): Error => {
+    const error = new Error("AbortError");
+    error.name = "AbortError";
+    return error;
+  },
+
   throwIfAborted: (signal?: AbortSignal): void => {
     if (signal?.aborted) {
-      const error = new Error("AbortError");
-      error.name = "AbortError";
-      throw error;
+      throw abortHelpers.createAbortError();
     }
   },
 
@@ -119,15 +134,110 @@ export const parseArcGISError = (
   return defaultMessage;
 };
 
+const NETWORK_ERROR_PATTERN =
+  /failed to fetch|network ?error|load failed|err_internet|err_connection/i;
+const TIMEOUT_ERROR_PATTERN = /timed? ?out|timeout/i;
+
+const readHttpStatus = (error: { [key: string]: unknown }): number | null => {
+  const details = isRecord(error.details) ? error.details : {};
+  const candidates = [details.httpStatus, error.httpCode, error.code];
+  for (const candidate of candidates) {
+    if (typeof candidate === "number" && candidate >= 100 && candidate <= 599) {
+      return candidate;
+    }
+  }
+  return null;
+};
+
+/**
+ * Sorts a failed request into what the user can do about it: wait and retry
+ * (network, timeout, server) or fix the query/configuration (query).
+ */
+export const classifyArcGISError = (error: unknown): QueryErrorCategory => {
+  if (!isRecord(error)) {
+    return typeof error === "string" && NETWORK_ERROR_PATTERN.test(error)
+      ? "network"
+      : "query";
+  }
+
+  const existing = (error as Partial<QueryError>).category;
+  if (existing) return existing;
+
+  const name = typeof error.name === "string" ? error.name : "";
+  const message = parseArcGISError(error, "");
+  if (
+    TIMEOUT_ERROR_PATTERN.test(name) ||
+    TIMEOUT_ERROR_PATTERN.test(message)
+  ) {
+    return "timeout";
+  }
+
+  const status = readHttpStatus(error);
+  if (status !== null) {
+    if (status === 408) return "timeout";
+    return RETRYABLE_HTTP_STATUSES.includes(status) ? "server" : "query";
+  }
+
+  if (error instanceof TypeError || NETWORK_ERROR_PATTERN.test(message)) {
+    return "network";
+  }
+  return "query";
+};
+
+// Anything but a bad query may succeed on a later attempt
+export const isRetryableQueryError = (error: unknown): boolean =>
+  !isAbortError(error) && classifyArcGISError(error) !== "query";
+
+// Keeps the readable message from parseArcGISError and adds the category
+export const toQueryError = (
+  error: unknown,
+  defaultMessage: string
+): QueryError => {
+  const queryError = new Error(
+    parseArcGISError(error, defaultMessage)
+  ) as QueryError;
+  queryError.category = classifyArcGISError(error);
+  return queryError;
+};
+
+const QUERY_ERROR_MESSAGE_KEYS: {
+  readonly [category in QueryErrorCategory]: string;
+} = {
+  network: "errorNetworkError",
+  timeout: "errorQueryTimeout",
+  server: "errorServiceUnavailable",
+  query: "errorQueryFailed",
+};
+
+export const describeQueryError = (
+  error: unknown,
+  translate: (key: string) => string
+): { type: ErrorType; message: string; category: QueryErrorCategory } => {
+  const category = classifyArcGISError(error);
+  return {
+    type:
+      category === "query" ? ErrorType.QUERY_ERROR : ErrorType.NETWORK_ERROR,
+    message: translate(QUERY_ERROR_MESSAGE_KEYS[category]),
+    category,
+  };
+};
+
 export const buildFnrWhereClause = (
   fnr: string | number,
-  errorMessage = "Invalid FNR: must be a safe integer"
+  errorMessage = "Invalid FNR: must be a safe integer",
+  options: { fieldName?: string } = {}
 ): string => {
+  const fieldName = options.fieldName ?? DEFAULT_FIELD_MAPPING.fnr;
+  // Field names cannot be quoted like values, so only plain identifiers pass
+  if (!FIELD_NAME_PATTERN.test(fieldName)) {
+    throw new Error("Invalid FNR field name");
+  }
+
   if (typeof fnr === "number") {
     if (!Number.isFinite(fnr) || !Number.isSafeInteger(fnr) || fnr < 0) {
       throw new Error(errorMessage);
     }
-    return `FNR = ${fnr}`;
+    return `${fieldName} = ${fnr}`;
   }
 
   const sanitized = String(fnr).replace(/'/g, "''");
@@ -135,7 +245,7 @@ export const buildFnrWhereClause = (
     throw new Error("Invalid FNR: cannot be empty or whitespace-only");
   }
 
-  return `FNR = '${sanitized}'`;
+  return `${fieldName} = '${sanitized}'`;
 };
 
 export const cleanupRemovedGraphics = (params: {
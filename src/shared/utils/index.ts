@@ -11,6 +11,22 @@ export * from "./helpers";
 export * from "./export";
 export * from "./serialization";
 export * from "./transformation";
+export * from "./report";
+export * from "./fields";
+export * from "./columns";
+export * from "./xlsx";
+export * from "./messages";
+export * from "./persistence";
+export * from "./list";
+export * from "./request";
+export * from "./cache";
+export * from "./details";
+export * from "./access";
+export * from "./audit";
+export * from "./pdf";
+export * from "./mailing";
+export * from "./printing";
+export * from "./projection";
 export { isValidationSuccess, isValidationFailure } from "../../config/types";
 export type {
   CursorGraphicsState,
@@ -0,0 +1,141 @@
+import {
+  DEFAULT_FIELD_MAPPING,
+  FIELD_NAME_PATTERN,
+  SELECTION_LIST_CELL_SEPARATOR,
+  SELECTION_LIST_HEADER_NAMES,
+  SELECTION_LIST_MAX_ENTRIES,
+} from "../../config/constants";
+import type {
+  FieldMapping,
+  FnrValue,
+  ParsedSelectionList,
+  QueryResult,
+  SelectionListEntry,
+} from "../../config/types";
+import { resolveFieldMapping } from "./fields";
+import { normalizeFnrKey } from "./helpers";
+
+const FNR_ENTRY_PATTERN = /^\d+$/;
+
+// Designations are compared ignoring case and repeated whitespace
+export const normalizeDesignation = (value: unknown): string =>
+  typeof value === "string"
+    ? value.trim().replace(/\s+/g, " ").toUpperCase()
+    : "";
+
+/**
+ * Matches a designation the way the list is de-duplicated: the value is
+ * normalized and compared against the upper-cased field.
+ */
+export const buildDesignationWhereClause = (
+  designation: string,
+  fieldName: string = DEFAULT_FIELD_MAPPING.designation
+): string => {
+  if (!FIELD_NAME_PATTERN.test(fieldName)) {
+    throw new Error("Invalid designation field name");
+  }
+
+  const normalized = normalizeDesignation(designation);
+  if (!normalized) {
+    throw new Error("Invalid designation: cannot be empty");
+  }
+
+  return `UPPER(${fieldName}) = '${normalized.replace(/'/g, "''")}'`;
+};
+
+const readFirstCell = (line: string): string => {
+  const cell = line.split(SELECTION_LIST_CELL_SEPARATOR)[0] ?? "";
+  return cell
+    .trim()
+    .replace(/^"(.*)"$/, "$1")
+    .replace(/""/g, '"')
+    .replace(/\s+/g, " ")
+    .trim();
+};
+
+const isHeaderCell = (cell: string): boolean =>
+  SELECTION_LIST_HEADER_NAMES.some((name) => name === cell.toUpperCase());
+
+/**
+ * Reads one entry per line from pasted text or a CSV/TXT file. Digits-only
+ * values are FNRs, anything else is a property designation.
+ */
+export const parseSelectionList = (text: string): ParsedSelectionList => {
+  const entries: SelectionListEntry[] = [];
+  const seen = new Set<string>();
+  let truncated = 0;
+
+  const lines = (text ?? "").replace(/^\uFEFF/, "").split(/\r\n|\r|\n/);
+  let isFirstValue = true;
+
+  for (let index = 0; index < lines.length; index++) {
+    const value = readFirstCell(lines[index]);
+    if (!value) continue;
+
+    if (isFirstValue) {
+      isFirstValue = false;
+      if (isHeaderCell(value)) continue;
+    }
+
+    const kind = FNR_ENTRY_PATTERN.test(value) ? "fnr" : "designation";
+    const key =
+      kind === "fnr" ? `F:${value}` : `D:${normalizeDesignation(value)}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    if (entries.length >= SELECTION_LIST_MAX_ENTRIES) {
+      truncated++;
+      continue;
+    }
+    entries.push({ line: index + 1, value, kind });
+  }
+
+  return { entries, truncated };
+};
+
+export const splitSelectionListEntries = (
+  entries: readonly SelectionListEntry[]
+): { fnrs: FnrValue[]; designations: string[] } => {
+  const fnrs: FnrValue[] = [];
+  const designations: string[] = [];
+
+  for (const entry of entries) {
+    if (entry.kind === "fnr") {
+      fnrs.push(entry.value);
+    } else {
+      designations.push(entry.value);
+    }
+  }
+
+  return { fnrs, designations };
+};
+
+export const findUnresolvedEntries = (
+  entries: readonly SelectionListEntry[],
+  propertyResults: readonly QueryResult[],
+  fieldMapping?: FieldMapping | null
+): SelectionListEntry[] => {
+  const { fnr: fnrField, designation: designationField } =
+    resolveFieldMapping(fieldMapping);
+  const foundFnrs = new Set<string>();
+  const foundDesignations = new Set<string>();
+
+  for (const result of propertyResults) {
+    const attributes = result?.features?.[0]?.attributes as
+      | { [key: string]: unknown }
+      | undefined;
+    const fnrKey = normalizeFnrKey(
+      (attributes?.[fnrField] as string | number | undefined) ??
+        result?.propertyId
+    );
+    if (fnrKey) foundFnrs.add(fnrKey);
+    const designation = normalizeDesignation(attributes?.[designationField]);
+    if (designation) foundDesignations.add(designation);
+  }
+
+  return entries.filter((entry) =>
+    entry.kind === "fnr"
+      ? !foundFnrs.has(normalizeFnrKey(entry.value))
+      : !foundDesignations.has(normalizeDesignation(entry.value))
+  );
+};
@@ -0,0 +1,239 @@
+import {
+  DEFAULT_MAILING_LABEL_TEMPLATE,
+  MAILING_LABEL_FONT_SIZE,
+  MAILING_LABEL_LINE_HEIGHT,
+  MAILING_LABEL_PADDING_MM,
+  MAILING_LABEL_TEMPLATES,
+  PDF_MM_TO_PT,
+  SORT_COMPARE_OPTIONS,
+} from "../../config/constants";
+import type {
+  GridRowData,
+  MailingExportOptions,
+  MailingLabelLayout,
+  MailingRecipient,
+  MailingRecipientType,
+  OwnerListEntry,
+  OwnerMasking,
+  OwnerMaskField,
+  PdfItem,
+  PdfPage,
+} from "../../config/types";
+import { normalizeFnrKey, sanitizeTextContent } from "./helpers";
+import { buildPdfDocument, fitPdfText } from "./pdf";
+import {
+  maskOwnerValue,
+  parseOwnerListEntries,
+  resolveOwnerMasking,
+} from "./privacy";
+
+const DEFAULT_MORE_OWNERS_TEXT = "+{count}";
+
+const normalizeKeyPart = (value: string): string =>
+  value.toLocaleLowerCase("sv").replace(/\s+/g, " ").trim();
+
+// Swedish postal codes are printed "222 23" on letters
+const formatPostalCode = (digits: string, fallback: string): string =>
+  digits.length === 5 ? `${digits.slice(0, 3)} ${digits.slice(3)}` : fallback;
+
+const addUnique = <T>(list: T[], value: T): void => {
+  if (value !== "" && !list.includes(value)) list.push(value);
+};
+
+const resolveRowContacts = (row: GridRowData): OwnerListEntry[] => {
+  const owner = row.rawOwner;
+  if (!owner) return [];
+  if (owner.AGARLISTA) {
+    return parseOwnerListEntries(owner.AGARLISTA, false);
+  }
+  return [
+    {
+      name: sanitizeTextContent(owner.NAMN || ""),
+      orgNumber: sanitizeTextContent(owner.ORGNR || ""),
+    },
+  ];
+};
+
+/**
+ * Turns owner rows into mail recipients. Owners of the same type sharing a
+ * postal address become one recipient listing every name and property.
+ * Addresses are compared unmasked; names and addresses are masked for
+ * output like the table.
+ */
+export const buildMailingRecipients = (
+  rows: readonly GridRowData[],
+  masking: OwnerMasking = false
+): MailingRecipient[] => {
+  const recipients = new Map<string, MailingRecipient>();
+
+  rows.forEach((row) => {
+    const owner = row.rawOwner;
+    if (!owner) return;
+
+    const address = sanitizeTextContent(owner.BOSTADR || "");
+    const rawPostalCode = sanitizeTextContent(owner.POSTNR || "");
+    const postalDigits = rawPostalCode.replace(/\D/g, "");
+    const city = sanitizeTextContent(owner.POSTADR || "");
+    const property = sanitizeTextContent(
+      owner.FASTIGHET || row.FASTIGHET || ""
+    );
+    const hasAddress = Boolean(address || postalDigits);
+
+    resolveRowContacts(row).forEach(({ name, orgNumber }) => {
+      if (!name && !hasAddress) return;
+      const type: MailingRecipientType = orgNumber ? "organization" : "person";
+      // Without an address, owners only merge with themselves
+      const keyText = (
+        hasAddress
+          ? [
+              type,
+              normalizeKeyPart(address),
+              postalDigits,
+              normalizeKeyPart(city),
+            ]
+          : [type, "", "", "", normalizeKeyPart(name)]
+      ).join("|");
+
+      const policy = resolveOwnerMasking(masking, { ORGNR: orgNumber });
+      const mask = (field: OwnerMaskField, value: string): string =>
+        policy ? maskOwnerValue(field, value, policy) : value;
+
+      let recipient = recipients.get(keyText);
+      if (!recipient) {
+        recipient = {
+          type,
+          names: [],
+          orgNumbers: [],
+          address: mask("address", address),
+          postalCode: mask(
+            "postalCode",
+            formatPostalCode(postalDigits, rawPostalCode)
+          ),
+          city: mask("city", city),
+          properties: [],
+          fnrs: [],
+        };
+        recipients.set(keyText, recipient);
+      }
+
+      addUnique(recipient.names, mask("name", name));
+      if (orgNumber) {
+        addUnique(recipient.orgNumbers, mask("orgNumber", orgNumber));
+      }
+      addUnique(recipient.properties, property);
+      const fnrKey = normalizeFnrKey(row.FNR);
+      if (!recipient.fnrs.some((fnr) => normalizeFnrKey(fnr) === fnrKey)) {
+        recipient.fnrs.push(row.FNR);
+      }
+    });
+  });
+
+  return Array.from(recipients.values()).sort((a, b) => {
+    if (a.type !== b.type) return a.type === "organization" ? -1 : 1;
+    return (a.names[0] ?? "").localeCompare(
+      b.names[0] ?? "",
+      "sv",
+      SORT_COMPARE_OPTIONS
+    );
+  });
+};
+
+export const resolveMailingLabelLayout = (
+  templateId?: string | null
+): MailingLabelLayout =>
+  MAILING_LABEL_TEMPLATES[templateId as keyof typeof MAILING_LABEL_TEMPLATES] ??
+  MAILING_LABEL_TEMPLATES[DEFAULT_MAILING_LABEL_TEMPLATE];
+
+const buildLabelLines = (
+  recipient: MailingRecipient,
+  maxLines: number,
+  moreOwnersText: string
+): string[] => {
+  const postalCity = [recipient.postalCode, recipient.city]
+    .filter(Boolean)
+    .join("  ");
+  const addressLines = [recipient.address, postalCity].filter(Boolean);
+  const nameLines = Math.max(1, maxLines - addressLines.length);
+
+  const names =
+    recipient.names.length > nameLines
+      ? [
+          ...recipient.names.slice(0, nameLines - 1),
+          moreOwnersText.replace(
+            "{count}",
+            String(recipient.names.length - nameLines + 1)
+          ),
+        ]
+      : recipient.names;
+
+  return [...names, ...addressLines].slice(0, maxLines);
+};
+
+/**
+ * Lays out one label per recipient with a postal address on sheets of the
+ * given grid, filling rows left to right.
+ * @returns The PDF file bytes; an empty sheet when nobody has an address.
+ */
+export const buildMailingLabelsPdf = (
+  recipients: readonly MailingRecipient[],
+  options: MailingExportOptions = {
+    layout: resolveMailingLabelLayout(),
+    moreOwnersText: DEFAULT_MORE_OWNERS_TEXT,
+  }
+): Uint8Array => {
+  const { layout, moreOwnersText } = options;
+  const pageWidth = layout.pageWidth * PDF_MM_TO_PT;
+  const pageHeight = layout.pageHeight * PDF_MM_TO_PT;
+  const labelWidth = layout.labelWidth * PDF_MM_TO_PT;
+  const labelHeight = layout.labelHeight * PDF_MM_TO_PT;
+  const padding = MAILING_LABEL_PADDING_MM * PDF_MM_TO_PT;
+  const textWidth = Math.max(0, labelWidth - padding * 2);
+  const maxLines = Math.max(
+    1,
+    Math.floor((labelHeight - padding * 2) / MAILING_LABEL_LINE_HEIGHT)
+  );
+  const labelsPerPage = Math.max(1, layout.columns * layout.rows);
+
+  const addressed = recipients.filter(
+    (recipient) => recipient.address || recipient.postalCode
+  );
+
+  const pages: PdfPage[] = [];
+  for (let start = 0; start < addressed.length; start += labelsPerPage) {
+    const items: PdfItem[] = [];
+    addressed.slice(start, start + labelsPerPage).forEach((recipient, i) => {
+      const column = i % layout.columns;
+      const row = Math.floor(i / layout.columns);
+      const left =
+        (layout.marginLeft + column * (layout.labelWidth + layout.gapX)) *
+        PDF_MM_TO_PT;
+      const top =
+        pageHeight -
+        (layout.marginTop + row * (layout.labelHeight + layout.gapY)) *
+          PDF_MM_TO_PT;
+
+      // Centre the text block vertically so short addresses look tidy
+      const lines = buildLabelLines(recipient, maxLines, moreOwnersText);
+      const blockHeight = lines.length * MAILING_LABEL_LINE_HEIGHT;
+      const firstBaseline =
+        top - (labelHeight - blockHeight) / 2 - MAILING_LABEL_FONT_SIZE;
+
+      lines.forEach((line, lineIndex) => {
+        items.push({
+          type: "text",
+          x: left + padding,
+          y: firstBaseline - lineIndex * MAILING_LABEL_LINE_HEIGHT,
+          text: fitPdfText(line, textWidth, MAILING_LABEL_FONT_SIZE),
+          size: MAILING_LABEL_FONT_SIZE,
+        });
+      });
+    });
+    pages.push({ width: pageWidth, height: pageHeight, items });
+  }
+
+  if (pages.length === 0) {
+    pages.push({ width: pageWidth, height: pageHeight, items: [] });
+  }
+
+  return buildPdfDocument(pages, { title: "Mailing labels" });
+};
@@ -0,0 +1,120 @@
+import {
+  DEFAULT_FIELD_MAPPING,
+  MESSAGE_FNR_SEPARATOR_PATTERN,
+} from "../../config/constants";
+import type {
+  AttributeMap,
+  FnrValue,
+  GridRowData,
+  MessageSelectionRequest,
+} from "../../config/types";
+import { normalizeFnrKey } from "./helpers";
+
+// Strings stay strings: join keys may be non-numeric or have leading zeros,
+// and buildFnrWhereClause quotes them for the query
+const toFnrValue = (value: unknown): FnrValue | null => {
+  if (typeof value === "number") {
+    return Number.isSafeInteger(value) && value >= 0 ? value : null;
+  }
+  if (typeof value !== "string") return null;
+  const trimmed = value.trim();
+  return trimmed || null;
+};
+
+export const dedupeFnrValues = (values: Iterable<unknown>): FnrValue[] => {
+  const seen = new Set<string>();
+  const fnrs: FnrValue[] = [];
+  for (const value of values) {
+    const fnr = toFnrValue(value);
+    if (fnr === null) continue;
+    const key = normalizeFnrKey(fnr);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    fnrs.push(fnr);
+  }
+  return fnrs;
+};
+
+// Comma, semicolon or whitespace separated
+export const parseFnrList = (input: string | null | undefined): FnrValue[] => {
+  if (!input) return [];
+  return dedupeFnrValues(input.split(MESSAGE_FNR_SEPARATOR_PATTERN));
+};
+
+export const collectRecordFnrs = (
+  records: ReadonlyArray<{ getData?: () => AttributeMap | null }>,
+  fnrField: string = DEFAULT_FIELD_MAPPING.fnr
+): FnrValue[] => {
+  const values: unknown[] = [];
+  for (const record of records) {
+    const data = record?.getData?.();
+    if (data) {
+      values.push(data[fnrField]);
+    }
+  }
+  return dedupeFnrValues(values);
+};
+
+/**
+ * One graphic per property (rows repeat per owner share), carrying the FNR
+ * under both the canonical and the configured source field name.
+ */
+export const buildMessageRecordGraphics = (params: {
+  rows: ReadonlyArray<
+    Pick<GridRowData, "FNR" | "geometry" | "geometryType" | "rawProperty">
+  >;
+  createGraphic: (properties: __esri.GraphicProperties) => __esri.Graphic;
+  fnrField?: string;
+}): __esri.Graphic[] => {
+  const { rows, createGraphic, fnrField = DEFAULT_FIELD_MAPPING.fnr } = params;
+  const seen = new Set<string>();
+  const graphics: __esri.Graphic[] = [];
+
+  for (const row of rows) {
+    const key = normalizeFnrKey(row?.FNR);
+    if (!key || seen.has(key)) continue;
+    seen.add(key);
+    // Serialized rows carry Esri JSON without a type key; autocast needs one
+    const geometry =
+      row.geometry && row.geometryType
+        ? ({
+            ...row.geometry,
+            type: row.geometryType,
+          } as unknown as __esri.GeometryProperties)
+        : null;
+    graphics.push(
+      createGraphic({
+        attributes: {
+          ...(row.rawProperty ?? {}),
+          [DEFAULT_FIELD_MAPPING.fnr]: row.FNR,
+          [fnrField]: row.FNR,
+        },
+        geometry,
+      })
+    );
+  }
+
+  return graphics;
+};
+
+export const isMessageSelectionRequest = (
+  value: unknown
+): value is MessageSelectionRequest => {
+  if (!value || typeof value !== "object") return false;
+  const candidate = value as {
+    id?: unknown;
+    kind?: unknown;
+    geometries?: unknown;
+    fnrs?: unknown;
+  };
+  if (typeof candidate.id !== "number") return false;
+  if (candidate.kind === "geometry") {
+    return (
+      Array.isArray(candidate.geometries) && candidate.geometries.length > 0
+    );
+  }
+  if (candidate.kind === "fnr") {
+    return Array.isArray(candidate.fnrs) && candidate.fnrs.length > 0;
+  }
+  return false;
+};
@@ -0,0 +1,318 @@
+import {
+  PDF_A4_HEIGHT,
+  PDF_A4_WIDTH,
+  PDF_TEXT_COLOR,
+} from "../../config/constants";
+import type {
+  PdfColor,
+  PdfDocumentInfo,
+  PdfImage,
+  PdfItem,
+  PdfPage,
+} from "../../config/types";
+
+// =============================================================================
+// TEXT ENCODING
+// The standard Helvetica fonts with WinAnsiEncoding cover Swedish letters
+// =============================================================================
+
+// Helvetica advance widths (1/1000 em) for ASCII 32–126, from the core AFM
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278,
+  278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584,
+  584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556,
+  833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278,
+  278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222,
+  500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500,
+  500, 334, 260, 334, 584,
+];
+const DEFAULT_CHAR_WIDTH = 556;
+// Bold glyphs are slightly wider; overestimating keeps text inside its box
+const BOLD_WIDTH_FACTOR = 1.08;
+const ELLIPSIS = "…";
+
+// Windows-1252 code points that differ from Latin-1
+const WIN_ANSI_EXTRAS: { readonly [char: string]: number } = {
+  "€": 0x80,
+  "…": 0x85,
+  "‘": 0x91,
+  "’": 0x92,
+  "“": 0x93,
+  "”": 0x94,
+  "•": 0x95,
+  "–": 0x96,
+  "—": 0x97,
+};
+
+const toWinAnsiCode = (char: string): number => {
+  const code = char.codePointAt(0) ?? 0x3f;
+  if ((code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff)) {
+    return code;
+  }
+  return WIN_ANSI_EXTRAS[char] ?? 0x3f;
+};
+
+// PDF literal string; bytes outside ASCII are written as octal escapes
+const encodePdfText = (text: string): string => {
+  let result = "";
+  for (const char of text.replace(/\s+/g, " ")) {
+    const code = toWinAnsiCode(char);
+    if (code === 0x28 || code === 0x29 || code === 0x5c) {
+      result += `\\${char}`;
+    } else if (code > 0x7e) {
+      result += `\\${code.toString(8).padStart(3, "0")}`;
+    } else {
+      result += String.fromCharCode(code);
+    }
+  }
+  return `(${result})`;
+};
+
+export const estimatePdfTextWidth = (
+  text: string,
+  size: number,
+  bold = false
+): number => {
+  let units = 0;
+  for (const char of text) {
+    const code = char.codePointAt(0) ?? 0;
+    units +=
+      code >= 32 && code <= 126
+        ? HELVETICA_WIDTHS[code - 32]
+        : DEFAULT_CHAR_WIDTH;
+  }
+  return ((units * size) / 1000) * (bold ? BOLD_WIDTH_FACTOR : 1);
+};
+
+/**
+ * Shortens text with an ellipsis until it fits the width.
+ * @returns The text unchanged when it already fits.
+ */
+export const fitPdfText = (
+  text: string,
+  maxWidth: number,
+  size: number,
+  bold = false
+): string => {
+  if (estimatePdfTextWidth(text, size, bold) <= maxWidth) return text;
+  const chars = Array.from(text);
+  while (chars.length > 0) {
+    chars.pop();
+    const candidate = `${chars.join("").trimEnd()}${ELLIPSIS}`;
+    if (estimatePdfTextWidth(candidate, size, bold) <= maxWidth) {
+      return candidate;
+    }
+  }
+  return "";
+};
+
+/**
+ * Breaks text into lines at spaces so each fits the width. Words longer
+ * than a line are shortened with an ellipsis.
+ */
+export const wrapPdfText = (
+  text: string,
+  maxWidth: number,
+  size: number,
+  bold = false
+): string[] => {
+  const words = text.split(/\s+/).filter(Boolean);
+  const lines: string[] = [];
+  let current = "";
+
+  words.forEach((word) => {
+    const candidate = current ? `${current} ${word}` : word;
+    if (estimatePdfTextWidth(candidate, size, bold) <= maxWidth) {
+      current = candidate;
+      return;
+    }
+    if (current) lines.push(current);
+    current = fitPdfText(word, maxWidth, size, bold);
+  });
+
+  if (current) lines.push(current);
+  return lines.length > 0 ? lines : [""];
+};
+
+// =============================================================================
+// PAGE CONTENT
+// =============================================================================
+
+const formatNumber = (value: number): string =>
+  String(Math.round(value * 100) / 100);
+
+const formatColor = (color: PdfColor): string =>
+  color.map((component) => formatNumber(component)).join(" ");
+
+const buildItemOperators = (
+  item: PdfItem,
+  getImageName: (image: PdfImage) => string
+): string => {
+  switch (item.type) {
+    case "text": {
+      const font = item.bold ? "F2" : "F1";
+      const color = formatColor(item.color ?? PDF_TEXT_COLOR);
+      return (
+        `BT ${color} rg /${font} ${formatNumber(item.size)} Tf ` +
+        `${formatNumber(item.x)} ${formatNumber(item.y)} Td ` +
+        `${encodePdfText(item.text)} Tj ET`
+      );
+    }
+    case "rect": {
+      if (!item.fill && !item.stroke) return "";
+      const box = [item.x, item.y, item.width, item.height]
+        .map(formatNumber)
+        .join(" ");
+      const paint = item.fill && item.stroke ? "B" : item.fill ? "f" : "S";
+      return [
+        "q",
+        item.fill ? `${formatColor(item.fill)} rg` : "",
+        item.stroke ? `${formatColor(item.stroke)} RG` : "",
+        `${formatNumber(item.lineWidth ?? 1)} w`,
+        `${box} re ${paint}`,
+        "Q",
+      ]
+        .filter(Boolean)
+        .join(" ");
+    }
+    case "line":
+      return [
+        "q",
+        `${formatColor(item.color ?? PDF_TEXT_COLOR)} RG`,
+        `${formatNumber(item.lineWidth ?? 1)} w`,
+        `${formatNumber(item.x1)} ${formatNumber(item.y1)} m`,
+        `${formatNumber(item.x2)} ${formatNumber(item.y2)} l S`,
+        "Q",
+      ].join(" ");
+    case "image":
+      return (
+        `q ${formatNumber(item.width)} 0 0 ${formatNumber(item.height)} ` +
+        `${formatNumber(item.x)} ${formatNumber(item.y)} cm ` +
+        `/${getImageName(item.image)} Do Q`
+      );
+    default:
+      return "";
+  }
+};
+
+const toPdfDate = (date: Date): string => {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return (
+    `D:${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}` +
+    `${pad(date.getUTCDate())}${pad(date.getUTCHours())}` +
+    `${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`
+  );
+};
+
+// Binary stream data kept as one character per byte, in chunks to spare
+// the call stack on large images
+const bytesToLatin1 = (bytes: Uint8Array): string => {
+  const chunkSize = 0x8000;
+  let result = "";
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    result += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return result;
+};
+
+// Every character is a single byte, so string length equals byte offset
+const toLatin1Bytes = (text: string): Uint8Array => {
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i += 1) {
+    bytes[i] = text.charCodeAt(i) & 0xff;
+  }
+  return bytes;
+};
+
+/**
+ * Builds a PDF 1.4 document without external libraries. Text uses the
+ * built-in Helvetica fonts (`bold` selects Helvetica-Bold); each distinct
+ * JPEG image is stored once, however often it is drawn.
+ * @param pages - Pages in order; at least one blank page is always written.
+ * @param info - Optional title and creation date for the document info.
+ * @returns The PDF file bytes.
+ */
+export const buildPdfDocument = (
+  pages: readonly PdfPage[],
+  info: PdfDocumentInfo = {}
+): Uint8Array => {
+  const pageList: readonly PdfPage[] =
+    pages.length > 0
+      ? pages
+      : [{ width: PDF_A4_WIDTH, height: PDF_A4_HEIGHT, items: [] }];
+
+  // Objects 1–5 are fixed; each page adds a page and a content object, and
+  // images follow the last page
+  const firstPageId = 6;
+  const pageIds = pageList.map((_page, index) => firstPageId + index * 2);
+  const images: PdfImage[] = [];
+  pageList.forEach((page) => {
+    page.items.forEach((item) => {
+      if (item.type === "image" && !images.includes(item.image)) {
+        images.push(item.image);
+      }
+    });
+  });
+  const firstImageId = firstPageId + pageList.length * 2;
+  const getImageName = (image: PdfImage) => `Im${images.indexOf(image) + 1}`;
+  const xObjects = images
+    .map((_image, index) => `/Im${index + 1} ${firstImageId + index} 0 R`)
+    .join(" ");
+  const resources =
+    "/Resources << /Font << /F1 3 0 R /F2 4 0 R >>" +
+    `${xObjects ? ` /XObject << ${xObjects} >>` : ""} >> `;
+
+  const kids = pageIds.map((id) => `${id} 0 R`).join(" ");
+  const objects: string[] = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    `<< /Type /Pages /Kids [${kids}] /Count ${pageList.length} >>`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>",
+    `<< /Producer (Property Owner Widget) /CreationDate (${toPdfDate(
+      info.created ?? new Date()
+    )})${info.title ? ` /Title ${encodePdfText(info.title)}` : ""} >>`,
+  ];
+
+  pageList.forEach((page, index) => {
+    const contentId = pageIds[index] + 1;
+    const content = page.items
+      .map((item) => buildItemOperators(item, getImageName))
+      .filter(Boolean);
+    const stream = content.join("\n");
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${formatNumber(
+        page.width
+      )} ${formatNumber(page.height)}] ` +
+        resources +
+        `/Contents ${contentId} 0 R >>`,
+      `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`
+    );
+  });
+
+  images.forEach((image) => {
+    objects.push(
+      `<< /Type /XObject /Subtype /Image /Width ${image.width} ` +
+        `/Height ${image.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 ` +
+        `/Filter /DCTDecode /Length ${image.data.length} >>\nstream\n` +
+        `${bytesToLatin1(image.data)}\nendstream`
+    );
+  });
+
+  let output = "%PDF-1.4\n%âãÏÓ\n";
+  const offsets: number[] = [];
+  objects.forEach((body, index) => {
+    offsets.push(output.length);
+    output += `${index + 1} 0 obj\n${body}\nendobj\n`;
+  });
+
+  const xrefOffset = output.length;
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  output += offsets
+    .map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`)
+    .join("");
+  output +=
+    `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\n` +
+    `startxref\n${xrefOffset}\n%%EOF\n`;
+
+  return toLatin1Bytes(output);
+};
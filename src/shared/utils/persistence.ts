@@ -0,0 +1,240 @@
+import {
+  CSV_OPTIONS_STORAGE_PREFIX,
+  CSV_OPTIONS_STORAGE_VERSION,
+  SELECTION_PERSISTENCE_MODES,
+  SELECTION_STORAGE_PREFIX,
+  SELECTION_STORAGE_VERSION,
+  SHARE_FNR_SEPARATOR,
+  SHARE_HASH_PARAM_PREFIX,
+  SHARE_URL_MAX_LENGTH,
+} from "../../config/constants";
+import type {
+  CsvExportOptions,
+  FnrValue,
+  GridRowData,
+  SelectionPersistence,
+  ShareUrlPayload,
+  StoredCsvExportOptions,
+  StoredSelection,
+  ValidationResult,
+} from "../../config/types";
+import { resolveCsvExportOptions } from "./export";
+import { dedupeFnrValues } from "./messages";
+import { collectReportFnrs } from "./report";
+import { createValidationError } from "./validation";
+
+export const resolveSelectionPersistence = (
+  value: unknown
+): SelectionPersistence =>
+  SELECTION_PERSISTENCE_MODES.includes(value as SelectionPersistence)
+    ? (value as SelectionPersistence)
+    : "off";
+
+export const buildSelectionStorageKey = (
+  appId: string | null | undefined,
+  widgetId: string
+): string => `${SELECTION_STORAGE_PREFIX}:${appId || "app"}:${widgetId}`;
+
+// Storage can be missing or throw (privacy mode, sandboxed frames)
+export const getSelectionStorage = (
+  mode: SelectionPersistence
+): Storage | null => {
+  if (mode === "off" || typeof window === "undefined") return null;
+  try {
+    return mode === "local" ? window.localStorage : window.sessionStorage;
+  } catch (_error) {
+    return null;
+  }
+};
+
+export const saveStoredSelection = (
+  storage: Storage | null,
+  key: string,
+  rows: ReadonlyArray<Pick<GridRowData, "FNR">>
+): boolean => {
+  if (!storage) return false;
+  try {
+    const fnrs = dedupeFnrValues(rows.map((row) => row?.FNR));
+    if (fnrs.length === 0) {
+      storage.removeItem(key);
+      return true;
+    }
+    const payload: StoredSelection = {
+      version: SELECTION_STORAGE_VERSION,
+      fnrs,
+      savedAt: Date.now(),
+    };
+    storage.setItem(key, JSON.stringify(payload));
+    return true;
+  } catch (_error) {
+    return false;
+  }
+};
+
+export const loadStoredSelection = (
+  storage: Storage | null,
+  key: string
+): FnrValue[] => {
+  if (!storage) return [];
+  try {
+    const raw = storage.getItem(key);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw) as Partial<StoredSelection> | null;
+    if (
+      parsed?.version !== SELECTION_STORAGE_VERSION ||
+      !Array.isArray(parsed.fnrs)
+    ) {
+      return [];
+    }
+    return dedupeFnrValues(parsed.fnrs);
+  } catch (_error) {
+    return [];
+  }
+};
+
+const getShareParamName = (widgetId: string): string =>
+  `${SHARE_HASH_PARAM_PREFIX}${widgetId}`;
+
+const parseHashParams = (hash: string): URLSearchParams =>
+  new URLSearchParams(hash.replace(/^#/, ""));
+
+export const readSharedSelection = (
+  hash: string | null | undefined,
+  widgetId: string
+): FnrValue[] => {
+  if (!hash) return [];
+  const value = parseHashParams(hash).get(getShareParamName(widgetId));
+  if (!value) return [];
+  try {
+    return dedupeFnrValues(
+      value.split(SHARE_FNR_SEPARATOR).map((fnr) => decodeURIComponent(fnr))
+    );
+  } catch (_error) {
+    return [];
+  }
+};
+
+// Drops this widget's share parameter and keeps any other hash state
+export const removeSharedSelectionParam = (
+  href: string,
+  widgetId: string
+): string => {
+  try {
+    const url = new URL(href);
+    const params = parseHashParams(url.hash);
+    if (!params.has(getShareParamName(widgetId))) return href;
+    params.delete(getShareParamName(widgetId));
+    url.hash = params.toString();
+    return url.toString();
+  } catch (_error) {
+    return href;
+  }
+};
+
+export const buildSelectionShareUrl = (params: {
+  href: string;
+  widgetId: string;
+  rows: ReadonlyArray<Pick<GridRowData, "FNR">>;
+  translate: (key: string) => string;
+}): ValidationResult<ShareUrlPayload> => {
+  const { href, widgetId, rows, translate } = params;
+
+  const fnrs = collectReportFnrs(rows);
+  if (fnrs.length === 0) {
+    return createValidationError(
+      "VALIDATION_ERROR",
+      translate("noPropertiesSelected"),
+      "share_no_properties"
+    );
+  }
+
+  let url: URL;
+  try {
+    url = new URL(href);
+  } catch (_error) {
+    return createValidationError(
+      "VALIDATION_ERROR",
+      translate("errorShareLinkFailed"),
+      "share_invalid_location"
+    );
+  }
+
+  const hashParams = parseHashParams(url.hash);
+  // Each key is encoded so a separator inside a string key survives
+  hashParams.set(
+    getShareParamName(widgetId),
+    fnrs.map((fnr) => encodeURIComponent(fnr)).join(SHARE_FNR_SEPARATOR)
+  );
+  url.hash = hashParams.toString();
+
+  const shareUrl = url.toString();
+  if (shareUrl.length > SHARE_URL_MAX_LENGTH) {
+    return createValidationError(
+      "VALIDATION_ERROR",
+      translate("errorShareLinkTooLong"),
+      "share_url_too_long"
+    );
+  }
+
+  return { valid: true, data: { url: shareUrl, count: fnrs.length } };
+};
+
+// CSV choices follow the user between sessions; anonymous users share a key
+export const buildCsvOptionsStorageKey = (
+  username: string | null | undefined,
+  appId: string | null | undefined,
+  widgetId: string
+): string =>
+  [
+    CSV_OPTIONS_STORAGE_PREFIX,
+    username || "anonymous",
+    appId || "app",
+    widgetId,
+  ].join(":");
+
+export const getPreferenceStorage = (): Storage | null => {
+  if (typeof window === "undefined") return null;
+  try {
+    return window.localStorage;
+  } catch (_error) {
+    return null;
+  }
+};
+
+export const saveCsvExportOptions = (
+  storage: Storage | null,
+  key: string,
+  options: CsvExportOptions
+): boolean => {
+  if (!storage) return false;
+  try {
+    const payload: StoredCsvExportOptions = {
+      version: CSV_OPTIONS_STORAGE_VERSION,
+      ...resolveCsvExportOptions(options),
+    };
+    storage.setItem(key, JSON.stringify(payload));
+    return true;
+  } catch (_error) {
+    return false;
+  }
+};
+
+/**
+ * Reads the user's last CSV choices.
+ * @returns null when nothing usable is stored.
+ */
+export const loadCsvExportOptions = (
+  storage: Storage | null,
+  key: string
+): CsvExportOptions | null => {
+  if (!storage) return null;
+  try {
+    const raw = storage.getItem(key);
+    if (!raw) return null;
+    const parsed = JSON.parse(raw) as Partial<StoredCsvExportOptions> | null;
+    if (parsed?.version !== CSV_OPTIONS_STORAGE_VERSION) return null;
+    return resolveCsvExportOptions(parsed);
+  } catch (_error) {
+    return null;
+  }
+};
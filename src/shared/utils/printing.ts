@@ -0,0 +1,346 @@
+import {
+  PDF_A4_HEIGHT,
+  PDF_A4_WIDTH,
+  REPORT_COLUMN_WIDTHS,
+  REPORT_EXTENT_EXPAND,
+  REPORT_HEADER_FILL,
+  REPORT_LEGEND_SWATCH_SIZE,
+  REPORT_MAP_MAX_HEIGHT,
+  REPORT_META_FONT_SIZE,
+  REPORT_MUTED_COLOR,
+  REPORT_PAGE_MARGIN,
+  REPORT_RULE_COLOR,
+  REPORT_SCREENSHOT_QUALITY,
+  REPORT_TABLE_CELL_PADDING,
+  REPORT_TABLE_FONT_SIZE,
+  REPORT_TABLE_LINE_HEIGHT,
+  REPORT_TITLE_FONT_SIZE,
+} from "../../config/constants";
+import type {
+  GridRowData,
+  OwnerMasking,
+  PdfColor,
+  PdfImage,
+  PdfItem,
+  PdfPage,
+  PropertyReportOptions,
+} from "../../config/types";
+import { trackError } from "../telemetry";
+import { formatColumnValue } from "./columns";
+import { isAbortError } from "./helpers";
+import { buildPdfDocument, estimatePdfTextWidth, wrapPdfText } from "./pdf";
+import { formatOwnerInfo } from "./privacy";
+
+// =============================================================================
+// MAP SNAPSHOT
+// =============================================================================
+
+export const decodeDataUrl = (dataUrl: string): Uint8Array | null => {
+  const match = /^data:[^;,]*;base64,(.*)$/.exec(dataUrl);
+  if (!match || typeof atob !== "function") return null;
+  try {
+    const binary = atob(match[1]);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i += 1) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+  } catch (_error) {
+    return null;
+  }
+};
+
+/**
+ * Zooms to the selection, takes a JPEG screenshot of the view and returns
+ * to where the user was. Failures are tracked, never thrown.
+ * @returns null when the view cannot be captured; the report then goes
+ * without a map.
+ */
+export const captureSelectionSnapshot = async (
+  view: __esri.MapView | null | undefined,
+  extent: __esri.Extent | null
+): Promise<PdfImage | null> => {
+  if (!view || typeof view.takeScreenshot !== "function") return null;
+
+  const viewpoint = view.viewpoint?.clone();
+  try {
+    if (extent) {
+      await view.goTo(extent.clone().expand(REPORT_EXTENT_EXPAND), {
+        animate: false,
+      });
+    }
+    const screenshot = await view.takeScreenshot({
+      format: "jpg",
+      quality: REPORT_SCREENSHOT_QUALITY,
+    });
+    const data = decodeDataUrl(screenshot.dataUrl);
+    if (!data || !screenshot.data) return null;
+    const { width, height } = screenshot.data;
+    return { data, width, height };
+  } catch (error) {
+    if (!isAbortError(error)) {
+      trackError("report_snapshot", error);
+    }
+    return null;
+  } finally {
+    if (extent && viewpoint) {
+      view.goTo(viewpoint, { animate: false }).catch((error: unknown) => {
+        if (!isAbortError(error)) {
+          trackError("report_snapshot_restore", error);
+        }
+      });
+    }
+  }
+};
+
+// =============================================================================
+// REPORT LAYOUT
+// =============================================================================
+
+// The PDF has no transparency, so the legend shows the fill as seen on white
+const blendOnWhite = (
+  highlightColor: PropertyReportOptions["highlightColor"]
+): PdfColor => {
+  const [r, g, b, a] = highlightColor;
+  const blend = (channel: number) => (channel / 255) * a + (1 - a);
+  return [blend(r), blend(g), blend(b)];
+};
+
+const toPdfColor = ([r, g, b]: PropertyReportOptions["highlightColor"]) =>
+  [r / 255, g / 255, b / 255] as const;
+
+const resolveOwnerText = (
+  row: GridRowData,
+  masking: OwnerMasking,
+  unknownOwnerText: string
+): string => {
+  if (row.rawOwner) {
+    return formatOwnerInfo(row.rawOwner, masking, unknownOwnerText);
+  }
+  return row.ADDRESS || row.BOSTADR || unknownOwnerText;
+};
+
+/**
+ * Lays out the property report: title, date, map snapshot with legend, then
+ * one table row per owner in the given order, repeating the header on each
+ * page. Owner text follows the masking like the table does.
+ * @returns The PDF file bytes.
+ */
+export const buildPropertyReportPdf = (
+  rows: readonly GridRowData[],
+  masking: OwnerMasking,
+  unknownOwnerText: string,
+  options: PropertyReportOptions,
+  now: Date = new Date()
+): Uint8Array => {
+  const { labels, mapImage } = options;
+  const margin = REPORT_PAGE_MARGIN;
+  const contentWidth = PDF_A4_WIDTH - margin * 2;
+  const columnWidths = REPORT_COLUMN_WIDTHS.map(
+    (share) => share * contentWidth
+  );
+  const padding = REPORT_TABLE_CELL_PADDING;
+  const lineHeight = REPORT_TABLE_LINE_HEIGHT;
+  const fontSize = REPORT_TABLE_FONT_SIZE;
+  // Leave room for the page number under the table
+  const bottomLimit = margin + lineHeight;
+
+  const pages: PdfItem[][] = [];
+  let items: PdfItem[] = [];
+  let y = PDF_A4_HEIGHT - margin;
+
+  const measureRow = (cells: readonly string[], bold: boolean) => {
+    const cellLines = cells.map((cell, index) =>
+      wrapPdfText(cell, columnWidths[index] - padding * 2, fontSize, bold)
+    );
+    const height =
+      Math.max(...cellLines.map((lines) => lines.length)) * lineHeight +
+      padding * 2;
+    return { cellLines, height };
+  };
+
+  const drawRow = (
+    cells: readonly string[],
+    bold: boolean,
+    fill?: PdfColor
+  ) => {
+    const { cellLines, height } = measureRow(cells, bold);
+    if (fill) {
+      items.push({
+        type: "rect",
+        x: margin,
+        y: y - height,
+        width: contentWidth,
+        height,
+        fill,
+      });
+    }
+
+    let x = margin;
+    cellLines.forEach((lines, index) => {
+      lines.forEach((line, lineIndex) => {
+        items.push({
+          type: "text",
+          x: x + padding,
+          // Baseline sits about one descent above the bottom of the line
+          y: y - padding - (lineIndex + 1) * lineHeight + fontSize * 0.2,
+          text: line,
+          size: fontSize,
+          bold,
+        });
+      });
+      x += columnWidths[index];
+    });
+
+    y -= height;
+    items.push({
+      type: "line",
+      x1: margin,
+      y1: y,
+      x2: margin + contentWidth,
+      y2: y,
+      color: REPORT_RULE_COLOR,
+      lineWidth: 0.5,
+    });
+  };
+
+  const headerCells = [labels.designation, labels.owner, labels.share];
+
+  const startPage = () => {
+    items = [];
+    pages.push(items);
+    y = PDF_A4_HEIGHT - margin;
+  };
+
+  // First page: title block, map and legend
+  startPage();
+  items.push({
+    type: "text",
+    x: margin,
+    y: y - REPORT_TITLE_FONT_SIZE,
+    text: labels.title,
+    size: REPORT_TITLE_FONT_SIZE,
+    bold: true,
+  });
+  y -= REPORT_TITLE_FONT_SIZE + 6;
+  items.push({
+    type: "text",
+    x: margin,
+    y: y - REPORT_META_FONT_SIZE,
+    text: labels.created,
+    size: REPORT_META_FONT_SIZE,
+    color: REPORT_MUTED_COLOR,
+  });
+  y -= REPORT_META_FONT_SIZE + 14;
+
+  if (mapImage && mapImage.width > 0 && mapImage.height > 0) {
+    const scale = Math.min(
+      contentWidth / mapImage.width,
+      REPORT_MAP_MAX_HEIGHT / mapImage.height
+    );
+    const width = mapImage.width * scale;
+    const height = mapImage.height * scale;
+    const x = margin + (contentWidth - width) / 2;
+    items.push(
+      { type: "image", x, y: y - height, width, height, image: mapImage },
+      {
+        type: "rect",
+        x,
+        y: y - height,
+        width,
+        height,
+        stroke: REPORT_RULE_COLOR,
+        lineWidth: 0.5,
+      }
+    );
+    y -= height + 10;
+  } else {
+    items.push({
+      type: "text",
+      x: margin,
+      y: y - REPORT_META_FONT_SIZE,
+      text: labels.mapUnavailable,
+      size: REPORT_META_FONT_SIZE,
+      color: REPORT_MUTED_COLOR,
+    });
+    y -= REPORT_META_FONT_SIZE + 10;
+  }
+
+  const swatch = REPORT_LEGEND_SWATCH_SIZE;
+  items.push(
+    {
+      type: "rect",
+      x: margin,
+      y: y - swatch,
+      width: swatch,
+      height: swatch,
+      fill: blendOnWhite(options.highlightColor),
+      stroke: toPdfColor(options.highlightColor),
+      lineWidth: Math.min(Math.max(options.outlineWidth, 0.5), 3),
+    },
+    {
+      type: "text",
+      x: margin + swatch + 6,
+      y: y - swatch + 3,
+      text: labels.legend,
+      size: REPORT_META_FONT_SIZE,
+    }
+  );
+  y -= swatch + 18;
+
+  // Owner table, with the header repeated on every page
+  drawRow(headerCells, true, REPORT_HEADER_FILL);
+  let previousDesignation: string | null = null;
+  rows.forEach((row) => {
+    const designation = String(row.FASTIGHET || row.FNR || "");
+    const cells = [
+      designation,
+      resolveOwnerText(row, masking, unknownOwnerText),
+      formatColumnValue(row.rawOwner?.ANDEL, "fraction"),
+    ];
+
+    if (y - measureRow(cells, false).height < bottomLimit) {
+      startPage();
+      drawRow(headerCells, true, REPORT_HEADER_FILL);
+      previousDesignation = null;
+    }
+
+    // The designation is shown once per run of owner rows
+    drawRow(
+      [
+        designation === previousDesignation ? "" : designation,
+        cells[1],
+        cells[2],
+      ],
+      false
+    );
+    previousDesignation = designation;
+  });
+
+  const total = pages.length;
+  const pdfPages: PdfPage[] = pages.map((pageItems, index) => {
+    const pageText = labels.page
+      .replace("{page}", String(index + 1))
+      .replace("{total}", String(total));
+    return {
+      width: PDF_A4_WIDTH,
+      height: PDF_A4_HEIGHT,
+      items: [
+        ...pageItems,
+        {
+          type: "text",
+          x:
+            PDF_A4_WIDTH -
+            margin -
+            estimatePdfTextWidth(pageText, REPORT_META_FONT_SIZE),
+          y: margin / 2,
+          text: pageText,
+          size: REPORT_META_FONT_SIZE,
+          color: REPORT_MUTED_COLOR,
+        },
+      ],
+    };
+  });
+
+  return buildPdfDocument(pdfPages, { title: labels.title, created: now });
+};
@@ -1,12 +1,24 @@
 import {
+  ADDRESS_MASK_STRATEGIES,
   DEFAULT_MASK,
+  DEFAULT_MASKING_POLICY,
   IDENTITY_KEY_PREFIXES,
   MAX_MASK_ASTERISKS,
   MIN_MASK_LENGTH,
+  NAME_MASK_STRATEGIES,
+  ORG_NUMBER_MASK_STRATEGIES,
   SPACE_CHAR_CODE,
 } from "../../config/constants";
-import type { FnrValue, OwnerAttributes } from "../../config/types";
-import { sanitizeTextContent } from "./helpers";
+import type {
+  FnrValue,
+  GridRowData,
+  MaskingPolicy,
+  OwnerAttributes,
+  OwnerListEntry,
+  OwnerMasking,
+  OwnerMaskField,
+} from "../../config/types";
+import { isRecord, sanitizeTextContent } from "./helpers";
 
 const createMasker = (maskFn: (normalized: string) => string) => {
   return (value: string): string => {
@@ -48,6 +60,95 @@ export const ownerPrivacy = {
 export const maskName = ownerPrivacy.maskName;
 export const maskAddress = ownerPrivacy.maskAddress;
 
+const maskInitials = createMasker((normalized: string): string =>
+  normalized
+    .split(" ")
+    .filter(Boolean)
+    .map((part) => `${part.charAt(0)}.`)
+    .join(" ")
+);
+
+const pickStrategy = <T extends string>(
+  value: unknown,
+  allowed: readonly T[],
+  fallback: T
+): T => (allowed.includes(value as T) ? (value as T) : fallback);
+
+// Settings values to a complete policy; unknown strategies use the default
+export const resolveMaskingPolicy = (value: unknown): MaskingPolicy => {
+  const config = isRecord(value) ? value : {};
+  return {
+    name: pickStrategy(
+      config.name,
+      NAME_MASK_STRATEGIES,
+      DEFAULT_MASKING_POLICY.name
+    ),
+    address: pickStrategy(
+      config.address,
+      ADDRESS_MASK_STRATEGIES,
+      DEFAULT_MASKING_POLICY.address
+    ),
+    // Earlier versions offered "hash"; a 10-digit number is easily recovered
+    // from any hash the browser can compute, so those configs now redact
+    orgNumber:
+      config.orgNumber === "hash"
+        ? "redact"
+        : pickStrategy(
+            config.orgNumber,
+            ORG_NUMBER_MASK_STRATEGIES,
+            DEFAULT_MASKING_POLICY.orgNumber
+          ),
+    exemptOrganizations:
+      typeof config.exemptOrganizations === "boolean"
+        ? config.exemptOrganizations
+        : DEFAULT_MASKING_POLICY.exemptOrganizations,
+  };
+};
+
+const toMaskingPolicy = (masking: OwnerMasking): MaskingPolicy | null => {
+  if (!masking) return null;
+  return masking === true ? DEFAULT_MASKING_POLICY : masking;
+};
+
+const isOrganizationOwner = (
+  owner: Partial<OwnerAttributes> | null | undefined
+): boolean => Boolean(sanitizeTextContent(String(owner?.ORGNR ?? "")));
+
+/**
+ * The policy that applies to one owner, or null when nothing is masked
+ * (masking off, or an organisation owner under an exempting policy).
+ */
+export const resolveOwnerMasking = (
+  masking: OwnerMasking,
+  owner?: Partial<OwnerAttributes> | null
+): MaskingPolicy | null => {
+  const policy = toMaskingPolicy(masking);
+  if (!policy) return null;
+  return policy.exemptOrganizations && isOrganizationOwner(owner)
+    ? null
+    : policy;
+};
+
+const maskNameValue = (value: string, policy: MaskingPolicy): string => {
+  switch (policy.name) {
+    case "initials":
+      return maskInitials(value);
+    case "redact":
+      return DEFAULT_MASK;
+    default:
+      return ownerPrivacy.maskName(value);
+  }
+};
+
+const maskOrgNumberValue = (value: string, policy: MaskingPolicy): string => {
+  switch (policy.orgNumber) {
+    case "redact":
+      return DEFAULT_MASK;
+    default:
+      return value;
+  }
+};
+
 const normalizeOwnerValue = (value: unknown): string => {
   if (value === null || value === undefined) return "";
   if (typeof value === "number") return sanitizeTextContent(String(value));
@@ -136,48 +237,137 @@ const deduplicateEntries = (entries: string[]): string[] => {
     });
 };
 
-const maskOwnerListEntry = (entry: string): string => {
-  const match = entry.match(/^(.+?)\s*\(([^)]+)\)\s*$/);
-  if (!match) return ownerPrivacy.maskName(entry);
+const OWNER_LIST_ENTRY_PATTERN = /^(.+?)\s*\(([^)]+)\)\s*$/;
+
+const maskOwnerListEntry = (entry: string, policy: MaskingPolicy): string => {
+  const match = entry.match(OWNER_LIST_ENTRY_PATTERN);
+  if (!match) return maskNameValue(entry, policy);
 
   const [, name, orgNr] = match;
-  return `${ownerPrivacy.maskName(name.trim())} (${orgNr.trim()})`;
+  return `${maskNameValue(name.trim(), policy)} (${maskOrgNumberValue(
+    orgNr.trim(),
+    policy
+  )})`;
 };
 
-const formatPostalCity = (postalCode: string, city: string): string => {
+const maskOwnerList = (agarLista: string, policy: MaskingPolicy): string => {
+  const uniqueEntries = deduplicateEntries(agarLista.split(";"));
+  return uniqueEntries
+    .map((entry) => maskOwnerListEntry(entry, policy))
+    .join("; ");
+};
+
+/**
+ * Masks one owner value by the policy rule for its field. Redacted postal
+ * code and city are dropped; other redacted values become the mask.
+ */
+export const maskOwnerValue = (
+  field: OwnerMaskField,
+  value: string,
+  policy: MaskingPolicy
+): string => {
+  const normalized = sanitizeTextContent(value);
+  if (!normalized) return "";
+
+  switch (field) {
+    case "name":
+      return maskNameValue(normalized, policy);
+    case "address":
+      return policy.address === "partial"
+        ? ownerPrivacy.maskAddress(normalized)
+        : DEFAULT_MASK;
+    case "postalCode":
+    case "city":
+      return policy.address === "redact" ? "" : normalized;
+    case "orgNumber":
+      return maskOrgNumberValue(normalized, policy);
+    case "ownerList":
+      return maskOwnerList(normalized, policy);
+    default:
+      return normalized;
+  }
+};
+
+type MaskedOwnerKey =
+  | "NAMN"
+  | "BOSTADR"
+  | "POSTNR"
+  | "POSTADR"
+  | "ORGNR"
+  | "AGARLISTA";
+
+const OWNER_MASK_FIELDS: ReadonlyArray<[MaskedOwnerKey, OwnerMaskField]> = [
+  ["NAMN", "name"],
+  ["BOSTADR", "address"],
+  ["POSTNR", "postalCode"],
+  ["POSTADR", "city"],
+  ["ORGNR", "orgNumber"],
+  ["AGARLISTA", "ownerList"],
+];
+
+/**
+ * Copy of the owner with every personal field masked by the policy, so
+ * table, clipboard and exports format the same masked values.
+ */
+export const maskOwnerAttributes = (
+  owner: OwnerAttributes,
+  masking: OwnerMasking
+): OwnerAttributes => {
+  const policy = resolveOwnerMasking(masking, owner);
+  if (!policy) return owner;
+
+  const masked: OwnerAttributes = { ...owner };
+  OWNER_MASK_FIELDS.forEach(([key, field]) => {
+    const value = normalizeOwnerValue(owner[key]);
+    if (value) masked[key] = maskOwnerValue(field, value, policy);
+  });
+  return masked;
+};
+
+// "Name (orgnr); Name (orgnr)" entries from AGARLISTA, masked like the table
+export const parseOwnerListEntries = (
+  agarLista: unknown,
+  masking: OwnerMasking,
+  owner?: Partial<OwnerAttributes> | null
+): OwnerListEntry[] => {
+  const sanitized = normalizeOwnerValue(agarLista);
+  if (!sanitized) return [];
+  const policy = resolveOwnerMasking(masking, owner);
+
+  return deduplicateEntries(sanitized.split(";")).map((entry) => {
+    const match = entry.match(OWNER_LIST_ENTRY_PATTERN);
+    const name = match ? match[1].trim() : entry;
+    const orgNumber = match ? match[2].trim() : "";
+    return {
+      name: policy ? maskNameValue(name, policy) : name,
+      orgNumber:
+        policy && orgNumber ? maskOrgNumberValue(orgNumber, policy) : orgNumber,
+    };
+  });
+};
+
+export const formatPostalCity = (
+  postalCode: string,
+  city: string
+): string => {
   if (!postalCode && !city) return "";
   if (postalCode && city) return `${postalCode} ${city}`;
   return postalCode || city;
 };
 
-const formatOwnerList = (agarLista: string, maskPII: boolean): string => {
+const formatOwnerList = (agarLista: string, masking: OwnerMasking): string => {
   const sanitized = sanitizeTextContent(String(agarLista));
-  const uniqueEntries = deduplicateEntries(sanitized.split(";"));
-
-  if (!maskPII) return uniqueEntries.join("; ");
-
-  const masked: string[] = [];
-  for (let i = 0; i < uniqueEntries.length; i += 1) {
-    const entry = uniqueEntries[i];
-    if (entry) masked.push(maskOwnerListEntry(entry));
-  }
-  return masked.join("; ");
+  const policy = toMaskingPolicy(masking);
+  if (policy) return maskOwnerList(sanitized, policy);
+  return deduplicateEntries(sanitized.split(";")).join("; ");
 };
 
 const formatIndividualOwner = (
   owner: OwnerAttributes,
-  maskPII: boolean,
   unknownOwnerText: string
 ): string => {
-  const rawName = sanitizeTextContent(owner.NAMN || "") || unknownOwnerText;
-  const namePart =
-    maskPII && rawName !== unknownOwnerText
-      ? ownerPrivacy.maskName(rawName)
-      : rawName;
-
-  const rawAddress = sanitizeTextContent(owner.BOSTADR || "");
-  const addressPart =
-    maskPII && rawAddress ? ownerPrivacy.maskAddress(rawAddress) : rawAddress;
+  const namePart = sanitizeTextContent(owner.NAMN || "") || unknownOwnerText;
+  const addressPart = sanitizeTextContent(owner.BOSTADR || "");
 
   const postalCode = sanitizeTextContent(owner.POSTNR || "").replace(
     /\s+/g,
@@ -199,28 +389,50 @@ const formatIndividualOwner = (
 
 export const formatOwnerInfo = (
   owner: OwnerAttributes,
-  maskPII: boolean,
+  maskPII: OwnerMasking,
   unknownOwnerText: string
 ): string => {
+  const masking = resolveOwnerMasking(maskPII, owner) ?? false;
   if (owner.AGARLISTA && typeof owner.AGARLISTA === "string") {
-    return formatOwnerList(owner.AGARLISTA, maskPII);
+    return formatOwnerList(owner.AGARLISTA, masking);
   }
-  return formatIndividualOwner(owner, maskPII, unknownOwnerText);
+  return formatIndividualOwner(
+    maskOwnerAttributes(owner, masking),
+    unknownOwnerText
+  );
 };
 
+/**
+ * Rebuilds the owner text of rows that carry raw owner data, so the table
+ * always follows the current masking. Other rows are returned as is.
+ */
+export const reformatOwnerRows = (
+  rows: readonly GridRowData[],
+  maskPII: OwnerMasking,
+  unknownOwnerText: string
+): GridRowData[] =>
+  rows.map((row) => {
+    if (!row.rawOwner || typeof row.rawOwner !== "object") return row;
+    const formattedOwner = formatOwnerInfo(
+      row.rawOwner,
+      maskPII,
+      unknownOwnerText
+    );
+    return { ...row, BOSTADR: formattedOwner, ADDRESS: formattedOwner };
+  });
+
 export const formatAddressOnly = (
   owner: OwnerAttributes,
-  maskPII: boolean
+  maskPII: OwnerMasking
 ): string => {
-  const rawAddress = sanitizeTextContent(owner.BOSTADR || "");
-  const addressPart =
-    maskPII && rawAddress ? ownerPrivacy.maskAddress(rawAddress) : rawAddress;
+  const masked = maskOwnerAttributes(owner, maskPII);
+  const addressPart = sanitizeTextContent(masked.BOSTADR || "");
 
-  const postalCode = sanitizeTextContent(owner.POSTNR || "").replace(
+  const postalCode = sanitizeTextContent(masked.POSTNR || "").replace(
     /\s+/g,
     ""
   );
-  const city = sanitizeTextContent(owner.POSTADR || "");
+  const city = sanitizeTextContent(masked.POSTADR || "");
 
   let result = addressPart;
   const postalCity = formatPostalCity(postalCode, city);
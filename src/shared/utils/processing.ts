@@ -1,10 +1,18 @@
 import type { DataSourceManager } from "jimu-core";
 import type {
+  BufferOrigin,
+  BufferSelectionPipelineParams,
+  BufferSelectionPipelineResult,
+  BufferUnit,
   CreateGridRowParams,
+  FnrSelectionPipelineParams,
   FnrValue,
   GridRowData,
   IMConfig,
+  ListSelectionPipelineParams,
+  ListSelectionPipelineResult,
   OwnerAttributes,
+  OwnerMasking,
   OwnerQueryResolution,
   ProcessingAccumulator,
   ProcessPropertyQueryParams,
@@ -19,9 +27,12 @@ import type {
   SerializedQueryResult,
   SerializedQueryResultMap,
   SerializedRecord,
+  SketchSelectionPipelineParams,
+  SketchSelectionPipelineResult,
   ValidatedProperty,
 } from "../../config/types";
 import { propertyActions } from "../../extensions/store";
+import { resolveFieldMapping } from "./fields";
 import { getValidatedOutlineWidth } from "./formatting";
 import { buildHighlightColor } from "./graphics";
 import {
@@ -45,6 +56,7 @@ export const createGridRow = (params: CreateGridRowParams): GridRowData => ({
   geometryType: params.geometryType,
   geometry: params.geometry ?? null,
   rawOwner: params.rawOwner,
+  rawProperty: params.rawProperty,
 });
 
 export const accumulatePropertyRows = (
@@ -74,7 +86,7 @@ export const accumulatePropertyRows = (
 const mapOwnerToGridRow = (
   owner: OwnerAttributes,
   validated: ValidatedProperty,
-  maskPII: boolean,
+  maskPII: OwnerMasking,
   context: PropertyProcessingContext,
   geometryType: string | null,
   serializedGeometry: SerializedRecord | null
@@ -100,13 +112,14 @@ const mapOwnerToGridRow = (
     geometry: serializedGeometry,
     createRowId,
     rawOwner: owner,
+    rawProperty: attrs,
   });
 };
 
 const createOwnerRows = (
   validated: ValidatedProperty,
   owners: OwnerAttributes[],
-  maskPII: boolean,
+  maskPII: OwnerMasking,
   context: PropertyProcessingContext,
   geometryType: string | null,
   serializedGeometry: SerializedRecord | null
@@ -169,6 +182,7 @@ const createFallbackRow = (
       geometry: serializedGeometry,
       createRowId: context.helpers.createRowId,
       rawOwner: fallbackOwner,
+      rawProperty: validated.attrs,
     }),
   ];
 };
@@ -177,7 +191,7 @@ export const buildPropertyRows = (
   validated: ValidatedProperty,
   owners: OwnerAttributes[],
   queryFailed: boolean,
-  maskPII: boolean,
+  maskPII: OwnerMasking,
   context: PropertyProcessingContext
 ): GridRowData[] => {
   const geometry = validated.graphic.geometry;
@@ -316,7 +330,7 @@ export const processOwnerResult = (params: {
   resolution: OwnerQueryResolution;
   validated: ValidatedProperty;
   context: PropertyProcessingContext;
-  maskPII: boolean;
+  maskPII: OwnerMasking;
   accumulator: ProcessingAccumulator;
   currentRowCount: number;
   maxResults: number;
@@ -708,7 +722,7 @@ export const executePropertyQueryPipeline = async (params: {
   dsManager: DataSourceManager;
   maxResults: number;
   toggleEnabled: boolean;
-  enablePIIMasking: boolean;
+  enablePIIMasking: OwnerMasking;
   selectedProperties: GridRowData[];
   signal: AbortSignal;
   translate: (key: string) => string;
@@ -727,6 +741,137 @@ export const executePropertyQueryPipeline = async (params: {
     relationshipId: params.config.relationshipId,
     enablePIIMasking: params.enablePIIMasking,
     signal: params.signal,
+    fieldMapping: resolveFieldMapping(params.config.fieldMapping),
+    selectedProperties: params.selectedProperties,
+    translate: params.translate,
+  });
+};
+
+export const executeBufferQueryPipeline = async (params: {
+  mapPoint: __esri.Point;
+  sourceGeometry?: __esri.Geometry | null;
+  bufferDistance: number;
+  bufferUnit: BufferUnit;
+  bufferOrigin: BufferOrigin;
+  config: IMConfig;
+  dsManager: DataSourceManager;
+  maxResults: number;
+  enablePIIMasking: OwnerMasking;
+  selectedProperties: GridRowData[];
+  signal: AbortSignal;
+  translate: (key: string) => string;
+  runPipeline: (
+    input: BufferSelectionPipelineParams
+  ) => Promise<BufferSelectionPipelineResult>;
+}): Promise<BufferSelectionPipelineResult> => {
+  return params.runPipeline({
+    mapPoint: params.mapPoint,
+    sourceGeometry: params.sourceGeometry,
+    bufferDistance: params.bufferDistance,
+    bufferUnit: params.bufferUnit,
+    bufferOrigin: params.bufferOrigin,
+    propertyDataSourceId: params.config.propertyDataSourceId,
+    ownerDataSourceId: params.config.ownerDataSourceId,
+    dsManager: params.dsManager,
+    maxResults: params.maxResults,
+    enableBatchOwnerQuery: params.config.enableBatchOwnerQuery,
+    relationshipId: params.config.relationshipId,
+    enablePIIMasking: params.enablePIIMasking,
+    signal: params.signal,
+    fieldMapping: resolveFieldMapping(params.config.fieldMapping),
+    selectedProperties: params.selectedProperties,
+    translate: params.translate,
+  });
+};
+
+export const executeSketchQueryPipeline = async (params: {
+  geometry: __esri.Geometry;
+  bufferDistance?: number;
+  bufferUnit?: BufferUnit;
+  config: IMConfig;
+  dsManager: DataSourceManager;
+  maxResults: number;
+  enablePIIMasking: OwnerMasking;
+  selectedProperties: GridRowData[];
+  signal: AbortSignal;
+  translate: (key: string) => string;
+  runPipeline: (
+    input: SketchSelectionPipelineParams
+  ) => Promise<SketchSelectionPipelineResult>;
+}): Promise<SketchSelectionPipelineResult> => {
+  return params.runPipeline({
+    geometry: params.geometry,
+    bufferDistance: params.bufferDistance,
+    bufferUnit: params.bufferUnit,
+    propertyDataSourceId: params.config.propertyDataSourceId,
+    ownerDataSourceId: params.config.ownerDataSourceId,
+    dsManager: params.dsManager,
+    maxResults: params.maxResults,
+    enableBatchOwnerQuery: params.config.enableBatchOwnerQuery,
+    relationshipId: params.config.relationshipId,
+    enablePIIMasking: params.enablePIIMasking,
+    signal: params.signal,
+    fieldMapping: resolveFieldMapping(params.config.fieldMapping),
+    selectedProperties: params.selectedProperties,
+    translate: params.translate,
+  });
+};
+
+export const executeFnrQueryPipeline = async (params: {
+  fnrs: readonly FnrValue[];
+  config: IMConfig;
+  dsManager: DataSourceManager;
+  maxResults: number;
+  enablePIIMasking: OwnerMasking;
+  selectedProperties: GridRowData[];
+  signal: AbortSignal;
+  translate: (key: string) => string;
+  runPipeline: (
+    input: FnrSelectionPipelineParams
+  ) => Promise<PropertySelectionPipelineResult>;
+}): Promise<PropertySelectionPipelineResult> => {
+  return params.runPipeline({
+    fnrs: params.fnrs,
+    propertyDataSourceId: params.config.propertyDataSourceId,
+    ownerDataSourceId: params.config.ownerDataSourceId,
+    dsManager: params.dsManager,
+    maxResults: params.maxResults,
+    enableBatchOwnerQuery: params.config.enableBatchOwnerQuery,
+    relationshipId: params.config.relationshipId,
+    enablePIIMasking: params.enablePIIMasking,
+    signal: params.signal,
+    fieldMapping: resolveFieldMapping(params.config.fieldMapping),
+    selectedProperties: params.selectedProperties,
+    translate: params.translate,
+  });
+};
+
+export const executeListQueryPipeline = async (params: {
+  fnrs: readonly FnrValue[];
+  designations: readonly string[];
+  config: IMConfig;
+  dsManager: DataSourceManager;
+  maxResults: number;
+  enablePIIMasking: OwnerMasking;
+  selectedProperties: GridRowData[];
+  signal: AbortSignal;
+  translate: (key: string) => string;
+  runPipeline: (
+    input: ListSelectionPipelineParams
+  ) => Promise<ListSelectionPipelineResult>;
+}): Promise<ListSelectionPipelineResult> => {
+  return params.runPipeline({
+    fnrs: params.fnrs,
+    designations: params.designations,
+    propertyDataSourceId: params.config.propertyDataSourceId,
+    ownerDataSourceId: params.config.ownerDataSourceId,
+    dsManager: params.dsManager,
+    maxResults: params.maxResults,
+    enableBatchOwnerQuery: params.config.enableBatchOwnerQuery,
+    relationshipId: params.config.relationshipId,
+    enablePIIMasking: params.enablePIIMasking,
+    signal: params.signal,
+    fieldMapping: resolveFieldMapping(params.config.fieldMapping),
     selectedProperties: params.selectedProperties,
     translate: params.translate,
   });
@@ -854,6 +999,51 @@ export const updatePropertySelectionState = (params: {
   };
 };
 
+/**
+ * Drops every row of one property (one per owner) together with the stored
+ * query results for those rows.
+ */
+export const removePropertyFromSelection = (params: {
+  fnr: FnrValue;
+  selectedProperties: GridRowData[];
+  rawResults:
+    | SerializedQueryResultMap
+    | Map<string, SerializedQueryResult>
+    | null;
+  normalizeFnrKey: (fnr: FnrValue | null | undefined) => string;
+}): {
+  rowsToStore: GridRowData[];
+  resultsToStore: SerializedQueryResultMap | null;
+  removedCount: number;
+} => {
+  const { fnr, selectedProperties, rawResults, normalizeFnrKey: normalize } =
+    params;
+  const targetKey = normalize(fnr);
+  const removedIds = new Set<string>();
+
+  const rowsToStore = selectedProperties.filter((row) => {
+    if (normalize(row.FNR) !== targetKey) {
+      return true;
+    }
+    removedIds.add(row.id);
+    return false;
+  });
+
+  if (!rawResults) {
+    return { rowsToStore, resultsToStore: null, removedCount: removedIds.size };
+  }
+
+  const entries =
+    rawResults instanceof Map
+      ? Array.from(rawResults.entries())
+      : Object.entries(rawResults);
+  const resultsToStore = Object.fromEntries(
+    entries.filter(([rowId]) => !removedIds.has(rowId))
+  ) as SerializedQueryResultMap;
+
+  return { rowsToStore, resultsToStore, removedCount: removedIds.size };
+};
+
 export const scheduleGraphicsRendering = (params: {
   pipelineResult: PropertyPipelineSuccess;
   highlightColor: [number, number, number, number];
@@ -0,0 +1,31 @@
+import { WGS84_WKIDS } from "../../config/constants";
+import { isRecord } from "./helpers";
+
+const toWkid = (value: unknown): number | null =>
+  typeof value === "number" && Number.isInteger(value) && value > 0
+    ? value
+    : null;
+
+/**
+ * Reads the EPSG code of a serialized spatial reference, preferring
+ * `latestWkid` so Esri aliases such as 102100 resolve to 3857.
+ * @returns null when the reference is missing or only has WKT.
+ */
+export const resolveSpatialReferenceWkid = (
+  spatialReference: unknown
+): number | null => {
+  if (!isRecord(spatialReference)) return null;
+  return (
+    toWkid(spatialReference.latestWkid) ?? toWkid(spatialReference.wkid)
+  );
+};
+
+export const isWgs84Wkid = (wkid: number | null): boolean =>
+  wkid !== null && WGS84_WKIDS.includes(wkid);
+
+export const roundCoordinate = (value: number, precision: number): number => {
+  const factor = 10 ** precision;
+  const rounded = Math.round(value * factor) / factor;
+  // Avoid writing -0 into the file
+  return rounded === 0 ? 0 : rounded;
+};
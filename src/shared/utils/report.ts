@@ -0,0 +1,88 @@
+import {
+  FBWEBB_FNR_SEPARATOR,
+  FBWEBB_MAX_URL_LENGTH,
+  FBWEBB_URL_PARAMS,
+} from "../../config/constants";
+import type {
+  FBWebbSettings,
+  GridRowData,
+  ReportUrlPayload,
+  ValidationResult,
+} from "../../config/types";
+import { normalizeFnrKey } from "./helpers";
+import { createValidationError, isValidReportUrl } from "./validation";
+
+export const collectReportFnrs = (
+  rows: ReadonlyArray<Pick<GridRowData, "FNR">>
+): string[] => {
+  const seen = new Set<string>();
+  const fnrs: string[] = [];
+
+  for (let i = 0; i < rows.length; i++) {
+    const key = normalizeFnrKey(rows[i]?.FNR);
+    if (!key || seen.has(key)) continue;
+    seen.add(key);
+    fnrs.push(key);
+  }
+
+  return fnrs;
+};
+
+export const isReportConfigured = (settings: FBWebbSettings): boolean =>
+  Boolean(settings.baseUrl?.trim());
+
+export const buildFBWebbReportUrl = (params: {
+  settings: FBWebbSettings;
+  rows: ReadonlyArray<Pick<GridRowData, "FNR">>;
+  allowedHosts?: readonly string[];
+  translate: (key: string) => string;
+}): ValidationResult<ReportUrlPayload> => {
+  const { settings, rows, allowedHosts, translate } = params;
+  const baseUrl = settings.baseUrl?.trim() ?? "";
+  const database = settings.database?.trim() ?? "";
+  const user = settings.user?.trim() ?? "";
+
+  if (!baseUrl || !database || !user) {
+    return createValidationError(
+      "VALIDATION_ERROR",
+      translate("errorReportNotConfigured"),
+      "report_not_configured"
+    );
+  }
+
+  if (!isValidReportUrl(baseUrl, allowedHosts)) {
+    return createValidationError(
+      "VALIDATION_ERROR",
+      translate("errorHostNotAllowed"),
+      "report_disallowed_host"
+    );
+  }
+
+  const fnrs = collectReportFnrs(rows);
+  if (fnrs.length === 0) {
+    return createValidationError(
+      "VALIDATION_ERROR",
+      translate("noPropertiesSelected"),
+      "report_no_properties"
+    );
+  }
+
+  const url = new URL(baseUrl);
+  url.searchParams.set(FBWEBB_URL_PARAMS.DATABASE, database);
+  url.searchParams.set(FBWEBB_URL_PARAMS.USER, user);
+  url.searchParams.set(
+    FBWEBB_URL_PARAMS.FNR,
+    fnrs.join(FBWEBB_FNR_SEPARATOR)
+  );
+
+  const href = url.toString();
+  if (href.length > FBWEBB_MAX_URL_LENGTH) {
+    return createValidationError(
+      "VALIDATION_ERROR",
+      translate("errorReportUrlTooLong"),
+      "report_url_too_long"
+    );
+  }
+
+  return { valid: true, data: { url: href, count: fnrs.length } };
+};
@@ -0,0 +1,109 @@
+import { QUERY_DEFAULTS } from "../../config/constants";
+import type { QueryError, RequestPolicyOptions } from "../../config/types";
+import { abortHelpers, isRetryableQueryError } from "./helpers";
+
+const createTimeoutError = (timeoutMs: number): QueryError => {
+  const error = new Error(
+    `Request timed out after ${timeoutMs} ms`
+  ) as QueryError;
+  error.name = "TimeoutError";
+  error.category = "timeout";
+  return error;
+};
+
+// Exponential backoff with jitter so retries from many clients spread out
+export const getRetryDelay = (
+  attempt: number,
+  options: Pick<
+    RequestPolicyOptions,
+    "baseDelayMs" | "maxDelayMs" | "random"
+  > = {}
+): number => {
+  const baseDelay = options.baseDelayMs ?? QUERY_DEFAULTS.RETRY_BASE_DELAY_MS;
+  const maxDelay = options.maxDelayMs ?? QUERY_DEFAULTS.RETRY_MAX_DELAY_MS;
+  const random = options.random ?? Math.random;
+  const ceiling = Math.min(maxDelay, baseDelay * 2 ** attempt);
+  return Math.round(ceiling / 2 + (random() * ceiling) / 2);
+};
+
+// Resolves early on abort; the caller checks the signal afterwards
+const waitForRetry = (delayMs: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve) => {
+    const finish = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", finish);
+      resolve();
+    };
+    const timer = setTimeout(finish, delayMs);
+    signal?.addEventListener("abort", finish);
+  });
+
+/**
+ * One attempt under its own timeout. The request gets a signal that aborts
+ * when either the caller's signal aborts or the timeout elapses.
+ */
+const runAttempt = <T>(
+  request: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<T> =>
+  new Promise<T>((resolve, reject) => {
+    const controller = new AbortController();
+
+    const cleanup = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", handleAbort);
+    };
+    const handleAbort = () => {
+      cleanup();
+      controller.abort();
+      reject(abortHelpers.createAbortError());
+    };
+    const timer = setTimeout(() => {
+      cleanup();
+      controller.abort();
+      reject(createTimeoutError(timeoutMs));
+    }, timeoutMs);
+    signal?.addEventListener("abort", handleAbort);
+
+    request(controller.signal).then(
+      (value) => {
+        cleanup();
+        resolve(value);
+      },
+      (error: unknown) => {
+        cleanup();
+        reject(error);
+      }
+    );
+  });
+
+/**
+ * Runs an ArcGIS request with a per-attempt timeout and retries transient
+ * failures (network, timeout, 5xx). Query errors and aborts are thrown at
+ * once.
+ */
+export const runWithRequestPolicy = async <T>(
+  request: (signal: AbortSignal) => Promise<T>,
+  options: RequestPolicyOptions = {}
+): Promise<T> => {
+  const { signal } = options;
+  const maxRetries = options.maxRetries ?? QUERY_DEFAULTS.MAX_RETRY_ATTEMPTS;
+  const timeoutMs = options.timeoutMs ?? QUERY_DEFAULTS.TIMEOUT_MS;
+
+  for (let attempt = 0; ; attempt++) {
+    abortHelpers.throwIfAborted(signal);
+    try {
+      return await runAttempt(request, timeoutMs, signal);
+    } catch (error) {
+      if (
+        signal?.aborted ||
+        attempt >= maxRetries ||
+        !isRetryableQueryError(error)
+      ) {
+        throw error;
+      }
+    }
+    await waitForRetry(getRetryDelay(attempt, options), signal);
+  }
+};
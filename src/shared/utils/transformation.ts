@@ -2,6 +2,7 @@ import type { SortingState } from "@tanstack/react-table";
 import type {
   ClipboardPayload,
   GridRowData,
+  OwnerMasking,
   SerializedQueryResult,
   SerializedQueryResultMap,
 } from "../../config/types";
@@ -57,7 +58,7 @@ export const collectSelectedRawData = (
 export const buildClipboardPayload = (
   selection: GridRowData[],
   sorting: SortingState,
-  maskEnabled: boolean,
+  maskEnabled: OwnerMasking,
   translateFn: (key: string) => string
 ): ClipboardPayload | null => {
   if (!selection.length) {
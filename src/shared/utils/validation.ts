@@ -1,10 +1,21 @@
 import type { DataSourceManager, FeatureLayerDataSource } from "jimu-core";
-import { LOCALHOST_PATTERNS, PRIVATE_IP_REGEX } from "../../config/constants";
+import {
+  BUFFER_DEFAULT_ORIGIN,
+  BUFFER_MAX_DISTANCE_METERS,
+  BUFFER_ORIGINS,
+  BUFFER_UNIT_TO_METERS,
+  LOCALHOST_PATTERNS,
+  PRIVATE_IP_REGEX,
+} from "../../config/constants";
 import type {
+  BufferOrigin,
+  BufferUnit,
   ErrorState,
   EsriModules,
+  FnrValue,
   IMConfig,
   MapClickValidationParams,
+  SelectionListEntry,
   ValidationFailureResult,
   ValidationPipelineExecutor,
   ValidationResult,
@@ -131,6 +142,49 @@ export const isValidArcGISUrl = (
   }
 };
 
+export const isValidReportUrl = (
+  url: string,
+  allowedHosts?: readonly string[]
+): boolean => {
+  if (!url || typeof url !== "string") {
+    return false;
+  }
+
+  try {
+    const parsed = new URL(url);
+    if (!isValidHttpsUrl(parsed)) {
+      return false;
+    }
+
+    // Credentials belong in config fields, never in the URL itself
+    if (parsed.username || parsed.password) {
+      return false;
+    }
+
+    if (isPrivateHost(parsed.hostname)) {
+      return false;
+    }
+
+    return isHostAllowed(parsed.hostname, allowedHosts);
+  } catch (_error) {
+    return false;
+  }
+};
+
+/**
+ * Audit events carry FNRs and user names, so unlike report URLs the endpoint
+ * host must always be listed explicitly under allowed hosts.
+ */
+export const isValidAuditEndpoint = (
+  url: string,
+  allowedHosts?: readonly string[]
+): boolean => {
+  if (!allowedHosts || allowedHosts.length === 0) {
+    return false;
+  }
+  return isValidReportUrl(url, allowedHosts);
+};
+
 const validateSingleDataSource = (
   dataSource: FeatureLayerDataSource | null,
   role: "property" | "owner",
@@ -361,3 +415,192 @@ export const validateMapClickRequest = (params: {
     },
   };
 };
+
+export const validateSketchSelectionRequest = (params: {
+  geometry: __esri.Geometry | null | undefined;
+  modules: EsriModules | null;
+  config: IMConfig;
+  dsManager: DataSourceManager | null;
+  translate: (key: string) => string;
+}): ValidationResult<{
+  geometry: __esri.Geometry;
+  manager: DataSourceManager;
+}> => {
+  const { geometry, modules, config, dsManager, translate } = params;
+
+  if (!modules) {
+    return createValidationError(
+      "VALIDATION_ERROR",
+      translate("errorLoadingModules"),
+      "modules_not_loaded"
+    );
+  }
+
+  // A click without dragging yields a degenerate shape with an empty extent
+  const extent = geometry?.extent;
+  if (!geometry || !extent || (extent.width === 0 && extent.height === 0)) {
+    return createValidationError(
+      "GEOMETRY_ERROR",
+      translate("errorInvalidSketch"),
+      "invalid_sketch_geometry"
+    );
+  }
+
+  const dsValidation = validateDataSourcesCore({
+    propertyDsId: config.propertyDataSourceId,
+    ownerDsId: config.ownerDataSourceId,
+    dsManager,
+    allowedHosts: config.allowedHosts,
+    translate,
+  });
+  if (checkValidationFailure(dsValidation)) {
+    return dsValidation as ValidationResult<{
+      geometry: __esri.Geometry;
+      manager: DataSourceManager;
+    }>;
+  }
+
+  return {
+    valid: true,
+    data: {
+      geometry,
+      manager: (
+        dsValidation as { valid: true; data: { manager: DataSourceManager } }
+      ).data.manager,
+    },
+  };
+};
+
+export const validateFnrSelectionRequest = (params: {
+  fnrs: readonly FnrValue[];
+  modules: EsriModules | null;
+  config: IMConfig;
+  dsManager: DataSourceManager | null;
+  translate: (key: string) => string;
+}): ValidationResult<{
+  fnrs: readonly FnrValue[];
+  manager: DataSourceManager;
+}> => {
+  const { fnrs, modules, config, dsManager, translate } = params;
+
+  if (!modules) {
+    return createValidationError(
+      "VALIDATION_ERROR",
+      translate("errorLoadingModules"),
+      "modules_not_loaded"
+    );
+  }
+
+  if (fnrs.length === 0) {
+    return createValidationError(
+      "VALIDATION_ERROR",
+      translate("errorNoValidFnr"),
+      "no_valid_fnr"
+    );
+  }
+
+  const dsValidation = validateDataSourcesCore({
+    propertyDsId: config.propertyDataSourceId,
+    ownerDsId: config.ownerDataSourceId,
+    dsManager,
+    allowedHosts: config.allowedHosts,
+    translate,
+  });
+  if (checkValidationFailure(dsValidation)) {
+    return dsValidation as ValidationResult<{
+      fnrs: readonly FnrValue[];
+      manager: DataSourceManager;
+    }>;
+  }
+
+  return {
+    valid: true,
+    data: {
+      fnrs,
+      manager: (
+        dsValidation as { valid: true; data: { manager: DataSourceManager } }
+      ).data.manager,
+    },
+  };
+};
+
+export const validateListSelectionRequest = (params: {
+  entries: readonly SelectionListEntry[];
+  modules: EsriModules | null;
+  config: IMConfig;
+  dsManager: DataSourceManager | null;
+  translate: (key: string) => string;
+}): ValidationResult<{
+  entries: readonly SelectionListEntry[];
+  manager: DataSourceManager;
+}> => {
+  const { entries, modules, config, dsManager, translate } = params;
+
+  if (!modules) {
+    return createValidationError(
+      "VALIDATION_ERROR",
+      translate("errorLoadingModules"),
+      "modules_not_loaded"
+    );
+  }
+
+  if (entries.length === 0) {
+    return createValidationError(
+      "VALIDATION_ERROR",
+      translate("errorListEmpty"),
+      "list_empty"
+    );
+  }
+
+  const dsValidation = validateDataSourcesCore({
+    propertyDsId: config.propertyDataSourceId,
+    ownerDsId: config.ownerDataSourceId,
+    dsManager,
+    allowedHosts: config.allowedHosts,
+    translate,
+  });
+  if (checkValidationFailure(dsValidation)) {
+    return dsValidation as ValidationResult<{
+      entries: readonly SelectionListEntry[];
+      manager: DataSourceManager;
+    }>;
+  }
+
+  return {
+    valid: true,
+    data: {
+      entries,
+      manager: (
+        dsValidation as { valid: true; data: { manager: DataSourceManager } }
+      ).data.manager,
+    },
+  };
+};
+
+export const validateBufferDistance = (
+  distance: number,
+  unit: BufferUnit,
+  translate: (key: string) => string
+): ValidationResult<{ distance: number; unit: BufferUnit }> => {
+  const metersPerUnit = BUFFER_UNIT_TO_METERS[unit];
+  const isWithinRange =
+    Number.isFinite(distance) &&
+    distance > 0 &&
+    typeof metersPerUnit === "number" &&
+    distance * metersPerUnit <= BUFFER_MAX_DISTANCE_METERS;
+
+  if (!isWithinRange) {
+    return createValidationError(
+      "VALIDATION_ERROR",
+      translate("invalidDistance"),
+      "invalid_buffer_distance"
+    );
+  }
+
+  return { valid: true, data: { distance, unit } };
+};
+
+export const resolveBufferOrigin = (value: unknown): BufferOrigin =>
+  BUFFER_ORIGINS.includes(value as BufferOrigin)
+    ? (value as BufferOrigin)
+    : BUFFER_DEFAULT_ORIGIN;
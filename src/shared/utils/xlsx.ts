@@ -0,0 +1,360 @@
+import {
+  XLSX_CELL_MAX_LENGTH,
+  XLSX_MAX_COLUMN_WIDTH,
+  XLSX_MIN_COLUMN_WIDTH,
+  XLSX_SHEET_NAME_MAX_LENGTH,
+} from "../../config/constants";
+import type {
+  XlsxCellValue,
+  XlsxColumn,
+  XlsxSheet,
+  ZipEntry,
+} from "../../config/types";
+
+// =============================================================================
+// ZIP CONTAINER
+// Stored (uncompressed) entries are enough for a valid OOXML package
+// =============================================================================
+
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n += 1) {
+    let c = n;
+    for (let k = 0; k < 8; k += 1) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i += 1) {
+    crc = CRC32_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+export const encodeUtf8 = (text: string): Uint8Array => {
+  const bytes: number[] = [];
+  for (const char of text) {
+    const code = char.codePointAt(0) ?? 0;
+    if (code < 0x80) {
+      bytes.push(code);
+    } else if (code < 0x800) {
+      bytes.push(0xc0 | (code >> 6), 0x80 | (code & 0x3f));
+    } else if (code < 0x10000) {
+      bytes.push(
+        0xe0 | (code >> 12),
+        0x80 | ((code >> 6) & 0x3f),
+        0x80 | (code & 0x3f)
+      );
+    } else {
+      bytes.push(
+        0xf0 | (code >> 18),
+        0x80 | ((code >> 12) & 0x3f),
+        0x80 | ((code >> 6) & 0x3f),
+        0x80 | (code & 0x3f)
+      );
+    }
+  }
+  return Uint8Array.from(bytes);
+};
+
+const toDosDateTime = (date: Date): { time: number; date: number } => ({
+  time:
+    (date.getHours() << 11) |
+    (date.getMinutes() << 5) |
+    Math.floor(date.getSeconds() / 2),
+  date:
+    ((Math.max(date.getFullYear(), 1980) - 1980) << 9) |
+    ((date.getMonth() + 1) << 5) |
+    date.getDate(),
+});
+
+export const createZipArchive = (
+  entries: readonly ZipEntry[],
+  modified: Date = new Date()
+): Uint8Array => {
+  const { time, date } = toDosDateTime(modified);
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encodeUtf8(entry.name);
+    const checksum = crc32(entry.data);
+    const size = entry.data.length;
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true);
+    local.setUint16(6, 0x0800, true); // UTF-8 file names
+    local.setUint16(8, 0, true); // stored
+    local.setUint16(10, time, true);
+    local.setUint16(12, date, true);
+    local.setUint32(14, checksum, true);
+    local.setUint32(18, size, true);
+    local.setUint32(22, size, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true);
+    central.setUint16(4, 20, true);
+    central.setUint16(6, 20, true);
+    central.setUint16(8, 0x0800, true);
+    central.setUint16(10, 0, true);
+    central.setUint16(12, time, true);
+    central.setUint16(14, date, true);
+    central.setUint32(16, checksum, true);
+    central.setUint32(20, size, true);
+    central.setUint32(24, size, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true);
+
+    const localHeader = new Uint8Array(local.buffer);
+    localParts.push(localHeader, name, entry.data);
+    centralParts.push(new Uint8Array(central.buffer), name);
+    offset += localHeader.length + name.length + size;
+  }
+
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  const parts = [...localParts, ...centralParts, new Uint8Array(end.buffer)];
+  const archive = new Uint8Array(
+    parts.reduce((sum, part) => sum + part.length, 0)
+  );
+  let position = 0;
+  for (const part of parts) {
+    archive.set(part, position);
+    position += part.length;
+  }
+  return archive;
+};
+
+// =============================================================================
+// SPREADSHEETML PARTS
+// Inline strings keep the package free of a shared string table
+// =============================================================================
+
+// Characters outside the XML 1.0 range make Excel refuse the file
+const INVALID_XML_CHARS =
+  /[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g;
+
+export const escapeXml = (value: string): string =>
+  value
+    .replace(INVALID_XML_CHARS, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+export const getColumnLetter = (index: number): string => {
+  let letter = "";
+  let remaining = index + 1;
+  while (remaining > 0) {
+    const mod = (remaining - 1) % 26;
+    letter = String.fromCharCode(65 + mod) + letter;
+    remaining = Math.floor((remaining - 1) / 26);
+  }
+  return letter;
+};
+
+const toCellText = (value: XlsxCellValue): string => {
+  if (value === null || value === undefined) return "";
+  const text = String(value);
+  return text.length > XLSX_CELL_MAX_LENGTH
+    ? text.slice(0, XLSX_CELL_MAX_LENGTH)
+    : text;
+};
+
+const getDisplayLength = (value: XlsxCellValue): number =>
+  toCellText(value)
+    .split("\n")
+    .reduce((max, line) => Math.max(max, line.length), 0);
+
+/**
+ * Estimates Excel column widths (in characters) from the longest value.
+ * @param sheet - Sheet with headers and rows.
+ * @returns One width per column, clamped to the configured range.
+ */
+export const computeColumnWidths = (sheet: XlsxSheet): number[] =>
+  sheet.columns.map((column, index) => {
+    const longest = sheet.rows.reduce(
+      (max, row) => Math.max(max, getDisplayLength(row[index])),
+      column.header.length
+    );
+    return Math.min(
+      XLSX_MAX_COLUMN_WIDTH,
+      Math.max(XLSX_MIN_COLUMN_WIDTH, Math.ceil(longest * 1.1) + 2)
+    );
+  });
+
+const buildCellXml = (
+  reference: string,
+  value: XlsxCellValue,
+  column: XlsxColumn,
+  styleId: number
+): string => {
+  const style = styleId ? ` s="${styleId}"` : "";
+  if (
+    column.type === "number" &&
+    typeof value === "number" &&
+    Number.isFinite(value)
+  ) {
+    return `<c r="${reference}"${style}><v>${value}</v></c>`;
+  }
+  const text = toCellText(value);
+  if (!text) {
+    return styleId ? `<c r="${reference}"${style}/>` : "";
+  }
+  return `<c r="${reference}"${style} t="inlineStr"><is><t xml:space="preserve">${escapeXml(text)}</t></is></c>`;
+};
+
+const buildSheetXml = (sheet: XlsxSheet): string => {
+  const widths = computeColumnWidths(sheet);
+  const cols = widths
+    .map(
+      (width, index) =>
+        `<col min="${index + 1}" max="${index + 1}" width="${width}" customWidth="1"/>`
+    )
+    .join("");
+
+  const headerCells = sheet.columns
+    .map((column, index) =>
+      buildCellXml(`${getColumnLetter(index)}1`, column.header, column, 1)
+    )
+    .join("");
+  const bodyRows = sheet.rows
+    .map((row, rowIndex) => {
+      const rowNumber = rowIndex + 2;
+      const cells = sheet.columns
+        .map((column, index) =>
+          buildCellXml(
+            `${getColumnLetter(index)}${rowNumber}`,
+            row[index],
+            column,
+            0
+          )
+        )
+        .join("");
+      return `<row r="${rowNumber}">${cells}</row>`;
+    })
+    .join("");
+
+  const pane = sheet.freezeHeader
+    ? '<pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/>'
+    : "";
+
+  return (
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    `<sheetViews><sheetView workbookViewId="0">${pane}</sheetView></sheetViews>` +
+    `<cols>${cols}</cols>` +
+    `<sheetData><row r="1">${headerCells}</row>${bodyRows}</sheetData>` +
+    "</worksheet>"
+  );
+};
+
+// Excel rejects sheet names with []:*?/\ or more than 31 characters
+const sanitizeSheetName = (name: string, index: number): string =>
+  name
+    .replace(/[[\]:*?/\\]/g, " ")
+    .trim()
+    .slice(0, XLSX_SHEET_NAME_MAX_LENGTH) || `Sheet${index + 1}`;
+
+const STYLES_XML =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+  '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font>' +
+  '<font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+  '<fills count="2"><fill><patternFill patternType="none"/></fill>' +
+  '<fill><patternFill patternType="gray125"/></fill></fills>' +
+  '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+  '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+  '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+  '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+  '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>' +
+  "</styleSheet>";
+
+/**
+ * Builds an .xlsx workbook (Office Open XML) without external libraries.
+ * The first row of every sheet is a bold header row.
+ * @param sheets - Sheets in tab order.
+ * @returns The zipped workbook bytes.
+ */
+export const buildXlsxWorkbook = (
+  sheets: readonly XlsxSheet[]
+): Uint8Array => {
+  const sheetEntries = sheets.map((sheet, index) => ({
+    id: index + 1,
+    name: sanitizeSheetName(sheet.name, index),
+    xml: buildSheetXml(sheet),
+  }));
+
+  const contentTypes =
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+    '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+    sheetEntries
+      .map(
+        (sheet) =>
+          `<Override PartName="/xl/worksheets/sheet${sheet.id}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+      )
+      .join("") +
+    "</Types>";
+
+  const rootRels =
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+    "</Relationships>";
+
+  const workbook =
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+    "<sheets>" +
+    sheetEntries
+      .map(
+        (sheet) =>
+          `<sheet name="${escapeXml(sheet.name)}" sheetId="${sheet.id}" r:id="rId${sheet.id}"/>`
+      )
+      .join("") +
+    "</sheets></workbook>";
+
+  const stylesId = sheetEntries.length + 1;
+  const workbookRels =
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    sheetEntries
+      .map(
+        (sheet) =>
+          `<Relationship Id="rId${sheet.id}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${sheet.id}.xml"/>`
+      )
+      .join("") +
+    `<Relationship Id="rId${stylesId}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>` +
+    "</Relationships>";
+
+  return createZipArchive([
+    { name: "[Content_Types].xml", data: encodeUtf8(contentTypes) },
+    { name: "_rels/.rels", data: encodeUtf8(rootRels) },
+    { name: "xl/workbook.xml", data: encodeUtf8(workbook) },
+    { name: "xl/_rels/workbook.xml.rels", data: encodeUtf8(workbookRels) },
+    { name: "xl/styles.xml", data: encodeUtf8(STYLES_XML) },
+    ...sheetEntries.map((sheet) => ({
+      name: `xl/worksheets/sheet${sheet.id}.xml`,
+      data: encodeUtf8(sheet.xml),
+    })),
+  ]);
+};
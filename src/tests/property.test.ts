@@ -5,20 +5,31 @@ import type {
   IMState,
 } from "jimu-core";
 import SeamlessImmutable from "seamless-immutable";
+import type { ColumnDef } from "@tanstack/react-table";
 import { describe, expect, it, jest } from "@jest/globals";
 import "@testing-library/jest-dom";
 import copyLib from "copy-to-clipboard";
 import * as configConstants from "../config/constants";
 import * as apiModule from "../shared/api";
 import * as processingModule from "../shared/utils/processing";
-import { PropertyActionType } from "../config/enums";
+import {
+  createPropertyTableColumns,
+  filterPropertiesForTable,
+  hasActiveFilters,
+  matchesQuickSearch,
+} from "../shared/config";
+import { ErrorType, PropertyActionType } from "../config/enums";
 import type {
+  AuditEvent,
   EsriModules,
+  FnrValue,
   GridRowData,
   IMPropertyGlobalState,
   IMPropertyWidgetState,
   IMStateWithProperty,
+  MaskingPolicy,
   OwnerAttributes,
+  PdfImage,
   PropertyAction,
   PropertyProcessingContext,
   PropertyQueryHelpers,
@@ -29,45 +40,138 @@ import type {
   SerializedQueryFeature,
   SerializedQueryResult,
   SerializedQueryResultMap,
+  SerializedRecord,
+  Wgs84GeometryProjector,
 } from "../config/types";
-import { createPropertySelectors, getStoreId } from "../extensions/store";
+import PropertyReduxStoreExtension, {
+  createPropertySelectors,
+  getStoreId,
+  propertyActions,
+} from "../extensions/store";
 import {
   clearQueryCache,
+  getOwnerQueryCacheStats,
   isValidArcGISUrl,
   propertyQueryService,
+  queryOwnerByFnr,
   queryOwnersByRelationship,
+  queryPropertiesByDesignation,
+  queryPropertiesByFnr,
   queryPropertyByPoint,
+  runBufferSelectionPipeline,
+  runFnrSelectionPipeline,
+  runListSelectionPipeline,
   runPropertySelectionPipeline,
+  runSketchSelectionPipeline,
   validateDataSources,
 } from "../shared/api";
 import {
+  applyFieldMapping,
   applySortingToProperties,
+  buildAuditLogDocument,
+  buildBufferPreviewSymbolJSON,
+  buildCsvOptionsStorageKey,
+  buildEmphasisSymbolJSON,
+  buildFBWebbReportUrl,
   buildFnrWhereClause,
+  buildGraphicEntriesFromRows,
   buildHighlightColor,
   buildHighlightSymbolJSON,
+  buildJSONExportDocument,
+  buildMailingLabelsPdf,
+  buildMailingRecipients,
+  buildMessageRecordGraphics,
+  buildPropertyDetails,
+  buildPropertyReportPdf,
+  buildSelectionShareUrl,
+  buildSelectionStorageKey,
   buildTooltipSymbol,
   calculatePropertyUpdates,
+  canRevealPII,
+  captureSelectionSnapshot,
+  classifyArcGISError,
+  clearAuditEvents,
+  collectCsvColumnOptions,
+  collectRecordFnrs,
   convertToCSV,
   convertToGeoJSON,
-  convertToJSON,
+  convertToMailingCSV,
+  convertToXLSX,
   copyToClipboard,
+  crc32,
+  createAuditEvent,
+  createHttpAuditSink,
   createPropertyDispatcher,
+  createQueryCache,
   createRowId,
+  decodeDataUrl,
+  describeQueryError,
+  diffCacheStats,
+  encodeUtf8,
   exportData,
   extractFnr,
+  findUnresolvedEntries,
+  formatColumnValue,
   formatOwnerInfo,
   formatPropertiesForClipboard,
   formatPropertyWithShare,
+  formatShareTotal,
+  getAuditEvents,
+  getColumnLetter,
+  getRetryDelay,
+  groupRowsByProperty,
   isAbortError,
   isDuplicateProperty,
+  isMessageSelectionRequest,
+  isWgs84Wkid,
+  isValidAuditEndpoint,
+  isValidReportUrl,
+  loadCsvExportOptions,
+  loadStoredSelection,
   maskAddress,
   maskName,
+  maskOwnerAttributes,
+  maskOwnerValue,
   normalizeFnrKey,
+  parseAccessList,
   parseArcGISError,
+  parseFnrList,
+  parseOwnerListEntries,
+  parseSelectionList,
+  parseShareValue,
+  readSharedSelection,
+  recordAuditEvent,
+  recordUnmaskedView,
+  reformatOwnerRows,
+  registerAuditSink,
+  removePropertyFromSelection,
+  removeSharedSelectionParam,
+  resolveBufferOrigin,
+  resolveCsvExportOptions,
+  resolveDisplayColumns,
+  resolveFieldMapping,
+  resolveGeoJsonExportOptions,
+  resolveMailingLabelLayout,
+  resolveMaskingPolicy,
+  resolveOwnerMasking,
+  resolvePIIAccessPolicy,
+  resolveSelectionPersistence,
+  resolveSpatialReferenceWkid,
+  runWithRequestPolicy,
+  saveCsvExportOptions,
+  saveStoredSelection,
   shouldSkipHoverQuery,
   shouldToggleRemove,
+  splitSelectionListEntries,
+  summarizeOwnerShares,
   syncCursorGraphics,
+  toPIIAccessUser,
+  toQueryError,
   updateRawPropertyResults,
+  validateBufferDistance,
+  validateFnrSelectionRequest,
+  validateSketchSelectionRequest,
+  wrapPdfText,
 } from "../shared/utils/index";
 
 const { CURSOR_TOOLTIP_STYLE } = configConstants;
@@ -108,6 +212,7 @@ const createSelectorsTestState = (widgetId: string) => {
         features: [] as SerializedQueryFeature[],
       },
     } as SerializedQueryResultMap,
+    history: { past: [], future: [] },
   };
 
   const widgetState = SeamlessImmutable(baseState) as IMPropertyWidgetState;
@@ -400,7 +505,10 @@ const createMockEsriModules = (
 
 interface FeatureCollectionLike {
   type: string;
+  bbox?: number[];
+  crs?: { type: string; properties: { name: string } };
   features: Array<{
+    bbox?: number[];
     geometry: { type: string; [key: string]: unknown };
     properties: { [key: string]: unknown };
   }>;
@@ -576,6 +684,18 @@ describe("Property Widget - SQL Injection Protection", () => {
     const clause = buildFnrWhereClause("1234\u0000; DROP TABLE");
     expect(clause).toContain("FNR = ");
   });
+
+  it("should use a mapped field name", () => {
+    expect(
+      buildFnrWhereClause(12345, undefined, { fieldName: "FASTIGHETSNYCKEL" })
+    ).toBe("FASTIGHETSNYCKEL = 12345");
+  });
+
+  it("should reject field names that are not plain identifiers", () => {
+    expect(() =>
+      buildFnrWhereClause(12345, undefined, { fieldName: "FNR = 1 OR 1=1 --" })
+    ).toThrow("Invalid FNR field name");
+  });
 });
 
 describe("createPropertyDispatcher", () => {
@@ -788,6 +908,22 @@ describe("Property Widget - Highlight Styling", () => {
       },
     });
   });
+
+  it("should build a denser, heavier emphasis symbol for linked rows", () => {
+    const emphasis = buildEmphasisSymbolJSON([10, 20, 30, 0.4], 2, "polygon");
+
+    expect(emphasis).toMatchObject({
+      style: "solid",
+      color: [10, 20, 30, 0.75],
+      outline: { color: [10, 20, 30, 1], width: 4 },
+    });
+  });
+
+  it("should cap emphasis opacity and keep a minimum outline width", () => {
+    const emphasis = buildEmphasisSymbolJSON([1, 2, 3, 0.9], 0.5, "polyline");
+
+    expect(emphasis).toMatchObject({ color: [1, 2, 3, 1], width: 3 });
+  });
 });
 
 describe("Property Widget - URL Validation", () => {
@@ -1685,215 +1821,2491 @@ describe("Property Selection Pipeline - Performance Optimizations", () => {
   });
 });
 
-describe("Property Widget - Undo Functionality", () => {
-  it("should track remove operations in undo history", () => {
-    const mockRow = {
-      id: "123_1",
-      FNR: "123",
-      UUID_FASTIGHET: "uuid-123",
-      FASTIGHET: "Property 1",
-      BOSTADR: "Owner 1",
-    };
+describe("Buffer Search", () => {
+  const translate = (key: string) => key;
 
-    const undoHistory = [
-      {
-        type: "remove" as const,
-        timestamp: Date.now(),
-        data: [mockRow],
-      },
-    ];
+  it("should accept distances within the metric limit", () => {
+    const result = validateBufferDistance(250, "meters", translate);
+    expect(result.valid).toBe(true);
+    if (result.valid) {
+      expect(result.data).toEqual({ distance: 250, unit: "meters" });
+    }
+  });
 
-    expect(undoHistory).toHaveLength(1);
-    expect(undoHistory[0].type).toBe("remove");
-    expect(undoHistory[0].data).toEqual([mockRow]);
+  it("should reject non-positive and oversized distances", () => {
+    expect(validateBufferDistance(0, "meters", translate).valid).toBe(false);
+    expect(validateBufferDistance(-5, "feet", translate).valid).toBe(false);
+    expect(validateBufferDistance(NaN, "meters", translate).valid).toBe(
+      false
+    );
+
+    const oversized = validateBufferDistance(10, "miles", translate);
+    expect(oversized.valid).toBe(false);
+    if (!oversized.valid) {
+      expect(oversized.error.message).toBe("invalidDistance");
+      expect(oversized.failureReason).toBe("invalid_buffer_distance");
+    }
   });
 
-  it("should track clear operations in undo history", () => {
-    const mockRows = [
+  it("should build a translucent dashed preview symbol", () => {
+    const symbol = buildBufferPreviewSymbolJSON([255, 0, 0, 0.6], 3);
+    expect(symbol.color).toEqual([
+      255,
+      0,
+      0,
+      configConstants.BUFFER_PREVIEW_FILL_OPACITY,
+    ]);
+    expect(symbol.outline).toEqual({
+      style: "dash",
+      color: [255, 0, 0, 1],
+      width: 3,
+    });
+  });
+
+  it("should buffer the clicked parcel and add neighbours without toggling", async () => {
+    const dsManager = createMockDataSourceManager(() => null);
+    const parcelGeometry = { type: "polygon" };
+    const bufferGeometry = { type: "polygon", extent: { width: 100 } };
+    const selected: GridRowData[] = [
       {
         id: "123_1",
         FNR: "123",
         UUID_FASTIGHET: "uuid-123",
-        FASTIGHET: "Property 1",
-        BOSTADR: "Owner 1",
+        FASTIGHET: "Property 123",
+        BOSTADR: "Owner 123",
+        ADDRESS: "Owner 123",
       },
+    ];
+
+    const clickedResults: QueryResult[] = [
       {
-        id: "456_2",
-        FNR: "456",
-        UUID_FASTIGHET: "uuid-456",
-        FASTIGHET: "Property 2",
-        BOSTADR: "Owner 2",
+        propertyId: "123",
+        features: [
+          createMockGraphic({
+            attributes: { FNR: "123", OBJECTID: 1 },
+            geometry: parcelGeometry,
+          }),
+        ],
       },
     ];
-
-    const undoHistory = [
+    const bufferResults: QueryResult[] = [
+      ...clickedResults,
       {
-        type: "clear" as const,
-        timestamp: Date.now(),
-        data: mockRows,
+        propertyId: "456",
+        features: [
+          createMockGraphic({ attributes: { FNR: "456", OBJECTID: 2 } }),
+        ],
       },
     ];
+    const neighbourRow: GridRowData = {
+      id: "456_2",
+      FNR: "456",
+      UUID_FASTIGHET: "uuid-456",
+      FASTIGHET: "Property 456",
+      BOSTADR: "Owner 456",
+      ADDRESS: "Owner 456",
+    };
 
-    expect(undoHistory).toHaveLength(1);
-    expect(undoHistory[0].type).toBe("clear");
-    expect(undoHistory[0].data).toHaveLength(2);
-  });
-
-  it("should limit undo history to MAX_UNDO_HISTORY", () => {
-    const MAX_UNDO_HISTORY = 10;
-    const operations = Array.from({ length: 15 }, (_, i) => ({
-      type: "remove" as const,
-      timestamp: Date.now() + i,
-      data: [
-        {
-          id: `${i}_1`,
-          FNR: `${i}`,
-          UUID_FASTIGHET: `uuid-${i}`,
-          FASTIGHET: `Property ${i}`,
-          BOSTADR: `Owner ${i}`,
-        },
-      ],
-    }));
+    const pointSpy = jest
+      .spyOn(apiModule, "queryPropertyByPoint")
+      .mockResolvedValue(clickedResults);
+    const bufferSpy = jest
+      .spyOn(apiModule, "queryPropertiesInBuffer")
+      .mockResolvedValue({
+        buffer: bufferGeometry as unknown as __esri.Geometry,
+        propertyResults: bufferResults,
+      });
+    const processSpy = jest
+      .spyOn(processingModule, "processPropertyQueryResults")
+      .mockResolvedValue({
+        rowsToProcess: [{ ...selected[0] }, neighbourRow],
+        graphicsToAdd: [],
+      });
+
+    const result = await runBufferSelectionPipeline({
+      mapPoint: createMockPoint(0, 0, { wkid: 3006 }),
+      bufferDistance: 100,
+      bufferUnit: "meters",
+      bufferOrigin: "parcel",
+      propertyDataSourceId: "property",
+      ownerDataSourceId: "owner",
+      dsManager,
+      maxResults: 10,
+      enableBatchOwnerQuery: false,
+      relationshipId: undefined,
+      enablePIIMasking: true,
+      signal: new AbortController().signal,
+      selectedProperties: selected,
+      translate,
+    });
 
-    const limitedHistory = operations.slice(0, MAX_UNDO_HISTORY);
+    expect(bufferSpy.mock.calls[0][0]).toBe(parcelGeometry);
+    expect(result.sourceGeometry).toBe(parcelGeometry);
+    expect(result.buffer).toBe(bufferGeometry);
+    expect(result.selection.status).toBe("success");
+    if (result.selection.status !== "success") {
+      throw new Error("Expected success result");
+    }
+    expect(result.selection.toRemove.size).toBe(0);
+    expect(result.selection.updatedRows.map((row) => row.FNR)).toEqual([
+      "123",
+      "456",
+    ]);
 
-    expect(limitedHistory).toHaveLength(MAX_UNDO_HISTORY);
-    expect(limitedHistory[0].data[0].FNR).toBe("0");
-    expect(limitedHistory[9].data[0].FNR).toBe("9");
+    pointSpy.mockRestore();
+    bufferSpy.mockRestore();
+    processSpy.mockRestore();
   });
 
-  it("should restore properties on undo remove", () => {
-    const removedRow = {
-      id: "123_1",
-      FNR: "123",
-      UUID_FASTIGHET: "uuid-123",
-      FASTIGHET: "Property 1",
-      BOSTADR: "Owner 1",
-    };
+  it("should buffer the clicked point in point mode", async () => {
+    const mapPoint = createMockPoint(10, 20, { wkid: 3006 });
+    const bufferGeometry = { type: "polygon", extent: { width: 100 } };
 
-    const currentProperties = [
-      {
-        id: "456_2",
-        FNR: "456",
-        UUID_FASTIGHET: "uuid-456",
-        FASTIGHET: "Property 2",
-        BOSTADR: "Owner 2",
-      },
-    ];
+    const pointSpy = jest.spyOn(apiModule, "queryPropertyByPoint");
+    const bufferSpy = jest
+      .spyOn(apiModule, "queryPropertiesInBuffer")
+      .mockResolvedValue({
+        buffer: bufferGeometry as unknown as __esri.Geometry,
+        propertyResults: [],
+      });
 
-    const undoOperation = {
-      type: "remove" as const,
-      timestamp: Date.now(),
-      data: [removedRow],
-    };
+    const result = await runBufferSelectionPipeline({
+      mapPoint,
+      bufferDistance: 100,
+      bufferUnit: "meters",
+      bufferOrigin: "point",
+      propertyDataSourceId: "property",
+      ownerDataSourceId: "owner",
+      dsManager: createMockDataSourceManager(() => null),
+      maxResults: 10,
+      enableBatchOwnerQuery: false,
+      relationshipId: undefined,
+      enablePIIMasking: true,
+      signal: new AbortController().signal,
+      selectedProperties: [],
+      translate,
+    });
 
-    const restoredProperties = [...currentProperties, ...undoOperation.data];
+    expect(pointSpy).not.toHaveBeenCalled();
+    expect(bufferSpy.mock.calls[0][0]).toBe(mapPoint);
+    expect(result.sourceGeometry).toBe(mapPoint);
+    expect(result.selection.status).toBe("empty");
 
-    expect(restoredProperties).toHaveLength(2);
-    expect(restoredProperties[0].FNR).toBe("456");
-    expect(restoredProperties[1].FNR).toBe("123");
+    pointSpy.mockRestore();
+    bufferSpy.mockRestore();
   });
 
-  it("should restore all properties on undo clear", () => {
-    const clearedRows = [
-      {
-        id: "123_1",
-        FNR: "123",
-        UUID_FASTIGHET: "uuid-123",
-        FASTIGHET: "Property 1",
-        BOSTADR: "Owner 1",
-      },
-      {
-        id: "456_2",
-        FNR: "456",
-        UUID_FASTIGHET: "uuid-456",
-        FASTIGHET: "Property 2",
-        BOSTADR: "Owner 2",
-      },
-    ];
+  it("should default the buffer origin to the parcel", () => {
+    expect(resolveBufferOrigin("point")).toBe("point");
+    expect(resolveBufferOrigin("parcel")).toBe("parcel");
+    expect(resolveBufferOrigin("circle")).toBe("parcel");
+    expect(resolveBufferOrigin(undefined)).toBe("parcel");
+  });
+});
 
-    const undoOperation = {
-      type: "clear" as const,
-      timestamp: Date.now(),
-      data: clearedRows,
-    };
+describe("Sketch Selection", () => {
+  const translate = (key: string) => key;
+  const selectionConfig = {
+    propertyDataSourceId: "property",
+    ownerDataSourceId: "owner",
+  } as unknown as Parameters<typeof validateSketchSelectionRequest>[0]["config"];
+
+  const createSketchRow = (fnr: string): GridRowData => ({
+    id: `${fnr}_1`,
+    FNR: fnr,
+    UUID_FASTIGHET: `uuid-${fnr}`,
+    FASTIGHET: `Property ${fnr}`,
+    BOSTADR: `Owner ${fnr}`,
+    ADDRESS: `Owner ${fnr}`,
+  });
+
+  const createSketchResults = (fnrs: string[]): QueryResult[] =>
+    fnrs.map((fnr, index) => ({
+      propertyId: fnr,
+      features: [
+        createMockGraphic({ attributes: { FNR: fnr, OBJECTID: index + 1 } }),
+      ],
+    }));
 
-    const restoredProperties = undoOperation.data;
+  const createPipelineParams = (
+    geometry: __esri.Geometry,
+    selectedProperties: GridRowData[] = []
+  ) => ({
+    geometry,
+    propertyDataSourceId: "property",
+    ownerDataSourceId: "owner",
+    dsManager: createMockDataSourceManager(() => null),
+    maxResults: 10,
+    enableBatchOwnerQuery: false,
+    relationshipId: undefined,
+    enablePIIMasking: true,
+    signal: new AbortController().signal,
+    selectedProperties,
+    translate,
+  });
+
+  it("should reject shapes without an area or length", () => {
+    const degenerate = {
+      type: "polygon",
+      extent: { width: 0, height: 0 },
+    } as unknown as __esri.Geometry;
+
+    const result = validateSketchSelectionRequest({
+      geometry: degenerate,
+      modules: createMockEsriModules(),
+      config: selectionConfig,
+      dsManager: null,
+      translate,
+    });
 
-    expect(restoredProperties).toHaveLength(2);
-    expect(restoredProperties[0].FNR).toBe("123");
-    expect(restoredProperties[1].FNR).toBe("456");
+    expect(result.valid).toBe(false);
+    if (!result.valid) {
+      expect(result.error.type).toBe("GEOMETRY_ERROR");
+      expect(result.error.message).toBe("errorInvalidSketch");
+      expect(result.failureReason).toBe("invalid_sketch_geometry");
+    }
   });
-});
 
-describe("Clipboard utilities", () => {
-  beforeEach(() => {
-    copyMock.mockReset();
-  });
+  it("should require loaded modules before sketching", () => {
+    const result = validateSketchSelectionRequest({
+      geometry: null,
+      modules: null,
+      config: selectionConfig,
+      dsManager: null,
+      translate,
+    });
 
-  it("should copy to clipboard when library succeeds", () => {
-    copyMock.mockReturnValue(true);
-    const result = copyToClipboard("test-url");
+    expect(result.valid).toBe(false);
+    if (!result.valid) {
+      expect(result.failureReason).toBe("modules_not_loaded");
+    }
+  });
 
-    expect(result).toBe(true);
-    expect(copyMock).toHaveBeenCalledWith(
-      "test-url",
-      expect.objectContaining({ format: "text/plain" })
+  it("should query a drawn shape as-is and add rows without toggling", async () => {
+    const shape = {
+      type: "polygon",
+      extent: { width: 50, height: 20 },
+    } as unknown as __esri.Geometry;
+    const selected = [createSketchRow("123")];
+
+    const geometrySpy = jest
+      .spyOn(apiModule, "queryPropertiesByGeometry")
+      .mockResolvedValue(createSketchResults(["123", "456"]));
+    const bufferSpy = jest.spyOn(apiModule, "queryPropertiesInBuffer");
+    const processSpy = jest
+      .spyOn(processingModule, "processPropertyQueryResults")
+      .mockResolvedValue({
+        rowsToProcess: [createSketchRow("123"), createSketchRow("456")],
+        graphicsToAdd: [],
+      });
+
+    const result = await runSketchSelectionPipeline(
+      createPipelineParams(shape, selected)
     );
-  });
 
-  it("should return false when clipboard copy fails", () => {
-    copyMock.mockReturnValue(false);
-    const result = copyToClipboard("test-url");
+    expect(geometrySpy.mock.calls[0][0]).toBe(shape);
+    expect(bufferSpy).not.toHaveBeenCalled();
+    expect(result.queryGeometry).toBe(shape);
+    expect(result.buffer).toBeNull();
+    expect(result.selection.status).toBe("success");
+    if (result.selection.status !== "success") {
+      throw new Error("Expected success result");
+    }
+    expect(result.selection.toRemove.size).toBe(0);
+    expect(result.selection.updatedRows.map((row) => row.FNR)).toEqual([
+      "123",
+      "456",
+    ]);
 
-    expect(result).toBe(false);
+    geometrySpy.mockRestore();
+    bufferSpy.mockRestore();
+    processSpy.mockRestore();
   });
 
-  it("should return false when clipboard throws", () => {
-    copyMock.mockImplementation(() => {
-      throw new Error("denied");
+  it("should buffer a drawn line into a corridor when a distance is set", async () => {
+    const line = {
+      type: "polyline",
+      extent: { width: 200, height: 0 },
+    } as unknown as __esri.Geometry;
+    const corridor = {
+      type: "polygon",
+      extent: { width: 220, height: 20 },
+    } as unknown as __esri.Geometry;
+
+    const geometrySpy = jest.spyOn(apiModule, "queryPropertiesByGeometry");
+    const bufferSpy = jest
+      .spyOn(apiModule, "queryPropertiesInBuffer")
+      .mockResolvedValue({ buffer: corridor, propertyResults: [] });
+
+    const result = await runSketchSelectionPipeline({
+      ...createPipelineParams(line),
+      bufferDistance: 10,
+      bufferUnit: "meters",
     });
 
-    expect(copyToClipboard("test-url")).toBe(false);
+    expect(bufferSpy.mock.calls[0].slice(0, 3)).toEqual([line, 10, "meters"]);
+    expect(geometrySpy).not.toHaveBeenCalled();
+    expect(result.queryGeometry).toBe(corridor);
+    expect(result.buffer).toBe(corridor);
+    expect(result.selection).toEqual({ status: "empty" });
+
+    geometrySpy.mockRestore();
+    bufferSpy.mockRestore();
   });
 });
 
-describe("Property Widget - Telemetry", () => {
-  it("should track events when telemetry is enabled", () => {
-    // Telemetry should respect user privacy settings
-    // This test verifies the structure of telemetry events
-    const mockEvent = {
-      category: "Property",
-      action: "remove",
-      value: 1,
-    };
+describe("Message Actions", () => {
+  const translate = (key: string) => key;
 
-    expect(mockEvent).toHaveProperty("category");
-    expect(mockEvent).toHaveProperty("action");
-    expect(mockEvent.category).toBe("Property");
-    expect(mockEvent.action).toBe("remove");
+  const createMessageRow = (fnr: number, id = `${fnr}_1`): GridRowData => ({
+    id,
+    FNR: fnr,
+    UUID_FASTIGHET: `uuid-${fnr}`,
+    FASTIGHET: `Property ${fnr}`,
+    BOSTADR: `Owner ${fnr}`,
+    ADDRESS: `Owner ${fnr}`,
+    geometry: { x: fnr, y: fnr },
+    geometryType: "point",
+    rawProperty: { FNR: fnr, FASTIGHET: `Property ${fnr}` },
+  });
+
+  it("should parse FNR lists as strings and drop duplicates", () => {
+    expect(parseFnrList("123, 0456;789\n123 ABC-1")).toEqual([
+      "123",
+      "0456",
+      "789",
+      "ABC-1",
+    ]);
+    expect(parseFnrList("")).toEqual([]);
+    expect(parseFnrList(null)).toEqual([]);
   });
 
-  it("should track performance metrics", () => {
-    const mockMetric = {
-      operation: "map_click_query",
-      duration: 250,
-      success: true,
-    };
+  it("should read FNRs from records using the mapped field", () => {
+    const records = [
+      { getData: () => ({ FASTIGHETSNR: "42" }) },
+      { getData: () => ({ FASTIGHETSNR: 42 }) },
+      { getData: () => ({ FASTIGHETSNR: 7 }) },
+      { getData: () => ({ OTHER: 1 }) },
+    ];
 
-    expect(mockMetric.operation).toBe("map_click_query");
-    expect(mockMetric.duration).toBeGreaterThan(0);
-    expect(mockMetric.success).toBe(true);
+    expect(collectRecordFnrs(records, "FASTIGHETSNR")).toEqual(["42", 7]);
+    expect(collectRecordFnrs(records)).toEqual([]);
   });
 
-  it("should track errors with context", () => {
-    const mockError = {
-      category: "Error",
-      action: "property_query",
-      label: "Network error: timeout",
-    };
+  it("should publish one graphic per property with a typed geometry", () => {
+    const createGraphic = jest.fn(
+      (properties: __esri.GraphicProperties) =>
+        ({ ...properties }) as __esri.Graphic
+    );
+    const graphics = buildMessageRecordGraphics({
+      rows: [
+        createMessageRow(1),
+        createMessageRow(1, "1_2"),
+        createMessageRow(2),
+      ],
+      createGraphic,
+      fnrField: "FASTIGHETSNR",
+    });
 
-    expect(mockError.category).toBe("Error");
+    expect(createGraphic).toHaveBeenCalledTimes(2);
+    expect(graphics[0].attributes).toMatchObject({
+      FNR: 1,
+      FASTIGHETSNR: 1,
+      FASTIGHET: "Property 1",
+    });
+    expect(graphics[1].geometry).toEqual({ x: 2, y: 2, type: "point" });
+  });
+
+  it("should only accept complete selection requests", () => {
+    expect(isMessageSelectionRequest({ id: 1, kind: "fnr", fnrs: [1] })).toBe(
+      true
+    );
+    expect(
+      isMessageSelectionRequest({ id: 2, kind: "geometry", geometries: [] })
+    ).toBe(false);
+    expect(isMessageSelectionRequest({ kind: "fnr", fnrs: [1] })).toBe(false);
+    expect(isMessageSelectionRequest(null)).toBe(false);
+  });
+
+  it("should reject an empty FNR list", () => {
+    const result = validateFnrSelectionRequest({
+      fnrs: [],
+      modules: createMockEsriModules(),
+      config: {
+        propertyDataSourceId: "property",
+        ownerDataSourceId: "owner",
+      } as unknown as Parameters<
+        typeof validateFnrSelectionRequest
+      >[0]["config"],
+      dsManager: null,
+      translate,
+    });
+
+    expect(result.valid).toBe(false);
+    if (!result.valid) {
+      expect(result.error.message).toBe("errorNoValidFnr");
+      expect(result.failureReason).toBe("no_valid_fnr");
+    }
+  });
+
+  it("should query FNRs with a where clause on the mapped field", async () => {
+    resetMockFeatureLayerState();
+    const mockManager = createMockDataSourceManager(() =>
+      createMockFeatureLayerDataSource(
+        "https://services.arcgis.com/test/FeatureServer/9"
+      )
+    );
+    setMockQueryFeaturesResponse({
+      features: [{ attributes: { FASTIGHETSNR: 5, OBJECTID: 1 } }],
+    });
+
+    const results = await queryPropertiesByFnr([5, 6], "ds", mockManager, {
+      fieldMapping: resolveFieldMapping({ fnr: "FASTIGHETSNR" }),
+    });
+
+    const instances = getMockFeatureLayerInstances();
+    const queryArg = instances[instances.length - 1].queryFeatures.mock
+      .calls[0][0] as { where?: string; geometry?: unknown };
+    expect(queryArg.where).toBe("FASTIGHETSNR = 5 OR FASTIGHETSNR = 6");
+    expect(queryArg.geometry).toBeUndefined();
+    expect(results[0].propertyId).toBe(5);
+  });
+
+  it("should add looked-up FNRs to the selection without toggling", async () => {
+    const fnrSpy = jest
+      .spyOn(apiModule, "queryPropertiesByFnr")
+      .mockResolvedValue([
+        {
+          propertyId: 1,
+          features: [
+            createMockGraphic({ attributes: { FNR: 1, OBJECTID: 1 } }),
+          ],
+        },
+      ]);
+    const processSpy = jest
+      .spyOn(processingModule, "processPropertyQueryResults")
+      .mockResolvedValue({
+        rowsToProcess: [createMessageRow(1)],
+        graphicsToAdd: [],
+      });
+
+    const result = await runFnrSelectionPipeline({
+      fnrs: [1],
+      propertyDataSourceId: "property",
+      ownerDataSourceId: "owner",
+      dsManager: createMockDataSourceManager(() => null),
+      maxResults: 10,
+      enablePIIMasking: true,
+      signal: new AbortController().signal,
+      selectedProperties: [createMessageRow(1)],
+      translate,
+    });
+
+    expect(fnrSpy.mock.calls[0][0]).toEqual([1]);
+    expect(result.status).toBe("success");
+    if (result.status !== "success") {
+      throw new Error("Expected success result");
+    }
+    expect(result.toRemove.size).toBe(0);
+
+    fnrSpy.mockRestore();
+    processSpy.mockRestore();
+  });
+});
+
+describe("Selection Persistence and Share Links", () => {
+  const translate = (key: string) => key;
+
+  const createMemoryStorage = (): Storage => {
+    const items = new Map<string, string>();
+    return {
+      get length() {
+        return items.size;
+      },
+      clear: () => items.clear(),
+      getItem: (key: string) => items.get(key) ?? null,
+      key: (index: number) => Array.from(items.keys())[index] ?? null,
+      removeItem: (key: string) => {
+        items.delete(key);
+      },
+      setItem: (key: string, value: string) => {
+        items.set(key, value);
+      },
+    };
+  };
+
+  const rows = [{ FNR: 101 }, { FNR: 101 }, { FNR: "202" }];
+
+  it("should scope storage keys by app and widget", () => {
+    expect(buildSelectionStorageKey("app1", "widget_1")).toBe(
+      "property-widget:selection:app1:widget_1"
+    );
+    expect(buildSelectionStorageKey(undefined, "widget_1")).toBe(
+      "property-widget:selection:app:widget_1"
+    );
+  });
+
+  it("should fall back to off for unknown persistence modes", () => {
+    expect(resolveSelectionPersistence("local")).toBe("local");
+    expect(resolveSelectionPersistence("cookie")).toBe("off");
+    expect(resolveSelectionPersistence(undefined)).toBe("off");
+  });
+
+  it("should save and load the selected FNRs", () => {
+    const storage = createMemoryStorage();
+
+    expect(saveStoredSelection(storage, "key", rows)).toBe(true);
+    expect(loadStoredSelection(storage, "key")).toEqual([101, "202"]);
+
+    saveStoredSelection(storage, "key", []);
+    expect(storage.getItem("key")).toBeNull();
+  });
+
+  it("should remember CSV choices per user", () => {
+    const storage = createMemoryStorage();
+    const key = buildCsvOptionsStorageKey("anna", "app1", "widget_1");
+    expect(key).toBe("property-widget:csv-options:anna:app1:widget_1");
+    expect(buildCsvOptionsStorageKey(null, null, "widget_1")).toBe(
+      "property-widget:csv-options:anonymous:app:widget_1"
+    );
+
+    const options = {
+      delimiter: "semicolon" as const,
+      includeBom: true,
+      columns: ["FASTIGHET", "owner:NAMN"],
+      rowShape: "property" as const,
+    };
+    expect(saveCsvExportOptions(storage, key, options)).toBe(true);
+    expect(loadCsvExportOptions(storage, key)).toEqual(options);
+
+    storage.setItem("old", JSON.stringify({ ...options, version: 0 }));
+    expect(loadCsvExportOptions(storage, "old")).toBeNull();
+    expect(loadCsvExportOptions(storage, "missing")).toBeNull();
+    expect(loadCsvExportOptions(null, key)).toBeNull();
+  });
+
+  it("should keep string keys intact in storage and share links", () => {
+    const storage = createMemoryStorage();
+    const keyRows = [{ FNR: "0012" }, { FNR: "LUND,1" }];
+
+    saveStoredSelection(storage, "key", keyRows);
+    expect(loadStoredSelection(storage, "key")).toEqual(["0012", "LUND,1"]);
+
+    const result = buildSelectionShareUrl({
+      href: "https://example.com/experience/",
+      widgetId: "widget_1",
+      rows: keyRows,
+      translate,
+    });
+    expect(result.valid).toBe(true);
+    if (!result.valid) return;
+    expect(
+      readSharedSelection(new URL(result.data.url).hash, "widget_1")
+    ).toEqual(["0012", "LUND,1"]);
+  });
+
+  it("should ignore corrupt or outdated stored selections", () => {
+    const storage = createMemoryStorage();
+    storage.setItem("bad", "{not json");
+    storage.setItem("old", JSON.stringify({ version: 0, fnrs: [1] }));
+
+    expect(loadStoredSelection(storage, "bad")).toEqual([]);
+    expect(loadStoredSelection(storage, "old")).toEqual([]);
+    expect(loadStoredSelection(null, "key")).toEqual([]);
+  });
+
+  it("should round-trip a share link through the URL hash", () => {
+    const result = buildSelectionShareUrl({
+      href: "https://example.com/experience/?id=abc#data_s=x",
+      widgetId: "widget_1",
+      rows,
+      translate,
+    });
+
+    expect(result.valid).toBe(true);
+    if (!result.valid) return;
+    expect(result.data.count).toBe(2);
+
+    const url = new URL(result.data.url);
+    expect(url.search).toBe("?id=abc");
+    expect(readSharedSelection(url.hash, "widget_1")).toEqual(["101", "202"]);
+    expect(readSharedSelection(url.hash, "widget_2")).toEqual([]);
+
+    const cleaned = new URL(
+      removeSharedSelectionParam(result.data.url, "widget_1")
+    );
+    expect(cleaned.hash).toBe("#data_s=x");
+  });
+
+  it("should reject share links without a selection or over the limit", () => {
+    const empty = buildSelectionShareUrl({
+      href: "https://example.com/",
+      widgetId: "widget_1",
+      rows: [],
+      translate,
+    });
+    expect(empty.valid).toBe(false);
+
+    const tooLong = buildSelectionShareUrl({
+      href: "https://example.com/",
+      widgetId: "widget_1",
+      rows: Array.from({ length: 2000 }, (_, index) => ({
+        FNR: 1_000_000 + index,
+      })),
+      translate,
+    });
+    expect(tooLong.valid).toBe(false);
+    if (!tooLong.valid) {
+      expect(tooLong.failureReason).toBe("share_url_too_long");
+    }
+  });
+});
+
+describe("Select from List", () => {
+  const translate = (key: string) => key;
+
+  const createListResult = (
+    fnr: number,
+    designation: string
+  ): QueryResult => ({
+    propertyId: fnr,
+    features: [
+      createMockGraphic({
+        attributes: { FNR: fnr, FASTIGHET: designation, OBJECTID: fnr },
+      }),
+    ],
+  });
+
+  it("should read FNRs and designations one per line", () => {
+    const { entries, truncated } = parseSelectionList(
+      "\uFEFFFASTIGHET;NAMN\r\n" +
+        '"Lund  Gastelyckan 1:1";Owner\n' +
+        "\n" +
+        "140123456\n" +
+        "lund gastelyckan 1:1\n" +
+        "140123456,Other"
+    );
+
+    expect(truncated).toBe(0);
+    expect(entries).toEqual([
+      { line: 2, value: "Lund Gastelyckan 1:1", kind: "designation" },
+      { line: 4, value: "140123456", kind: "fnr" },
+    ]);
+  });
+
+  it("should cap the list and count the skipped entries", () => {
+    const text = Array.from(
+      { length: configConstants.SELECTION_LIST_MAX_ENTRIES + 3 },
+      (_, index) => String(index + 1)
+    ).join("\n");
+
+    const { entries, truncated } = parseSelectionList(text);
+
+    expect(entries).toHaveLength(configConstants.SELECTION_LIST_MAX_ENTRIES);
+    expect(truncated).toBe(3);
+  });
+
+  it("should split entries and report the ones that did not resolve", () => {
+    const { entries } = parseSelectionList("1\nLund A 1:1\n2\nLund B 2:2");
+
+    expect(splitSelectionListEntries(entries)).toEqual({
+      fnrs: ["1", "2"],
+      designations: ["Lund A 1:1", "Lund B 2:2"],
+    });
+
+    const unresolved = findUnresolvedEntries(entries, [
+      createListResult(1, "LUND X 9:9"),
+      createListResult(7, "LUND A 1:1"),
+    ]);
+    expect(unresolved.map((entry) => entry.value)).toEqual([
+      "2",
+      "Lund B 2:2",
+    ]);
+  });
+
+  it("should read matches through the mapped field names", () => {
+    const { entries } = parseSelectionList("5\nLund C 3:3");
+    const result: QueryResult = {
+      propertyId: 0,
+      features: [
+        createMockGraphic({
+          attributes: { FASTIGHETSNR: "5", BETECKNING: "LUND C 3:3" },
+        }),
+      ],
+    };
+    const fieldMapping = resolveFieldMapping({
+      fnr: "FASTIGHETSNR",
+      designation: "BETECKNING",
+    });
+
+    expect(findUnresolvedEntries(entries, [result], fieldMapping)).toEqual([]);
+    expect(findUnresolvedEntries(entries, [result])).toHaveLength(2);
+  });
+
+  it("should query designations on the mapped field ignoring case", async () => {
+    resetMockFeatureLayerState();
+    const mockManager = createMockDataSourceManager(() =>
+      createMockFeatureLayerDataSource(
+        "https://services.arcgis.com/test/FeatureServer/10"
+      )
+    );
+    setMockQueryFeaturesResponse({ features: [] });
+
+    await queryPropertiesByDesignation(["O'Hara 1:1"], "ds", mockManager, {
+      fieldMapping: resolveFieldMapping({ designation: "BETECKNING" }),
+    });
+
+    const instances = getMockFeatureLayerInstances();
+    const queryArg = instances[instances.length - 1].queryFeatures.mock
+      .calls[0][0] as { where?: string };
+    expect(queryArg.where).toBe("UPPER(BETECKNING) = 'O''HARA 1:1'");
+  });
+
+  it("should merge FNR and designation matches before adding rows", async () => {
+    const fnrSpy = jest
+      .spyOn(apiModule, "queryPropertiesByFnr")
+      .mockResolvedValue([createListResult(1, "LUND A 1:1")]);
+    const designationSpy = jest
+      .spyOn(apiModule, "queryPropertiesByDesignation")
+      .mockResolvedValue([
+        createListResult(1, "LUND A 1:1"),
+        createListResult(2, "LUND B 2:2"),
+      ]);
+    const processSpy = jest
+      .spyOn(processingModule, "processPropertyQueryResults")
+      .mockResolvedValue({ rowsToProcess: [], graphicsToAdd: [] });
+
+    const result = await runListSelectionPipeline({
+      fnrs: [1],
+      designations: ["Lund A 1:1", "Lund B 2:2"],
+      propertyDataSourceId: "property",
+      ownerDataSourceId: "owner",
+      dsManager: createMockDataSourceManager(() => null),
+      maxResults: 10,
+      enablePIIMasking: false,
+      signal: new AbortController().signal,
+      selectedProperties: [],
+      translate,
+    });
+
+    expect(result.propertyResults.map((entry) => entry.propertyId)).toEqual([
+      1, 2,
+    ]);
+    expect(processSpy.mock.calls[0][0].propertyResults).toHaveLength(2);
+    expect(result.selection.status).toBe("success");
+
+    fnrSpy.mockRestore();
+    designationSpy.mockRestore();
+    processSpy.mockRestore();
+  });
+});
+
+describe("Request Policy", () => {
+  const translate = (key: string) => key;
+
+  const createHttpError = (httpStatus: number) => ({
+    name: "request:server",
+    message: `Request failed with status ${httpStatus}`,
+    details: { httpStatus },
+  });
+
+  it("should classify transient and permanent failures", () => {
+    expect(classifyArcGISError(createHttpError(503))).toBe("server");
+    expect(classifyArcGISError(createHttpError(429))).toBe("server");
+    expect(classifyArcGISError(createHttpError(408))).toBe("timeout");
+    expect(classifyArcGISError(createHttpError(400))).toBe("query");
+    expect(classifyArcGISError(new TypeError("Failed to fetch"))).toBe(
+      "network"
+    );
+    expect(classifyArcGISError(new Error("Invalid FNR"))).toBe("query");
+  });
+
+  it("should keep the readable message when adding a category", () => {
+    const error = toQueryError(createHttpError(502), "Owner query failed");
+
+    expect(error.message).toBe("Request failed with status 502");
+    expect(error.category).toBe("server");
+    expect(classifyArcGISError(error)).toBe("server");
+  });
+
+  it("should surface connection problems as network errors", () => {
+    expect(describeQueryError(createHttpError(503), translate)).toEqual({
+      type: ErrorType.NETWORK_ERROR,
+      message: "errorServiceUnavailable",
+      category: "server",
+    });
+    expect(describeQueryError(new Error("Bad where"), translate)).toEqual({
+      type: ErrorType.QUERY_ERROR,
+      message: "errorQueryFailed",
+      category: "query",
+    });
+  });
+
+  it("should back off exponentially with jitter up to the cap", () => {
+    const options = { baseDelayMs: 100, maxDelayMs: 1000 };
+
+    expect(getRetryDelay(0, { ...options, random: () => 0 })).toBe(50);
+    expect(getRetryDelay(0, { ...options, random: () => 1 })).toBe(100);
+    expect(getRetryDelay(2, { ...options, random: () => 1 })).toBe(400);
+    expect(getRetryDelay(6, { ...options, random: () => 1 })).toBe(1000);
+  });
+
+  it("should retry server errors and return the first success", async () => {
+    let attempts = 0;
+    const request = jest.fn((_signal: AbortSignal) => {
+      attempts += 1;
+      return attempts === 1
+        ? Promise.reject(createHttpError(503))
+        : Promise.resolve("ok");
+    });
+
+    const result = await runWithRequestPolicy(request, { baseDelayMs: 0 });
+
+    expect(result).toBe("ok");
+    expect(request).toHaveBeenCalledTimes(2);
+  });
+
+  it("should not retry query errors", async () => {
+    const request = jest.fn((_signal: AbortSignal) =>
+      Promise.reject(createHttpError(400))
+    );
+
+    await expect(
+      runWithRequestPolicy(request, { baseDelayMs: 0 })
+    ).rejects.toMatchObject({ details: { httpStatus: 400 } });
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it("should give up after the configured retries", async () => {
+    const request = jest.fn((_signal: AbortSignal) =>
+      Promise.reject(createHttpError(502))
+    );
+
+    await expect(
+      runWithRequestPolicy(request, { baseDelayMs: 0, maxRetries: 2 })
+    ).rejects.toMatchObject({ details: { httpStatus: 502 } });
+    expect(request).toHaveBeenCalledTimes(3);
+  });
+
+  it("should time out hung requests and abort their signal", async () => {
+    let requestSignal: AbortSignal | null = null;
+    const request = (signal: AbortSignal) => {
+      requestSignal = signal;
+      return new Promise<string>(() => undefined);
+    };
+
+    await expect(
+      runWithRequestPolicy(request, { timeoutMs: 5, maxRetries: 0 })
+    ).rejects.toMatchObject({ category: "timeout" });
+    expect((requestSignal as AbortSignal | null)?.aborted).toBe(true);
+  });
+
+  it("should stop at once when the caller aborts", async () => {
+    const controller = new AbortController();
+    const request = jest.fn((signal: AbortSignal) => {
+      controller.abort();
+      return Promise.reject(
+        signal.aborted ? new Error("AbortError") : createHttpError(503)
+      );
+    });
+
+    const promise = runWithRequestPolicy(request, {
+      signal: controller.signal,
+      baseDelayMs: 0,
+    });
+
+    await expect(promise).rejects.toMatchObject({ name: "AbortError" });
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("Owner Query Cache", () => {
+  const createOwnerDs = (owners: string[]) => {
+    const ownerDs = createMockFeatureLayerDataSource(
+      "https://example.com/arcgis/rest/services/Owners/MapServer/1"
+    );
+    (ownerDs.query as jest.Mock).mockImplementation(() =>
+      Promise.resolve({
+        records: owners.map((name) => ({
+          getData: () => ({ FNR: 1, NAMN: name }),
+          getGeometry: () => null,
+        })),
+      })
+    );
+    return ownerDs;
+  };
+
+  beforeEach(() => {
+    clearQueryCache();
+    resetMockQueryTaskState();
+  });
+
+  afterEach(() => {
+    clearQueryCache();
+    resetMockQueryTaskState();
+  });
+
+  it("should evict the least recently used entries when full", () => {
+    const cache = createQueryCache<string>({
+      maxSize: 3,
+      evictionPercentage: 0.2,
+    });
+    cache.set("a", "A");
+    cache.set("b", "B");
+    cache.set("c", "C");
+    expect(cache.get("a")).toBe("A");
+
+    cache.set("d", "D");
+
+    expect(cache.get("b")).toBeUndefined();
+    expect(cache.get("a")).toBe("A");
+    expect(cache.get("d")).toBe("D");
+    expect(cache.getStats()).toEqual({ hits: 3, misses: 1, size: 3 });
+  });
+
+  it("should expire entries after their time to live", () => {
+    let currentTime = 1000;
+    const cache = createQueryCache<number>({
+      ttlMs: 500,
+      now: () => currentTime,
+    });
+    cache.set("fnr", 1);
+
+    currentTime = 1499;
+    expect(cache.get("fnr")).toBe(1);
+
+    currentTime = 1500;
+    expect(cache.get("fnr")).toBeUndefined();
+    expect(cache.getStats().size).toBe(0);
+  });
+
+  it("should count hits and misses between snapshots", () => {
+    expect(
+      diffCacheStats(
+        { hits: 2, misses: 5, size: 4 },
+        { hits: 6, misses: 6, size: 5 }
+      )
+    ).toEqual({ hits: 4, misses: 1 });
+  });
+
+  it("should answer repeated owner lookups from the cache", async () => {
+    const ownerDs = createOwnerDs(["Anna Andersson"]);
+    const dsManager = createMockDataSourceManager(() => ownerDs);
+
+    const first = await queryOwnerByFnr(1, "owner", dsManager);
+    const second = await queryOwnerByFnr("1", "owner", dsManager);
+
+    expect(ownerDs.query as jest.Mock).toHaveBeenCalledTimes(1);
+    expect(second.map((graphic) => graphic.attributes)).toEqual(
+      first.map((graphic) => graphic.attributes)
+    );
+    expect(getOwnerQueryCacheStats()).toMatchObject({ hits: 1, misses: 1 });
+
+    clearQueryCache();
+    await queryOwnerByFnr(1, "owner", dsManager);
+    expect(ownerDs.query as jest.Mock).toHaveBeenCalledTimes(2);
+  });
+
+  it("should only query uncached FNRs through the relationship", async () => {
+    const ownerDs = createOwnerDs(["Cached Owner"]);
+    const propertyDs = createMockFeatureLayerDataSource(
+      "https://example.com/arcgis/rest/services/Parcels/MapServer/1"
+    );
+    (propertyDs.query as jest.Mock).mockImplementation(() =>
+      Promise.resolve({
+        records: [
+          {
+            getData: () => ({ OBJECTID: 22, FNR: 2 }),
+          } as unknown as FeatureDataRecord,
+        ],
+      })
+    );
+    mockQueryTaskExecute.mockImplementation(() =>
+      Promise.resolve({
+        22: {
+          features: [
+            createMockGraphic({ attributes: { FNR: 2, NAMN: "New Owner" } }),
+          ],
+        },
+      })
+    );
+    const dsManager = createMockDataSourceManager((id) =>
+      id === "property" ? propertyDs : ownerDs
+    );
+
+    await queryOwnerByFnr(1, "owner", dsManager);
+    const ownersMap = await queryOwnersByRelationship(
+      [1, 2],
+      "property",
+      "owner",
+      dsManager,
+      3
+    );
+
+    const queryArgs = (propertyDs.query as jest.Mock).mock.calls[0][0] as {
+      where: string;
+    };
+    expect(queryArgs.where).toBe("FNR = 2");
+    expect(ownersMap.get("1")?.[0].NAMN).toBe("Cached Owner");
+    expect(ownersMap.get("2")?.[0].NAMN).toBe("New Owner");
+
+    await queryOwnersByRelationship([1, 2], "property", "owner", dsManager, 3);
+    expect(propertyDs.query as jest.Mock).toHaveBeenCalledTimes(1);
+    expect(mockQueryTaskExecute).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("Owner Details", () => {
+  const createOwnerRow = (
+    id: string,
+    fnr: FnrValue,
+    owner?: Partial<OwnerAttributes>
+  ): GridRowData => ({
+    id,
+    FNR: fnr,
+    UUID_FASTIGHET: `uuid-${fnr}`,
+    FASTIGHET: `Lund Test ${fnr}:1`,
+    BOSTADR: "",
+    ADDRESS: owner ? "formatted" : "Okänd ägare",
+    rawOwner: owner
+      ? ({
+          OBJECTID: Number(id.replace(/\D/g, "")),
+          FNR: fnr,
+          UUID_FASTIGHET: `uuid-${fnr}`,
+          FASTIGHET: `Lund Test ${fnr}:1`,
+          ...owner,
+        } as OwnerAttributes)
+      : undefined,
+  });
+
+  const rows = [
+    createOwnerRow("r1", 7, {
+      NAMN: "Anna Andersson",
+      ANDEL: "0.5",
+      BOSTADR: "Storgatan 1",
+      POSTNR: "222 22",
+      POSTADR: "Lund",
+    }),
+    createOwnerRow("r2", 7, {
+      NAMN: "Bolaget AB",
+      ANDEL: "2/4",
+      ORGNR: "5560001234",
+    }),
+    createOwnerRow("r3", 8, { NAMN: "Other Owner" }),
+  ];
+
+  it("should list every owner of one property with shares and addresses", () => {
+    const details = buildPropertyDetails(rows, "7", false);
+
+    expect(details).toMatchObject({
+      fnr: 7,
+      uuid: "uuid-7",
+      designation: "Lund Test 7:1",
+    });
+    expect(details?.owners).toHaveLength(2);
+    expect(details?.owners[0]).toMatchObject({
+      name: "Anna Andersson",
+      share: "1/2",
+      address: "Storgatan 1",
+      postalCity: "22222 Lund",
+    });
+    expect(details?.owners[1]).toMatchObject({
+      name: "Bolaget AB",
+      share: "1/2",
+      orgNumber: "556000-1234",
+    });
+  });
+
+  it("should mask names and street addresses when PII masking is on", () => {
+    const owner = buildPropertyDetails(rows, "7", true)?.owners[0];
+
+    expect(owner?.name).toBe("A*** A***");
+    expect(owner?.address).toBe("St*****");
+    expect(owner?.postalCity).toBe("22222 Lund");
+  });
+
+  it("should keep rows without owner data and skip unknown properties", () => {
+    const details = buildPropertyDetails([createOwnerRow("r9", 9)], "9", true);
+
+    expect(details?.owners).toEqual([
+      expect.objectContaining({ id: "r9", name: "Okänd ägare" }),
+    ]);
+    expect(buildPropertyDetails(rows, "404", false)).toBeNull();
+  });
+
+  it("should break the owner list into names and org numbers", () => {
+    expect(
+      parseOwnerListEntries(
+        "Anna Andersson (19800101-1234); Bolaget AB (556000-1234); Anna Andersson (19800101-1234)",
+        false
+      )
+    ).toEqual([
+      { name: "Anna Andersson", orgNumber: "19800101-1234" },
+      { name: "Bolaget AB", orgNumber: "556000-1234" },
+    ]);
+    expect(parseOwnerListEntries("Anna Andersson", true)).toEqual([
+      { name: "A*** A***", orgNumber: "" },
+    ]);
+  });
+});
+
+describe("Grouped View", () => {
+  const createShareRow = (
+    id: string,
+    fnr: FnrValue,
+    share?: string
+  ): GridRowData => ({
+    id,
+    FNR: fnr,
+    UUID_FASTIGHET: `uuid-${fnr}`,
+    FASTIGHET: `Lund Test ${fnr}:1`,
+    BOSTADR: "",
+    ADDRESS: "formatted",
+    rawOwner:
+      share !== undefined
+        ? ({
+            OBJECTID: Number(id.replace(/\D/g, "")),
+            FNR: fnr,
+            UUID_FASTIGHET: `uuid-${fnr}`,
+            FASTIGHET: `Lund Test ${fnr}:1`,
+            NAMN: `Owner ${id}`,
+            ANDEL: share,
+          } as OwnerAttributes)
+        : undefined,
+  });
+
+  it("should group rows by FNR in order of first appearance", () => {
+    const rows = [
+      createShareRow("r1", 2, "1/2"),
+      createShareRow("r2", 1, "1/1"),
+      createShareRow("r3", "2", "1/2"),
+    ];
+
+    const groups = groupRowsByProperty(rows, (row) => row);
+
+    expect(groups.map((group) => group.key)).toEqual(["2", "1"]);
+    expect(groups[0].items.map((row) => row.id)).toEqual(["r1", "r3"]);
+    expect(groups[1].items.map((row) => row.id)).toEqual(["r2"]);
+  });
+
+  it("should sum fraction and decimal shares to a whole property", () => {
+    const rows = [
+      createShareRow("r1", 5, "1/4"),
+      createShareRow("r2", 5, "1/4"),
+      createShareRow("r3", 5, "0,5"),
+      createShareRow("r4", 6, "1/3"),
+    ];
+
+    expect(summarizeOwnerShares(rows, "5")).toEqual({
+      ownerCount: 3,
+      total: 1,
+      isMismatch: false,
+    });
+  });
+
+  it("should tolerate rounding in repeating fractions", () => {
+    const rows = Array.from({ length: 6 }, (_, index) =>
+      createShareRow(`r${index + 1}`, 9, "1/6")
+    );
+    const summary = summarizeOwnerShares(rows, "9");
+
+    expect(summary.isMismatch).toBe(false);
+    expect(formatShareTotal(summary.total)).toBe("1/1");
+  });
+
+  it("should flag shares that do not add up to 1", () => {
+    const partial = summarizeOwnerShares(
+      [createShareRow("r1", 3, "1/4"), createShareRow("r2", 3, "1/2")],
+      "3"
+    );
+    const excess = summarizeOwnerShares(
+      [createShareRow("r3", 4, "1/2"), createShareRow("r4", 4, "2/3")],
+      "4"
+    );
+
+    expect(partial).toMatchObject({ total: 0.75, isMismatch: true });
+    expect(formatShareTotal(partial.total)).toBe("3/4");
+    expect(excess.isMismatch).toBe(true);
+    expect(formatShareTotal(excess.total)).toBe("1.166667");
+  });
+
+  it("should count a duplicated owner record once", () => {
+    const owner = createShareRow("r1", 7, "1/2");
+    const rows = [
+      owner,
+      { ...owner, id: "r1-copy" },
+      createShareRow("r2", 7, "1/2"),
+    ];
+
+    expect(summarizeOwnerShares(rows, "7")).toEqual({
+      ownerCount: 2,
+      total: 1,
+      isMismatch: false,
+    });
+  });
+
+  it("should not warn when no share can be read", () => {
+    const rows = [createShareRow("r1", 8), createShareRow("r2", 8, "okänd")];
+
+    expect(summarizeOwnerShares(rows, "8")).toEqual({
+      ownerCount: 2,
+      total: null,
+      isMismatch: false,
+    });
+    expect(formatShareTotal(null)).toBe("");
+  });
+});
+
+describe("PII Access", () => {
+  const policy = resolvePIIAccessPolicy({
+    piiAccessGroups: ["Lantmäteri; 4f2e9c"],
+    piiAccessRoles: ["org_admin"],
+  });
+
+  afterEach(() => {
+    clearAuditEvents();
+  });
+
+  it("should parse comma, semicolon and line separated access lists", () => {
+    expect(parseAccessList(" Lantmäteri, org_admin;\nLantmäteri ")).toEqual([
+      "Lantmäteri",
+      "org_admin",
+    ]);
+    expect(parseAccessList(["a, b", "c"])).toEqual(["a", "b", "c"]);
+    expect(parseAccessList(undefined)).toEqual([]);
+  });
+
+  it("should read the signed-in user and reject anonymous users", () => {
+    expect(
+      toPIIAccessUser({
+        username: "anna",
+        role: "org_user",
+        groups: [{ id: "4f2e9c", title: "GIS" }, null],
+      })
+    ).toEqual({
+      username: "anna",
+      role: "org_user",
+      roleId: "",
+      groups: [{ id: "4f2e9c", title: "GIS" }],
+    });
+    expect(toPIIAccessUser(null)).toBeNull();
+    expect(toPIIAccessUser({ role: "org_admin" })).toBeNull();
+  });
+
+  it("should allow listed roles and group ids only", () => {
+    const admin = toPIIAccessUser({ username: "a", role: "ORG_ADMIN" });
+    const byGroupTitle = toPIIAccessUser({
+      username: "b",
+      role: "org_user",
+      groups: [{ id: "x", title: "lantmäteri" }],
+    });
+    const byGroupId = toPIIAccessUser({
+      username: "c",
+      groups: [{ id: "4f2e9c", title: "Other" }],
+    });
+    const viewer = toPIIAccessUser({
+      username: "d",
+      role: "org_user",
+      groups: [{ id: "y", title: "Public" }],
+    });
+
+    expect(canRevealPII(admin, policy)).toBe(true);
+    expect(canRevealPII(byGroupTitle, policy)).toBe(false);
+    expect(canRevealPII(byGroupId, policy)).toBe(true);
+    expect(canRevealPII(viewer, policy)).toBe(false);
+    expect(canRevealPII(null, policy)).toBe(false);
+    expect(canRevealPII(admin, { groups: [], roles: [] })).toBe(false);
+  });
+
+  it("should record reveal events with user, widget and FNRs", () => {
+    recordAuditEvent(
+      createAuditEvent({
+        action: "pii_reveal",
+        username: "anna",
+        widgetId: "widget_1",
+        fnrs: ["1001", 1002],
+        now: new Date("2026-03-01T10:00:00Z"),
+      })
+    );
+
+    expect(getAuditEvents()).toEqual([
+      {
+        action: "pii_reveal",
+        timestamp: "2026-03-01T10:00:00.000Z",
+        username: "anna",
+        widgetId: "widget_1",
+        fnrs: ["1001", 1002],
+      },
+    ]);
+  });
+
+  it("should keep only the most recent audit events", () => {
+    const max = configConstants.AUDIT_LOG_MAX_EVENTS;
+    for (let i = 0; i < max + 2; i++) {
+      recordAuditEvent(
+        createAuditEvent({
+          action: "pii_reveal",
+          username: "anna",
+          widgetId: "widget_1",
+          fnrs: [i],
+        })
+      );
+    }
+
+    const events = getAuditEvents();
+    expect(events).toHaveLength(max);
+    expect(events[0].fnrs).toEqual([2]);
+  });
+
+  it("should record views while masking is disabled", () => {
+    const audited = new Set<string>();
+    const view = (rows: Array<Pick<GridRowData, "FNR">>, masked = false) =>
+      recordUnmaskedView({
+        rows,
+        masked,
+        audited,
+        username: "",
+        widgetId: "widget_1",
+      });
+
+    view([{ FNR: "1001" }, { FNR: "1001" }]);
+    view([{ FNR: "1001" }, { FNR: "1002" }]);
+    view([{ FNR: "1001" }], true);
+    view([{ FNR: "1001" }]);
+
+    expect(getAuditEvents().map((event) => event.fnrs)).toEqual([
+      ["1001"],
+      ["1002"],
+      ["1001"],
+    ]);
+    expect(getAuditEvents()[0]).toMatchObject({
+      action: "pii_reveal",
+      username: "",
+      widgetId: "widget_1",
+    });
+  });
+});
+
+describe("Audit Log", () => {
+  const allowedHosts = ["audit.lund.se"];
+  const createEvent = (widgetId: string) =>
+    createAuditEvent({
+      action: "export",
+      username: "anna",
+      widgetId,
+      fnrs: ["1001"],
+      detail: "csv",
+      now: new Date("2026-03-01T10:00:00Z"),
+    });
+
+  afterEach(() => {
+    clearAuditEvents();
+  });
+
+  it("should only accept HTTPS endpoints on a listed host", () => {
+    const url = "https://audit.lund.se/events";
+
+    expect(isValidAuditEndpoint(url, allowedHosts)).toBe(true);
+    expect(isValidAuditEndpoint(url, [])).toBe(false);
+    expect(isValidAuditEndpoint(url, ["example.com"])).toBe(false);
+    expect(
+      isValidAuditEndpoint("http://audit.lund.se/events", allowedHosts)
+    ).toBe(false);
+    expect(isValidAuditEndpoint("https://10.0.0.5/events", ["10.0.0.5"])).toBe(
+      false
+    );
+  });
+
+  it("should write events to every registered sink", () => {
+    const written: AuditEvent[] = [];
+    const unregister = registerAuditSink({
+      id: "test",
+      write: (event) => written.push(event),
+    });
+    const failing = registerAuditSink({
+      id: "failing",
+      write: () => {
+        throw new Error("sink down");
+      },
+    });
+
+    recordAuditEvent(createEvent("widget_1"));
+    unregister();
+    failing();
+    recordAuditEvent(createEvent("widget_1"));
+
+    expect(written).toHaveLength(1);
+    expect(written[0].detail).toBe("csv");
+    expect(getAuditEvents()).toHaveLength(2);
+  });
+
+  it("should post events of its own widget to the endpoint", () => {
+    const fetchFn = jest.fn((_url: string, _init?: RequestInit) =>
+      Promise.resolve({ ok: true })
+    );
+    const sink = createHttpAuditSink({
+      endpoint: " https://audit.lund.se/events ",
+      allowedHosts,
+      widgetId: "widget_1",
+      fetchFn: fetchFn as unknown as typeof fetch,
+    });
+
+    sink?.write(createEvent("widget_1"));
+    sink?.write(createEvent("widget_2"));
+
+    expect(fetchFn).toHaveBeenCalledTimes(1);
+    const [url, init] = fetchFn.mock.calls[0];
+    expect(url).toBe("https://audit.lund.se/events");
+    expect(init?.method).toBe("POST");
+    expect(init?.credentials).toBe("omit");
+    const body = JSON.parse(String(init?.body));
+    expect(body).toMatchObject({
+      action: "export",
+      widgetId: "widget_1",
+      fnrs: ["1001"],
+    });
+    expect(typeof body.sessionId).toBe("string");
+  });
+
+  it("should not create an HTTP sink for an invalid endpoint", () => {
+    expect(
+      createHttpAuditSink({
+        endpoint: "https://evil.example.com/collect",
+        allowedHosts,
+        widgetId: "widget_1",
+        fetchFn: jest.fn() as unknown as typeof fetch,
+      })
+    ).toBeNull();
+    expect(
+      createHttpAuditSink({ endpoint: "", allowedHosts, widgetId: "w" })
+    ).toBeNull();
+  });
+
+  it("should build a downloadable log with the session details", () => {
+    recordAuditEvent(createEvent("widget_1"));
+
+    const log = buildAuditLogDocument(
+      getAuditEvents(),
+      new Date("2026-03-01T11:00:00Z")
+    );
+
+    expect(log.sessionId).toEqual(expect.any(String));
+    expect(log.startedAt).toEqual(expect.any(String));
+    expect(log.exportedAt).toBe("2026-03-01T11:00:00.000Z");
+    expect(log.events).toEqual([
+      {
+        action: "export",
+        timestamp: "2026-03-01T10:00:00.000Z",
+        username: "anna",
+        widgetId: "widget_1",
+        fnrs: ["1001"],
+        detail: "csv",
+      },
+    ]);
+  });
+});
+
+describe("Masking Policy", () => {
+  const person: OwnerAttributes = {
+    OBJECTID: 1,
+    FNR: "1001",
+    UUID_FASTIGHET: "uuid-1001",
+    FASTIGHET: "Lund 1:1",
+    NAMN: "Anna Berg",
+    BOSTADR: "Stora Södergatan 4",
+    POSTNR: "222 23",
+    POSTADR: "Lund",
+  };
+  const company: OwnerAttributes = {
+    ...person,
+    OBJECTID: 2,
+    NAMN: "Lunds Bostäder AB",
+    ORGNR: "556677-8899",
+  };
+  const createPolicy = (overrides: Partial<MaskingPolicy>): MaskingPolicy => ({
+    ...resolveMaskingPolicy(null),
+    ...overrides,
+  });
+
+  it("should fall back to the default rule for unknown values", () => {
+    expect(
+      resolveMaskingPolicy({ name: "bogus", address: "hideStreet" })
+    ).toEqual({
+      name: "partial",
+      address: "hideStreet",
+      orgNumber: "keep",
+      exemptOrganizations: false,
+    });
+    expect(resolveOwnerMasking(true, person)).toEqual(
+      configConstants.DEFAULT_MASKING_POLICY
+    );
+    expect(resolveOwnerMasking(false, person)).toBeNull();
+  });
+
+  it("should mask names as initials or redact them", () => {
+    const initials = createPolicy({ name: "initials" });
+    const redact = createPolicy({ name: "redact" });
+
+    expect(maskOwnerValue("name", "Anna Berg", initials)).toBe("A. B.");
+    expect(maskOwnerValue("name", "Anna Berg", redact)).toBe(
+      configConstants.DEFAULT_MASK
+    );
+  });
+
+  it("should hide the street but keep postal code and city", () => {
+    const masked = maskOwnerAttributes(
+      person,
+      createPolicy({ address: "hideStreet" })
+    );
+
+    expect(masked.BOSTADR).toBe(configConstants.DEFAULT_MASK);
+    expect(masked.POSTNR).toBe("222 23");
+    expect(masked.POSTADR).toBe("Lund");
+    expect(masked.NAMN).toBe("A*** B***");
+  });
+
+  it("should drop postal code and city when addresses are redacted", () => {
+    const result = formatOwnerInfo(
+      person,
+      createPolicy({ address: "redact" }),
+      "Unknown"
+    );
+
+    expect(result).toBe(`A*** B***, ${configConstants.DEFAULT_MASK}`);
+  });
+
+  it("should redact organization numbers for the retired hash rule", () => {
+    const policy = resolveMaskingPolicy({ orgNumber: "hash" });
+
+    expect(policy.orgNumber).toBe("redact");
+    expect(maskOwnerValue("orgNumber", "556677-8899", policy)).toBe(
+      configConstants.DEFAULT_MASK
+    );
+  });
+
+  it("should never mask organization owners when exempted", () => {
+    const policy = createPolicy({ exemptOrganizations: true });
+
+    expect(resolveOwnerMasking(policy, company)).toBeNull();
+    expect(formatOwnerInfo(company, policy, "Unknown")).toBe(
+      "Lunds Bostäder AB, Stora Södergatan 4, 22223 Lund (556677-8899)"
+    );
+    expect(formatOwnerInfo(person, policy, "Unknown")).toContain("A*** B***");
+  });
+
+  it("should apply the policy to owner list entries", () => {
+    const policy = createPolicy({ name: "initials", orgNumber: "redact" });
+    const entries = parseOwnerListEntries(
+      "Anna Berg (5566778899); Bo Ek",
+      policy
+    );
+
+    expect(entries).toEqual([
+      {
+        name: "A. B.",
+        orgNumber: maskOwnerValue("orgNumber", "5566778899", policy),
+      },
+      { name: "B. E.", orgNumber: "" },
+    ]);
+  });
+
+  it("should apply the same rules to CSV and GeoJSON exports", () => {
+    const policy = createPolicy({ name: "initials", address: "hideStreet" });
+    const row: GridRowData = {
+      id: "row-1",
+      FNR: "1001",
+      UUID_FASTIGHET: "uuid-1001",
+      FASTIGHET: "Lund 1:1",
+      BOSTADR: "",
+      ADDRESS: "",
+      rawOwner: person,
+      geometryType: "point",
+      geometry: { x: 1, y: 2 },
+    };
+
+    const csv = convertToCSV([row], "Unknown", policy);
+    const geojson = convertToGeoJSON([row], "Unknown", policy);
+
+    expect(csv).toContain("A. B.");
+    expect(csv).not.toContain("Anna Berg");
+    expect(csv).not.toContain("Stora Södergatan");
+    expect(JSON.stringify(geojson)).not.toContain("Stora Södergatan");
+  });
+});
+
+describe("Field Mapping", () => {
+  it("falls back to the default field names", () => {
+    const mapping = resolveFieldMapping(undefined);
+    expect(mapping).toEqual(configConstants.DEFAULT_FIELD_MAPPING);
+  });
+
+  it("ignores blank and malformed entries", () => {
+    const mapping = resolveFieldMapping({
+      fnr: " PROP_KEY ",
+      designation: "",
+      ownerName: "NAME; DROP TABLE owners",
+    });
+    expect(mapping.fnr).toBe("PROP_KEY");
+    expect(mapping.designation).toBe("FASTIGHET");
+    expect(mapping.ownerName).toBe("NAMN");
+  });
+
+  it("copies source attributes under the canonical names", () => {
+    const mapping = resolveFieldMapping({
+      fnr: "PROP_KEY",
+      designation: "BETECKNING",
+    });
+    const attrs = applyFieldMapping(
+      { PROP_KEY: 42, BETECKNING: "Berg 1:2", OBJECTID: 7 },
+      mapping,
+      "property"
+    );
+    expect(attrs.FNR).toBe(42);
+    expect(attrs.FASTIGHET).toBe("Berg 1:2");
+    expect(attrs.OBJECTID).toBe(7);
+    expect(attrs.PROP_KEY).toBe(42);
+  });
+
+  it("does not keep a same-named attribute when the mapped field is missing", () => {
+    const mapping = resolveFieldMapping({ ownerName: "AGARE" });
+    const attrs = applyFieldMapping({ NAMN: "Stale value" }, mapping, "owner");
+    expect(attrs.NAMN).toBeUndefined();
+  });
+
+  it("returns attributes untouched for the default mapping", () => {
+    const source = { FNR: 1, FASTIGHET: "Berg 1:2" };
+    expect(
+      applyFieldMapping(source, resolveFieldMapping(undefined), "property")
+    ).toBe(source);
+  });
+
+  it("applies only the join key of the given layer", () => {
+    const mapping = resolveFieldMapping({
+      fnr: "PROP_KEY",
+      ownerFnr: "OWNER_KEY",
+    });
+    const property = applyFieldMapping(
+      { PROP_KEY: 1, OWNER_KEY: 2 },
+      mapping,
+      "property"
+    );
+    const owner = applyFieldMapping(
+      { PROP_KEY: 1, OWNER_KEY: 2 },
+      mapping,
+      "owner"
+    );
+    expect(property.FNR).toBe(1);
+    expect(owner.FNR).toBe(2);
+  });
+
+  it("maps the owner and property FNR fields of each layer separately", () => {
+    const mapping = resolveFieldMapping({
+      fnr: "PROP_KEY",
+      ownerFnr: "OWNER_KEY",
+      ownerName: "AGARE",
+    });
+    const property = applyFieldMapping(
+      { PROP_KEY: "0012", BETECKNING: "Berg 1:2" },
+      mapping,
+      "property"
+    );
+    const owner = applyFieldMapping(
+      { OWNER_KEY: "0012", AGARE: "Anna Andersson" },
+      mapping,
+      "owner"
+    );
+    expect(property.FNR).toBe("0012");
+    expect("NAMN" in property).toBe(false);
+    expect(owner.FNR).toBe("0012");
+    expect(owner.NAMN).toBe("Anna Andersson");
+    expect("FASTIGHET" in owner).toBe(false);
+  });
+
+  it("queries owners through the mapped join key", async () => {
+    const ownerDs = createMockFeatureLayerDataSource(
+      "https://example.com/arcgis/rest/services/Owners/MapServer/0"
+    );
+    (ownerDs.query as jest.Mock).mockImplementation(() =>
+      Promise.resolve({
+        records: [
+          {
+            getData: () => ({ PROP_KEY: 10, AGARE: "Anna Andersson" }),
+            getGeometry: () => null,
+          },
+        ],
+      })
+    );
+    const dsManager = createMockDataSourceManager((id) =>
+      id === "owner" ? ownerDs : null
+    );
+
+    const graphics = await queryOwnerByFnr(10, "owner", dsManager, {
+      fieldMapping: resolveFieldMapping({
+        fnr: "FASTIGHETSNR",
+        ownerFnr: "PROP_KEY",
+        ownerName: "AGARE",
+      }),
+    });
+
+    const queryArgs = (ownerDs.query as jest.Mock).mock.calls[0][0] as {
+      where: string;
+    };
+    expect(queryArgs.where).toBe("PROP_KEY = 10");
+    expect(graphics[0].attributes.FNR).toBe(10);
+    expect(graphics[0].attributes.NAMN).toBe("Anna Andersson");
+  });
+});
+
+describe("Table Columns", () => {
+  const createColumnRow = (overrides: Partial<GridRowData> = {}) =>
+    ({
+      id: "row-1",
+      FNR: "100",
+      UUID_FASTIGHET: "uuid-1",
+      FASTIGHET: "Berg 1:2\u00A0(1/2)",
+      BOSTADR: "Anna Andersson",
+      ADDRESS: "Anna Andersson",
+      geometryType: null,
+      geometry: null,
+      rawOwner: { NAMN: "Anna Andersson", ANDEL: "0.5" },
+      rawProperty: { AREA: 1200, ZONING: "B1" },
+      ...overrides,
+    }) as GridRowData;
+
+  const readCell = (column: ColumnDef<GridRowData>, row: GridRowData) =>
+    (
+      column as { accessorFn: (row: GridRowData, index: number) => unknown }
+    ).accessorFn(row, 0);
+
+  it("keeps the default columns and their ids", () => {
+    const columns = createPropertyTableColumns({
+      translate: (key) => key,
+      displayColumns: ["FASTIGHET", "BOSTADR"],
+    });
+    expect(columns.map((column) => column.id)).toEqual([
+      "FASTIGHET",
+      "ADDRESS",
+    ]);
+    expect(readCell(columns[0], createColumnRow())).toBe(
+      "Berg 1:2\u00A0(1/2)"
+    );
+  });
+
+  it("drops unknown and duplicate column ids", () => {
+    const columns = resolveDisplayColumns([
+      "FASTIGHET",
+      "BOSTADR",
+      "ADDRESS",
+      "UNKNOWN",
+      "layer:AREA",
+      "property:AREA; DROP",
+      "property:AREA",
+    ]);
+    expect(columns.map((column) => column.id)).toEqual([
+      "FASTIGHET",
+      "BOSTADR",
+      "property:AREA",
+    ]);
+    expect(resolveDisplayColumns([]).map((column) => column.id)).toEqual([
+      "FASTIGHET",
+      "BOSTADR",
+    ]);
+  });
+
+  it("reads raw layer fields with custom headers and formatters", () => {
+    const columns = createPropertyTableColumns({
+      translate: (key) => key,
+      displayColumns: ["property:AREA", "owner:ANDEL"],
+      columnSettings: {
+        "owner:ANDEL": { label: "Share", formatter: "fraction" },
+      },
+    });
+    const row = createColumnRow();
+    expect(columns.map((column) => column.id)).toEqual([
+      "property:AREA",
+      "owner:ANDEL",
+    ]);
+    expect(readCell(columns[0], row)).toBe("1200");
+    expect(readCell(columns[1], row)).toBe("1/2");
+    const header = columns[1].header as () => string;
+    expect(header()).toBe("Share");
+  });
+
+  it("masks raw owner name fields when PII masking is on", () => {
+    const columns = createPropertyTableColumns({
+      translate: (key) => key,
+      displayColumns: ["owner:NAMN"],
+      maskPII: true,
+    });
+    expect(readCell(columns[0], createColumnRow())).toBe(
+      maskName("Anna Andersson")
+    );
+  });
+
+  it("redacts owner fields without a masking rule when masking is on", () => {
+    const displayColumns = ["owner:PERSONNR", "owner:TELEFON", "owner:ANDEL"];
+    const row = createColumnRow({
+      rawOwner: {
+        PERSONNR: "195501011234",
+        TELEFON: "070-1234567",
+        ANDEL: "1/2",
+      } as unknown as OwnerAttributes,
+    });
+
+    const masked = createPropertyTableColumns({
+      translate: (key) => key,
+      displayColumns,
+      maskPII: true,
+    });
+    expect(masked.map((column) => readCell(column, row))).toEqual([
+      "***",
+      "***",
+      "1/2",
+    ]);
+
+    const plain = createPropertyTableColumns({
+      translate: (key) => key,
+      displayColumns,
+    });
+    expect(readCell(plain[0], row)).toBe("195501011234");
+  });
+
+  it("formats shares and organization numbers", () => {
+    expect(formatColumnValue("2/4", "fraction")).toBe("1/2");
+    expect(formatColumnValue(0.25, "fraction")).toBe("1/4");
+    expect(formatColumnValue("0,5", "fraction")).toBe("1/2");
+    expect(formatColumnValue("whole", "fraction")).toBe("whole");
+    expect(formatColumnValue("5560001234", "orgNumber")).toBe("556000-1234");
+    expect(formatColumnValue("195501011234", "orgNumber")).toBe(
+      "19550101-1234"
+    );
+    expect(formatColumnValue("12-34", "orgNumber")).toBe("12-34");
+    expect(formatColumnValue(null, "text")).toBe("");
+  });
+
+  it("sorts copied rows by raw layer columns", () => {
+    const rows = [
+      createColumnRow({ id: "a", rawProperty: { AREA: 300 } }),
+      createColumnRow({ id: "b", rawProperty: { AREA: 20 } }),
+    ];
+    const sorted = applySortingToProperties(rows, [
+      { id: "property:AREA", desc: false },
+    ]);
+    expect(sorted.map((row) => row.id)).toEqual(["b", "a"]);
+  });
+});
+
+describe("Row Actions", () => {
+  const createActionRow = (id: string, fnr: string): GridRowData => ({
+    id,
+    FNR: fnr,
+    UUID_FASTIGHET: `uuid-${fnr}`,
+    FASTIGHET: `Property ${fnr}`,
+    BOSTADR: `Owner ${id}`,
+    ADDRESS: `Owner ${id}`,
+    geometryType: null,
+    geometry: null,
+  });
+
+  const createResult = (fnr: string): SerializedQueryResultMap[string] => ({
+    propertyId: fnr,
+    features: [],
+  });
+
+  it("removes every owner row of the property and its stored results", () => {
+    const rows = [
+      createActionRow("1_1", "1"),
+      createActionRow("1_2", "1"),
+      createActionRow("2_1", "2"),
+    ];
+    const rawResults: SerializedQueryResultMap = {
+      "1_1": createResult("1"),
+      "1_2": createResult("1"),
+      "2_1": createResult("2"),
+    };
+
+    const update = removePropertyFromSelection({
+      fnr: "1",
+      selectedProperties: rows,
+      rawResults,
+      normalizeFnrKey,
+    });
+
+    expect(update.removedCount).toBe(2);
+    expect(update.rowsToStore.map((row) => row.id)).toEqual(["2_1"]);
+    expect(Object.keys(update.resultsToStore ?? {})).toEqual(["2_1"]);
+    expect(rows).toHaveLength(3);
+  });
+
+  it("matches numeric and string FNR values", () => {
+    const update = removePropertyFromSelection({
+      fnr: 2,
+      selectedProperties: [createActionRow("2_1", "2")],
+      rawResults: null,
+      normalizeFnrKey,
+    });
+
+    expect(update.removedCount).toBe(1);
+    expect(update.rowsToStore).toEqual([]);
+    expect(update.resultsToStore).toBeNull();
+  });
+
+  it("leaves the selection untouched for an unknown property", () => {
+    const rows = [createActionRow("1_1", "1")];
+    const update = removePropertyFromSelection({
+      fnr: "99",
+      selectedProperties: rows,
+      rawResults: new Map([["1_1", createResult("1")]]),
+      normalizeFnrKey,
+    });
+
+    expect(update.removedCount).toBe(0);
+    expect(update.rowsToStore).toEqual(rows);
+    expect(Object.keys(update.resultsToStore ?? {})).toEqual(["1_1"]);
+  });
+
+  it("copies a single row as tab-separated text", () => {
+    const text = formatPropertiesForClipboard(
+      [createActionRow("1_1", "1")],
+      false,
+      "Unknown"
+    );
+    expect(text).toBe("Property 1\tOwner 1_1");
+  });
+});
+
+describe("Table Filters", () => {
+  const createFilterRow = (
+    id: string,
+    fastighet: string,
+    owner: string
+  ): GridRowData => ({
+    id,
+    FNR: id,
+    UUID_FASTIGHET: `uuid-${id}`,
+    FASTIGHET: fastighet,
+    BOSTADR: owner,
+    ADDRESS: owner,
+    geometryType: null,
+    geometry: null,
+  });
+
+  const rows = [
+    createFilterRow("1", "Berg 1:2", "Anna Andersson, Storgatan 1"),
+    createFilterRow("2", "Dal 3:4", "Bo Berg, Lillgatan 2"),
+    createFilterRow("3", "Sjö 5:6", "Cecilia Dahl, Storgatan 9"),
+  ];
+  const columns = createPropertyTableColumns({
+    translate: (key) => key,
+    displayColumns: ["FASTIGHET", "BOSTADR"],
+  });
+
+  it("quick search matches designation, owner and address", () => {
+    expect(matchesQuickSearch(rows[0], "berg 1")).toBe(true);
+    expect(matchesQuickSearch(rows[1], "BO BERG")).toBe(true);
+    expect(matchesQuickSearch(rows[2], "storgatan")).toBe(true);
+    expect(matchesQuickSearch(rows[2], "lillgatan")).toBe(false);
+    expect(matchesQuickSearch(rows[2], "  ")).toBe(true);
+  });
+
+  it("returns the rows the table shows for global and column filters", () => {
+    expect(
+      filterPropertiesForTable(rows, columns, [], "storgatan").map(
+        (row) => row.id
+      )
+    ).toEqual(["1", "3"]);
+    expect(
+      filterPropertiesForTable(
+        rows,
+        columns,
+        [{ id: "FASTIGHET", value: "berg" }],
+        ""
+      ).map((row) => row.id)
+    ).toEqual(["1"]);
+    expect(
+      filterPropertiesForTable(
+        rows,
+        columns,
+        [{ id: "ADDRESS", value: "gatan" }],
+        "berg"
+      ).map((row) => row.id)
+    ).toEqual(["1", "2"]);
+  });
+
+  it("leaves the selection untouched when no filter is active", () => {
+    expect(filterPropertiesForTable(rows, columns, [], "")).toBe(rows);
+    expect(hasActiveFilters([], " ")).toBe(false);
+    expect(hasActiveFilters([{ id: "FASTIGHET", value: "" }], "")).toBe(false);
+    expect(hasActiveFilters([{ id: "FASTIGHET", value: "a" }], "")).toBe(true);
+    expect(hasActiveFilters([], "dal")).toBe(true);
+  });
+});
+
+describe("FBWebb Report URL", () => {
+  const translate = (key: string) => key;
+  const settings = {
+    baseUrl: "https://fbwebb.lund.se/report",
+    database: "prod",
+    user: "reporter",
+  };
+
+  it("should build one link with unique FNRs", () => {
+    const result = buildFBWebbReportUrl({
+      settings,
+      rows: [{ FNR: 123 }, { FNR: "456" }, { FNR: "123" }],
+      allowedHosts: ["lund.se"],
+      translate,
+    });
+
+    expect(result.valid).toBe(true);
+    if (!result.valid) return;
+
+    const url = new URL(result.data.url);
+    expect(url.origin + url.pathname).toBe("https://fbwebb.lund.se/report");
+    expect(url.searchParams.get("database")).toBe("prod");
+    expect(url.searchParams.get("user")).toBe("reporter");
+    expect(url.searchParams.get("fnr")).toBe("123,456");
+    expect(result.data.count).toBe(2);
+  });
+
+  it("should reject hosts outside the allowlist and non-HTTPS URLs", () => {
+    const disallowed = buildFBWebbReportUrl({
+      settings,
+      rows: [{ FNR: 1 }],
+      allowedHosts: ["example.com"],
+      translate,
+    });
+    expect(disallowed.valid).toBe(false);
+    if (!disallowed.valid) {
+      expect(disallowed.failureReason).toBe("report_disallowed_host");
+    }
+
+    expect(isValidReportUrl("http://fbwebb.lund.se/report")).toBe(false);
+    expect(isValidReportUrl("https://user:pw@fbwebb.lund.se/report")).toBe(
+      false
+    );
+    expect(isValidReportUrl("https://192.168.1.10/report")).toBe(false);
+  });
+
+  it("should require database and user", () => {
+    const result = buildFBWebbReportUrl({
+      settings: { ...settings, user: " " },
+      rows: [{ FNR: 1 }],
+      translate,
+    });
+    expect(result.valid).toBe(false);
+    if (!result.valid) {
+      expect(result.error.message).toBe("errorReportNotConfigured");
+    }
+  });
+});
+
+describe("Property Widget - Undo Functionality", () => {
+  it("should track remove operations in undo history", () => {
+    const mockRow = {
+      id: "123_1",
+      FNR: "123",
+      UUID_FASTIGHET: "uuid-123",
+      FASTIGHET: "Property 1",
+      BOSTADR: "Owner 1",
+    };
+
+    const undoHistory = [
+      {
+        type: "remove" as const,
+        timestamp: Date.now(),
+        data: [mockRow],
+      },
+    ];
+
+    expect(undoHistory).toHaveLength(1);
+    expect(undoHistory[0].type).toBe("remove");
+    expect(undoHistory[0].data).toEqual([mockRow]);
+  });
+
+  it("should track clear operations in undo history", () => {
+    const mockRows = [
+      {
+        id: "123_1",
+        FNR: "123",
+        UUID_FASTIGHET: "uuid-123",
+        FASTIGHET: "Property 1",
+        BOSTADR: "Owner 1",
+      },
+      {
+        id: "456_2",
+        FNR: "456",
+        UUID_FASTIGHET: "uuid-456",
+        FASTIGHET: "Property 2",
+        BOSTADR: "Owner 2",
+      },
+    ];
+
+    const undoHistory = [
+      {
+        type: "clear" as const,
+        timestamp: Date.now(),
+        data: mockRows,
+      },
+    ];
+
+    expect(undoHistory).toHaveLength(1);
+    expect(undoHistory[0].type).toBe("clear");
+    expect(undoHistory[0].data).toHaveLength(2);
+  });
+
+  it("should limit undo history to MAX_UNDO_HISTORY", () => {
+    const MAX_UNDO_HISTORY = 10;
+    const operations = Array.from({ length: 15 }, (_, i) => ({
+      type: "remove" as const,
+      timestamp: Date.now() + i,
+      data: [
+        {
+          id: `${i}_1`,
+          FNR: `${i}`,
+          UUID_FASTIGHET: `uuid-${i}`,
+          FASTIGHET: `Property ${i}`,
+          BOSTADR: `Owner ${i}`,
+        },
+      ],
+    }));
+
+    const limitedHistory = operations.slice(0, MAX_UNDO_HISTORY);
+
+    expect(limitedHistory).toHaveLength(MAX_UNDO_HISTORY);
+    expect(limitedHistory[0].data[0].FNR).toBe("0");
+    expect(limitedHistory[9].data[0].FNR).toBe("9");
+  });
+
+  it("should restore properties on undo remove", () => {
+    const removedRow = {
+      id: "123_1",
+      FNR: "123",
+      UUID_FASTIGHET: "uuid-123",
+      FASTIGHET: "Property 1",
+      BOSTADR: "Owner 1",
+    };
+
+    const currentProperties = [
+      {
+        id: "456_2",
+        FNR: "456",
+        UUID_FASTIGHET: "uuid-456",
+        FASTIGHET: "Property 2",
+        BOSTADR: "Owner 2",
+      },
+    ];
+
+    const undoOperation = {
+      type: "remove" as const,
+      timestamp: Date.now(),
+      data: [removedRow],
+    };
+
+    const restoredProperties = [...currentProperties, ...undoOperation.data];
+
+    expect(restoredProperties).toHaveLength(2);
+    expect(restoredProperties[0].FNR).toBe("456");
+    expect(restoredProperties[1].FNR).toBe("123");
+  });
+
+  it("should restore all properties on undo clear", () => {
+    const clearedRows = [
+      {
+        id: "123_1",
+        FNR: "123",
+        UUID_FASTIGHET: "uuid-123",
+        FASTIGHET: "Property 1",
+        BOSTADR: "Owner 1",
+      },
+      {
+        id: "456_2",
+        FNR: "456",
+        UUID_FASTIGHET: "uuid-456",
+        FASTIGHET: "Property 2",
+        BOSTADR: "Owner 2",
+      },
+    ];
+
+    const undoOperation = {
+      type: "clear" as const,
+      timestamp: Date.now(),
+      data: clearedRows,
+    };
+
+    const restoredProperties = undoOperation.data;
+
+    expect(restoredProperties).toHaveLength(2);
+    expect(restoredProperties[0].FNR).toBe("123");
+    expect(restoredProperties[1].FNR).toBe("456");
+  });
+});
+
+describe("Selection History", () => {
+  const widgetId = "widget-history";
+  const reducer = new PropertyReduxStoreExtension().getReducer();
+
+  const createRow = (fnr: string): GridRowData => ({
+    id: `${fnr}_1`,
+    FNR: fnr,
+    UUID_FASTIGHET: `uuid-${fnr}`,
+    FASTIGHET: `Property ${fnr}`,
+    BOSTADR: "Owner",
+    ADDRESS: "Owner",
+    geometryType: "polygon",
+    geometry: {
+      rings: [
+        [
+          [0, 0],
+          [0, 1],
+          [1, 1],
+          [0, 0],
+        ],
+      ],
+      spatialReference: { wkid: 3006 },
+    },
+  });
+
+  const applyActions = (actions: PropertyAction[]): IMPropertyGlobalState =>
+    actions.reduce<IMPropertyGlobalState>(
+      (state, action) => reducer(state, action),
+      undefined as unknown as IMPropertyGlobalState
+    );
+
+  const toRootState = (state: IMPropertyGlobalState) =>
+    ({ "property-state": state }) as unknown as IMState;
+
+  const readSelection = (state: IMPropertyGlobalState) =>
+    createPropertySelectors(widgetId).selectSelectedProperties(
+      toRootState(state)
+    );
+
+  const readHistoryFlags = (state: IMPropertyGlobalState) => {
+    const selectors = createPropertySelectors(widgetId);
+    return {
+      canUndo: selectors.selectCanUndo(toRootState(state)),
+      canRedo: selectors.selectCanRedo(toRootState(state)),
+    };
+  };
+
+  it("restores previous selection and raw results on undo", () => {
+    const rawA = {
+      "1_1": { propertyId: "1", features: [] },
+    } as SerializedQueryResultMap;
+    const state = applyActions([
+      propertyActions.setSelectedProperties([createRow("1")], widgetId),
+      propertyActions.setRawResults(rawA, widgetId),
+      propertyActions.setSelectedProperties(
+        [createRow("1"), createRow("2")],
+        widgetId
+      ),
+      propertyActions.setRawResults(null, widgetId),
+      propertyActions.undo(widgetId),
+    ]);
+
+    expect(readSelection(state).map((row) => row.FNR)).toEqual(["1"]);
+    expect(
+      createPropertySelectors(widgetId).selectRawPropertyResults(
+        toRootState(state)
+      )
+    ).toEqual(rawA);
+    expect(readHistoryFlags(state)).toEqual({ canUndo: true, canRedo: true });
+  });
+
+  it("reapplies undone selection on redo and drops redo on new selection", () => {
+    const afterRedo = applyActions([
+      propertyActions.setSelectedProperties([createRow("1")], widgetId),
+      propertyActions.setSelectedProperties(
+        [createRow("1"), createRow("2")],
+        widgetId
+      ),
+      propertyActions.undo(widgetId),
+      propertyActions.redo(widgetId),
+    ]);
+    expect(readSelection(afterRedo).map((row) => row.FNR)).toEqual([
+      "1",
+      "2",
+    ]);
+    expect(readHistoryFlags(afterRedo).canRedo).toBe(false);
+
+    const afterNewSelection = reducer(
+      reducer(afterRedo, propertyActions.undo(widgetId)),
+      propertyActions.setSelectedProperties([createRow("3")], widgetId)
+    );
+    expect(readHistoryFlags(afterNewSelection).canRedo).toBe(false);
+  });
+
+  it("records clear all so the cleared selection can be restored", () => {
+    const state = applyActions([
+      propertyActions.setSelectedProperties([createRow("1")], widgetId),
+      propertyActions.clearAll(widgetId),
+    ]);
+    expect(readSelection(state)).toHaveLength(0);
+
+    const restored = reducer(state, propertyActions.undo(widgetId));
+    expect(readSelection(restored).map((row) => row.FNR)).toEqual(["1"]);
+  });
+
+  it("skips history for unrecorded updates and empty clears", () => {
+    const state = applyActions([
+      propertyActions.setSelectedProperties([createRow("1")], widgetId, {
+        recordHistory: false,
+      }),
+    ]);
+    expect(readHistoryFlags(state).canUndo).toBe(false);
+
+    const cleared = applyActions([propertyActions.clearAll(widgetId)]);
+    expect(readHistoryFlags(cleared).canUndo).toBe(false);
+  });
+
+  it("ignores undo and redo when history is empty", () => {
+    const state = applyActions([
+      propertyActions.setSelectedProperties([createRow("1")], widgetId, {
+        recordHistory: false,
+      }),
+      propertyActions.undo(widgetId),
+      propertyActions.redo(widgetId),
+    ]);
+    expect(readSelection(state).map((row) => row.FNR)).toEqual(["1"]);
+  });
+
+  it("bounds the undo stack at the history limit", () => {
+    const limit = configConstants.SELECTION_HISTORY_LIMIT;
+    const total = limit + 5;
+    const actions: PropertyAction[] = [];
+    for (let i = 0; i < total; i++) {
+      actions.push(
+        propertyActions.setSelectedProperties([createRow(String(i))], widgetId)
+      );
+    }
+    let state = applyActions(actions);
+
+    let undoCount = 0;
+    while (readHistoryFlags(state).canUndo) {
+      state = reducer(state, propertyActions.undo(widgetId));
+      undoCount += 1;
+    }
+
+    expect(undoCount).toBe(limit);
+    expect(readSelection(state).map((row) => row.FNR)).toEqual([
+      String(total - limit - 1),
+    ]);
+  });
+
+  it("keeps no formatted owner text in history", () => {
+    const revealed: GridRowData = {
+      ...createRow("1"),
+      BOSTADR: "Anna Andersson",
+      ADDRESS: "Anna Andersson",
+      rawOwner: { NAMN: "Anna Andersson" } as OwnerAttributes,
+    };
+    const restored = applyActions([
+      propertyActions.setSelectedProperties([revealed], widgetId),
+      propertyActions.setSelectedProperties([], widgetId),
+      propertyActions.undo(widgetId),
+    ]);
+    const [row] = readSelection(restored);
+    expect(row.ADDRESS).toBe("");
+
+    const [masked] = reformatOwnerRows([row], true, "Unknown");
+    expect(masked.ADDRESS).not.toContain("Andersson");
+    expect(masked.ADDRESS).toBe(masked.BOSTADR);
+  });
+
+  it("rebuilds one highlight graphic per property from serialized rows", () => {
+    const createGraphic = jest.fn(
+      (properties: __esri.GraphicProperties) =>
+        properties as unknown as __esri.Graphic
+    );
+    const rows = [
+      createRow("1"),
+      { ...createRow("1"), id: "1_2" },
+      { ...createRow("2"), geometry: null },
+    ];
+
+    const entries = buildGraphicEntriesFromRows({
+      rows,
+      createGraphic,
+      normalizeFnrKey,
+    });
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0].fnr).toBe("1");
+    const geometry = createGraphic.mock.calls[0][0].geometry as {
+      type?: string;
+    };
+    expect(geometry.type).toBe("polygon");
+  });
+});
+
+describe("Clipboard utilities", () => {
+  beforeEach(() => {
+    copyMock.mockReset();
+  });
+
+  it("should copy to clipboard when library succeeds", () => {
+    copyMock.mockReturnValue(true);
+    const result = copyToClipboard("test-url");
+
+    expect(result).toBe(true);
+    expect(copyMock).toHaveBeenCalledWith(
+      "test-url",
+      expect.objectContaining({ format: "text/plain" })
+    );
+  });
+
+  it("should return false when clipboard copy fails", () => {
+    copyMock.mockReturnValue(false);
+    const result = copyToClipboard("test-url");
+
+    expect(result).toBe(false);
+  });
+
+  it("should return false when clipboard throws", () => {
+    copyMock.mockImplementation(() => {
+      throw new Error("denied");
+    });
+
+    expect(copyToClipboard("test-url")).toBe(false);
+  });
+});
+
+describe("Property Widget - Telemetry", () => {
+  it("should track events when telemetry is enabled", () => {
+    // Telemetry should respect user privacy settings
+    // This test verifies the structure of telemetry events
+    const mockEvent = {
+      category: "Property",
+      action: "remove",
+      value: 1,
+    };
+
+    expect(mockEvent).toHaveProperty("category");
+    expect(mockEvent).toHaveProperty("action");
+    expect(mockEvent.category).toBe("Property");
+    expect(mockEvent.action).toBe("remove");
+  });
+
+  it("should track performance metrics", () => {
+    const mockMetric = {
+      operation: "map_click_query",
+      duration: 250,
+      success: true,
+    };
+
+    expect(mockMetric.operation).toBe("map_click_query");
+    expect(mockMetric.duration).toBeGreaterThan(0);
+    expect(mockMetric.success).toBe(true);
+  });
+
+  it("should track errors with context", () => {
+    const mockError = {
+      category: "Error",
+      action: "property_query",
+      label: "Network error: timeout",
+    };
+
+    expect(mockError.category).toBe("Error");
     expect(mockError.action).toBe("property_query");
     expect(mockError.label).toContain("Network error");
   });
@@ -1936,34 +4348,33 @@ describe("Clipboard Formatting", () => {
     );
   });
 
-  it("should keep owner data unmasked for clipboard regardless of masking", () => {
+  it("should mask owner data for clipboard when masking is enabled", () => {
     const result = formatPropertiesForClipboard(
       [baseRow],
       true,
       "Unknown owner"
     );
 
-    expect(result).toContain(
-      "Lund 1:1\tJohn Doe, Testgatan 1, 12345 Lund (556677-8899)"
-    );
-    expect(result).not.toContain("J*** D**");
+    expect(result).toContain("J*** D**");
+    expect(result).not.toContain("John Doe");
+    expect(result).not.toContain("Testgatan 1");
   });
 
-  it("should ignore masked grid values when raw owner data is present", () => {
-    const maskedRow: GridRowData = {
+  it("should format from raw owner data rather than grid values", () => {
+    const staleRow: GridRowData = {
       ...baseRow,
-      BOSTADR: "J*** D**",
-      ADDRESS: "J*** D**",
+      BOSTADR: "Stale text",
+      ADDRESS: "Stale text",
     };
 
     const result = formatPropertiesForClipboard(
-      [maskedRow],
+      [staleRow],
       true,
       "Unknown owner"
     );
 
-    expect(result).toContain("John Doe");
-    expect(result).not.toContain("J*** D**");
+    expect(result).toContain("J*** D**");
+    expect(result).not.toContain("Stale text");
   });
 
   it("should sanitize HTML content in cells", () => {
@@ -2335,6 +4746,144 @@ describe("Export Utilities - CSV", () => {
     expect(lines[1]).toContain("John Doe");
     expect(lines[1]).not.toContain("J*** D**");
   });
+
+  const ownerRow = (
+    id: string,
+    NAMN: string,
+    BOSTADR: string
+  ): GridRowData => ({
+    ...baseRow,
+    id,
+    rawProperty: { FNR: "123", KOMMUN: "Lund" },
+    rawOwner: {
+      OBJECTID: 1,
+      FNR: "123",
+      UUID_FASTIGHET: "uuid-123",
+      FASTIGHET: "Property",
+      NAMN,
+      BOSTADR,
+      POSTNR: "22223",
+      POSTADR: "Lund",
+      ORGNR: "",
+    },
+  });
+
+  it("should write semicolons and a byte order mark for Excel", () => {
+    const csv = convertToCSV(
+      [{ ...baseRow, FASTIGHET: "Lund; Väster 1:1", ADDRESS: "a, b" }],
+      "Unknown owner",
+      false,
+      {
+        delimiter: "semicolon",
+        includeBom: true,
+        columns: ["FASTIGHET", "ADDRESS"],
+        rowShape: "owner",
+      }
+    );
+
+    expect(csv.startsWith("\uFEFFFASTIGHET;ADDRESS\n")).toBe(true);
+    expect(csv.split("\n")[1]).toBe('"Lund; Väster 1:1";a, b');
+  });
+
+  it("should write chosen raw fields in order and mask owner fields", () => {
+    const options = {
+      delimiter: "tab" as const,
+      includeBom: false,
+      columns: ["owner:NAMN", "property:KOMMUN", "FNR"],
+      rowShape: "owner" as const,
+    };
+    const rows = [ownerRow("row-a", "John Doe", "Storgatan 1")];
+
+    const plain = convertToCSV(rows, "Unknown owner", false, options);
+    expect(plain.split("\n")).toEqual([
+      "NAMN\tKOMMUN\tFNR",
+      "John Doe\tLund\t123",
+    ]);
+
+    const masked = convertToCSV(rows, "Unknown owner", true, options);
+    expect(masked).not.toContain("John Doe");
+    expect(masked).toContain("Lund");
+  });
+
+  it("should redact owner fields outside the masking rules", () => {
+    const row = ownerRow("row-a", "John Doe", "Storgatan 1");
+    const rows = [
+      {
+        ...row,
+        rawOwner: { ...row.rawOwner, CO_ADRESS: "c/o Doe", FNR: "123" },
+      } as GridRowData,
+    ];
+    const options = {
+      delimiter: "comma" as const,
+      includeBom: false,
+      columns: ["owner:CO_ADRESS", "owner:FNR"],
+      rowShape: "owner" as const,
+    };
+
+    const masked = convertToCSV(rows, "Unknown owner", true, options);
+    expect(masked.split("\n")[1]).toBe("***,123");
+    expect(masked).not.toContain("c/o Doe");
+  });
+
+  it("should join owners into one row per property", () => {
+    const rows = [
+      ownerRow("row-a", "John Doe", "Storgatan 1"),
+      ownerRow("row-b", "Jane Doe", "Storgatan 1"),
+      { ...baseRow, id: "row-c", FNR: "456", FASTIGHET: "Other" },
+    ];
+
+    const csv = convertToCSV(rows, "Unknown owner", false, {
+      delimiter: "comma",
+      includeBom: false,
+      columns: ["FASTIGHET", "owner:NAMN", "BOSTADR"],
+      rowShape: "property",
+    });
+
+    expect(csv.split("\n")).toEqual([
+      "FASTIGHET,NAMN,BOSTADR",
+      "Property,John Doe; Jane Doe,Storgatan 1",
+      'Other,"",Owner',
+    ]);
+  });
+
+  it("should sanitize CSV options and list the available columns", () => {
+    expect(
+      resolveCsvExportOptions({
+        delimiter: "pipe",
+        includeBom: "yes",
+        columns: ["owner:NAMN", "owner:NAMN", "bogus", "owner:bad field"],
+        rowShape: "matrix",
+      })
+    ).toEqual({
+      delimiter: "comma",
+      includeBom: false,
+      columns: ["owner:NAMN"],
+      rowShape: "owner",
+    });
+    expect(resolveCsvExportOptions(null).columns).toEqual([
+      "FNR",
+      "UUID_FASTIGHET",
+      "FASTIGHET",
+      "BOSTADR",
+      "ADDRESS",
+    ]);
+
+    const columns = collectCsvColumnOptions([
+      ownerRow("row-a", "John Doe", "Storgatan 1"),
+    ]);
+    expect(columns.slice(0, 5)).toEqual([
+      "FNR",
+      "UUID_FASTIGHET",
+      "FASTIGHET",
+      "BOSTADR",
+      "ADDRESS",
+    ]);
+    expect(columns).toContain("property:KOMMUN");
+    expect(columns).toContain("owner:NAMN");
+    expect(columns.indexOf("property:FNR")).toBeLessThan(
+      columns.indexOf("owner:BOSTADR")
+    );
+  });
 });
 
 describe("Export Utilities - JSON", () => {
@@ -2370,6 +4919,7 @@ describe("Export Utilities - JSON", () => {
       {
         ...baseRow,
         rawOwner: createOwner({
+          FASTIGHET: "KULTUREN 25",
           NAMN: "BIRGIT O SVEN HÅKAN OHLSSONS STIFTELSE",
           BOSTADR: "St Annegatan 4 F",
           POSTNR: "22350",
@@ -2379,11 +4929,15 @@ describe("Export Utilities - JSON", () => {
       },
     ];
 
-    const json = convertToJSON(rows, false, "Unknown Owner");
+    const { properties } = buildJSONExportDocument(
+      rows,
+      false,
+      "Unknown Owner"
+    );
 
-    expect(json).toHaveLength(1);
-    expect(json[0].FASTIGHET).toBe("KULTUREN 25 (1/1)");
-    expect(json[0].ADDRESS).toBe(
+    expect(properties).toHaveLength(1);
+    expect(properties[0].FASTIGHET).toBe("KULTUREN 25");
+    expect(properties[0].owners[0].ADDRESS).toBe(
       "BIRGIT O SVEN HÅKAN OHLSSONS STIFTELSE, St Annegatan 4 F, 22350 LUND (845000-7532)"
     );
   });
@@ -2393,8 +4947,9 @@ describe("Export Utilities - JSON", () => {
       {
         ...baseRow,
         id: "row-1",
-        FASTIGHET: "KULTUREN 25 (1/1)",
+        FNR: "1",
         rawOwner: createOwner({
+          FASTIGHET: "KULTUREN 25",
           NAMN: "BIRGIT O SVEN HÅKAN OHLSSONS STIFTELSE",
           BOSTADR: "St Annegatan 4 F",
           POSTNR: "22350",
@@ -2405,8 +4960,9 @@ describe("Export Utilities - JSON", () => {
       {
         ...baseRow,
         id: "row-2",
-        FASTIGHET: "GLÄDJEN 13 (1/3)",
+        FNR: "2",
         rawOwner: createOwner({
+          FASTIGHET: "GLÄDJEN 13",
           NAMN: "Regnéll, Hans Olof Gerhard",
           BOSTADR: "WINSTRUPSGATAN 10 LGH 1101",
           POSTNR: "22222",
@@ -2417,8 +4973,9 @@ describe("Export Utilities - JSON", () => {
       {
         ...baseRow,
         id: "row-3",
-        FASTIGHET: "WINSTRUP 9 (1/2)",
+        FNR: "3",
         rawOwner: createOwner({
+          FASTIGHET: "WINSTRUP 9",
           NAMN: "Hovstadius, Claes Johan Oscar",
           BOSTADR: "WINSTRUPSGATAN 5",
           POSTNR: "22222",
@@ -2428,98 +4985,103 @@ describe("Export Utilities - JSON", () => {
       },
     ];
 
-    const json = convertToJSON(rows, false, "Unknown Owner");
-
-    expect(json).toHaveLength(3);
-    expect(json[0].FASTIGHET).toBe("KULTUREN 25 (1/1)");
-    expect(json[0].ADDRESS).toContain("BIRGIT O SVEN HÅKAN OHLSSONS STIFTELSE");
-    expect(json[1].FASTIGHET).toBe("GLÄDJEN 13 (1/3)");
-    expect(json[1].ADDRESS).toContain("Regnéll, Hans Olof Gerhard");
-    expect(json[2].FASTIGHET).toBe("WINSTRUP 9 (1/2)");
-    expect(json[2].ADDRESS).toContain("Hovstadius, Claes Johan Oscar");
-  });
-
-  it("should keep export data unmasked even when masking is enabled", () => {
-    const rows: GridRowData[] = [
-      {
-        ...baseRow,
-        rawOwner: createOwner({
-          NAMN: "Test Owner Name",
-          BOSTADR: "Test Address 123",
-          POSTNR: "12345",
-          POSTADRESS: "Test City",
-          ORGNR: "123456-7890",
-        }),
-      },
-    ];
-
-    const json = convertToJSON(rows, true, "Unknown Owner");
+    const { properties } = buildJSONExportDocument(
+      rows,
+      false,
+      "Unknown Owner"
+    );
 
-    expect(json[0].ADDRESS).toContain("Test Owner Name");
-    expect(json[0].ADDRESS).not.toContain("T***");
+    expect(properties).toHaveLength(3);
+    expect(properties[0].FASTIGHET).toBe("KULTUREN 25");
+    expect(properties[0].owners[0].ADDRESS).toContain(
+      "BIRGIT O SVEN HÅKAN OHLSSONS STIFTELSE"
+    );
+    expect(properties[1].FASTIGHET).toBe("GLÄDJEN 13");
+    expect(properties[1].owners[0].ADDRESS).toContain(
+      "Regnéll, Hans Olof Gerhard"
+    );
+    expect(properties[2].FASTIGHET).toBe("WINSTRUP 9");
+    expect(properties[2].owners[0].ADDRESS).toContain(
+      "Hovstadius, Claes Johan Oscar"
+    );
   });
 
-  it("should handle missing owner with BOSTADR fallback", () => {
+  it("should mask export data when masking is enabled", () => {
     const rows: GridRowData[] = [
-      {
-        ...baseRow,
-        FASTIGHET: "PROPERTY 1",
-        BOSTADR: "Fallback Address",
-        rawOwner: undefined,
+      {
+        ...baseRow,
+        rawOwner: createOwner({
+          NAMN: "Test Owner Name",
+          BOSTADR: "Test Address 123",
+          POSTNR: "12345",
+          POSTADRESS: "Test City",
+          ORGNR: "123456-7890",
+        }),
       },
     ];
 
-    const json = convertToJSON(rows, false, "Unknown Owner");
+    const doc = buildJSONExportDocument(rows, true, "Unknown Owner");
+    const [owner] = doc.properties[0].owners;
 
-    expect(json[0].FASTIGHET).toBe("PROPERTY 1");
-    expect(json[0].ADDRESS).toBe("Fallback Address");
+    expect(owner.ADDRESS).toContain("T***");
+    expect(owner.ADDRESS).not.toContain("Test Owner Name");
   });
 
-  it("should handle missing owner with ADDRESS fallback", () => {
+  it("should list no owners for rows without owner data", () => {
     const rows: GridRowData[] = [
       {
         ...baseRow,
         FASTIGHET: "PROPERTY 1",
-        BOSTADR: "",
-        ADDRESS: "Secondary Address",
+        BOSTADR: "Fallback Address",
         rawOwner: undefined,
       },
     ];
 
-    const json = convertToJSON(rows, false, "Unknown Owner");
+    const { properties } = buildJSONExportDocument(
+      rows,
+      false,
+      "Unknown Owner"
+    );
 
-    expect(json[0].ADDRESS).toBe("Secondary Address");
+    expect(properties[0].FASTIGHET).toBe("PROPERTY 1");
+    expect(properties[0].owners).toEqual([]);
   });
 
-  it("should use unknown owner text when all fallbacks fail", () => {
+  it("should use unknown owner text when the owner has no details", () => {
     const rows: GridRowData[] = [
       {
         ...baseRow,
-        FASTIGHET: "PROPERTY 1",
-        BOSTADR: "",
-        ADDRESS: "",
-        rawOwner: undefined,
+        rawOwner: createOwner({
+          NAMN: "",
+          BOSTADR: "",
+          POSTNR: "",
+          POSTADR: "",
+          ORGNR: null,
+        }),
       },
     ];
 
-    const json = convertToJSON(rows, false, "Unknown Owner");
+    const doc = buildJSONExportDocument(rows, false, "Unknown Owner");
+    const [owner] = doc.properties[0].owners;
 
-    expect(json[0].ADDRESS).toBe("Unknown Owner");
+    expect(owner.ADDRESS).toBe("Unknown Owner");
   });
 
   it("should sanitize HTML in FASTIGHET", () => {
     const rows: GridRowData[] = [
       {
         ...baseRow,
-        FASTIGHET: "<b>PROPERTY 1</b>",
-        rawOwner: createOwner(),
+        rawOwner: createOwner({ FASTIGHET: "<b>PROPERTY 1</b>" }),
       },
     ];
 
-    const json = convertToJSON(rows, false, "Unknown Owner");
+    const { properties } = buildJSONExportDocument(
+      rows,
+      false,
+      "Unknown Owner"
+    );
 
-    expect(json[0].FASTIGHET).toBe("PROPERTY 1");
-    expect(json[0].FASTIGHET).not.toContain("<b>");
+    expect(properties[0].FASTIGHET).toBe("PROPERTY 1");
   });
 
   it("should sanitize HTML in owner information", () => {
@@ -2533,58 +5095,53 @@ describe("Export Utilities - JSON", () => {
       },
     ];
 
-    const json = convertToJSON(rows, false, "Unknown Owner");
+    const doc = buildJSONExportDocument(rows, false, "Unknown Owner");
+    const [owner] = doc.properties[0].owners;
 
-    expect(json[0].ADDRESS).toContain("Bold Owner");
-    expect(json[0].ADDRESS).toContain("Italic Address");
-    expect(json[0].ADDRESS).not.toContain("<b>");
-    expect(json[0].ADDRESS).not.toContain("<i>");
+    expect(owner.NAMN).toBe("Bold Owner");
+    expect(owner.BOSTADR).toBe("Italic Address");
+    expect(owner.ADDRESS).toContain("Bold Owner");
+    expect(owner.ADDRESS).not.toContain("<b>");
+    expect(owner.ADDRESS).not.toContain("<i>");
   });
 
-  it("should fallback to FNR when FASTIGHET is missing", () => {
+  it("should keep the FNR when FASTIGHET is missing", () => {
     const rows: GridRowData[] = [
       {
         ...baseRow,
         FASTIGHET: "",
         FNR: "123456",
-        rawOwner: createOwner(),
+        rawOwner: createOwner({ FASTIGHET: "" }),
       },
     ];
 
-    const json = convertToJSON(rows, false, "Unknown Owner");
-
-    expect(json[0].FASTIGHET).toBe("123456");
-  });
-
-  it("should return empty array for null input", () => {
-    const json = convertToJSON(
-      null as unknown as GridRowData[],
+    const { properties } = buildJSONExportDocument(
+      rows,
       false,
-      "Unknown"
+      "Unknown Owner"
     );
-    expect(json).toEqual([]);
-  });
 
-  it("should return empty array for undefined input", () => {
-    const json = convertToJSON(
-      undefined as unknown as GridRowData[],
-      false,
-      "Unknown"
-    );
-    expect(json).toEqual([]);
+    expect(properties[0].FNR).toBe("123456");
+    expect(properties[0].FASTIGHET).toBe("");
   });
 
-  it("should return empty array for empty input", () => {
-    const json = convertToJSON([], false, "Unknown");
-    expect(json).toEqual([]);
+  it("should return an empty document for missing or empty input", () => {
+    const inputs = [null, undefined, []] as unknown as GridRowData[][];
+
+    inputs.forEach((rows) => {
+      const doc = buildJSONExportDocument(rows, false, "Unknown");
+      expect(doc.properties).toEqual([]);
+      expect(doc.metadata.propertyCount).toBe(0);
+      expect(doc.metadata.rowCount).toBe(0);
+    });
   });
 
   it("should handle Swedish characters in output", () => {
     const rows: GridRowData[] = [
       {
         ...baseRow,
-        FASTIGHET: "GÄRDET 15 (1/1)",
         rawOwner: createOwner({
+          FASTIGHET: "GÄRDET 15",
           NAMN: "Svensson, Åsa",
           BOSTADR: "Östra Vägen 5",
           POSTNR: "12345",
@@ -2593,12 +5150,110 @@ describe("Export Utilities - JSON", () => {
       },
     ];
 
-    const json = convertToJSON(rows, false, "Okänd ägare");
+    const { properties } = buildJSONExportDocument(
+      rows,
+      false,
+      "Okänd ägare"
+    );
+    const [owner] = properties[0].owners;
+
+    expect(properties[0].FASTIGHET).toBe("GÄRDET 15");
+    expect(owner.ADDRESS).toContain("Åsa");
+    expect(owner.ADDRESS).toContain("Östra");
+    expect(owner.ADDRESS).toContain("Malmö");
+  });
+
+  it("builds a versioned document with one entry per property", () => {
+    const geometry = {
+      rings: [[[0, 0], [1, 0], [1, 1], [0, 0]]],
+      spatialReference: { wkid: 3008 },
+    };
+    const rows: GridRowData[] = [
+      {
+        ...baseRow,
+        id: "row-1",
+        geometryType: "polygon",
+        geometry,
+        rawOwner: createOwner({ NAMN: "Anna Berg", ANDEL: "1/2" }),
+      },
+      {
+        ...baseRow,
+        id: "row-2",
+        rawOwner: createOwner({
+          NAMN: "Bo Berg",
+          ORGNR: null,
+          ANDEL: "1/2",
+          AGARLISTA: "Bo Berg; Berg AB (556000-1234)",
+        }),
+      },
+      { ...baseRow, id: "row-3", FNR: "456", UUID_FASTIGHET: "uuid-456" },
+    ];
+
+    const doc = buildJSONExportDocument(
+      rows,
+      false,
+      "Unknown Owner",
+      {
+        appId: "app-1",
+        widgetId: "widget_1",
+        sources: { property: "https://host/0", owner: "https://host/1" },
+      },
+      new Date("2024-05-01T10:00:00Z")
+    );
+
+    expect(doc.version).toBe(1);
+    expect(doc.metadata).toEqual({
+      exportedAt: "2024-05-01T10:00:00.000Z",
+      appId: "app-1",
+      widgetId: "widget_1",
+      sources: { property: "https://host/0", owner: "https://host/1" },
+      masked: false,
+      spatialReference: { wkid: 3008 },
+      propertyCount: 2,
+      rowCount: 3,
+    });
+    expect(doc.properties[0]).toMatchObject({
+      FNR: "123",
+      UUID_FASTIGHET: "uuid-123",
+      FASTIGHET: "Test Property",
+      geometryType: "polygon",
+      geometry,
+    });
+    expect(doc.properties[0].owners.map((owner) => owner.NAMN)).toEqual([
+      "Anna Berg",
+      "Bo Berg",
+    ]);
+    expect(doc.properties[0].owners[0]).toMatchObject({
+      BOSTADR: "Test Address 123",
+      POSTNR: "12345",
+      ORGNR: "123456-7890",
+      ANDEL: "1/2",
+    });
+    expect(doc.properties[0].owners[1].AGARLISTA).toEqual([
+      { name: "Bo Berg", orgNumber: "" },
+      { name: "Berg AB", orgNumber: "556000-1234" },
+    ]);
+    expect(doc.properties[1].owners).toEqual([]);
+    expect(doc.properties[1]).not.toHaveProperty("geometry");
+  });
+
+  it("masks owner fields in the document and flags it", () => {
+    const rows: GridRowData[] = [
+      {
+        ...baseRow,
+        rawOwner: createOwner({ NAMN: "Anna Berg", ORGNR: null }),
+      },
+    ];
+
+    const doc = buildJSONExportDocument(rows, true, "Unknown Owner");
+    const [owner] = doc.properties[0].owners;
 
-    expect(json[0].FASTIGHET).toBe("GÄRDET 15 (1/1)");
-    expect(json[0].ADDRESS).toContain("Åsa");
-    expect(json[0].ADDRESS).toContain("Östra");
-    expect(json[0].ADDRESS).toContain("Malmö");
+    expect(doc.metadata.masked).toBe(true);
+    expect(doc.metadata.appId).toBeNull();
+    expect(doc.metadata.spatialReference).toBeNull();
+    expect(owner.NAMN).toBe(maskName("Anna Berg"));
+    expect(owner.BOSTADR).toBe(maskAddress("Test Address 123"));
+    expect(owner.ADDRESS).not.toContain("Anna Berg");
   });
 });
 
@@ -2745,6 +5400,235 @@ describe("Export Utilities - GeoJSON", () => {
     expect(ownerValue).toContain("Geo Street 1");
     expect(ownerValue).not.toContain("J***");
   });
+
+  // 55.7° N, 13.2° E in SWEREF 99 TM
+  const swerefPointRow: GridRowData = {
+    ...baseRow,
+    geometryType: "point",
+    geometry: {
+      type: "point",
+      x: 386876.654,
+      y: 6174159.341,
+      spatialReference: { wkid: 3006, latestWkid: 3006 },
+    },
+  };
+
+  // Stands in for the ArcGIS projection engine: a linear fit around the
+  // point above, and null for systems other than SWEREF 99 TM
+  const toWgs84 = ([x, y]: number[]) => [
+    13.2 + (x - 386876.654) / 63000,
+    55.7 + (y - 6174159.341) / 111000,
+  ];
+  const projectToWgs84 = jest.fn(
+    (geometry: SerializedRecord): ReturnType<Wgs84GeometryProjector> => {
+      if (resolveSpatialReferenceWkid(geometry.spatialReference) !== 3006) {
+        return null;
+      }
+      const spatialReference = { wkid: 4326 };
+      if (Array.isArray(geometry.rings)) {
+        const rings = geometry.rings as number[][][];
+        return {
+          rings: rings.map((ring) => ring.map(toWgs84)),
+          spatialReference,
+        };
+      }
+      const [x, y] = toWgs84([geometry.x as number, geometry.y as number]);
+      return { x, y, spatialReference };
+    }
+  );
+
+  beforeEach(() => {
+    projectToWgs84.mockClear();
+  });
+
+  it("should project coordinates to WGS84 with the given projector", () => {
+    const onNativeFallback = jest.fn();
+    const geojson = convertToGeoJSON([swerefPointRow], "Unknown owner", false, {
+      crs: "wgs84",
+      precision: 6,
+      projectToWgs84,
+      onNativeFallback,
+    }) as unknown as FeatureCollectionLike;
+
+    expect(projectToWgs84).toHaveBeenCalledWith(swerefPointRow.geometry);
+    expect(geojson.features[0].geometry.coordinates).toEqual([13.2, 55.7]);
+    expect(geojson.crs).toBeUndefined();
+    expect(onNativeFallback).not.toHaveBeenCalled();
+  });
+
+  it("should keep WGS84 geometries without calling the projector", () => {
+    const wgs84Row: GridRowData = {
+      ...baseRow,
+      geometryType: "point",
+      geometry: {
+        type: "point",
+        x: 14.2,
+        y: 55.7,
+        spatialReference: { wkid: 4326 },
+      },
+    };
+
+    const geojson = convertToGeoJSON([wgs84Row], "Unknown owner", false, {
+      crs: "wgs84",
+      precision: 6,
+      projectToWgs84,
+    }) as unknown as FeatureCollectionLike;
+
+    expect(projectToWgs84).not.toHaveBeenCalled();
+    expect(geojson.features[0].geometry.coordinates).toEqual([14.2, 55.7]);
+  });
+
+  it("should add bounding boxes and round to the configured precision", () => {
+    const polygonRow: GridRowData = {
+      ...baseRow,
+      id: "row-sweref-polygon",
+      geometryType: "polygon",
+      geometry: {
+        type: "polygon",
+        rings: [
+          [
+            [386800, 6174100],
+            [386900, 6174100],
+            [386900, 6174200],
+            [386800, 6174100],
+          ],
+        ],
+        spatialReference: { wkid: 3006 },
+      },
+    };
+
+    const geojson = convertToGeoJSON(
+      [swerefPointRow, polygonRow],
+      "Unknown owner",
+      false,
+      { crs: "wgs84", precision: 3, projectToWgs84 }
+    ) as unknown as FeatureCollectionLike;
+
+    expect(geojson.features[0].geometry.coordinates).toEqual([13.2, 55.7]);
+    expect(geojson.features[0].bbox).toEqual([13.2, 55.7, 13.2, 55.7]);
+    const [west, south, east, north] = geojson.features[1].bbox ?? [];
+    expect(west).toBeLessThan(east);
+    expect(south).toBeLessThan(north);
+    expect(geojson.bbox).toEqual([
+      Math.min(13.2, west),
+      Math.min(55.7, south),
+      Math.max(13.2, east),
+      Math.max(55.7, north),
+    ]);
+    const ring = (geojson.features[1].geometry.coordinates as number[][][])[0];
+    ring.flat().forEach((value) => {
+      expect(Number(value.toFixed(3))).toBe(value);
+    });
+  });
+
+  it("should keep native coordinates with a crs member when asked", () => {
+    const geojson = convertToGeoJSON(
+      [swerefPointRow],
+      "Unknown owner",
+      false,
+      { crs: "native", precision: 2 }
+    ) as unknown as FeatureCollectionLike;
+
+    expect(geojson.features[0].geometry.coordinates).toEqual([
+      386876.65, 6174159.34,
+    ]);
+    expect(geojson.crs).toEqual({
+      type: "name",
+      properties: { name: "urn:ogc:def:crs:EPSG::3006" },
+    });
+  });
+
+  it("should fall back to native coordinates for unsupported systems", () => {
+    const rt90Row: GridRowData = {
+      ...baseRow,
+      geometryType: "point",
+      geometry: {
+        type: "point",
+        x: 1330000,
+        y: 6175000,
+        spatialReference: { wkid: 3021 },
+      },
+    };
+
+    const onNativeFallback = jest.fn();
+    const geojson = convertToGeoJSON(
+      [swerefPointRow, rt90Row],
+      "Unknown owner",
+      false,
+      { crs: "wgs84", precision: 6, projectToWgs84, onNativeFallback }
+    ) as unknown as FeatureCollectionLike;
+
+    expect(geojson.features[0].geometry.coordinates).toEqual([
+      386876.654, 6174159.341,
+    ]);
+    expect(geojson.features[1].geometry.coordinates).toEqual([
+      1330000, 6175000,
+    ]);
+    expect(geojson.crs?.properties.name).toBe("urn:ogc:def:crs:EPSG::3006");
+    expect(onNativeFallback).toHaveBeenCalledTimes(1);
+  });
+
+  it("should not take geometries without a spatial reference for WGS84", () => {
+    const onNativeFallback = jest.fn();
+    const unreferencedRow: GridRowData = {
+      ...baseRow,
+      geometryType: "point",
+      geometry: { type: "point", x: 386876.654, y: 6174159.341 },
+    };
+
+    const geojson = convertToGeoJSON(
+      [unreferencedRow],
+      "Unknown owner",
+      false,
+      { crs: "wgs84", precision: 6, projectToWgs84, onNativeFallback }
+    ) as unknown as FeatureCollectionLike;
+
+    expect(projectToWgs84).not.toHaveBeenCalled();
+    expect(geojson.features[0].geometry.coordinates).toEqual([
+      386876.654, 6174159.341,
+    ]);
+    expect(onNativeFallback).toHaveBeenCalledTimes(1);
+  });
+
+  it("should fall back when no projector is available", () => {
+    const onNativeFallback = jest.fn();
+    const geojson = convertToGeoJSON([swerefPointRow], "Unknown owner", false, {
+      crs: "wgs84",
+      precision: 6,
+      onNativeFallback,
+    }) as unknown as FeatureCollectionLike;
+
+    expect(geojson.crs?.properties.name).toBe("urn:ogc:def:crs:EPSG::3006");
+    expect(onNativeFallback).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("Projection Utilities", () => {
+  it("should read wkids and recognise WGS84 systems", () => {
+    expect(
+      resolveSpatialReferenceWkid({ wkid: 102100, latestWkid: 3857 })
+    ).toBe(3857);
+    expect(resolveSpatialReferenceWkid({ wkt: "PROJCS[...]" })).toBeNull();
+    expect(resolveSpatialReferenceWkid(null)).toBeNull();
+    expect(isWgs84Wkid(4326)).toBe(true);
+    expect(isWgs84Wkid(3006)).toBe(false);
+    expect(isWgs84Wkid(null)).toBe(false);
+  });
+
+  it("should default and clamp GeoJSON export options", () => {
+    expect(resolveGeoJsonExportOptions()).toEqual({
+      crs: "wgs84",
+      precision: 6,
+    });
+    expect(resolveGeoJsonExportOptions("native", 14)).toEqual({
+      crs: "native",
+      precision: 10,
+    });
+    expect(resolveGeoJsonExportOptions("epsg", -1.6)).toEqual({
+      crs: "wgs84",
+      precision: 0,
+    });
+  });
 });
 
 describe("Export Integration - GeoJSON Validation", () => {
@@ -2909,6 +5793,379 @@ describe("Export Utilities - exportData", () => {
   });
 });
 
+describe("Export Utilities - XLSX", () => {
+  // Entries are stored uncompressed, so the XML parts are readable as text
+  const readArchive = (bytes: Uint8Array): string =>
+    Array.from(bytes, (byte) => String.fromCharCode(byte)).join("");
+
+  const createOwnerRow = (
+    id: string,
+    fnr: string,
+    owner: Partial<GridRowData["rawOwner"]> | undefined
+  ): GridRowData => ({
+    id,
+    FNR: fnr,
+    UUID_FASTIGHET: `uuid-${fnr}`,
+    FASTIGHET: `Berg ${fnr}:1`,
+    BOSTADR: "Table owner",
+    ADDRESS: "Table owner",
+    rawOwner: owner as GridRowData["rawOwner"],
+  });
+
+  it("encodes text and checksums like the zip format expects", () => {
+    expect(crc32(encodeUtf8("123456789"))).toBe(0xcbf43926);
+    expect(Array.from(encodeUtf8("Å"))).toEqual([0xc3, 0x85]);
+    expect(getColumnLetter(0)).toBe("A");
+    expect(getColumnLetter(25)).toBe("Z");
+    expect(getColumnLetter(27)).toBe("AB");
+  });
+
+  it("parses ownership shares as decimals", () => {
+    expect(parseShareValue("1/4")).toBe(0.25);
+    expect(parseShareValue("0,5")).toBe(0.5);
+    expect(parseShareValue(1)).toBe(1);
+    expect(parseShareValue("2/1")).toBeNull();
+    expect(parseShareValue("")).toBeNull();
+  });
+
+  it("writes a zipped workbook with typed cells and a frozen header", () => {
+    const rows = [
+      createOwnerRow("a", "100", {
+        NAMN: "Anna Andersson",
+        BOSTADR: "Storgatan 1",
+        ANDEL: "1/2",
+      }),
+      createOwnerRow("b", "100", { NAMN: "Bo Berg", ANDEL: "1/2" }),
+      createOwnerRow("c", "200", undefined),
+    ];
+    const archive = readArchive(convertToXLSX(rows, false, "Unknown"));
+
+    expect(archive.startsWith("PK\u0003\u0004")).toBe(true);
+    expect(archive).toContain("xl/worksheets/sheet2.xml");
+    expect(archive).toContain('state="frozen"');
+    expect(archive).toContain(
+      '<c r="A2" t="inlineStr"><is><t xml:space="preserve">100</t></is></c>'
+    );
+    expect(archive).toContain('<c r="J2"><v>0.5</v></c>');
+    expect(archive).toContain(">Anna Andersson</t>");
+    expect(archive).toContain(">Table owner</t>");
+    // Summary: two properties across three owner rows
+    expect(archive).toContain('<c r="B2"><v>2</v></c>');
+    expect(archive).toContain('<c r="B3"><v>3</v></c>');
+  });
+
+  it("masks owner names and addresses when PII masking is on", () => {
+    const rows = [
+      createOwnerRow("a", "100", {
+        NAMN: "Anna Andersson",
+        BOSTADR: "Storgatan 1",
+        ANDEL: "1/1",
+      }),
+    ];
+    const archive = readArchive(convertToXLSX(rows, true, "Unknown"));
+
+    expect(archive).not.toContain("Anna Andersson");
+    expect(archive).not.toContain("Storgatan 1");
+    expect(archive).toContain(`>${maskName("Anna Andersson")}</t>`);
+    expect(archive).toContain(`>${maskAddress("Storgatan 1")}</t>`);
+  });
+
+  it("keeps string FNRs as text and numeric FNRs as numbers", () => {
+    const rows = [
+      createOwnerRow("a", "0012345678901234567", { NAMN: "Anna Andersson" }),
+      { ...createOwnerRow("b", "200", { NAMN: "Bo Berg" }), FNR: 200 },
+    ];
+    const archive = readArchive(convertToXLSX(rows, false, "Unknown"));
+
+    expect(archive).toContain(">0012345678901234567</t>");
+    expect(archive).toContain('<c r="A3"><v>200</v></c>');
+  });
+});
+
+describe("Mailing List", () => {
+  const readPdf = (bytes: Uint8Array): string =>
+    Array.from(bytes, (byte) => String.fromCharCode(byte)).join("");
+
+  const createOwnerRow = (
+    id: string,
+    fnr: string,
+    owner: Partial<GridRowData["rawOwner"]>
+  ): GridRowData => ({
+    id,
+    FNR: fnr,
+    UUID_FASTIGHET: `uuid-${fnr}`,
+    FASTIGHET: `Berg ${fnr}:1`,
+    BOSTADR: "",
+    ADDRESS: "",
+    rawOwner: {
+      FASTIGHET: `Berg ${fnr}:1`,
+      ...owner,
+    } as GridRowData["rawOwner"],
+  });
+
+  const home = { BOSTADR: "Storgatan 1", POSTNR: "22223", POSTADR: "Lund" };
+
+  it("merges owners at the same address into one recipient", () => {
+    const recipients = buildMailingRecipients([
+      createOwnerRow("a", "100", { NAMN: "Anna Berg", ...home }),
+      createOwnerRow("b", "200", {
+        NAMN: "Bo Berg",
+        ...home,
+        BOSTADR: "STORGATAN  1",
+        POSTNR: "222 23",
+      }),
+      createOwnerRow("c", "200", { NAMN: "Cecilia Ek", BOSTADR: "Väg 2" }),
+    ]);
+
+    expect(recipients).toHaveLength(2);
+    expect(recipients[0]).toMatchObject({
+      type: "person",
+      names: ["Anna Berg", "Bo Berg"],
+      address: "Storgatan 1",
+      postalCode: "222 23",
+      city: "Lund",
+      properties: ["Berg 100:1", "Berg 200:1"],
+      fnrs: ["100", "200"],
+    });
+    expect(recipients[1].names).toEqual(["Cecilia Ek"]);
+  });
+
+  it("keeps organisations apart from persons and lists them first", () => {
+    const recipients = buildMailingRecipients([
+      createOwnerRow("a", "100", { NAMN: "Anna Berg", ...home }),
+      createOwnerRow("b", "100", {
+        NAMN: "Berg AB",
+        ORGNR: "5560001234",
+        ...home,
+      }),
+      createOwnerRow("c", "300", {
+        AGARLISTA: "Kommunen (2120001234); Anna Berg",
+        ...home,
+      }),
+    ]);
+
+    expect(recipients.map((recipient) => recipient.type)).toEqual([
+      "organization",
+      "person",
+    ]);
+    expect(recipients[0].names).toEqual(["Berg AB", "Kommunen"]);
+    expect(recipients[0].orgNumbers).toEqual(["5560001234", "2120001234"]);
+    expect(recipients[1].names).toEqual(["Anna Berg"]);
+    expect(recipients[1].properties).toEqual(["Berg 100:1", "Berg 300:1"]);
+  });
+
+  it("masks names and addresses after merging on the raw values", () => {
+    const recipients = buildMailingRecipients(
+      [
+        createOwnerRow("a", "100", { NAMN: "Anna Berg", ...home }),
+        createOwnerRow("b", "200", { NAMN: "Bo Berg", ...home }),
+      ],
+      true
+    );
+
+    expect(recipients).toHaveLength(1);
+    expect(recipients[0].names).toEqual([
+      maskName("Anna Berg"),
+      maskName("Bo Berg"),
+    ]);
+    expect(recipients[0].address).toBe(maskAddress("Storgatan 1"));
+    expect(recipients[0].city).toBe("Lund");
+  });
+
+  it("writes one CSV row per recipient for mail merge", () => {
+    const csv = convertToMailingCSV(
+      buildMailingRecipients([
+        createOwnerRow("a", "100", { NAMN: "Anna Berg", ...home }),
+        createOwnerRow("b", "200", { NAMN: "Bo Berg", ...home }),
+      ])
+    );
+
+    expect(csv.split("\n")).toEqual([
+      "TYPE,NAME,ORGNR,ADDRESS,POSTAL_CODE,CITY,PROPERTIES,FNR",
+      'person,Anna Berg & Bo Berg,"",Storgatan 1,222 23,Lund,' +
+        "Berg 100:1; Berg 200:1,100; 200",
+    ]);
+    expect(convertToMailingCSV([])).toBe("");
+  });
+
+  it("lays out labels on as many sheets as the grid needs", () => {
+    const layout = resolveMailingLabelLayout("L7163");
+    const rows = Array.from({ length: 15 }, (_, index) =>
+      createOwnerRow(`r${index}`, String(100 + index), {
+        NAMN: `Ägare ${index}`,
+        BOSTADR: `Gatan ${index}`,
+        POSTNR: "22223",
+        POSTADR: "Lund",
+      })
+    );
+    const pdf = readPdf(
+      buildMailingLabelsPdf(buildMailingRecipients(rows), {
+        layout,
+        moreOwnersText: "+{count}",
+      })
+    );
+
+    expect(layout.columns * layout.rows).toBe(14);
+    expect(pdf.startsWith("%PDF-")).toBe(true);
+    expect(pdf).toContain("/Count 2");
+    expect(pdf).toContain("(\\304gare 0) Tj");
+    expect(pdf.trimEnd().endsWith("%%EOF")).toBe(true);
+    expect(resolveMailingLabelLayout("unknown")).toBe(
+      resolveMailingLabelLayout("3474")
+    );
+  });
+
+  it("summarises owners that do not fit on a label", () => {
+    const rows = ["A", "B", "C", "D", "E"].map((letter, index) =>
+      createOwnerRow(letter, String(index), {
+        NAMN: `Ägare ${letter}`,
+        ...home,
+      })
+    );
+    const pdf = readPdf(
+      buildMailingLabelsPdf(buildMailingRecipients(rows), {
+        layout: resolveMailingLabelLayout("3474"),
+        moreOwnersText: "+{count} more",
+      })
+    );
+
+    expect(pdf).toContain("/Count 1");
+    expect(pdf).toContain("more) Tj");
+    expect(pdf).toContain("(Storgatan 1) Tj");
+  });
+});
+
+describe("Property Report", () => {
+  const readPdf = (bytes: Uint8Array): string =>
+    Array.from(bytes, (byte) => String.fromCharCode(byte)).join("");
+
+  const createOwnerRow = (
+    id: string,
+    fnr: string,
+    owner: Partial<GridRowData["rawOwner"]>
+  ): GridRowData => ({
+    id,
+    FNR: fnr,
+    UUID_FASTIGHET: `uuid-${fnr}`,
+    FASTIGHET: `Berg ${fnr}:1`,
+    BOSTADR: "",
+    ADDRESS: "",
+    rawOwner: owner as GridRowData["rawOwner"],
+  });
+
+  const labels = {
+    title: "Report",
+    created: "Created today",
+    mapUnavailable: "No map",
+    legend: "Selected property",
+    designation: "Property",
+    owner: "Owner",
+    share: "Share",
+    page: "Page {page} of {total}",
+  };
+
+  const createOptions = (mapImage: PdfImage | null) => ({
+    labels,
+    mapImage,
+    highlightColor: [255, 0, 0, 0.5] as [number, number, number, number],
+    outlineWidth: 2,
+  });
+
+  const jpeg: PdfImage = {
+    data: new Uint8Array([0xff, 0xd8, 0xff, 0xd9]),
+    width: 400,
+    height: 300,
+  };
+
+  it("wraps text at spaces to fit a width", () => {
+    expect(wrapPdfText("Anna Andersson Berg", 60, 10)).toEqual([
+      "Anna",
+      "Andersson",
+      "Berg",
+    ]);
+    expect(wrapPdfText("Kort", 100, 10)).toEqual(["Kort"]);
+    expect(wrapPdfText("", 100, 10)).toEqual([""]);
+  });
+
+  it("embeds the map snapshot as a JPEG image with a legend", () => {
+    const pdf = readPdf(
+      buildPropertyReportPdf(
+        [createOwnerRow("a", "100", { NAMN: "Anna Berg", ANDEL: "1/2" })],
+        false,
+        "Unknown",
+        createOptions(jpeg)
+      )
+    );
+
+    expect(pdf.startsWith("%PDF-")).toBe(true);
+    expect(pdf).toContain("/Filter /DCTDecode /Length 4");
+    expect(pdf).toContain("/XObject << /Im1 ");
+    expect(pdf).toContain("/Im1 Do Q");
+    expect(pdf).toContain("(Selected property) Tj");
+    expect(pdf).toContain("(Berg 100:1) Tj");
+    expect(pdf).toContain("(Anna Berg) Tj");
+    expect(pdf).toContain("(1/2) Tj");
+    expect(pdf).toContain("(Page 1 of 1) Tj");
+  });
+
+  it("notes a missing map and masks owners", () => {
+    const pdf = readPdf(
+      buildPropertyReportPdf(
+        [createOwnerRow("a", "100", { NAMN: "Anna Berg" })],
+        true,
+        "Unknown",
+        createOptions(null)
+      )
+    );
+
+    expect(pdf).toContain("(No map) Tj");
+    expect(pdf).not.toContain("/DCTDecode");
+    expect(pdf).not.toContain("Anna Berg");
+    expect(pdf).toContain(`(${maskName("Anna Berg")}) Tj`);
+  });
+
+  it("paginates the owner table and repeats its header", () => {
+    const rows = Array.from({ length: 120 }, (_, index) =>
+      createOwnerRow(`r${index}`, String(index), { NAMN: `Owner ${index}` })
+    );
+    const pdf = readPdf(
+      buildPropertyReportPdf(rows, false, "Unknown", createOptions(jpeg))
+    );
+    const pageCount = Number(/\/Count (\d+)/.exec(pdf)?.[1]);
+
+    expect(pageCount).toBeGreaterThan(1);
+    expect(pdf.split("(Owner) Tj").length - 1).toBe(pageCount);
+    expect(pdf).toContain(`(Page ${pageCount} of ${pageCount}) Tj`);
+    expect(pdf).toContain("(Owner 119) Tj");
+  });
+
+  it("captures the selection and restores the view", async () => {
+    const viewpoint = { id: "before" };
+    const goTo = jest.fn(() => Promise.resolve());
+    const view = {
+      viewpoint: { clone: () => viewpoint },
+      goTo,
+      takeScreenshot: jest.fn(() =>
+        Promise.resolve({
+          dataUrl: "data:image/jpeg;base64,/9j/2Q==",
+          data: { width: 2, height: 1 },
+        })
+      ),
+    } as unknown as __esri.MapView;
+    const extent = {
+      clone: () => ({ expand: () => "expanded" }),
+    } as unknown as __esri.Extent;
+
+    const image = await captureSelectionSnapshot(view, extent);
+
+    expect(image?.width).toBe(2);
+    expect(Array.from(image?.data ?? [])).toEqual([0xff, 0xd8, 0xff, 0xd9]);
+    expect(goTo).toHaveBeenNthCalledWith(1, "expanded", { animate: false });
+    expect(goTo).toHaveBeenNthCalledWith(2, viewpoint, { animate: false });
+    expect(decodeDataUrl("not a data url")).toBeNull();
+  });
+});
+
 describe("Property Widget - Sort-Aware Copy", () => {
   it("should copy properties in display order when sorted ascending by FASTIGHET", () => {
     const properties: GridRowData[] = [
@@ -3273,7 +6530,11 @@ describe("Property Widget - Sort-Aware Export", () => {
     const sorting = [{ id: "FASTIGHET", desc: false }];
 
     const sorted = applySortingToProperties(properties, sorting);
-    const exported = convertToJSON(sorted, false, "Unknown");
+    const exported = buildJSONExportDocument(
+      sorted,
+      false,
+      "Unknown"
+    ).properties;
 
     expect(exported).toHaveLength(3);
     expect(exported[0].FASTIGHET).toBe("Alpha 1:1");
@@ -3286,7 +6547,11 @@ describe("Property Widget - Sort-Aware Export", () => {
     const sorting = [{ id: "FASTIGHET", desc: true }];
 
     const sorted = applySortingToProperties(properties, sorting);
-    const exported = convertToJSON(sorted, false, "Unknown");
+    const exported = buildJSONExportDocument(
+      sorted,
+      false,
+      "Unknown"
+    ).properties;
 
     expect(exported).toHaveLength(3);
     expect(exported[0].FASTIGHET).toBe("Gamma 1:1");
@@ -3384,7 +6649,11 @@ describe("Property Widget - Sort-Aware Export", () => {
     const sorting: Array<{ id: string; desc: boolean }> = [];
 
     const sorted = applySortingToProperties(properties, sorting);
-    const exported = convertToJSON(sorted, false, "Unknown");
+    const exported = buildJSONExportDocument(
+      sorted,
+      false,
+      "Unknown"
+    ).properties;
 
     // Original order preserved (Gamma, Alpha, Beta)
     expect(exported).toHaveLength(3);
@@ -3522,15 +6791,19 @@ describe("Property Widget - Sort-Aware Export", () => {
 
     const sorting = [{ id: "FASTIGHET", desc: false }];
     const sorted = applySortingToProperties(properties, sorting);
-    const exported = convertToJSON(sorted, true, "Unknown");
+    const exported = buildJSONExportDocument(
+      sorted,
+      true,
+      "Unknown"
+    ).properties;
 
     expect(exported).toHaveLength(2);
     expect(exported[0].FASTIGHET).toBe("Alpha 1:1");
-    expect(exported[0].ADDRESS).toContain("Jane Smith");
-    expect(exported[0].ADDRESS).not.toContain("***");
+    expect(exported[0].owners[0].ADDRESS).toContain("J*** S****");
+    expect(exported[0].owners[0].ADDRESS).not.toContain("Jane Smith");
     expect(exported[1].FASTIGHET).toBe("Zeta 1:1");
-    expect(exported[1].ADDRESS).toContain("John Doe");
-    expect(exported[1].ADDRESS).not.toContain("***");
+    expect(exported[1].owners[0].ADDRESS).toContain("J*** D**");
+    expect(exported[1].owners[0].ADDRESS).not.toContain("John Doe");
   });
 });
 